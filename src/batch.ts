@@ -0,0 +1,164 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "./errors.js";
+import type { ChunkingOptions } from "./types/common.js";
+import type { CodeValidation } from "./validators.js";
+
+/**
+ * Minimal shape shared by every batch response (`BatchResponse`, `SnomedBatchResponse`,
+ * `MueBatchResponse`, `PfsBatchResponse`).
+ */
+interface ChunkableResponse {
+  count: number;
+  results: unknown[];
+  meta: object;
+}
+
+/**
+ * Default number of chunks in flight at once.
+ */
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Split an array into consecutive chunks of at most `size` items.
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run `task` over every item with at most `concurrency` tasks in flight.
+ * Results are returned in input order. The first rejection rejects the whole run
+ * and stops scheduling new tasks.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index]!, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    () => worker()
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Merge per-chunk `meta` objects, keeping the first value seen for each key.
+ */
+function mergeMeta<M extends object>(metas: M[]): M {
+  const merged: Record<string, unknown> = {};
+  for (const meta of metas) {
+    for (const [key, value] of Object.entries(meta)) {
+      if (merged[key] === undefined && value !== undefined) {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged as M;
+}
+
+/**
+ * Look up an arbitrarily large list of codes by splitting it into chunks that
+ * respect the endpoint's batch limit, running them with bounded parallelism,
+ * and merging the chunk responses into one response in input order.
+ *
+ * @param codes - Codes to look up
+ * @param maxBatchSize - Endpoint batch limit
+ * @param label - Name of the input array for validation messages
+ * @param options - Chunk size and concurrency
+ * @param lookupChunk - Performs one `lookupMany`-style call for the chunk at `index`
+ */
+export async function lookupInChunks<R extends ChunkableResponse>(
+  codes: string[],
+  maxBatchSize: number,
+  label: string,
+  options: ChunkingOptions | undefined,
+  lookupChunk: (codes: string[], index: number) => Promise<R>
+): Promise<R> {
+  if (codes.length === 0) throw new ValidationError(`${label} array must not be empty`);
+
+  const chunkSize = Math.min(options?.chunkSize ?? maxBatchSize, maxBatchSize);
+  if (chunkSize < 1) throw new ValidationError(`chunkSize must be at least 1, got ${chunkSize}`);
+
+  const concurrency = options?.concurrency ?? DEFAULT_CONCURRENCY;
+  if (concurrency < 1) throw new ValidationError(`concurrency must be at least 1, got ${concurrency}`);
+
+  const responses = await mapConcurrent(chunk(codes, chunkSize), concurrency, lookupChunk);
+  const results = responses.flatMap((response) => response.results);
+
+  return {
+    ...responses[0]!,
+    count: results.length,
+    results,
+    meta: mergeMeta(responses.map((response) => response.meta)),
+  };
+}
+
+/**
+ * Batch result item for a code rejected by an offline format check.
+ */
+export function invalidResult(input: string, error: string): { input: string; status: "invalid"; error: string } {
+  return { input, status: "invalid", error };
+}
+
+/**
+ * Stand-in for the response when every input was rejected without a request.
+ * Its `meta` is empty, since nothing (and so no license or source) came back
+ * from the API.
+ */
+export function emptyBatchResponse<R extends ChunkableResponse>(): R {
+  return { count: 0, results: [], meta: {} } as unknown as R;
+}
+
+/**
+ * Check every code offline, look up only the well-formed ones, and splice
+ * `invalid` items for the rest back into the results in input order. When no
+ * code is well formed, the `invalid` items are returned without a request.
+ *
+ * @param codes - Codes to look up
+ * @param label - Name of the input array for validation messages
+ * @param validate - Offline format check for one code
+ * @param invalidItem - Builds the result item for a malformed code
+ * @param lookup - Performs the lookup for the well-formed codes
+ */
+export async function lookupValidated<R extends ChunkableResponse>(
+  codes: string[],
+  label: string,
+  validate: (code: string) => CodeValidation,
+  invalidItem: (input: string, error: string) => R["results"][number],
+  lookup: (codes: string[]) => Promise<R>
+): Promise<R> {
+  if (codes.length === 0) throw new ValidationError(`${label} array must not be empty`);
+
+  const checks = codes.map(validate);
+  const valid = codes.filter((_, i) => checks[i]!.valid);
+  const response = valid.length > 0 ? await lookup(valid) : emptyBatchResponse<R>();
+  let next = 0;
+  const results = checks.map((check, i) =>
+    check.valid ? response.results[next++] : invalidItem(codes[i]!, check.reason)
+  );
+
+  return { ...response, count: results.length, results };
+}
@@ -0,0 +1,238 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { SourceInfo } from "./types/common.js";
+
+/**
+ * A cached API response.
+ */
+export interface CacheEntry {
+  /** Parsed response body */
+  value: unknown;
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+  /** Provenance fingerprint (source version + ingest time) the entry was stored under */
+  provenance?: string;
+}
+
+/**
+ * Storage backend for the response cache.
+ *
+ * Implement this interface to back the cache with Redis, Memcached, or any
+ * other shared store. Methods may be synchronous or return promises.
+ *
+ * @example
+ * ```ts
+ * const redisCache: CacheAdapter = {
+ *   async get(key) {
+ *     const raw = await redis.get(key);
+ *     return raw ? JSON.parse(raw) : undefined;
+ *   },
+ *   async set(key, entry, ttlMs) {
+ *     await redis.set(key, JSON.stringify(entry), "PX", ttlMs);
+ *   },
+ *   async delete(key) {
+ *     await redis.del(key);
+ *   },
+ * };
+ * ```
+ */
+export interface CacheAdapter {
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  clear?(): Promise<void> | void;
+}
+
+/**
+ * Default cache time-to-live in milliseconds (1 hour).
+ */
+export const DEFAULT_CACHE_TTL = 3_600_000;
+
+/**
+ * Response cache configuration.
+ */
+export interface CacheOptions {
+  /**
+   * Storage backend.
+   * @default new MemoryCache()
+   */
+  adapter?: CacheAdapter;
+
+  /**
+   * Default time-to-live in milliseconds.
+   * @default 3600000 (1 hour)
+   */
+  ttl?: number;
+
+  /**
+   * Per-endpoint TTL overrides in milliseconds, keyed by the first path
+   * segment after `/v1/` (e.g., `ndc`, `rxnorm`, `icd10`, `fda-label`).
+   * A TTL of 0 disables caching for that endpoint.
+   */
+  endpointTtl?: Record<string, number>;
+}
+
+/**
+ * In-memory LRU cache adapter. Used by default when caching is enabled.
+ */
+export class MemoryCache implements CacheAdapter {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param maxEntries - Maximum number of entries before the least recently used is evicted
+   */
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Response cache used internally by the HTTP client.
+ *
+ * Tracks the latest provenance seen for each endpoint so that entries stored
+ * under an older source version are treated as misses once a newer release
+ * has been observed.
+ */
+export class ResponseCache {
+  private readonly adapter: CacheAdapter;
+  private readonly ttl: number;
+  private readonly endpointTtl: Record<string, number>;
+  private readonly provenance = new Map<string, string>();
+
+  constructor(options: CacheOptions = {}) {
+    this.adapter = options.adapter ?? new MemoryCache();
+    this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+    this.endpointTtl = options.endpointTtl ?? {};
+  }
+
+  /**
+   * Build a cache key from the request method and path (including `shape` and `include`).
+   */
+  static key(method: string, endpoint: string): string {
+    return `fhirfly:${method}:${endpoint}`;
+  }
+
+  /**
+   * Get the cached value for a request path, or undefined on a miss.
+   */
+  async get<T>(method: string, endpoint: string): Promise<T | undefined> {
+    if (this.ttlFor(endpoint) <= 0) return undefined;
+
+    const key = ResponseCache.key(method, endpoint);
+    const entry = await this.adapter.get(key);
+    if (!entry) return undefined;
+
+    const current = this.provenance.get(endpointGroup(endpoint));
+    const stale =
+      Date.now() >= entry.expiresAt ||
+      (current !== undefined && entry.provenance !== undefined && entry.provenance !== current);
+
+    if (stale) {
+      await this.adapter.delete(key);
+      return undefined;
+    }
+
+    return entry.value as T;
+  }
+
+  /**
+   * Store a response and record its provenance.
+   */
+  async set(method: string, endpoint: string, value: unknown): Promise<void> {
+    const group = endpointGroup(endpoint);
+    const fingerprint = provenanceOf(value);
+    if (fingerprint !== undefined) {
+      this.provenance.set(group, fingerprint);
+    }
+
+    const ttl = this.ttlFor(endpoint);
+    if (ttl <= 0) return;
+
+    await this.adapter.set(
+      ResponseCache.key(method, endpoint),
+      {
+        value,
+        expiresAt: Date.now() + ttl,
+        provenance: fingerprint ?? this.provenance.get(group),
+      },
+      ttl
+    );
+  }
+
+  /**
+   * Record provenance from a response that is not itself cached (e.g., a batch POST).
+   */
+  observe(endpoint: string, value: unknown): void {
+    const fingerprint = provenanceOf(value);
+    if (fingerprint !== undefined) {
+      this.provenance.set(endpointGroup(endpoint), fingerprint);
+    }
+  }
+
+  /**
+   * Remove all entries from the underlying adapter (if it supports clearing).
+   */
+  async clear(): Promise<void> {
+    this.provenance.clear();
+    await this.adapter.clear?.();
+  }
+
+  private ttlFor(endpoint: string): number {
+    return this.endpointTtl[endpointGroup(endpoint)] ?? this.ttl;
+  }
+}
+
+/**
+ * Extract the endpoint group (e.g., "ndc") from a request path like "/v1/ndc/123?shape=full".
+ */
+function endpointGroup(endpoint: string): string {
+  const match = endpoint.match(/^\/v1\/([^/?]+)/);
+  return match ? match[1]! : endpoint;
+}
+
+/**
+ * Build a provenance fingerprint from `meta.source` if the response carries one.
+ */
+function provenanceOf(value: unknown): string | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const source = (value as { meta?: { source?: SourceInfo } }).meta?.source;
+  if (!source || (source.version === undefined && source.fhirfly_updated_at === undefined)) {
+    return undefined;
+  }
+  return `${source.version ?? ""}|${source.fhirfly_updated_at ?? ""}`;
+}
@@ -0,0 +1,262 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type {
+  ClaimEdit,
+  ClaimEditSeverity,
+  CoverageCheckData,
+  MueLookupData,
+  MueServiceType,
+  NcciClaimType,
+  NcciValidateData,
+  PfsLookupData,
+  ScrubClaimRequest,
+  ScrubClaimResult,
+  ScrubbedClaimLine,
+} from "./types/claims.js";
+
+/**
+ * Reference data fetched for every code (and code pair) on a claim.
+ */
+export interface ClaimReferenceData {
+  ncci: NcciValidateData[];
+  mue: Map<string, MueLookupData>;
+  pfs: Map<string, PfsLookupData>;
+  coverage: Map<string, CoverageCheckData>;
+}
+
+/**
+ * CMS place of service codes paid at the PFS facility rate.
+ */
+const FACILITY_POS = new Set([
+  "02", "19", "21", "22", "23", "24", "26", "31", "34", "41", "42", "51", "52", "53", "56", "61",
+]);
+
+/**
+ * NCCI PTP-associated modifiers that may bypass an edit with modifier indicator 1.
+ */
+const PTP_MODIFIERS = new Set([
+  "59", "XE", "XP", "XS", "XU", "24", "25", "27", "57", "58", "78", "79", "91",
+  "E1", "E2", "E3", "E4", "FA", "F1", "F2", "F3", "F4", "F5", "F6", "F7", "F8", "F9",
+  "TA", "T1", "T2", "T3", "T4", "T5", "T6", "T7", "T8", "T9",
+  "LT", "RT", "LC", "LD", "LM", "RC", "RI",
+]);
+
+/**
+ * PFS status codes that are not separately payable under the fee schedule.
+ */
+const NON_PAYABLE_STATUS: Record<string, string> = {
+  B: "bundled into other services",
+  E: "excluded from the fee schedule by regulation",
+  I: "not valid for Medicare",
+  N: "non-covered",
+  P: "bundled or excluded",
+  X: "statutorily excluded",
+};
+
+const SEVERITY_ORDER: Record<ClaimEditSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Normalize a HCPCS/CPT code for comparison.
+ */
+export function normalizeHcpcs(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Default MUE service type for a claim type.
+ */
+export function defaultMueServiceType(claimType: NcciClaimType): MueServiceType {
+  return claimType === "hospital" ? "outpatient_hospital" : "practitioner";
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Evaluate claim lines against NCCI, MUE, coverage, and PFS reference data.
+ *
+ * Pure function: all lookups happen in `ClaimsEndpoint.scrubClaim()`.
+ */
+export function scrubClaimLines(request: ScrubClaimRequest, data: ClaimReferenceData): ScrubClaimResult {
+  const claimType = request.claim_type ?? "practitioner";
+  const serviceType = request.mue_service_type ?? defaultMueServiceType(claimType);
+  const edits: ClaimEdit[] = [];
+
+  const lines = request.lines.map((line, index) => ({
+    index,
+    hcpcs: normalizeHcpcs(line.hcpcs),
+    units: line.units ?? 1,
+    modifiers: (line.modifiers ?? []).map((m) => m.trim().toUpperCase()),
+    setting: (line.pos && FACILITY_POS.has(line.pos.trim().padStart(2, "0"))
+      ? "facility"
+      : "non_facility") as ScrubbedClaimLine["setting"],
+    dx: line.dx ?? [],
+  }));
+
+  const linesFor = (code: string) => lines.filter((line) => line.hcpcs === code);
+  const codes = [...new Set(lines.map((line) => line.hcpcs))];
+
+  // Diagnosis pointers
+  for (const line of lines) {
+    if (line.dx.length === 0) {
+      edits.push({
+        rule: "missing_diagnosis",
+        severity: "warning",
+        lines: [line.index],
+        codes: [line.hcpcs],
+        message: `Line ${line.index + 1} (${line.hcpcs}) has no diagnosis code`,
+      });
+    }
+  }
+
+  // NCCI PTP: pairwise across lines
+  for (const pair of data.ncci) {
+    const edit = pair.edits.find((e) => e.is_active && e.claim_type === claimType);
+    if (pair.can_bill_together || !edit) continue;
+
+    // Columns come from the edit, not from the claim order the pair was queried in
+    const code1 = normalizeHcpcs(pair.code1);
+    const code2 = normalizeHcpcs(pair.code2);
+    const involved = [...linesFor(code1), ...linesFor(code2)];
+    const refs = involved.map((line) => line.index).sort((a, b) => a - b);
+    const label = `${code1} and ${code2}`;
+
+    if (!edit.modifier_allowed) {
+      edits.push({
+        rule: "ncci_ptp",
+        severity: "error",
+        lines: refs,
+        codes: [code1, code2],
+        message: `NCCI PTP edit: ${label} cannot be billed together (${edit.rationale})`,
+      });
+    } else if (linesFor(code2).some((line) => line.modifiers.some((m) => PTP_MODIFIERS.has(m)))) {
+      edits.push({
+        rule: "ncci_modifier_bypass",
+        severity: "info",
+        lines: refs,
+        codes: [code1, code2],
+        message: `NCCI PTP edit on ${label} bypassed by modifier; documentation must support a distinct service`,
+      });
+    } else {
+      edits.push({
+        rule: "ncci_modifier_required",
+        severity: "warning",
+        lines: refs,
+        codes: [code1, code2],
+        message:
+          `NCCI PTP edit: ${label} require an NCCI-associated modifier on ${code2} to be billed together ` +
+          `(${edit.rationale})`,
+      });
+    }
+  }
+
+  // MUE: adjudication indicator 1 is a per-line edit; 2 and 3 apply to total units per date of service
+  const mueFor = new Map<string, { limit: number; adjudication_indicator: number }>();
+  for (const code of codes) {
+    const limit = data.mue.get(code)?.limits.find((l) => l.service_type === serviceType);
+    if (!limit) continue;
+    mueFor.set(code, { limit: limit.mue_value, adjudication_indicator: limit.adjudication_indicator });
+
+    const codeLines = linesFor(code);
+    if (limit.adjudication_indicator === 1) {
+      for (const line of codeLines) {
+        if (line.units > limit.mue_value) {
+          edits.push({
+            rule: "mue_exceeded",
+            severity: "error",
+            lines: [line.index],
+            codes: [code],
+            message: `Line ${line.index + 1}: ${line.units} units of ${code} exceeds the MUE of ${limit.mue_value} per line`,
+          });
+        }
+      }
+    } else {
+      const total = codeLines.reduce((sum, line) => sum + line.units, 0);
+      if (total > limit.mue_value) {
+        edits.push({
+          rule: "mue_exceeded",
+          // MAI 3 denials may be appealed with documentation of medical necessity
+          severity: limit.adjudication_indicator === 3 ? "warning" : "error",
+          lines: codeLines.map((line) => line.index),
+          codes: [code],
+          message:
+            `${total} total units of ${code} exceeds the MUE of ${limit.mue_value} per date of service ` +
+            `(${limit.adjudication_indicator_display})`,
+        });
+      }
+    }
+  }
+
+  // LCD/NCD coverage
+  const policiesFor = new Map<string, number>();
+  for (const code of codes) {
+    const active = data.coverage.get(code)?.policies.filter((p) => p.is_active).length ?? 0;
+    policiesFor.set(code, active);
+    if (active === 0) {
+      edits.push({
+        rule: "no_coverage_policy",
+        severity: "warning",
+        lines: linesFor(code).map((line) => line.index),
+        codes: [code],
+        message: `No active LCD/NCD coverage policy found for ${code}`,
+      });
+    }
+  }
+
+  // PFS payment estimates
+  for (const code of codes) {
+    const pfs = data.pfs.get(code);
+    const refs = linesFor(code).map((line) => line.index);
+    if (!pfs) {
+      edits.push({
+        rule: "pfs_not_found",
+        severity: "info",
+        lines: refs,
+        codes: [code],
+        message: `${code} is not on the Physician Fee Schedule; no payment estimate`,
+      });
+    } else if (NON_PAYABLE_STATUS[pfs.status_code]) {
+      edits.push({
+        rule: "pfs_status",
+        severity: "warning",
+        lines: refs,
+        codes: [code],
+        message:
+          `${code} has PFS status ${pfs.status_code} (${NON_PAYABLE_STATUS[pfs.status_code]}); ` +
+          "no fee schedule payment expected",
+      });
+    }
+  }
+
+  const scrubbed: ScrubbedClaimLine[] = lines.map((line) => {
+    const pfs = data.pfs.get(line.hcpcs);
+    const unitPayment = pfs && !NON_PAYABLE_STATUS[pfs.status_code]
+      ? line.setting === "facility"
+        ? pfs.calculated_payment.facility
+        : pfs.calculated_payment.non_facility
+      : undefined;
+    const mue = mueFor.get(line.hcpcs);
+    return {
+      line: line.index,
+      hcpcs: line.hcpcs,
+      units: line.units,
+      setting: line.setting,
+      ...(mue && { mue }),
+      coverage_policies: policiesFor.get(line.hcpcs) ?? 0,
+      ...(unitPayment !== undefined && {
+        unit_payment: unitPayment,
+        estimated_payment: roundCents(unitPayment * line.units),
+      }),
+    };
+  });
+
+  edits.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return {
+    clean: !edits.some((edit) => edit.severity === "error"),
+    edits,
+    lines: scrubbed,
+    estimated_payment: roundCents(scrubbed.reduce((sum, line) => sum + (line.estimated_payment ?? 0), 0)),
+  };
+}
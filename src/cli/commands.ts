@@ -0,0 +1,212 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+
+/**
+ * How a CLI subcommand maps positional arguments and flags onto an endpoint method.
+ *
+ * - `code` — `method(code, flags)`
+ * - `codes` — `method(codes, flags)`; codes come from arguments or `--file`
+ *   (streamed in chunks for `*Many` and `*All` methods, read whole otherwise)
+ * - `pair` — `method(code1, code2, flags)`
+ * - `search` — `method(params, { shape, include, limit, page, maxPages, maxItems })`
+ * - `params` — `method(params, { maxPages, maxItems })`; paging flags stay in `params`
+ * - `options` — `method(flags)`
+ * - `json` — `method(body, flags)`; body is a JSON argument or `--file`
+ * - `none` — `method()`
+ */
+export type CommandKind = "code" | "codes" | "pair" | "search" | "params" | "options" | "json" | "none";
+
+const CODE_ENDPOINT: Record<string, CommandKind> = {
+  lookup: "code",
+  lookupMany: "codes",
+  lookupAll: "codes",
+  search: "search",
+  searchPages: "search",
+  searchAll: "search",
+};
+
+/**
+ * Every endpoint method exposed by the CLI, keyed by client property and method name.
+ * Methods of nested helpers use dotted names (e.g., `pcs.decode` for `client.icd10.pcs.decode`).
+ */
+export const COMMANDS: Record<string, Record<string, CommandKind>> = {
+  ndc: CODE_ENDPOINT,
+  npi: CODE_ENDPOINT,
+  rxnorm: CODE_ENDPOINT,
+  loinc: {
+    ...CODE_ENDPOINT,
+    findVariants: "code",
+    facetParts: "params",
+    suggestMappings: "json",
+  },
+  icd10: {
+    ...CODE_ENDPOINT,
+    parent: "code",
+    ancestors: "code",
+    children: "code",
+    descendants: "code",
+    billableCodes: "code",
+    checkCodeSet: "codes",
+    "pcs.decode": "code",
+    "pcs.nextOptions": "code",
+  },
+  cvx: CODE_ENDPOINT,
+  mvx: CODE_ENDPOINT,
+  fdaLabels: CODE_ENDPOINT,
+  snomed: {
+    lookup: "code",
+    lookupMany: "codes",
+    lookupAll: "codes",
+    search: "params",
+    searchPages: "params",
+    searchAll: "params",
+    categories: "none",
+    mappings: "code",
+  },
+  connectivity: {
+    lookup: "code",
+  },
+  claims: {
+    validateNcci: "pair",
+    lookupMue: "code",
+    lookupMueMany: "codes",
+    lookupMueAll: "codes",
+    lookupPfs: "code",
+    lookupPfsMany: "codes",
+    lookupPfsAll: "codes",
+    checkCoverage: "code",
+    scrubClaim: "json",
+  },
+  drugs: {
+    resolve: "code",
+    findEquivalents: "code",
+  },
+  providers: {
+    profile: "code",
+  },
+  sma: {
+    listStates: "options",
+    getState: "code",
+    stats: "none",
+  },
+};
+
+/**
+ * Flags that configure the CLI itself and are never passed to the SDK.
+ */
+export const GLOBAL_FLAGS = new Set([
+  "format", "profile", "apiKey", "clientId", "clientSecret", "baseUrl", "file", "column", "help",
+]);
+
+/**
+ * Flags passed as the options argument of `search` commands rather than as search parameters.
+ */
+export const SEARCH_OPTION_FLAGS = new Set(["shape", "include", "limit", "page", "maxPages", "maxItems"]);
+
+/**
+ * Flags passed as the options argument of `params` commands.
+ */
+export const PAGINATION_FLAGS = new Set(["maxPages", "maxItems"]);
+
+/**
+ * Flags whose values are comma-separated lists.
+ */
+const LIST_FLAGS = new Set(["include", "sections", "vary"]);
+
+/**
+ * Flags whose values are numbers.
+ */
+const NUMBER_FLAGS = new Set([
+  "limit", "page", "skip", "maxPages", "maxItems", "concurrency", "chunkSize", "top", "candidates",
+]);
+
+/**
+ * Convert a kebab-case name (`fda-labels`, `lookup-many`) to camelCase.
+ */
+export function camelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Convert a camelCase name to kebab-case.
+ */
+export function kebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+/**
+ * Parsed command line.
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, unknown>;
+}
+
+/**
+ * Parse `--name value`, `--name=value`, and bare `--name` flags.
+ *
+ * CLI-level flags (e.g., `--max-pages`) are accepted in kebab-case; search
+ * parameters keep their API spelling (e.g., `--vaccine_type`). A bare flag is
+ * `true` and `--no-name` is `false`; use `--name=value` when a value could be
+ * mistaken for a flag.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, unknown> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      if (arg === "-h") flags.help = true;
+      else positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    if (eq === -1 && arg.startsWith("--no-")) {
+      flags[camelCase(arg.slice(5))] = false;
+      continue;
+    }
+    const name = camelCase(arg.slice(2, eq === -1 ? undefined : eq));
+    let value: string | boolean;
+    if (eq !== -1) {
+      value = arg.slice(eq + 1);
+    } else if (name !== "help" && i + 1 < argv.length && !argv[i + 1]!.startsWith("--")) {
+      value = argv[++i]!;
+    } else {
+      value = true;
+    }
+    flags[name] = coerce(name, value);
+  }
+
+  return { positionals, flags };
+}
+
+function coerce(name: string, value: string | boolean): unknown {
+  if (typeof value === "boolean") return value;
+  if (LIST_FLAGS.has(name)) return value.split(",").map((v) => v.trim()).filter(Boolean);
+  if (NUMBER_FLAGS.has(name) && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value);
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return value;
+}
+
+/**
+ * Split flags into those in `keys` and the rest.
+ */
+export function pick(
+  flags: Record<string, unknown>,
+  keys: Set<string>
+): [Record<string, unknown>, Record<string, unknown>] {
+  const picked: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flags)) {
+    if (GLOBAL_FLAGS.has(key)) continue;
+    (keys.has(key) ? picked : rest)[key] = value;
+  }
+  return [picked, rest];
+}
@@ -0,0 +1,79 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { FhirflyConfig } from "../client.js";
+
+/**
+ * A named set of credentials in the profile file.
+ */
+export interface CliProfile {
+  apiKey?: string;
+  clientId?: string;
+  clientSecret?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Default profile file location: `~/.fhirfly/credentials.json`.
+ */
+export function defaultProfilePath(): string {
+  return join(homedir(), ".fhirfly", "credentials.json");
+}
+
+async function readProfile(path: string, name: string, required: boolean): Promise<CliProfile> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Cannot read profile file ${path}: ${(error as Error).message}`);
+  }
+
+  const profiles = JSON.parse(text) as Record<string, CliProfile>;
+  const profile = profiles[name];
+  if (!profile) {
+    if (!required) return {};
+    throw new Error(`Profile "${name}" not found in ${path}`);
+  }
+  return profile;
+}
+
+/**
+ * Resolve client credentials for the CLI.
+ *
+ * Precedence: flags, then environment variables (`FHIRFLY_API_KEY`,
+ * `FHIRFLY_CLIENT_ID`, `FHIRFLY_CLIENT_SECRET`, `FHIRFLY_BASE_URL`), then the
+ * selected profile in the profile file (`--profile` / `FHIRFLY_PROFILE`,
+ * default "default"; file from `FHIRFLY_PROFILE_FILE` or
+ * `~/.fhirfly/credentials.json`).
+ */
+export async function resolveCredentials(
+  flags: Record<string, unknown>,
+  env: Record<string, string | undefined>
+): Promise<FhirflyConfig> {
+  const explicitProfile = (flags.profile as string | undefined) ?? env.FHIRFLY_PROFILE;
+  const profile = await readProfile(
+    env.FHIRFLY_PROFILE_FILE ?? defaultProfilePath(),
+    explicitProfile ?? "default",
+    explicitProfile !== undefined
+  );
+
+  const str = (value: unknown) => (typeof value === "string" && value !== "" ? value : undefined);
+  const apiKey = str(flags.apiKey) ?? str(env.FHIRFLY_API_KEY) ?? profile.apiKey;
+  const clientId = str(flags.clientId) ?? str(env.FHIRFLY_CLIENT_ID) ?? profile.clientId;
+  const clientSecret = str(flags.clientSecret) ?? str(env.FHIRFLY_CLIENT_SECRET) ?? profile.clientSecret;
+  const baseUrl = str(flags.baseUrl) ?? str(env.FHIRFLY_BASE_URL) ?? profile.baseUrl;
+
+  if (apiKey) {
+    return { apiKey, baseUrl };
+  }
+  if (clientId && clientSecret) {
+    return { clientId, clientSecret, baseUrl };
+  }
+  throw new Error(
+    "No credentials found. Set FHIRFLY_API_KEY (or FHIRFLY_CLIENT_ID and FHIRFLY_CLIENT_SECRET), " +
+      `pass --api-key, or add a profile to ${defaultProfilePath()}.`
+  );
+}
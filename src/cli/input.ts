@@ -0,0 +1,88 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+
+/**
+ * Split one CSV line into fields, honoring double-quoted fields.
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Stream codes from a text or CSV file, one per line.
+ *
+ * Without `column`, the first field of every non-empty line is used. With
+ * `column`, the first line is read as a header and that column is used.
+ *
+ * @param source - File path, or "-" for `stdin`
+ * @param stdin - Stream to read when `source` is "-"
+ * @param column - Header name of the column holding codes
+ */
+export async function* readCodes(
+  source: string,
+  stdin: Readable,
+  column?: string
+): AsyncGenerator<string> {
+  const input = source === "-" ? stdin : createReadStream(source, { encoding: "utf8" });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let index = column === undefined ? 0 : -1;
+  for await (const line of lines) {
+    if (line.trim() === "") continue;
+    const fields = parseCsvLine(line);
+
+    if (index === -1) {
+      index = fields.indexOf(column!);
+      if (index === -1) {
+        throw new Error(`Column "${column}" not found in header of ${source === "-" ? "stdin" : source}`);
+      }
+      continue;
+    }
+
+    const code = fields[index];
+    if (code) yield code;
+  }
+}
+
+/**
+ * Group an async stream into arrays of at most `size` items.
+ */
+export async function* batches<T>(items: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  let batch: T[] = [];
+  for await (const item of items) {
+    batch.push(item);
+    if (batch.length >= size) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
@@ -0,0 +1,181 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+
+/**
+ * CLI output format.
+ */
+export type OutputFormat = "json" | "ndjson" | "csv" | "table";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["json", "ndjson", "csv", "table"];
+
+/**
+ * Minimal writable stream used by the CLI (e.g., `process.stdout`).
+ */
+export interface TextSink {
+  write(chunk: string): unknown;
+}
+
+/**
+ * Writes records one at a time in the selected format.
+ */
+export interface RecordWriter {
+  write(record: unknown): void;
+  end(): void;
+}
+
+/**
+ * Extract the records from an SDK response: search items, batch results,
+ * state lists, claim edits, code set findings, PCS character options, LOINC
+ * variants, or the `data` of a single lookup.
+ */
+export function toRecords(result: unknown): unknown[] {
+  if (Array.isArray(result)) return result;
+  if (result === null || typeof result !== "object") return [result];
+  const obj = result as Record<string, unknown>;
+  for (const key of ["items", "results", "states", "categories", "edits", "findings", "options", "variants"]) {
+    if (Array.isArray(obj[key])) return obj[key] as unknown[];
+  }
+  if (obj.data !== undefined) return [obj.data];
+  return [result];
+}
+
+/**
+ * Flatten a record for tabular output.
+ *
+ * Batch result items are unwrapped so `data` fields sit beside `input` and
+ * `status` (a colliding `data` field keeps its `data.` prefix). Nested
+ * objects become dotted columns; arrays of primitives are joined with "; "
+ * and other arrays are JSON-encoded.
+ */
+export function flatten(record: unknown): Record<string, string> {
+  const out: Record<string, string> = {};
+
+  const visit = (value: unknown, prefix: string) => {
+    if (value === null || value === undefined) {
+      out[prefix] = "";
+    } else if (Array.isArray(value)) {
+      out[prefix] = value.every((v) => v === null || typeof v !== "object")
+        ? value.join("; ")
+        : JSON.stringify(value);
+    } else if (typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, prefix ? `${prefix}.${key}` : key);
+      }
+    } else {
+      out[prefix] = String(value);
+    }
+  };
+
+  if (record !== null && typeof record === "object" && !Array.isArray(record)) {
+    const { data, ...rest } = record as Record<string, unknown>;
+    if ("status" in rest && data !== null && typeof data === "object" && !Array.isArray(data)) {
+      visit(rest, "");
+      for (const [key, child] of Object.entries(data)) {
+        visit(child, key in rest ? `data.${key}` : key);
+      }
+    } else {
+      visit(record, "");
+    }
+  } else {
+    out.value = record === null || record === undefined ? "" : String(record);
+  }
+  return out;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Records sampled to choose CSV columns before the header is written.
+ */
+const CSV_HEADER_SAMPLE = 100;
+
+/**
+ * Create a writer for `format`.
+ *
+ * `json` writes a single array; `ndjson` and `csv` stream one line per
+ * record (CSV columns are the union over the first records); `table`
+ * buffers all records to size its columns.
+ */
+export function createRecordWriter(format: OutputFormat, out: TextSink): RecordWriter {
+  switch (format) {
+    case "json": {
+      let count = 0;
+      return {
+        write(record) {
+          out.write(`${count++ === 0 ? "[\n" : ",\n"}${JSON.stringify(record)}`);
+        },
+        end() {
+          out.write(count === 0 ? "[]\n" : "\n]\n");
+        },
+      };
+    }
+
+    case "ndjson":
+      return {
+        write(record) {
+          out.write(`${JSON.stringify(record)}\n`);
+        },
+        end() {},
+      };
+
+    case "csv": {
+      let columns: string[] | undefined;
+      const pending: Record<string, string>[] = [];
+      const writeRow = (row: Record<string, string>) =>
+        out.write(`${columns!.map((c) => csvCell(row[c] ?? "")).join(",")}\n`);
+      const flush = () => {
+        columns = [...new Set(pending.flatMap((row) => Object.keys(row)))];
+        out.write(`${columns.map(csvCell).join(",")}\n`);
+        pending.splice(0).forEach(writeRow);
+      };
+      return {
+        write(record) {
+          if (columns) {
+            writeRow(flatten(record));
+          } else {
+            pending.push(flatten(record));
+            if (pending.length >= CSV_HEADER_SAMPLE) flush();
+          }
+        },
+        end() {
+          if (!columns && pending.length > 0) flush();
+        },
+      };
+    }
+
+    case "table": {
+      const rows: Record<string, string>[] = [];
+      return {
+        write(record) {
+          rows.push(flatten(record));
+        },
+        end() {
+          out.write(renderTable(rows));
+        },
+      };
+    }
+  }
+}
+
+const MAX_CELL_WIDTH = 60;
+
+function renderTable(rows: Record<string, string>[]): string {
+  if (rows.length === 0) return "(no results)\n";
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const clip = (value: string) =>
+    value.length > MAX_CELL_WIDTH ? `${value.slice(0, MAX_CELL_WIDTH - 1)}…` : value;
+  const widths = columns.map((c) =>
+    Math.max(c.length, ...rows.map((row) => clip(row[c] ?? "").length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i]!)).join("  ").trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map((row) => line(columns.map((c) => clip(row[c] ?? "")))),
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,236 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { readFile } from "node:fs/promises";
+import type { Readable } from "node:stream";
+import { text } from "node:stream/consumers";
+import { Fhirfly } from "../client.js";
+import { FhirflyError } from "../errors.js";
+import {
+  COMMANDS,
+  PAGINATION_FLAGS,
+  SEARCH_OPTION_FLAGS,
+  camelCase,
+  kebabCase,
+  parseArgs,
+  pick,
+  type CommandKind,
+} from "./commands.js";
+import { resolveCredentials } from "./credentials.js";
+import { batches, readCodes } from "./input.js";
+import {
+  OUTPUT_FORMATS,
+  createRecordWriter,
+  toRecords,
+  type OutputFormat,
+  type TextSink,
+} from "./output.js";
+
+/**
+ * Process streams and environment used by {@link run}.
+ */
+export interface CliIo {
+  stdout: TextSink;
+  stderr: TextSink;
+  stdin: Readable;
+  env: Record<string, string | undefined>;
+  /** Custom fetch implementation passed to the client */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Codes read from `--file` per `lookupAll` call, so large files are never
+ * held in memory at once.
+ */
+const FILE_BATCH_SIZE = 1000;
+
+/** Exit code for API, network, and I/O failures */
+const EXIT_ERROR = 1;
+/** Exit code for invalid command lines */
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+type Method = (...args: unknown[]) => unknown;
+
+const USAGE_ARGS: Record<CommandKind, string> = {
+  code: "<code>",
+  codes: "<code>... | --file <path> [--column <name>]",
+  pair: "<code1> <code2>",
+  search: "[--<param> <value>]... [--limit n] [--page n]",
+  params: "[--<param> <value>]...",
+  options: "[--<option> <value>]...",
+  json: "<json> | --file <path>",
+  none: "",
+};
+
+function usage(endpoint?: string): string {
+  const endpoints = endpoint ? [endpoint] : Object.keys(COMMANDS);
+  const lines = [
+    "Usage: fhirfly <endpoint> <method> [arguments] [flags]",
+    "",
+    "Commands:",
+    ...endpoints.flatMap((name) =>
+      Object.entries(COMMANDS[name]!).map(
+        ([method, kind]) => `  ${kebabCase(name)} ${kebabCase(method)} ${USAGE_ARGS[kind]}`.trimEnd()
+      )
+    ),
+    "",
+    "Flags:",
+    "  --shape <compact|standard|full>   Response detail level",
+    "  --include <a,b>                   Additional fields to include",
+    "  --format <json|ndjson|csv|table>  Output format (default: json)",
+    "  --file <path|->                   Read batch codes (text/CSV) or JSON input from a file or stdin",
+    "  --column <name>                   CSV header of the column holding codes",
+    "  --max-pages <n>, --max-items <n>  Limits for search-all and search-pages",
+    "  --no-<option>                     Turn off a boolean option (e.g., --no-labels)",
+    "  --profile <name>                  Profile in ~/.fhirfly/credentials.json",
+    "  --api-key <key>                   API key (default: FHIRFLY_API_KEY)",
+    "  --base-url <url>                  API base URL",
+    "",
+    "Any other flag is passed through as a search parameter or method option.",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return value !== null && typeof value === "object" && Symbol.asyncIterator in value;
+}
+
+function parseJson(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch (error) {
+    throw new UsageError(`Invalid JSON input: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Find the object and function behind a command, walking nested helpers for
+ * dotted method names (e.g., `pcs.decode` on `client.icd10`).
+ */
+function resolveMethod(client: Fhirfly, endpoint: string, method: string): [Record<string, Method>, string] {
+  const path = [endpoint, ...method.split(".")];
+  const name = path.pop()!;
+  let target: unknown = client;
+  for (const key of path) target = (target as Record<string, unknown>)[key];
+  return [target as Record<string, Method>, name];
+}
+
+/**
+ * Build the method arguments for a command from its positionals and flags.
+ */
+function buildArgs(kind: CommandKind, positionals: string[], flags: Record<string, unknown>): unknown[] {
+  const [, options] = pick(flags, new Set());
+
+  switch (kind) {
+    case "code":
+      if (positionals.length !== 1) throw new UsageError("Expected exactly one code");
+      return [positionals[0], options];
+    case "codes":
+      if (positionals.length === 0) throw new UsageError("Expected one or more codes, or --file");
+      return [positionals, options];
+    case "pair":
+      if (positionals.length !== 2) throw new UsageError("Expected two codes");
+      return [positionals[0], positionals[1], options];
+    case "search": {
+      const [searchOptions, params] = pick(flags, SEARCH_OPTION_FLAGS);
+      return [params, searchOptions];
+    }
+    case "params": {
+      const [paginationOptions, params] = pick(flags, PAGINATION_FLAGS);
+      return [params, paginationOptions];
+    }
+    case "options":
+      return [options];
+    case "json":
+      if (positionals.length !== 1) throw new UsageError("Expected a JSON argument or --file");
+      return [parseJson(positionals[0]!), options];
+    case "none":
+      return [];
+  }
+}
+
+/**
+ * Run the FHIRfly CLI.
+ *
+ * @param argv - Arguments after the executable (e.g., `["ndc", "lookup", "0069-0151-01"]`)
+ * @param io - Process streams and environment
+ * @returns Process exit code: 0 on success, 1 on errors, 2 on usage errors
+ */
+export async function run(argv: string[], io: CliIo): Promise<number> {
+  const { positionals, flags } = parseArgs(argv);
+  const [endpointArg, methodArg, ...rest] = positionals;
+  const endpoint = endpointArg ? camelCase(endpointArg) : undefined;
+  const method = methodArg ? camelCase(methodArg) : undefined;
+
+  if (flags.help || !endpoint || !method) {
+    const known = endpoint && COMMANDS[endpoint] ? endpoint : undefined;
+    (flags.help ? io.stdout : io.stderr).write(usage(known));
+    return flags.help ? 0 : EXIT_USAGE;
+  }
+
+  try {
+    const kind = COMMANDS[endpoint]?.[method];
+    if (!COMMANDS[endpoint]) throw new UsageError(`Unknown endpoint "${endpointArg}"`);
+    if (!kind) throw new UsageError(`Unknown method "${methodArg}" for ${endpointArg}`);
+
+    const format = (flags.format ?? "json") as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format "${String(flags.format)}" (expected ${OUTPUT_FORMATS.join(", ")})`);
+    }
+
+    const credentials = await resolveCredentials(flags, io.env);
+    const client = new Fhirfly({ ...credentials, fetch: io.fetch });
+    const [target, name] = resolveMethod(client, endpoint, method);
+
+    if (kind === "codes" && typeof flags.file === "string") {
+      if (rest.length > 0) throw new UsageError("Pass codes as arguments or with --file, not both");
+      const codes = readCodes(flags.file, io.stdin, flags.column as string | undefined);
+      if (!/(Many|All)$/.test(method)) {
+        for await (const code of codes) rest.push(code);
+      } else {
+        const streamMethod = method.replace(/Many$/, "All");
+        const [, options] = pick(flags, new Set());
+        const writer = createRecordWriter(format, io.stdout);
+        for await (const batch of batches(codes, FILE_BATCH_SIZE)) {
+          const response = await target[streamMethod]!.call(target, batch, options);
+          for (const record of toRecords(response)) writer.write(record);
+        }
+        writer.end();
+        return 0;
+      }
+    }
+
+    if (kind === "json" && typeof flags.file === "string") {
+      if (rest.length > 0) throw new UsageError("Pass JSON as an argument or with --file, not both");
+      rest.push(flags.file === "-" ? await text(io.stdin) : await readFile(flags.file, "utf8"));
+    }
+
+    const result = await target[name]!.call(target, ...buildArgs(kind, rest, flags));
+
+    if (isAsyncIterable(result)) {
+      const expand = format !== "json" && method.endsWith("Pages");
+      const writer = createRecordWriter(format, io.stdout);
+      for await (const value of result) {
+        for (const record of expand ? toRecords(value) : [value]) writer.write(record);
+      }
+      writer.end();
+    } else if (format === "json") {
+      io.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      const writer = createRecordWriter(format, io.stdout);
+      for (const record of toRecords(result)) writer.write(record);
+      writer.end();
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      const help = COMMANDS[endpoint] ? usage(endpoint) : "Run `fhirfly --help` for usage.\n";
+      io.stderr.write(`error: ${error.message}\n\n${help}`);
+      return EXIT_USAGE;
+    }
+    const label = error instanceof FhirflyError ? `${error.name}: ` : "";
+    io.stderr.write(`error: ${label}${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_ERROR;
+  }
+}
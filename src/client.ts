@@ -1,6 +1,11 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
 import { HttpClient, TokenManager, type HttpClientConfig } from "./http.js";
+import { ResponseCache, type CacheOptions } from "./cache.js";
+import type { Middleware } from "./middleware.js";
+import { Telemetry, type TelemetryOptions } from "./telemetry.js";
+import { RateLimiter, type RateLimitOptions, type RateLimitUsage } from "./rate-limit.js";
+import { ResponseValidator, type ResponseValidationMode, type SchemaDriftHandler } from "./response-validation.js";
 import { NdcEndpoint } from "./endpoints/ndc.js";
 import { NpiEndpoint } from "./endpoints/npi.js";
 import { RxNormEndpoint } from "./endpoints/rxnorm.js";
@@ -13,6 +18,8 @@ import { ConnectivityEndpoint } from "./endpoints/connectivity.js";
 import { SnomedEndpoint } from "./endpoints/snomed.js";
 import { ClaimsEndpoint } from "./endpoints/claims.js";
 import { SmaEndpoint } from "./endpoints/sma.js";
+import { DrugsEndpoint } from "./endpoints/drugs.js";
+import { ProvidersEndpoint } from "./endpoints/providers.js";
 
 /**
  * Base configuration options shared by all auth modes.
@@ -41,6 +48,59 @@ interface FhirflyBaseConfig {
    * @default 1000
    */
   retryDelay?: number;
+
+  /**
+   * Opt-in response cache for GET lookups and searches.
+   * Pass `true` for an in-memory LRU cache with default TTLs, or an options
+   * object to supply a custom adapter (e.g., Redis) and per-endpoint TTLs.
+   * @default false
+   */
+  cache?: boolean | CacheOptions;
+
+  /**
+   * Custom fetch implementation (e.g., a test double from
+   * `@fhirfly-io/terminology/testing`).
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Request/response middleware, run in order around every request attempt.
+   * Use for tracing headers, audit logging, metrics, or serving mocks.
+   * @default []
+   */
+  middleware?: Middleware[];
+
+  /**
+   * OpenTelemetry tracing and metrics. Each endpoint method call emits a span
+   * named after the method (e.g., `ndc.lookup`). Requires the optional
+   * `@opentelemetry/api` peer dependency; a no-op when it is not installed.
+   * @default true
+   */
+  telemetry?: boolean | TelemetryOptions;
+
+  /**
+   * Client-side rate limiter. Paces requests across all endpoints with a token
+   * bucket driven by the API's `x-ratelimit-*` headers. Pass an options object
+   * to tune the burst size or share state between processes.
+   * @default false
+   */
+  rateLimit?: boolean | RateLimitOptions;
+
+  /**
+   * Check every response against runtime schemas matching the SDK's types.
+   * `"warn"` reports drift (missing or extra fields, type mismatches) to
+   * `onSchemaDrift`, or `console.warn`; `"strict"` also throws
+   * `ResponseValidationError`.
+   * @default "off"
+   */
+  validateResponses?: ResponseValidationMode;
+
+  /**
+   * Called with the endpoint and issues for each response that does not match
+   * the SDK's types, when `validateResponses` is `"warn"` or `"strict"`.
+   */
+  onSchemaDrift?: SchemaDriftHandler;
 }
 
 /**
@@ -120,6 +180,7 @@ export type FhirflyConfig = FhirflyApiKeyConfig | FhirflyOAuthConfig;
  */
 export class Fhirfly {
   private readonly http: HttpClient;
+  private readonly rateLimiter: RateLimiter;
 
   /**
    * NDC (National Drug Code) lookups.
@@ -185,6 +246,18 @@ export class Fhirfly {
    */
   readonly sma: SmaEndpoint;
 
+  /**
+   * Drug crosswalk across NDC, RxNorm, FDA labels, and SNOMED CT.
+   * Resolve any drug identifier into one normalized profile graph.
+   */
+  readonly drugs: DrugsEndpoint;
+
+  /**
+   * Provider directory combining NPI, connectivity, and SMA data.
+   * Build one profile per provider, with per-section partial failures.
+   */
+  readonly providers: ProvidersEndpoint;
+
   /**
    * Create a new FHIRfly client.
    *
@@ -195,6 +268,25 @@ export class Fhirfly {
     const baseUrl = config.baseUrl ?? "https://api.fhirfly.io";
 
     let httpConfig: HttpClientConfig;
+    const telemetry = config.telemetry === false
+      ? undefined
+      : new Telemetry(config.telemetry === true ? {} : config.telemetry);
+    // Headers are always recorded for usage(); pacing is opt-in
+    this.rateLimiter = new RateLimiter(
+      typeof config.rateLimit === "object" ? config.rateLimit : {},
+      Boolean(config.rateLimit)
+    );
+    const middleware = [
+      ...(telemetry ? [telemetry.middleware] : []),
+      ...(config.middleware ?? []),
+      this.rateLimiter.middleware,
+    ];
+    const cache = config.cache
+      ? new ResponseCache(config.cache === true ? {} : config.cache)
+      : undefined;
+    const validator = config.validateResponses && config.validateResponses !== "off"
+      ? new ResponseValidator(config.validateResponses, config.onSchemaDrift)
+      : undefined;
 
     if ("apiKey" in config && config.apiKey) {
       httpConfig = {
@@ -203,6 +295,10 @@ export class Fhirfly {
         timeout: config.timeout,
         maxRetries: config.maxRetries,
         retryDelay: config.retryDelay,
+        cache,
+        fetch: config.fetch,
+        middleware,
+        validator,
       };
     } else if ("clientId" in config && config.clientId && config.clientSecret) {
       const tokenManager = new TokenManager({
@@ -210,6 +306,7 @@ export class Fhirfly {
         clientSecret: config.clientSecret,
         tokenUrl: config.tokenUrl ?? `${baseUrl}/oauth2/token`,
         scopes: config.scopes,
+        fetch: config.fetch,
       });
       httpConfig = {
         baseUrl,
@@ -217,6 +314,10 @@ export class Fhirfly {
         timeout: config.timeout,
         maxRetries: config.maxRetries,
         retryDelay: config.retryDelay,
+        cache,
+        fetch: config.fetch,
+        middleware,
+        validator,
       };
     } else {
       throw new Error(
@@ -226,18 +327,49 @@ export class Fhirfly {
 
     this.http = new HttpClient(httpConfig);
 
-    // Initialize endpoints
-    this.ndc = new NdcEndpoint(this.http);
-    this.npi = new NpiEndpoint(this.http);
-    this.rxnorm = new RxNormEndpoint(this.http);
-    this.loinc = new LoincEndpoint(this.http);
-    this.icd10 = new Icd10Endpoint(this.http);
-    this.cvx = new CvxEndpoint(this.http);
-    this.mvx = new MvxEndpoint(this.http);
-    this.fdaLabels = new FdaLabelsEndpoint(this.http);
-    this.connectivity = new ConnectivityEndpoint(this.http);
-    this.snomed = new SnomedEndpoint(this.http);
-    this.claims = new ClaimsEndpoint(this.http);
-    this.sma = new SmaEndpoint(this.http);
+    // Initialize endpoints, wrapped in spans when telemetry is enabled
+    const instrument = <T extends object>(endpoint: T, name: string): T =>
+      telemetry ? telemetry.instrument(endpoint, name) : endpoint;
+    this.ndc = instrument(new NdcEndpoint(this.http), "ndc");
+    this.npi = instrument(new NpiEndpoint(this.http), "npi");
+    this.rxnorm = instrument(new RxNormEndpoint(this.http), "rxnorm");
+    this.loinc = instrument(new LoincEndpoint(this.http), "loinc");
+    this.icd10 = instrument(new Icd10Endpoint(this.http), "icd10");
+    this.cvx = instrument(new CvxEndpoint(this.http), "cvx");
+    this.mvx = instrument(new MvxEndpoint(this.http), "mvx");
+    this.fdaLabels = instrument(new FdaLabelsEndpoint(this.http), "fdaLabels");
+    this.connectivity = instrument(new ConnectivityEndpoint(this.http), "connectivity");
+    this.snomed = instrument(new SnomedEndpoint(this.http), "snomed");
+    this.claims = instrument(new ClaimsEndpoint(this.http), "claims");
+    this.sma = instrument(new SmaEndpoint(this.http), "sma");
+    this.drugs = instrument(
+      new DrugsEndpoint(
+        { ndc: this.ndc, rxnorm: this.rxnorm, fdaLabels: this.fdaLabels, snomed: this.snomed },
+        config.cache === true ? {} : config.cache || undefined
+      ),
+      "drugs"
+    );
+    this.providers = instrument(
+      new ProvidersEndpoint({ npi: this.npi, connectivity: this.connectivity, sma: this.sma }),
+      "providers"
+    );
+  }
+
+  /**
+   * Latest rate-limit information reported by the API: the per-window limit,
+   * the remaining budget (counting requests sent since), and the reset time.
+   *
+   * @returns Usage, or null until a response has included rate-limit headers
+   *
+   * @example
+   * ```ts
+   * const usage = await client.usage();
+   * if (usage?.remaining !== undefined && usage.remaining < 100) {
+   *   console.warn(`Only ${usage.remaining} requests left until ${usage.reset}`);
+   * }
+   * ```
+   */
+  usage(): Promise<RateLimitUsage | null> {
+    return this.rateLimiter.usage();
   }
 }
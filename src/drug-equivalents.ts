@@ -0,0 +1,96 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { normalizeNdc } from "./ndc.js";
+import type { DrugConceptRef, DrugEquivalentGroup } from "./types/drugs.js";
+import type { NdcFull } from "./types/ndc.js";
+import type { RxNormFull, RxTermType } from "./types/rxnorm.js";
+
+/**
+ * Generic counterpart of each branded clinical drug term type.
+ */
+const GENERIC_TTY: Partial<Record<RxTermType, RxTermType>> = {
+  SBD: "SCD",
+  BPCK: "GPCK",
+};
+
+/**
+ * Find the generic clinical drug of an RxNorm concept: the concept itself for
+ * an SCD or GPCK, or its generic counterpart for an SBD or BPCK.
+ *
+ * @returns The clinical drug, or null when the concept is not a clinical drug
+ *   or has no generic counterpart
+ */
+export function clinicalDrugOf(concept: RxNormFull): DrugConceptRef | null {
+  if (concept.tty === "SCD" || concept.tty === "GPCK") {
+    return { rxcui: concept.rxcui, name: concept.name, tty: concept.tty };
+  }
+  const tty = GENERIC_TTY[concept.tty];
+  if (!tty) return null;
+
+  const candidates = (concept.related ?? []).filter((related) => related.tty === tty);
+  const generic = candidates.find((related) => related.relation === "tradename_of") ?? candidates[0];
+  return generic ? { rxcui: generic.rxcui, name: generic.name, tty: generic.tty } : null;
+}
+
+/**
+ * Filters for equivalent packages. `reference` is the input NDC, if any.
+ */
+export interface EquivalentFilter {
+  clinicalDrug: string;
+  reference: NdcFull | null;
+  sameRoute: boolean;
+  sameDoseForm: boolean;
+  activeOnly: boolean;
+}
+
+function routeKey(route: string[] | null): string | null {
+  return route ? route.map((value) => value.toUpperCase()).sort().join(",") : null;
+}
+
+function sameValue(a: string | null, b: string | null): boolean {
+  return a !== null && b !== null && a.toUpperCase() === b.toUpperCase();
+}
+
+/**
+ * Filter NDC search results to packages of the clinical drug and group them
+ * by labeler and marketing category. The reference NDC itself is excluded.
+ *
+ * Groups with generic packages come first, then groups are ordered by
+ * labeler and marketing category.
+ */
+export function groupEquivalents(records: NdcFull[], filter: EquivalentFilter): DrugEquivalentGroup[] {
+  const { reference } = filter;
+  const referenceNdc = reference ? normalizeNdc(reference.ndc) ?? reference.ndc : null;
+  const seen = new Set<string>();
+  const groups = new Map<string, DrugEquivalentGroup>();
+
+  for (const record of records) {
+    if (record.type !== "package" || !record.rxcui.includes(filter.clinicalDrug)) continue;
+    if (filter.activeOnly && !record.is_active) continue;
+    const ndc = normalizeNdc(record.ndc) ?? record.ndc;
+    if (ndc === referenceNdc || seen.has(ndc)) continue;
+    if (reference && filter.sameRoute && !sameValue(routeKey(record.route), routeKey(reference.route))) continue;
+    if (reference && filter.sameDoseForm && !sameValue(record.dosage_form, reference.dosage_form)) continue;
+    seen.add(ndc);
+
+    const key = `${record.labeler_name ?? ""}|${record.marketing_category ?? ""}`;
+    const group = groups.get(key);
+    if (group) {
+      group.packages.push(record);
+    } else {
+      groups.set(key, {
+        labeler_name: record.labeler_name,
+        marketing_category: record.marketing_category,
+        packages: [record],
+      });
+    }
+  }
+
+  const isGeneric = (group: DrugEquivalentGroup) => group.packages.some((record) => record.is_generic);
+  return [...groups.values()].sort(
+    (a, b) =>
+      Number(isGeneric(b)) - Number(isGeneric(a)) ||
+      (a.labeler_name ?? "").localeCompare(b.labeler_name ?? "") ||
+      (a.marketing_category ?? "").localeCompare(b.marketing_category ?? "")
+  );
+}
@@ -0,0 +1,161 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { parseNdc } from "./ndc.js";
+import { validateRxcui, validateSnomed } from "./validators.js";
+import type {
+  DrugEdge,
+  DrugIdentifierType,
+  DrugNode,
+  DrugNodeSystem,
+  DrugProfile,
+  DrugRelation,
+} from "./types/drugs.js";
+import type { NdcStandard } from "./types/ndc.js";
+import type { RxNormFull, RxTermType } from "./types/rxnorm.js";
+import type { FdaLabelData } from "./types/fda-labels.js";
+import type { SnomedConcept, SnomedReverseMapping } from "./types/snomed.js";
+
+/**
+ * Records fetched while resolving a drug identifier.
+ */
+export interface DrugRecords {
+  ndc: NdcStandard[];
+  rxnorm: RxNormFull[];
+  labels: FdaLabelData[];
+  snomed: SnomedConcept[];
+  /** Reverse mappings of a SNOMED CT input */
+  snomedMappings: SnomedReverseMapping[];
+}
+
+const SPL_SET_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Longest RxCUI assumed when detecting identifier types. Current RxCUIs have
+ * at most 7 digits; longer digit strings are treated as SNOMED CT IDs or NDCs.
+ */
+const MAX_RXCUI_DIGITS = 7;
+
+/**
+ * Infer the type of a drug identifier from its format.
+ *
+ * SPL set IDs are UUIDs and hyphenated values are NDCs. Digit strings of up
+ * to 7 digits are RxCUIs; longer ones are SNOMED CT IDs when they pass the
+ * SNOMED CT check digit, otherwise NDCs (10 or 11 digits).
+ *
+ * @returns The identifier type, or null when the format matches none
+ */
+export function detectDrugIdentifier(identifier: string): DrugIdentifierType | null {
+  const value = identifier.trim();
+  if (SPL_SET_ID.test(value)) return "spl_set_id";
+  if (value.includes("-")) return parseNdc(value).status === "invalid" ? null : "ndc";
+  if (!/^\d+$/.test(value)) return null;
+  if (value.length <= MAX_RXCUI_DIGITS) return validateRxcui(value).valid ? "rxcui" : null;
+  if (value.length !== 11 && validateSnomed(value).valid) return "snomed";
+  return value.length === 10 || value.length === 11 ? "ndc" : null;
+}
+
+/**
+ * Accumulates deduplicated nodes and edges.
+ */
+class GraphBuilder {
+  private readonly nodes = new Map<string, DrugNode>();
+  private readonly edges = new Map<string, DrugEdge>();
+
+  node(system: DrugNodeSystem, code: string, display: string | null, tty?: RxTermType): string {
+    const id = `${system}:${code}`;
+    const existing = this.nodes.get(id);
+    if (existing) {
+      existing.display ??= display;
+      existing.tty ??= tty;
+    } else {
+      this.nodes.set(id, tty === undefined ? { id, system, code, display } : { id, system, code, display, tty });
+    }
+    return id;
+  }
+
+  edge(from: string, to: string, relation: DrugRelation, detail?: string): void {
+    const key = `${from}|${to}|${relation}|${detail ?? ""}`;
+    if (!this.edges.has(key)) {
+      this.edges.set(key, detail === undefined ? { from, to, relation } : { from, to, relation, detail });
+    }
+  }
+
+  build(): { nodes: DrugNode[]; edges: DrugEdge[] } {
+    return { nodes: [...this.nodes.values()], edges: [...this.edges.values()] };
+  }
+}
+
+function labelDisplay(label: FdaLabelData): string | null {
+  return label.metadata.brand_name[0] ?? label.metadata.generic_name[0] ?? null;
+}
+
+/**
+ * Link the records fetched for a drug identifier into a profile graph.
+ *
+ * Pure function: all lookups happen in `DrugsEndpoint.resolve()`.
+ */
+export function buildDrugProfile(
+  input: string,
+  inputType: DrugIdentifierType,
+  records: DrugRecords
+): DrugProfile {
+  const graph = new GraphBuilder();
+
+  for (const ndc of records.ndc) {
+    const id = graph.node("ndc", ndc.ndc, ndc.brand_name ?? ndc.generic_name);
+    for (const rxcui of ndc.rxcui) graph.edge(id, graph.node("rxnorm", rxcui, null), "has_rxcui");
+  }
+
+  const roots = records.rxnorm.map((concept) => {
+    const id = graph.node("rxnorm", concept.rxcui, concept.name, concept.tty);
+    for (const ingredient of concept.ingredients ?? []) {
+      graph.edge(id, graph.node("rxnorm", ingredient.rxcui, ingredient.name), "has_ingredient");
+    }
+    for (const brand of concept.brands ?? []) {
+      graph.edge(id, graph.node("rxnorm", brand.rxcui, brand.name), "has_brand");
+    }
+    if (concept.dose_form) {
+      graph.edge(id, graph.node("rxnorm", concept.dose_form.rxcui, concept.dose_form.name), "has_dose_form");
+    }
+    for (const related of concept.related ?? []) {
+      graph.edge(id, graph.node("rxnorm", related.rxcui, related.name, related.tty), "related", related.relation);
+    }
+    for (const ndc of concept.ndcs ?? []) {
+      graph.edge(graph.node("ndc", ndc, null), id, "has_rxcui");
+    }
+    for (const snomed of concept.snomed ?? []) {
+      graph.edge(id, graph.node("snomed", snomed.concept_id, snomed.display ?? null), "has_snomed", snomed.map_type);
+    }
+    return id;
+  });
+
+  const rootCodes = new Set(records.rxnorm.map((concept) => concept.rxcui));
+  for (const label of records.labels) {
+    const id = graph.node("fda_label", label.metadata.set_id, labelDisplay(label));
+    for (const rxcui of label.metadata.rxcui) {
+      if (rootCodes.has(rxcui)) graph.edge(`rxnorm:${rxcui}`, id, "has_label");
+    }
+  }
+
+  for (const concept of records.snomed) {
+    const id = graph.node("snomed", concept.concept_id, concept.preferred_term ?? concept.fsn);
+    for (const mapping of records.snomedMappings) {
+      if (mapping.source_system === "rxnorm" && rootCodes.has(mapping.source_code)) {
+        graph.edge(`rxnorm:${mapping.source_code}`, id, "has_snomed", mapping.map_type);
+      }
+    }
+  }
+
+  return {
+    input,
+    input_type: inputType,
+    roots,
+    ...graph.build(),
+    records: {
+      ndc: records.ndc,
+      rxnorm: records.rxnorm,
+      labels: records.labels,
+      snomed: records.snomed,
+    },
+  };
+}
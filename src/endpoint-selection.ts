@@ -0,0 +1,200 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type {
+  ConnectivityEndpointData,
+  ConnectivityTargetData,
+  EndpointSelection,
+  EndpointSelectionCheck,
+  EndpointSelectionPolicy,
+  NpiConnectivityData,
+} from "./types/connectivity.js";
+
+const STATUS_ORDER: Record<ConnectivityEndpointData["status"], number> = {
+  active: 0,
+  unverified: 1,
+  inactive: 2,
+  unreachable: 3,
+};
+
+const CONFIDENCE_ORDER: Record<ConnectivityTargetData["link_confidence"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+  inferred: 3,
+};
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Tier of an endpoint: production FHIR R4, then Direct, then everything else.
+ */
+function tier(endpoint: ConnectivityEndpointData): number {
+  if (endpoint.type === "fhir_r4" && endpoint.scope === "production") return 0;
+  if (endpoint.type === "direct") return 1;
+  return 2;
+}
+
+/**
+ * Sort key of an endpoint: tier, status, link confidence, availability, then
+ * consecutive failures.
+ */
+export function endpointRank(
+  endpoint: ConnectivityEndpointData,
+  confidence: ConnectivityTargetData["link_confidence"]
+): number[] {
+  return [
+    tier(endpoint),
+    STATUS_ORDER[endpoint.status],
+    CONFIDENCE_ORDER[confidence],
+    -(endpoint.availability?.percentage ?? -1),
+    endpoint.availability?.consecutive_failures ?? 0,
+  ];
+}
+
+/**
+ * Compare two {@link endpointRank} keys; lower ranks first.
+ */
+export function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function list(values: string[]): string {
+  return values.join(", ");
+}
+
+/**
+ * Check an endpoint against each rule of a policy, in a fixed order.
+ */
+function checkEndpoint(
+  endpoint: ConnectivityEndpointData,
+  confidence: ConnectivityTargetData["link_confidence"],
+  policy: EndpointSelectionPolicy,
+  now: number
+): EndpointSelectionCheck[] {
+  const checks: EndpointSelectionCheck[] = [];
+  const check = (rule: EndpointSelectionCheck["rule"], passed: boolean, message: string) =>
+    checks.push({ rule, passed, message });
+
+  if (policy.types) {
+    const passed = policy.types.includes(endpoint.type);
+    check("type", passed, passed ? `type ${endpoint.type}` : `type ${endpoint.type} is not one of ${list(policy.types)}`);
+  }
+
+  if (policy.productionOnly ?? true) {
+    const passed = endpoint.scope === "production";
+    check("scope", passed, passed ? "production scope" : `scope is ${endpoint.scope}, not production`);
+  }
+
+  const statuses = policy.statuses ?? ["active", "unverified"];
+  const statusAllowed = statuses.includes(endpoint.status);
+  check(
+    "status",
+    statusAllowed,
+    statusAllowed ? `status ${endpoint.status}` : `status ${endpoint.status} is not one of ${list(statuses)}`
+  );
+
+  if (policy.minUptime !== undefined) {
+    const uptime = endpoint.availability?.percentage;
+    if (uptime === undefined) {
+      check("uptime", false, "no availability data");
+    } else {
+      const passed = uptime >= policy.minUptime;
+      check("uptime", passed, `uptime ${uptime}% is ${passed ? "at least" : "below"} ${policy.minUptime}%`);
+    }
+  }
+
+  if (policy.maxConsecutiveFailures !== undefined) {
+    const failures = endpoint.availability?.consecutive_failures ?? 0;
+    const passed = failures <= policy.maxConsecutiveFailures;
+    check("failures", passed, `${failures} consecutive failures (limit ${policy.maxConsecutiveFailures})`);
+  }
+
+  if (policy.maxStalenessDays !== undefined) {
+    const verified = endpoint.last_verified_at ? Date.parse(endpoint.last_verified_at) : NaN;
+    if (Number.isNaN(verified)) {
+      check("staleness", false, "never verified");
+    } else {
+      const days = Math.floor((now - verified) / DAY_MS);
+      const passed = days <= policy.maxStalenessDays;
+      check("staleness", passed, `verified ${days} days ago (limit ${policy.maxStalenessDays})`);
+    }
+  }
+
+  if (policy.linkConfidence) {
+    const passed = policy.linkConfidence.includes(confidence);
+    check(
+      "link_confidence",
+      passed,
+      passed ? `${confidence} link confidence` : `link confidence ${confidence} is not one of ${list(policy.linkConfidence)}`
+    );
+  }
+
+  if (policy.allowUdap === false) {
+    const passed = endpoint.fhir_metadata?.security?.requires_udap !== true;
+    check("udap", passed, passed ? "does not require UDAP" : "requires UDAP");
+  }
+
+  if (policy.allowRegistration === false) {
+    const auth = endpoint.auth_requirements;
+    const required = [
+      auth?.registration_required ? "registration" : null,
+      auth?.allowlist_required ? "allowlist approval" : null,
+    ].filter((value): value is string => value !== null);
+    check(
+      "registration",
+      required.length === 0,
+      required.length === 0 ? "no registration required" : `requires ${required.join(" and ")}`
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Evaluate a provider's connectivity endpoints against a selection policy.
+ *
+ * Every endpoint is returned with the outcome of each rule. Included
+ * endpoints come first, ranked: production FHIR R4, then Direct, then the
+ * rest; within each tier by status, link confidence, uptime, and consecutive
+ * failures. Excluded endpoints follow in the same order.
+ *
+ * @param data - Response from `connectivity.lookup()`
+ * @param policy - Selection rules; unset rules are not checked
+ * @returns Every endpoint with its rank and the checks that included or excluded it
+ *
+ * @example
+ * ```ts
+ * const connectivity = await client.connectivity.lookup("1234567893");
+ * const [best] = selectEndpoints(connectivity, {
+ *   types: ["fhir_r4"],
+ *   minUptime: 95,
+ *   maxStalenessDays: 30,
+ *   allowUdap: false,
+ * }).filter((selection) => selection.included);
+ * ```
+ */
+export function selectEndpoints(data: NpiConnectivityData, policy: EndpointSelectionPolicy = {}): EndpointSelection[] {
+  const now = (policy.now ?? new Date()).getTime();
+  const evaluated = data.connectivity_targets.flatMap(({ endpoints, ...target }) =>
+    endpoints.map((endpoint) => {
+      const checks = checkEndpoint(endpoint, target.link_confidence, policy, now);
+      const selection: EndpointSelection = {
+        endpoint,
+        target,
+        included: checks.every((check) => check.passed),
+        rank: null,
+        checks,
+      };
+      return { selection, key: endpointRank(endpoint, target.link_confidence) };
+    })
+  );
+
+  evaluated.sort((a, b) => Number(b.selection.included) - Number(a.selection.included) || compareRanks(a.key, b.key));
+
+  let rank = 0;
+  return evaluated.map(({ selection }) => (selection.included ? { ...selection, rank: ++rank } : selection));
+}
@@ -1,22 +1,32 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
-import { ValidationError } from "../errors.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
+import { NotFoundError, ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated, mapConcurrent } from "../batch.js";
+import { normalizeHcpcs, scrubClaimLines } from "../claims-scrub.js";
+import { validateHcpcs } from "../validators.js";
+import type { ChunkingOptions, PrevalidateOptions, RequestOptions } from "../types/common.js";
 import type {
   NcciClaimType,
   NcciValidateResponse,
   MueServiceType,
   MueLookupResponse,
   MueBatchResponse,
+  MueBatchResultItem,
   PfsLookupResponse,
   PfsBatchResponse,
   CoverageCheckResponse,
+  CoverageCheckData,
+  MueLookupData,
+  PfsLookupData,
+  ScrubClaimRequest,
+  ScrubClaimResult,
 } from "../types/claims.js";
 
 /**
  * Options for NCCI PTP validation.
  */
-export interface NcciValidateOptions {
+export interface NcciValidateOptions extends RequestOptions {
   /** Filter by claim type. If omitted, returns edits for all claim types. */
   claim_type?: NcciClaimType;
 }
@@ -24,7 +34,7 @@ export interface NcciValidateOptions {
 /**
  * Options for MUE lookup.
  */
-export interface MueLookupOptions {
+export interface MueLookupOptions extends RequestOptions {
   /** Filter by service type. If omitted, returns limits for all service types. */
   service_type?: MueServiceType;
 }
@@ -32,11 +42,26 @@ export interface MueLookupOptions {
 /**
  * Options for coverage check.
  */
-export interface CoverageCheckOptions {
+export interface CoverageCheckOptions extends RequestOptions {
   /** Return only active policies. Default: true */
   active?: boolean;
 }
 
+/**
+ * Options for claim scrubbing.
+ */
+export interface ScrubClaimOptions extends RequestOptions {
+  /** Maximum number of NCCI and coverage requests in flight at once. Default: 4 */
+  concurrency?: number;
+}
+
+/**
+ * Batch item for a malformed HCPCS code; MUE and PFS items share this shape.
+ */
+function hcpcsInvalid(input: string, error: string): Omit<MueBatchResultItem, "data"> {
+  return { ...invalidResult(input, error), hcpcs_code: input };
+}
+
 /**
  * Claims Intelligence API endpoints.
  *
@@ -81,7 +106,7 @@ export class ClaimsEndpoint {
    *
    * @param code1 - First CPT/HCPCS code (4-5 alphanumeric characters)
    * @param code2 - Second CPT/HCPCS code (4-5 alphanumeric characters)
-   * @param options - Optional filters (claim_type)
+   * @param options - Optional filters (claim_type) and request options
    * @returns Validation result with edit details and billing summary
    *
    * @example
@@ -108,7 +133,7 @@ export class ClaimsEndpoint {
       params.claim_type = options.claim_type;
     }
     const queryString = this.http.buildSearchQueryString(params);
-    return this.http.get<NcciValidateResponse>(`/v1/ncci/validate${queryString}`);
+    return this.http.get<NcciValidateResponse>(`/v1/ncci/validate${queryString}`, options);
   }
 
   // ==========================================================================
@@ -119,7 +144,7 @@ export class ClaimsEndpoint {
    * Look up MUE limits for a HCPCS/CPT code.
    *
    * @param hcpcs - HCPCS/CPT code (4-5 alphanumeric characters)
-   * @param options - Optional filters (service_type)
+   * @param options - Optional filters (service_type) and request options
    * @returns MUE limit data including max units per service type
    *
    * @example
@@ -140,7 +165,8 @@ export class ClaimsEndpoint {
     }
     const queryString = this.http.buildSearchQueryString(params);
     return this.http.get<MueLookupResponse>(
-      `/v1/mue/${encodeURIComponent(hcpcs)}${queryString}`
+      `/v1/mue/${encodeURIComponent(hcpcs)}${queryString}`,
+      options
     );
   }
 
@@ -148,6 +174,7 @@ export class ClaimsEndpoint {
    * Batch MUE lookup for multiple HCPCS codes.
    *
    * @param codes - Array of HCPCS/CPT codes (max 100)
+   * @param options - Offline format check and request options
    * @returns Batch results with per-code MUE limits
    *
    * @example
@@ -160,10 +187,34 @@ export class ClaimsEndpoint {
    * }
    * ```
    */
-  async lookupMueMany(codes: string[]): Promise<MueBatchResponse> {
+  async lookupMueMany(codes: string[], options?: PrevalidateOptions & RequestOptions): Promise<MueBatchResponse> {
+    const { prevalidate, ...request } = options ?? {};
     if (codes.length === 0) throw new ValidationError("codes array must not be empty");
     if (codes.length > 100) throw new ValidationError(`MUE batch lookup supports max 100 codes, got ${codes.length}`);
-    return this.http.post<MueBatchResponse>("/v1/mue/_batch", { codes });
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateHcpcs, hcpcsInvalid, (valid) => this.lookupMueMany(valid, request));
+    }
+    return this.http.post<MueBatchResponse>("/v1/mue/_batch", { codes }, request);
+  }
+
+  /**
+   * Batch MUE lookup for any number of HCPCS codes, split into batches of at most 100.
+   *
+   * @param codes - Array of HCPCS/CPT codes (any length)
+   * @param options - Chunk size, concurrency, offline format check, and request options
+   * @returns Merged batch results in input order
+   */
+  async lookupMueAll(
+    codes: string[],
+    options?: ChunkingOptions & PrevalidateOptions & RequestOptions
+  ): Promise<MueBatchResponse> {
+    const [request, { prevalidate, ...chunking }] = splitRequestOptions(options);
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateHcpcs, hcpcsInvalid, (valid) =>
+        this.lookupMueAll(valid, { ...chunking, ...request })
+      );
+    }
+    return lookupInChunks(codes, 100, "codes", chunking, (chunk, i) => this.lookupMueMany(chunk, subrequestOptions(request, i)));
   }
 
   // ==========================================================================
@@ -174,6 +225,7 @@ export class ClaimsEndpoint {
    * Look up Physician Fee Schedule and RVU data for a HCPCS/CPT code.
    *
    * @param hcpcs - HCPCS/CPT code (4-5 alphanumeric characters)
+   * @param options - Request options
    * @returns Fee schedule data including RVU breakdown and calculated payments
    *
    * @example
@@ -185,9 +237,10 @@ export class ClaimsEndpoint {
    * console.log(`Facility payment: $${pfs.data.calculated_payment.facility}`);
    * ```
    */
-  async lookupPfs(hcpcs: string): Promise<PfsLookupResponse> {
+  async lookupPfs(hcpcs: string, options?: RequestOptions): Promise<PfsLookupResponse> {
     return this.http.get<PfsLookupResponse>(
-      `/v1/pfs/${encodeURIComponent(hcpcs)}`
+      `/v1/pfs/${encodeURIComponent(hcpcs)}`,
+      options
     );
   }
 
@@ -195,6 +248,7 @@ export class ClaimsEndpoint {
    * Batch PFS/RVU lookup for multiple HCPCS codes.
    *
    * @param codes - Array of HCPCS/CPT codes (max 100)
+   * @param options - Offline format check and request options
    * @returns Batch results with per-code fee schedule data
    *
    * @example
@@ -207,10 +261,34 @@ export class ClaimsEndpoint {
    * }
    * ```
    */
-  async lookupPfsMany(codes: string[]): Promise<PfsBatchResponse> {
+  async lookupPfsMany(codes: string[], options?: PrevalidateOptions & RequestOptions): Promise<PfsBatchResponse> {
+    const { prevalidate, ...request } = options ?? {};
     if (codes.length === 0) throw new ValidationError("codes array must not be empty");
     if (codes.length > 100) throw new ValidationError(`PFS batch lookup supports max 100 codes, got ${codes.length}`);
-    return this.http.post<PfsBatchResponse>("/v1/pfs/_batch", { codes });
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateHcpcs, hcpcsInvalid, (valid) => this.lookupPfsMany(valid, request));
+    }
+    return this.http.post<PfsBatchResponse>("/v1/pfs/_batch", { codes }, request);
+  }
+
+  /**
+   * Batch PFS/RVU lookup for any number of HCPCS codes, split into batches of at most 100.
+   *
+   * @param codes - Array of HCPCS/CPT codes (any length)
+   * @param options - Chunk size, concurrency, offline format check, and request options
+   * @returns Merged batch results in input order
+   */
+  async lookupPfsAll(
+    codes: string[],
+    options?: ChunkingOptions & PrevalidateOptions & RequestOptions
+  ): Promise<PfsBatchResponse> {
+    const [request, { prevalidate, ...chunking }] = splitRequestOptions(options);
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateHcpcs, hcpcsInvalid, (valid) =>
+        this.lookupPfsAll(valid, { ...chunking, ...request })
+      );
+    }
+    return lookupInChunks(codes, 100, "codes", chunking, (chunk, i) => this.lookupPfsMany(chunk, subrequestOptions(request, i)));
   }
 
   // ==========================================================================
@@ -221,7 +299,7 @@ export class ClaimsEndpoint {
    * Check LCD/NCD coverage determinations linked to a HCPCS code.
    *
    * @param hcpcs - HCPCS/CPT code (4-5 alphanumeric characters)
-   * @param options - Optional filters (active only)
+   * @param options - Optional filters (active only) and request options
    * @returns Coverage policies linked to the code
    *
    * @example
@@ -244,6 +322,89 @@ export class ClaimsEndpoint {
       params.active = options.active.toString();
     }
     const queryString = this.http.buildSearchQueryString(params);
-    return this.http.get<CoverageCheckResponse>(`/v1/coverage/check${queryString}`);
+    return this.http.get<CoverageCheckResponse>(`/v1/coverage/check${queryString}`, options);
+  }
+
+  // ==========================================================================
+  // Claim Scrubbing
+  // ==========================================================================
+
+  /**
+   * Scrub a claim against NCCI, MUE, coverage, and fee schedule data.
+   *
+   * Runs NCCI PTP checks on every pair of distinct codes, compares units to
+   * MUE limits (per line for adjudication indicator 1, per date of service
+   * for 2 and 3), flags codes without an active LCD/NCD policy, and estimates
+   * payment from PFS facility or non-facility amounts based on each line's
+   * place of service.
+   *
+   * @param claim - Claim lines and claim type
+   * @param options - Concurrency and request options
+   * @returns Edits with severities and line references, plus per-line estimates
+   *
+   * @example
+   * ```ts
+   * const result = await client.claims.scrubClaim({
+   *   lines: [
+   *     { hcpcs: "99214", units: 1, modifiers: ["25"], pos: "11", dx: ["E11.9"] },
+   *     { hcpcs: "96372", units: 1, pos: "11", dx: ["E11.9"] },
+   *   ],
+   * });
+   * for (const edit of result.edits) {
+   *   console.log(`[${edit.severity}] lines ${edit.lines.join(", ")}: ${edit.message}`);
+   * }
+   * console.log(`Estimated payment: $${result.estimated_payment}`);
+   * ```
+   */
+  async scrubClaim(claim: ScrubClaimRequest, options?: ScrubClaimOptions): Promise<ScrubClaimResult> {
+    if (!Array.isArray(claim?.lines) || claim.lines.length === 0) {
+      throw new ValidationError("claim must have at least one line", "lines");
+    }
+    claim.lines.forEach((line, i) => {
+      if (typeof line.hcpcs !== "string" || line.hcpcs.trim() === "") {
+        throw new ValidationError(`lines[${i}].hcpcs is required`, `lines[${i}].hcpcs`);
+      }
+      if (line.units !== undefined && (!Number.isInteger(line.units) || line.units < 1)) {
+        throw new ValidationError(`lines[${i}].units must be a positive integer`, `lines[${i}].units`);
+      }
+    });
+    const [request, { concurrency = 4 }] = splitRequestOptions(options);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError("concurrency must be a positive integer", "concurrency");
+    }
+
+    const codes = [...new Set(claim.lines.map((line) => normalizeHcpcs(line.hcpcs)))];
+    const pairs = codes.flatMap((code1, i) => codes.slice(i + 1).map((code2) => [code1, code2] as const));
+    const claimType = claim.claim_type ?? "practitioner";
+
+    const [ncci, mue, pfs, coverage] = await Promise.all([
+      mapConcurrent(pairs, concurrency, async ([code1, code2]) =>
+        (await this.validateNcci(code1, code2, { ...request, claim_type: claimType })).data
+      ),
+      this.lookupMueAll(codes, { ...subrequestOptions(request, "mue"), concurrency }),
+      this.lookupPfsAll(codes, { ...subrequestOptions(request, "pfs"), concurrency }),
+      mapConcurrent(codes, concurrency, async (code) => {
+        try {
+          return (await this.checkCoverage(code, request)).data;
+        } catch (error) {
+          if (error instanceof NotFoundError) return undefined;
+          throw error;
+        }
+      }),
+    ]);
+
+    const byCode = <T>(results: Array<{ hcpcs_code: string; data?: T }>) =>
+      new Map(
+        results.flatMap((item) => (item.data ? [[normalizeHcpcs(item.hcpcs_code), item.data] as const] : []))
+      );
+
+    return scrubClaimLines(claim, {
+      ncci,
+      mue: byCode<MueLookupData>(mue.results),
+      pfs: byCode<PfsLookupData>(pfs.results),
+      coverage: new Map(
+        coverage.flatMap((data, i): Array<[string, CoverageCheckData]> => (data ? [[codes[i]!, data]] : []))
+      ),
+    });
   }
 }
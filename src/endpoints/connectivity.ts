@@ -1,6 +1,7 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
 import type { HttpClient } from "../http.js";
+import type { RequestOptions } from "../types/common.js";
 import type { NpiConnectivityData } from "../types/connectivity.js";
 
 /**
@@ -20,6 +21,7 @@ export class ConnectivityEndpoint {
    * availability metrics.
    *
    * @param npi - 10-digit NPI number
+   * @param options - Request options
    * @returns Connectivity information including endpoints and verification status
    *
    * @example
@@ -43,9 +45,10 @@ export class ConnectivityEndpoint {
    * }
    * ```
    */
-  async lookup(npi: string): Promise<NpiConnectivityData> {
+  async lookup(npi: string, options?: RequestOptions): Promise<NpiConnectivityData> {
     return this.http.get<NpiConnectivityData>(
-      `/v1/npi/${encodeURIComponent(npi)}/connectivity`
+      `/v1/npi/${encodeURIComponent(npi)}/connectivity`,
+      options
     );
   }
 }
@@ -1,16 +1,22 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { validateCvx } from "../validators.js";
+import { paginateItems, paginatePages } from "../pagination.js";
 import type {
   ApiResponse,
   BatchResponse,
   LookupOptions,
   BatchLookupOptions,
+  LookupAllOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
-import type { CvxData, CvxSearchParams } from "../types/cvx.js";
+import type { CvxData, CvxSearchParams, CvxShapes } from "../types/cvx.js";
 
 /**
  * CVX (Vaccine Codes) API endpoint.
@@ -31,6 +37,10 @@ export class CvxEndpoint {
    * console.log(cvx.data.display); // "COVID-19, mRNA, LNP-S, PF, 30 mcg/0.3 mL dose"
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    cvxCode: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<CvxShapes, O>>>;
   async lookup(cvxCode: string, options?: LookupOptions): Promise<ApiResponse<CvxData>> {
     return this.http.get<ApiResponse<CvxData>>(`/v1/cvx/${encodeURIComponent(cvxCode)}`, options);
   }
@@ -42,16 +52,53 @@ export class CvxEndpoint {
    * @param options - Response shape, include, and batch options
    * @returns Batch response with results for each code
    */
+  lookupMany<O extends BatchLookupOptions = BatchLookupOptions>(
+    cvxCodes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<CvxShapes, O>>>;
   async lookupMany(
     cvxCodes: string[],
     options?: BatchLookupOptions
   ): Promise<BatchResponse<CvxData>> {
+    const { prevalidate, ...batchOptions } = options ?? {};
     if (cvxCodes.length === 0) throw new ValidationError("cvxCodes array must not be empty");
     if (cvxCodes.length > 100) throw new ValidationError(`CVX batch lookup supports max 100 codes, got ${cvxCodes.length}`);
+    if (prevalidate) {
+      return lookupValidated(cvxCodes, "cvxCodes", validateCvx, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<CvxData>>(
       "/v1/cvx/_batch",
       { codes: cvxCodes },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of CVX codes, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param cvxCodes - Array of CVX codes (any length)
+   * @param options - Response shape, include, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   */
+  lookupAll<O extends LookupAllOptions = LookupAllOptions>(
+    cvxCodes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<CvxShapes, O>>>;
+  async lookupAll(
+    cvxCodes: string[],
+    options?: LookupAllOptions
+  ): Promise<BatchResponse<CvxData>> {
+    const { concurrency, chunkSize, prevalidate, ...batchOptions } = options ?? {};
+    if (prevalidate) {
+      return lookupValidated(cvxCodes, "cvxCodes", validateCvx, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(cvxCodes, 100, "cvxCodes", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -74,14 +121,63 @@ export class CvxEndpoint {
    * });
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: CvxSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<CvxShapes, O>>>;
   async search(
     params: CvxSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<CvxData>> {
-    return this.http.search<SearchResponse<CvxData>>("/v1/cvx/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
-    });
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<CvxData>>(
+      "/v1/cvx/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for vaccine codes.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: CvxSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<CvxShapes, O>>>;
+  searchPages(
+    params: CvxSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<CvxData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for vaccine codes across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: CvxSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<CvxShapes, O>>;
+  searchAll(
+    params: CvxSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<CvxData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
   }
 }
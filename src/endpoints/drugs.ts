@@ -0,0 +1,334 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { splitRequestOptions, subrequestOptions } from "../http.js";
+import { AbortError, NotFoundError, ValidationError } from "../errors.js";
+import { DEFAULT_CACHE_TTL, type CacheOptions } from "../cache.js";
+import { buildDrugProfile, detectDrugIdentifier, type DrugRecords } from "../drug-profile.js";
+import { clinicalDrugOf, groupEquivalents } from "../drug-equivalents.js";
+import type { BatchResponse } from "../types/common.js";
+import type { DrugEquivalents, DrugEquivalentsOptions, DrugProfile, DrugResolveOptions } from "../types/drugs.js";
+import type { NdcFull } from "../types/ndc.js";
+import type { RxNormFull } from "../types/rxnorm.js";
+import type { FdaLabelData } from "../types/fda-labels.js";
+import type { NdcEndpoint } from "./ndc.js";
+import type { RxNormEndpoint } from "./rxnorm.js";
+import type { FdaLabelsEndpoint } from "./fda-labels.js";
+import type { SnomedEndpoint } from "./snomed.js";
+
+/**
+ * Endpoints the drug crosswalk reads from.
+ */
+export interface DrugSources {
+  ndc: NdcEndpoint;
+  rxnorm: RxNormEndpoint;
+  fdaLabels: FdaLabelsEndpoint;
+  snomed: SnomedEndpoint;
+}
+
+interface MemoEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+/**
+ * Per-concept memo for batch lookups, keyed `"<group>:<code>"`.
+ *
+ * Codes already loaded (or in flight) are served from the memo; the rest are
+ * fetched in one batch. Failed lookups are dropped so they can be retried.
+ * With caching disabled, only in-flight lookups are shared.
+ *
+ * An in-flight batch runs with the signal of the call that started it. If
+ * that call is cancelled, other calls waiting on the batch fetch the codes
+ * again with their own signal rather than failing with its `AbortError`.
+ */
+class ConceptMemo {
+  private readonly entries = new Map<string, MemoEntry>();
+
+  constructor(
+    private readonly cache: CacheOptions | undefined,
+    private readonly maxEntries = 1000
+  ) {}
+
+  async load<T>(
+    group: string,
+    codes: string[],
+    fetch: (codes: string[]) => Promise<BatchResponse<T>>,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    for (;;) {
+      try {
+        return await this.loadOnce(group, codes, fetch);
+      } catch (error) {
+        // Failed entries are already dropped, so retrying refetches them
+        if (!(error instanceof AbortError) || signal?.aborted) throw error;
+      }
+    }
+  }
+
+  private async loadOnce<T>(
+    group: string,
+    codes: string[],
+    fetch: (codes: string[]) => Promise<BatchResponse<T>>
+  ): Promise<T[]> {
+    const now = Date.now();
+    const pending: Promise<unknown>[] = [];
+    const missing: string[] = [];
+
+    for (const code of new Set(codes)) {
+      const entry = this.entries.get(`${group}:${code}`);
+      if (entry && entry.expiresAt > now) {
+        pending.push(entry.value);
+      } else {
+        missing.push(code);
+      }
+    }
+
+    if (missing.length > 0) {
+      const batch = fetch(missing).then(
+        (response) => new Map(response.results.map((item) => [item.input, item.data]))
+      );
+      for (const code of missing) {
+        const key = `${group}:${code}`;
+        const value = batch.then((found) => found.get(code));
+        this.store(key, { value, expiresAt: Infinity });
+        value.then(
+          () => this.settle(key, value, this.ttlFor(group)),
+          () => this.settle(key, value, 0)
+        );
+        pending.push(value);
+      }
+    }
+
+    const values = await Promise.all(pending);
+    return values.filter((value): value is T => value !== undefined);
+  }
+
+  private ttlFor(group: string): number {
+    if (!this.cache) return 0;
+    return this.cache.endpointTtl?.[group] ?? this.cache.ttl ?? DEFAULT_CACHE_TTL;
+  }
+
+  private store(key: string, entry: MemoEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  /** Start the TTL of a finished lookup, unless a newer one replaced it. */
+  private settle(key: string, value: Promise<unknown>, ttl: number): void {
+    const entry = this.entries.get(key);
+    if (entry?.value !== value) return;
+    if (ttl > 0) {
+      entry.expiresAt = Date.now() + ttl;
+    } else {
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Drug crosswalk across NDC, RxNorm, FDA labels, and SNOMED CT.
+ *
+ * Composes the other endpoints: each hop is one batch request, and the
+ * RxNorm and label lookups are memoized per concept for the client's cache
+ * TTL (per-concept lookups are shared only while in flight when caching is
+ * disabled).
+ *
+ * @example
+ * ```ts
+ * const profile = await client.drugs.resolve("0069-0151-01");
+ * for (const edge of profile.edges) {
+ *   console.log(`${edge.from} -${edge.relation}-> ${edge.to}`);
+ * }
+ * ```
+ */
+export class DrugsEndpoint {
+  private readonly memo: ConceptMemo;
+
+  constructor(
+    private readonly sources: DrugSources,
+    cache?: CacheOptions
+  ) {
+    this.memo = new ConceptMemo(cache);
+  }
+
+  /**
+   * Resolve a drug identifier into a normalized profile graph.
+   *
+   * The identifier resolves to RxNorm concepts (an NDC through its RxCUIs, an
+   * SPL set ID through its label, a SNOMED CT ID through its reverse
+   * mappings), which are then expanded with their ingredients, brands, dose
+   * form, related concepts, NDCs, SNOMED CT mappings, and SPL labels.
+   *
+   * @param identifier - NDC, RxCUI, SPL set ID, or SNOMED CT concept ID
+   * @param options - Identifier type, label lookup, and request options
+   * @returns Drug profile graph with the records behind it
+   * @throws ValidationError if the identifier type cannot be detected
+   * @throws NotFoundError if the identifier itself does not exist
+   *
+   * @example
+   * ```ts
+   * const profile = await client.drugs.resolve("213169");
+   * const ingredients = profile.edges
+   *   .filter((edge) => edge.relation === "has_ingredient")
+   *   .map((edge) => profile.nodes.find((node) => node.id === edge.to)?.display);
+   * ```
+   */
+  async resolve(identifier: string, options?: DrugResolveOptions): Promise<DrugProfile> {
+    const [request, { type, labels = true }] = splitRequestOptions(options);
+    const input = identifier.trim();
+    if (!input) throw new ValidationError("identifier is required", "identifier");
+
+    const inputType = type ?? detectDrugIdentifier(input);
+    if (!inputType) {
+      throw new ValidationError(
+        `Cannot tell whether "${input}" is an NDC, RxCUI, SPL set ID, or SNOMED CT ID; pass the type option`,
+        "identifier"
+      );
+    }
+
+    const records: DrugRecords = { ndc: [], rxnorm: [], labels: [], snomed: [], snomedMappings: [] };
+    let rxcuis: string[];
+    switch (inputType) {
+      case "ndc": {
+        const ndc = await this.sources.ndc.lookup(input, { ...request, shape: "standard" });
+        records.ndc.push(ndc.data);
+        rxcuis = ndc.data.rxcui;
+        break;
+      }
+      case "rxcui":
+        rxcuis = [input];
+        break;
+      case "spl_set_id": {
+        const label = await this.sources.fdaLabels.lookup(input, request);
+        records.labels.push(label.data);
+        rxcuis = label.data.metadata.rxcui;
+        break;
+      }
+      case "snomed": {
+        const [concept, mappings] = await Promise.all([
+          this.sources.snomed.lookup(input, request),
+          this.sources.snomed.mappings(input, request),
+        ]);
+        records.snomed.push(concept.data);
+        records.snomedMappings = mappings.data.mappings;
+        rxcuis = mappings.data.mappings
+          .filter((mapping) => mapping.source_system === "rxnorm")
+          .map((mapping) => mapping.source_code);
+        break;
+      }
+    }
+
+    if (rxcuis.length > 0) {
+      records.rxnorm = await this.memo.load<RxNormFull>(
+        "rxnorm",
+        rxcuis,
+        (codes) => this.sources.rxnorm.lookupAll(codes, { ...subrequestOptions(request, "rxnorm"), shape: "full" }),
+        request.signal
+      );
+    }
+
+    const found = records.rxnorm.map((concept) => concept.rxcui);
+    if (labels && inputType !== "spl_set_id" && found.length > 0) {
+      records.labels = await this.memo.load<FdaLabelData>(
+        "fda-label",
+        found,
+        (codes) => this.sources.fdaLabels.lookupAll(codes, subrequestOptions(request, "labels")),
+        request.signal
+      );
+    }
+
+    return buildDrugProfile(input, inputType, records);
+  }
+
+  /**
+   * Find NDC packages that can substitute for a drug.
+   *
+   * Walks from the drug's RxNorm concept to its generic clinical drug (an
+   * SBD to its SCD, a BPCK to its GPCK) and lists every NDC package of that
+   * clinical drug, grouped by labeler and marketing category. The input NDC
+   * itself is left out.
+   *
+   * `sameRoute` and `sameDoseForm` compare against the input NDC and are
+   * ignored for RxCUI inputs; every package of a clinical drug already shares
+   * its RxNorm dose form.
+   *
+   * @param identifier - NDC or RxCUI of an SCD, SBD, GPCK, or BPCK
+   * @param options - Identifier type, filters, and request options
+   * @returns Equivalent packages with the concepts they were found through
+   * @throws ValidationError if the identifier is not an NDC or RxCUI, or not a clinical drug
+   * @throws NotFoundError if the drug or its generic clinical drug does not exist
+   *
+   * @example
+   * ```ts
+   * const equivalents = await client.drugs.findEquivalents("0069-0151-01", { sameRoute: true });
+   * for (const group of equivalents.groups) {
+   *   console.log(group.labeler_name, group.marketing_category, group.packages.map((p) => p.ndc));
+   * }
+   * ```
+   */
+  async findEquivalents(identifier: string, options?: DrugEquivalentsOptions): Promise<DrugEquivalents> {
+    const [request, { type, sameRoute = false, sameDoseForm = false, activeOnly = true }] =
+      splitRequestOptions(options);
+    const input = identifier.trim();
+    const inputType = type ?? detectDrugIdentifier(input);
+    if (inputType !== "ndc" && inputType !== "rxcui") {
+      throw new ValidationError(`Expected an NDC or RxCUI, got "${input}"`, "identifier");
+    }
+
+    let ndc: NdcFull | null = null;
+    let rxcui = input;
+    if (inputType === "ndc") {
+      ndc = (await this.sources.ndc.lookup(input, { ...request, shape: "full" })).data;
+      const first = ndc.rxcui[0];
+      if (first === undefined) throw new NotFoundError("RxNorm concept for NDC", input);
+      rxcui = first;
+    }
+
+    const [concept] = await this.memo.load<RxNormFull>(
+      "rxnorm",
+      [rxcui],
+      (codes) => this.sources.rxnorm.lookupAll(codes, { ...subrequestOptions(request, "rxnorm"), shape: "full" }),
+      request.signal
+    );
+    if (!concept) throw new NotFoundError("RxNorm concept", rxcui);
+
+    const clinicalDrug = clinicalDrugOf(concept);
+    if (!clinicalDrug) {
+      if (concept.tty === "SBD" || concept.tty === "BPCK") {
+        throw new NotFoundError(`Generic clinical drug for ${concept.tty}`, concept.rxcui);
+      }
+      throw new ValidationError(
+        `RxCUI ${concept.rxcui} has term type ${concept.tty}; equivalents need a clinical drug (SCD, SBD, GPCK, or BPCK)`,
+        "identifier"
+      );
+    }
+
+    const records: NdcFull[] = [];
+    const search = this.sources.ndc.searchAll(
+      { rxcui: clinicalDrug.rxcui, is_active: activeOnly ? true : undefined },
+      { ...request, shape: "full", limit: 100 }
+    );
+    for await (const record of search) records.push(record);
+
+    const groups = groupEquivalents(records, {
+      clinicalDrug: clinicalDrug.rxcui,
+      reference: ndc,
+      sameRoute,
+      sameDoseForm,
+      activeOnly,
+    });
+    return {
+      input,
+      input_type: inputType,
+      ndc,
+      source: { rxcui: concept.rxcui, name: concept.name, tty: concept.tty },
+      clinical_drug: clinicalDrug,
+      groups,
+      total: groups.reduce((sum, group) => sum + group.packages.length, 0),
+    };
+  }
+}
@@ -1,18 +1,25 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { lookupInChunks } from "../batch.js";
+import { paginateItems, paginatePages } from "../pagination.js";
 import type {
   ApiResponse,
   BatchResponse,
+  ChunkingOptions,
+  RequestOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
 import type {
   FdaLabelData,
   FdaLabelLookupOptions,
   FdaLabelSearchData,
   FdaLabelSearchParams,
+  FdaLabelSearchShapes,
 } from "../types/fda-labels.js";
 
 /**
@@ -64,7 +71,7 @@ export class FdaLabelsEndpoint {
     }
     const qs = params.toString();
     if (qs) url += `?${qs}`;
-    return this.http.get<ApiResponse<FdaLabelData>>(url);
+    return this.http.get<ApiResponse<FdaLabelData>>(url, options);
   }
 
   /**
@@ -74,16 +81,47 @@ export class FdaLabelsEndpoint {
    * Identifiers can be Set IDs, NDC codes, or RxCUIs (mixed).
    *
    * @param identifiers - Array of identifiers (max 50)
+   * @param options - Request options
    * @returns Batch response with results for each identifier
    */
   async lookupMany(
-    identifiers: string[]
+    identifiers: string[],
+    options?: RequestOptions
   ): Promise<BatchResponse<FdaLabelData>> {
     if (identifiers.length === 0) throw new ValidationError("identifiers array must not be empty");
     if (identifiers.length > 50) throw new ValidationError(`FDA Labels batch lookup supports max 50 identifiers, got ${identifiers.length}`);
     return this.http.post<BatchResponse<FdaLabelData>>(
       "/v1/fda-label/_batch",
-      { codes: identifiers }
+      { codes: identifiers },
+      options
+    );
+  }
+
+  /**
+   * Look up any number of FDA labels, splitting them into batches of at most 50.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param identifiers - Array of identifiers (any length)
+   * @param options - Chunk size, concurrency, and request options
+   * @returns Merged batch response with results for each identifier
+   *
+   * @example
+   * ```ts
+   * const labels = await client.fdaLabels.lookupAll(formularyNdcs, { concurrency: 4 });
+   * for (const item of labels.results) {
+   *   if (item.status === "ok") console.log(item.input, item.data.metadata.set_id);
+   * }
+   * ```
+   */
+  async lookupAll(
+    identifiers: string[],
+    options?: ChunkingOptions & RequestOptions
+  ): Promise<BatchResponse<FdaLabelData>> {
+    const [request, chunking] = splitRequestOptions(options);
+    return lookupInChunks(identifiers, 50, "identifiers", chunking, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(request, i))
     );
   }
 
@@ -108,17 +146,63 @@ export class FdaLabelsEndpoint {
    * });
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: FdaLabelSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<FdaLabelSearchShapes, O>>>;
   async search(
     params: FdaLabelSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<FdaLabelSearchData>> {
+    const [request, { include, ...query }] = splitRequestOptions(options);
     return this.http.search<SearchResponse<FdaLabelSearchData>>(
       "/v1/fda-label/search",
-      {
-        ...params,
-        ...options,
-        include: options?.include?.join(","),
-      }
+      { ...params, ...query, include: include?.join(",") },
+      request
     );
   }
+
+  /**
+   * Iterate over every page of search results for FDA drug labels.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: FdaLabelSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<FdaLabelSearchShapes, O>>>;
+  searchPages(
+    params: FdaLabelSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<FdaLabelSearchData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for FDA drug labels across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: FdaLabelSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<FdaLabelSearchShapes, O>>;
+  searchAll(
+    params: FdaLabelSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<FdaLabelSearchData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
+  }
 }
@@ -0,0 +1,117 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { splitRequestOptions } from "../http.js";
+import { ValidationError } from "../errors.js";
+import {
+  decodeIcd10PcsAxes,
+  normalizeIcd10PcsPrefix,
+  pcsAxisLabel,
+  pcsAxisName,
+  pcsSectionOptions,
+} from "../icd10-pcs.js";
+import type { RequestOptions } from "../types/common.js";
+import type { Icd10PcsDecoded, Icd10PcsOption, Icd10PcsStep, Icd10PcsStepOptions } from "../types/icd10.js";
+import type { Icd10Endpoint } from "./icd10.js";
+
+/** Search pages `nextOptions()` reads by default: 500 codes, enough for any table */
+const DEFAULT_STEP_PAGES = 5;
+
+/**
+ * ICD-10-PCS helpers: decode procedure codes into their seven axes and build
+ * codes one character at a time.
+ *
+ * Available as `client.icd10.pcs`.
+ */
+export class Icd10PcsEndpoint {
+  constructor(private readonly icd10: Icd10Endpoint) {}
+
+  /**
+   * Decode an ICD-10-PCS code into its seven labeled axes.
+   *
+   * Axis names depend on the section (e.g., character 5 is "Approach" in
+   * Medical and Surgical and "Contrast" in Imaging). Values are labeled from
+   * the code's record; the body part (character 4) has no label.
+   *
+   * @param code - 7-character ICD-10-PCS code (e.g., "0DTJ4ZZ")
+   * @param options - Request options
+   * @returns Code, display, axes, and the full record
+   * @throws ValidationError if the code is not a 7-character ICD-10-PCS code
+   * @throws NotFoundError if the code does not exist
+   *
+   * @example
+   * ```ts
+   * const { axes } = await client.icd10.pcs.decode("0DTJ4ZZ");
+   * console.log(axes[2]); // { position: 3, name: "Root Operation", value: "T", label: "Resection" }
+   * ```
+   */
+  async decode(code: string, options?: RequestOptions): Promise<Icd10PcsDecoded> {
+    const value = normalizeIcd10PcsPrefix(code);
+    if (value.length !== 7) throw new ValidationError(`ICD-10-PCS code must be 7 characters: "${code}"`, "code");
+    const { data } = await this.icd10.lookup(value, { ...options, shape: "full" });
+    const axes = decodeIcd10PcsAxes(value).map((axis) => {
+      const label = pcsAxisLabel(data, value[0]!, axis.position);
+      return label ? { ...axis, label } : axis;
+    });
+    return { code: data.code, display: data.display, axes, data };
+  }
+
+  /**
+   * List the valid values for the next character of an ICD-10-PCS code,
+   * given the characters chosen so far.
+   *
+   * The first character (section) is answered offline. Later characters
+   * search the PCS codes that start with the prefix (standard shape, 100 per
+   * page) and collect their next characters, so cost grows with the number
+   * of codes under the prefix: choosing within a table (three characters or
+   * more) takes a request or two, while a section or body system alone
+   * stops at `maxPages` (default 5) and sets `complete` to false.
+   *
+   * @param prefix - Characters chosen so far ("" to start, then e.g. "0", "0D", "0DT")
+   * @param options - Page limit (default 5) and request options
+   * @returns The axis being chosen and its valid values
+   * @throws ValidationError if the prefix is not a partial ICD-10-PCS code
+   *
+   * @example
+   * ```ts
+   * const step = await client.icd10.pcs.nextOptions("0DT");
+   * console.log(step.axis); // "Body Part"
+   * for (const option of step.options) console.log(option.value, option.count);
+   * ```
+   */
+  async nextOptions(prefix: string, options?: Icd10PcsStepOptions): Promise<Icd10PcsStep> {
+    const value = normalizeIcd10PcsPrefix(prefix);
+    if (value.length === 7) throw new ValidationError(`ICD-10-PCS code "${prefix}" is already complete`, "prefix");
+    const position = value.length + 1;
+    const axis = pcsAxisName(value.slice(0, 1), position);
+    if (position === 1) return { prefix: value, position, axis, options: pcsSectionOptions(), complete: true };
+
+    const [request, { maxPages = DEFAULT_STEP_PAGES }] = splitRequestOptions(options);
+    const found = new Map<string, Icd10PcsOption>();
+    let complete = true;
+    const pages = this.icd10.searchPages(
+      { q: value, code_system: "PCS" },
+      { ...request, shape: "standard", limit: 100, maxPages }
+    );
+    for await (const page of pages) {
+      complete = !page.has_more;
+      for (const item of page.items) {
+        const code = item.code.toUpperCase();
+        if (code.length !== 7 || !code.startsWith(value)) continue;
+        const character = code[value.length]!;
+        const option = found.get(character);
+        if (option) {
+          option.count = (option.count ?? 0) + 1;
+          continue;
+        }
+        const next: Icd10PcsOption = { value: character, count: 1 };
+        const label = pcsAxisLabel(item, value[0]!, position);
+        if (label) next.label = label;
+        if (position === 7) next.code = code;
+        found.set(character, next);
+      }
+    }
+
+    const sorted = [...found.values()].sort((a, b) => a.value.localeCompare(b.value));
+    return { prefix: value, position, axis, options: sorted, complete };
+  }
+}
@@ -1,22 +1,54 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
-import { ValidationError } from "../errors.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
+import { FhirflyError, NotFoundError, ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { validateIcd10 } from "../validators.js";
+import { MAX_SEARCH_PAGE, paginateItems, paginatePages } from "../pagination.js";
+import {
+  ancestorCandidates,
+  directChildren,
+  isIcd10Descendant,
+  normalizeIcd10Cm,
+  parseIcd10Selection,
+} from "../icd10-hierarchy.js";
+import { checkIcd10Codes, codeSetLookups, serviceDate } from "../icd10-guidelines.js";
+import { Icd10PcsEndpoint } from "./icd10-pcs.js";
 import type {
   ApiResponse,
   BatchResponse,
   LookupOptions,
   BatchLookupOptions,
+  LookupAllOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
+  RequestOptions,
 } from "../types/common.js";
-import type { Icd10Data, Icd10SearchParams } from "../types/icd10.js";
+import type {
+  Icd10CheckOptions,
+  Icd10CodeSetResult,
+  Icd10Data,
+  Icd10DescendantsOptions,
+  Icd10Full,
+  Icd10SearchParams,
+  Icd10Shapes,
+  Icd10Standard,
+} from "../types/icd10.js";
 
 /**
  * ICD-10 API endpoint.
  */
 export class Icd10Endpoint {
-  constructor(private readonly http: HttpClient) {}
+  /**
+   * ICD-10-PCS axis decoder and code builder.
+   */
+  readonly pcs: Icd10PcsEndpoint;
+
+  constructor(private readonly http: HttpClient) {
+    this.pcs = new Icd10PcsEndpoint(this);
+  }
 
   /**
    * Look up a single ICD-10 code (CM or PCS).
@@ -39,6 +71,10 @@ export class Icd10Endpoint {
    * console.log(procedure.data.display);
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    code: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<Icd10Shapes, O>>>;
   async lookup(code: string, options?: LookupOptions): Promise<ApiResponse<Icd10Data>> {
     return this.http.get<ApiResponse<Icd10Data>>(`/v1/icd10/${encodeURIComponent(code)}`, options);
   }
@@ -52,16 +88,53 @@ export class Icd10Endpoint {
    * @param options - Response shape, include, and batch options
    * @returns Batch response with results for each code
    */
+  lookupMany<O extends BatchLookupOptions = BatchLookupOptions>(
+    codes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<Icd10Shapes, O>>>;
   async lookupMany(
     codes: string[],
     options?: BatchLookupOptions
   ): Promise<BatchResponse<Icd10Data>> {
+    const { prevalidate, ...batchOptions } = options ?? {};
     if (codes.length === 0) throw new ValidationError("codes array must not be empty");
     if (codes.length > 100) throw new ValidationError(`ICD-10 batch lookup supports max 100 codes, got ${codes.length}`);
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateIcd10, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<Icd10Data>>(
       "/v1/icd10/_batch",
       { codes },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of ICD-10 codes, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param codes - Array of ICD-10 codes (any length)
+   * @param options - Response shape, include, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   */
+  lookupAll<O extends LookupAllOptions = LookupAllOptions>(
+    codes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<Icd10Shapes, O>>>;
+  async lookupAll(
+    codes: string[],
+    options?: LookupAllOptions
+  ): Promise<BatchResponse<Icd10Data>> {
+    const { concurrency, chunkSize, prevalidate, ...batchOptions } = options ?? {};
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateIcd10, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(codes, 100, "codes", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -88,14 +161,272 @@ export class Icd10Endpoint {
    * });
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: Icd10SearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<Icd10Shapes, O>>>;
   async search(
     params: Icd10SearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<Icd10Data>> {
-    return this.http.search<SearchResponse<Icd10Data>>("/v1/icd10/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
-    });
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<Icd10Data>>(
+      "/v1/icd10/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for ICD-10 codes.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: Icd10SearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<Icd10Shapes, O>>>;
+  searchPages(
+    params: Icd10SearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<Icd10Data>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for ICD-10 codes across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: Icd10SearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<Icd10Shapes, O>>;
+  searchAll(
+    params: Icd10SearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<Icd10Data> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
+  }
+
+  /**
+   * Get the ancestors of an ICD-10-CM code, from its 3-character category
+   * down to its parent.
+   *
+   * Ancestors are the code's prefixes that exist as codes; placeholder
+   * prefixes such as "T36.0X" are skipped. Blocks and chapters are not codes;
+   * see the `section` and `chapter` fields instead.
+   *
+   * @param code - ICD-10-CM code, with or without the dot (e.g., "E11.65")
+   * @param options - Request options
+   * @returns Ancestor codes (standard shape), category first; empty for a category
+   * @throws ValidationError if the code is not ICD-10-CM
+   * @throws NotFoundError if the code does not exist
+   *
+   * @example
+   * ```ts
+   * const ancestors = await client.icd10.ancestors("E11.65");
+   * console.log(ancestors.map((a) => a.code)); // ["E11", "E11.6"]
+   * ```
+   */
+  async ancestors(code: string, options?: RequestOptions): Promise<Icd10Standard[]> {
+    const normalized = normalizeIcd10Cm(code);
+    const candidates = ancestorCandidates(normalized);
+    const response = await this.lookupMany([normalized, ...candidates], { ...options, shape: "standard" });
+    const found = new Map(
+      response.results.flatMap((item) => (item.data ? [[item.input, item.data] as const] : []))
+    );
+    if (!found.has(normalized)) throw new NotFoundError("ICD-10", normalized);
+    return candidates
+      .map((candidate) => found.get(candidate))
+      .filter((item): item is Icd10Standard => item !== undefined)
+      .reverse();
+  }
+
+  /**
+   * Get the parent of an ICD-10-CM code: its nearest ancestor.
+   *
+   * @param code - ICD-10-CM code, with or without the dot
+   * @param options - Request options
+   * @returns Parent code (standard shape), or null for a 3-character category
+   * @throws ValidationError if the code is not ICD-10-CM
+   * @throws NotFoundError if the code does not exist
+   */
+  async parent(code: string, options?: RequestOptions): Promise<Icd10Standard | null> {
+    const ancestors = await this.ancestors(code, options);
+    return ancestors[ancestors.length - 1] ?? null;
+  }
+
+  /**
+   * Get every code below an ICD-10-CM code, in code order.
+   *
+   * Searches the code's block (its `section`) and keeps the codes that
+   * extend it, so a call costs one lookup plus one search per 100 codes in
+   * the block.
+   *
+   * @param code - ICD-10-CM code, with or without the dot (e.g., "E11")
+   * @param options - Billable filter and request options
+   * @returns Descendant codes (standard shape); empty for a leaf code
+   * @throws ValidationError if the code is not ICD-10-CM
+   * @throws NotFoundError if the code does not exist
+   * @throws FhirflyError if the search is too broad to return every descendant
+   *
+   * @example
+   * ```ts
+   * const billable = await client.icd10.descendants("E11.6", { billableOnly: true });
+   * ```
+   */
+  async descendants(code: string, options?: Icd10DescendantsOptions): Promise<Icd10Standard[]> {
+    const [request, { billableOnly = false }] = splitRequestOptions(options);
+    const { data } = await this.lookup(normalizeIcd10Cm(code), { ...request, shape: "standard" });
+    return this.searchDescendants(data, billableOnly, request);
+  }
+
+  /**
+   * Get the direct children of an ICD-10-CM code, in code order.
+   *
+   * @param code - ICD-10-CM code, with or without the dot
+   * @param options - Request options
+   * @returns Child codes (standard shape); empty for a leaf code
+   * @throws ValidationError if the code is not ICD-10-CM
+   * @throws NotFoundError if the code does not exist
+   * @throws FhirflyError if the search is too broad to return every descendant
+   */
+  async children(code: string, options?: RequestOptions): Promise<Icd10Standard[]> {
+    const descendants = await this.descendants(code, options);
+    return directChildren(normalizeIcd10Cm(code), descendants);
+  }
+
+  /**
+   * Expand an ICD-10-CM selection into billable codes.
+   *
+   * Accepts a code or a "-" wildcard selection ("E11", "E11.-", "E11.6-").
+   * A billable code expands to itself; a header expands to the billable
+   * leaf codes beneath it.
+   *
+   * @param selection - ICD-10-CM code or wildcard selection
+   * @param options - Request options
+   * @returns Billable codes (standard shape), in code order
+   * @throws ValidationError if the selection is not ICD-10-CM
+   * @throws NotFoundError if the code does not exist
+   * @throws FhirflyError if the search is too broad to return every descendant
+   *
+   * @example
+   * ```ts
+   * const codes = await client.icd10.billableCodes("E11.-");
+   * console.log(codes.map((c) => c.code)); // ["E11.00", "E11.01", ..., "E11.9"]
+   * ```
+   */
+  async billableCodes(selection: string, options?: RequestOptions): Promise<Icd10Standard[]> {
+    const { data } = await this.lookup(parseIcd10Selection(selection), { ...options, shape: "standard" });
+    if (data.billable) return [data];
+    return this.searchDescendants(data, true, options);
+  }
+
+  /**
+   * Check ICD-10-CM codes reported together on one encounter against the
+   * tabular conventions, for charge capture and claim review.
+   *
+   * Findings, each with a rule reference:
+   * - **invalid_code** (error): malformed or not in the code set
+   * - **excludes1** (error): two codes that an Excludes1 note forbids together
+   * - **code_first** (error): a manifestation code without the underlying
+   *   condition its "code first" note requires (info when the note names no codes)
+   * - **code_first_sequence** (warning): the underlying condition is listed after the manifestation
+   * - **use_additional** (info): a "use additional code" note not yet satisfied
+   * - **non_billable** (warning): a header code
+   * - **not_effective** (warning): outside the code's effective and end dates
+   *
+   * Notes on a code's ancestors apply to it as well. Codes and their
+   * ancestors are fetched in one batch lookup (full shape).
+   *
+   * @param codes - ICD-10-CM codes in sequence order, with or without dots
+   * @param options - Date of service and request options
+   * @returns Findings, whether the set is free of errors, and the code records
+   * @throws ValidationError if no codes are given or the date is malformed
+   *
+   * @example
+   * ```ts
+   * const result = await client.icd10.checkCodeSet(["E11.9", "E10.9"]);
+   * for (const finding of result.findings) {
+   *   console.log(finding.severity, finding.message, finding.reference);
+   * }
+   * // error "E10.9 cannot be reported with E11.9 (Excludes1)" "ICD-10-CM Official Guidelines I.A.12.a"
+   * ```
+   */
+  async checkCodeSet(codes: string[], options?: Icd10CheckOptions): Promise<Icd10CodeSetResult> {
+    if (codes.length === 0) throw new ValidationError("codes array must not be empty");
+    const [request, { date }] = splitRequestOptions(options);
+    const service = serviceDate(date);
+    const lookups = codeSetLookups(codes);
+    const records = new Map<string, Icd10Full>();
+    if (lookups.length > 0) {
+      const response = await this.lookupAll(lookups, { ...request, shape: "full" });
+      for (const item of response.results) {
+        if (item.data) records.set(item.input, item.data);
+      }
+    }
+    return checkIcd10Codes(codes, records, service);
+  }
+
+  /**
+   * Search the block of a looked-up code for the codes that extend it.
+   *
+   * The block filter is given the code's `section` (e.g., "E08-E13"). A
+   * correct scope always returns codes (at least the code itself, or a
+   * billable code of its block), so a scope that returns nothing is treated
+   * as a filter the API did not match, and the next wider scope (chapter,
+   * then a text search for the category) is tried.
+   *
+   * @throws FhirflyError if the scope has more codes than the search API
+   * pages through, so the list would be cut off
+   */
+  private async searchDescendants(
+    data: Icd10Standard,
+    billableOnly: boolean,
+    options?: RequestOptions
+  ): Promise<Icd10Standard[]> {
+    const scopes: Icd10SearchParams[] = [];
+    if (data.section) scopes.push({ block: data.section });
+    if (data.chapter) scopes.push({ chapter: data.chapter });
+    scopes.push({ q: data.code.slice(0, 3) });
+
+    for (const scope of scopes) {
+      let matched = false;
+      let complete = true;
+      const descendants: Icd10Standard[] = [];
+      const pages = this.searchPages(
+        { ...scope, code_system: "CM", billable: billableOnly ? true : undefined },
+        { ...options, shape: "standard", limit: 100 }
+      );
+      for await (const page of pages) {
+        complete = !page.has_more;
+        for (const item of page.items) {
+          matched = true;
+          if (!isIcd10Descendant(item.code, data.code)) continue;
+          if (billableOnly && !item.billable) continue;
+          descendants.push(item);
+        }
+      }
+      if (!complete) {
+        throw new FhirflyError(
+          `Too many codes to list the descendants of ${data.code}: the search stopped at the ${MAX_SEARCH_PAGE}-page limit`
+        );
+      }
+      if (matched) return descendants.sort((a, b) => a.code.localeCompare(b.code));
+    }
+    return [];
   }
 }
@@ -1,16 +1,43 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated, mapConcurrent } from "../batch.js";
+import { validateLoinc } from "../validators.js";
+import { paginateItems, paginatePages } from "../pagination.js";
+import {
+  checkVaryAxes,
+  compareByAxes,
+  facetLoincParts,
+  LOINC_AXES,
+  sharesParts,
+  variantSearchParams,
+} from "../loinc-parts.js";
+import { mappingQuery, scoreLoincCandidate } from "../loinc-mapping.js";
 import type {
   ApiResponse,
   BatchResponse,
   LookupOptions,
   BatchLookupOptions,
+  LookupAllOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
-import type { LoincData, LoincSearchParams } from "../types/loinc.js";
+import type {
+  LocalLabTest,
+  LoincData,
+  LoincFacetOptions,
+  LoincMappingOptions,
+  LoincMappingSuggestion,
+  LoincPartFacets,
+  LoincSearchParams,
+  LoincShapes,
+  LoincStandard,
+  LoincVariantOptions,
+  LoincVariants,
+} from "../types/loinc.js";
 
 /**
  * LOINC API endpoint.
@@ -31,6 +58,10 @@ export class LoincEndpoint {
    * console.log(loinc.data.long_common_name); // "Glucose [Mass/volume] in Serum or Plasma"
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    loincNum: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<LoincShapes, O>>>;
   async lookup(loincNum: string, options?: LookupOptions): Promise<ApiResponse<LoincData>> {
     return this.http.get<ApiResponse<LoincData>>(`/v1/loinc/${encodeURIComponent(loincNum)}`, options);
   }
@@ -42,16 +73,53 @@ export class LoincEndpoint {
    * @param options - Response shape, include, and batch options
    * @returns Batch response with results for each LOINC
    */
+  lookupMany<O extends BatchLookupOptions = BatchLookupOptions>(
+    loincNums: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<LoincShapes, O>>>;
   async lookupMany(
     loincNums: string[],
     options?: BatchLookupOptions
   ): Promise<BatchResponse<LoincData>> {
+    const { prevalidate, ...batchOptions } = options ?? {};
     if (loincNums.length === 0) throw new ValidationError("loincNums array must not be empty");
     if (loincNums.length > 100) throw new ValidationError(`LOINC batch lookup supports max 100 codes, got ${loincNums.length}`);
+    if (prevalidate) {
+      return lookupValidated(loincNums, "loincNums", validateLoinc, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<LoincData>>(
       "/v1/loinc/_batch",
       { codes: loincNums },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of LOINC numbers, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param loincNums - Array of LOINC numbers (any length)
+   * @param options - Response shape, include, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   */
+  lookupAll<O extends LookupAllOptions = LookupAllOptions>(
+    loincNums: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<LoincShapes, O>>>;
+  async lookupAll(
+    loincNums: string[],
+    options?: LookupAllOptions
+  ): Promise<BatchResponse<LoincData>> {
+    const { concurrency, chunkSize, prevalidate, ...batchOptions } = options ?? {};
+    if (prevalidate) {
+      return lookupValidated(loincNums, "loincNums", validateLoinc, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(loincNums, 100, "loincNums", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -75,14 +143,193 @@ export class LoincEndpoint {
    * });
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: LoincSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<LoincShapes, O>>>;
   async search(
     params: LoincSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<LoincData>> {
-    return this.http.search<SearchResponse<LoincData>>("/v1/loinc/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<LoincData>>(
+      "/v1/loinc/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for LOINC codes.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: LoincSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<LoincShapes, O>>>;
+  searchPages(
+    params: LoincSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<LoincData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for LOINC codes across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: LoincSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<LoincShapes, O>>;
+  searchAll(
+    params: LoincSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<LoincData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
+  }
+
+  /**
+   * Find LOINC codes that differ from a code only on the given axes, such as
+   * the same test on another specimen or by another method.
+   *
+   * Searches with the code's fixed parts as filters, then keeps the codes
+   * whose six parts match exactly on every axis not in `vary` (a missing
+   * part, such as no method, must also be missing).
+   *
+   * @param code - LOINC code (e.g., "2345-7")
+   * @param options - Axes to vary, deprecated-code and page limits, and request options
+   * @returns The code's parts and its variants, excluding the code itself
+   * @throws ValidationError if `vary` is empty, names an unknown axis, or leaves no axis to search on
+   * @throws NotFoundError if the code does not exist
+   *
+   * @example
+   * ```ts
+   * // Glucose [Mass/volume] in other specimens and by other methods
+   * const { variants } = await client.loinc.findVariants("2345-7", { vary: ["system", "method"] });
+   * for (const v of variants) console.log(v.code, v.parts.system, v.parts.method_typ);
+   * ```
+   */
+  async findVariants(code: string, options: LoincVariantOptions): Promise<LoincVariants> {
+    const [request, { vary, includeDeprecated = false, maxPages }] = splitRequestOptions(options);
+    const varied = checkVaryAxes(vary);
+    const fixed = LOINC_AXES.filter((axis) => !varied.includes(axis));
+
+    const { data } = await this.lookup(code, { ...request, shape: "standard" });
+    const params = variantSearchParams(data.parts, fixed);
+    if (Object.keys(params).length === 0) {
+      throw new ValidationError(`${data.code} has no fixed part to search on; vary fewer axes`, "vary");
+    }
+
+    const variants: LoincStandard[] = [];
+    let complete = true;
+    for await (const page of this.searchPages(params, { ...request, shape: "standard", limit: 100, maxPages })) {
+      complete = !page.has_more;
+      for (const item of page.items) {
+        if (item.code === data.code || !sharesParts(data.parts, item.parts, fixed)) continue;
+        if (!includeDeprecated && item.status === "DEPRECATED") continue;
+        variants.push(item);
+      }
+    }
+
+    return {
+      code: data.code,
+      parts: data.parts,
+      vary: varied,
+      variants: variants.sort(compareByAxes(varied)),
+      complete,
+    };
+  }
+
+  /**
+   * Count the distinct values of each LOINC axis across a search's results,
+   * to see which specimens, methods, scales, and so on a test comes in.
+   *
+   * Pages through every result (standard shape, 100 per page), so cost
+   * grows with the result set; narrow the search or set `maxPages` for
+   * broad queries.
+   *
+   * @param params - Search parameters (q, component, system, etc.)
+   * @param options - Page limit and request options
+   * @returns Distinct values per axis with counts, most common first
+   *
+   * @example
+   * ```ts
+   * const { facets } = await client.loinc.facetParts({ component: "Glucose", scale: "Qn" });
+   * console.log(facets.system); // [{ value: "Ser/Plas", count: 12 }, { value: "Bld", count: 9 }, ...]
+   * ```
+   */
+  async facetParts(params: LoincSearchParams, options?: LoincFacetOptions): Promise<LoincPartFacets> {
+    const [request, { maxPages }] = splitRequestOptions(options);
+    const items: LoincStandard[] = [];
+    let complete = true;
+    for await (const page of this.searchPages(params, { ...request, shape: "standard", limit: 100, maxPages })) {
+      complete = !page.has_more;
+      items.push(...page.items);
+    }
+    return { count: items.length, facets: facetLoincParts(items), complete };
+  }
+
+  /**
+   * Suggest LOINC codes for tests from a local lab catalog.
+   *
+   * Each test is searched by its name (without specimen and method words,
+   * and restricted to quantitative codes when it has units), and the results
+   * are scored on component agreement with the name, specimen vs system,
+   * units vs `example_ucum_units` (exact or UCUM-convertible), method, and
+   * `common_test_rank`. Every candidate explains its score per axis.
+   *
+   * @param tests - Local tests with name, and optional specimen, units, and method
+   * @param options - Candidates per test, search depth, concurrency, and request options
+   * @returns One suggestion per test, in input order, best candidates first
+   * @throws ValidationError if no tests are given, a test has no name, or an option is out of range
+   *
+   * @example
+   * ```ts
+   * const [suggestion] = await client.loinc.suggestMappings([
+   *   { code: "GLU", name: "Glucose, serum", specimen: "Serum", units: "mg/dL" },
+   * ]);
+   * const best = suggestion.candidates[0];
+   * console.log(best.loinc.code, best.score); // "2345-7" 0.92
+   * for (const e of best.explanations) console.log(e.axis, e.outcome, e.message);
+   * ```
+   */
+  async suggestMappings(tests: LocalLabTest[], options?: LoincMappingOptions): Promise<LoincMappingSuggestion[]> {
+    const [request, { top = 5, candidates = 50, includeDeprecated = false, concurrency = 4 }] =
+      splitRequestOptions(options);
+    if (tests.length === 0) throw new ValidationError("tests array must not be empty");
+    if (!Number.isInteger(top) || top < 1) throw new ValidationError("top must be a positive integer", "top");
+    if (!Number.isInteger(candidates) || candidates < 1 || candidates > 100) {
+      throw new ValidationError("candidates must be an integer from 1 to 100", "candidates");
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError("concurrency must be a positive integer", "concurrency");
+    }
+    const unnamed = tests.find((test) => !test.name?.trim());
+    if (unnamed) throw new ValidationError(`Local test ${unnamed.code} has no name`, "name");
+
+    return mapConcurrent(tests, concurrency, async (test, i) => {
+      const query = mappingQuery(test);
+      const response = await this.search(query, { ...subrequestOptions(request, i), shape: "full", limit: candidates });
+      const ranked = response.items
+        .filter((item) => includeDeprecated || item.status !== "DEPRECATED")
+        .map((item) => scoreLoincCandidate(test, item))
+        .sort((a, b) => b.score - a.score || a.loinc.code.localeCompare(b.loinc.code));
+      return { test, query, candidates: ranked.slice(0, top) };
     });
   }
 }
@@ -1,16 +1,22 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { validateMvx } from "../validators.js";
+import { paginateItems, paginatePages } from "../pagination.js";
 import type {
   ApiResponse,
   BatchResponse,
   LookupOptions,
   BatchLookupOptions,
+  LookupAllOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
-import type { MvxData, MvxSearchParams } from "../types/mvx.js";
+import type { MvxData, MvxSearchParams, MvxShapes } from "../types/mvx.js";
 
 /**
  * MVX (Vaccine Manufacturer Codes) API endpoint.
@@ -31,6 +37,10 @@ export class MvxEndpoint {
    * console.log(mvx.data.manufacturer_name); // "Pfizer, Inc"
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    mvxCode: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<MvxShapes, O>>>;
   async lookup(mvxCode: string, options?: LookupOptions): Promise<ApiResponse<MvxData>> {
     return this.http.get<ApiResponse<MvxData>>(`/v1/mvx/${encodeURIComponent(mvxCode)}`, options);
   }
@@ -42,16 +52,53 @@ export class MvxEndpoint {
    * @param options - Response shape, include, and batch options
    * @returns Batch response with results for each code
    */
+  lookupMany<O extends BatchLookupOptions = BatchLookupOptions>(
+    mvxCodes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<MvxShapes, O>>>;
   async lookupMany(
     mvxCodes: string[],
     options?: BatchLookupOptions
   ): Promise<BatchResponse<MvxData>> {
+    const { prevalidate, ...batchOptions } = options ?? {};
     if (mvxCodes.length === 0) throw new ValidationError("mvxCodes array must not be empty");
     if (mvxCodes.length > 100) throw new ValidationError(`MVX batch lookup supports max 100 codes, got ${mvxCodes.length}`);
+    if (prevalidate) {
+      return lookupValidated(mvxCodes, "mvxCodes", validateMvx, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<MvxData>>(
       "/v1/mvx/_batch",
       { codes: mvxCodes },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of MVX codes, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param mvxCodes - Array of MVX codes (any length)
+   * @param options - Response shape, include, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   */
+  lookupAll<O extends LookupAllOptions = LookupAllOptions>(
+    mvxCodes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<MvxShapes, O>>>;
+  async lookupAll(
+    mvxCodes: string[],
+    options?: LookupAllOptions
+  ): Promise<BatchResponse<MvxData>> {
+    const { concurrency, chunkSize, prevalidate, ...batchOptions } = options ?? {};
+    if (prevalidate) {
+      return lookupValidated(mvxCodes, "mvxCodes", validateMvx, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(mvxCodes, 100, "mvxCodes", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -71,14 +118,63 @@ export class MvxEndpoint {
    * const results = await client.mvx.search({ status: "active" });
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: MvxSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<MvxShapes, O>>>;
   async search(
     params: MvxSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<MvxData>> {
-    return this.http.search<SearchResponse<MvxData>>("/v1/mvx/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
-    });
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<MvxData>>(
+      "/v1/mvx/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for vaccine manufacturers.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: MvxSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<MvxShapes, O>>>;
+  searchPages(
+    params: MvxSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<MvxData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for vaccine manufacturers across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: MvxSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<MvxShapes, O>>;
+  searchAll(
+    params: MvxSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<MvxData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
   }
 }
@@ -1,16 +1,52 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { emptyBatchResponse, invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { paginateItems, paginatePages } from "../pagination.js";
+import { normalizeNdc, parseNdc } from "../ndc.js";
+import { validateNdc } from "../validators.js";
 import type {
   ApiResponse,
   BatchResponse,
+  BatchResultItem,
   LookupOptions,
-  BatchLookupOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
-import type { NdcData, NdcSearchParams } from "../types/ndc.js";
+import type {
+  NdcBatchLookupOptions,
+  NdcData,
+  NdcLookupAllOptions,
+  NdcSearchParams,
+  NdcShapes,
+} from "../types/ndc.js";
+
+/**
+ * Normalize and dedupe NDC inputs, look up the distinct codes, and map the
+ * results back onto the original inputs. When no input parses, the `invalid`
+ * items are returned without a request.
+ */
+async function lookupNormalized(
+  codes: string[],
+  lookup: (unique: string[]) => Promise<BatchResponse<NdcData>>
+): Promise<BatchResponse<NdcData>> {
+  // Ambiguous inputs are sent as-is; the API resolves their configuration
+  const parsed = codes.map(parseNdc);
+  const keys = parsed.map((result) => (result.status === "valid" ? normalizeNdc(result)! : result.input.trim()));
+  const unique = [...new Set(keys.filter((_, i) => parsed[i]!.status !== "invalid"))];
+  const response = unique.length > 0 ? await lookup(unique) : emptyBatchResponse<BatchResponse<NdcData>>();
+  const byKey = new Map(response.results.map((item, i) => [unique[i]!, item]));
+
+  const results = parsed.map((result, i): BatchResultItem<NdcData> =>
+    result.status === "invalid"
+      ? { input: result.input, status: "invalid", error: result.reason }
+      : { ...byKey.get(keys[i]!)!, input: result.input }
+  );
+  return { ...response, count: results.length, results };
+}
 
 /**
  * NDC (National Drug Code) API endpoint.
@@ -31,6 +67,10 @@ export class NdcEndpoint {
    * console.log(ndc.data.brand_name); // "Lipitor"
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    code: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<NdcShapes, O>>>;
   async lookup(code: string, options?: LookupOptions): Promise<ApiResponse<NdcData>> {
     return this.http.get<ApiResponse<NdcData>>(`/v1/ndc/${encodeURIComponent(code)}`, options);
   }
@@ -38,9 +78,13 @@ export class NdcEndpoint {
   /**
    * Look up multiple NDC codes in a single request.
    *
+   * With `normalize: true`, inputs are normalized to 5-4-2 and deduplicated
+   * before the request (the 500 limit applies to distinct NDCs), and
+   * unparseable inputs are returned as `invalid` without being sent.
+   *
    * @param codes - Array of NDC codes (max 500)
-   * @param options - Response shape, include, and batch options
-   * @returns Batch response with results for each code
+   * @param options - Response shape, include, and normalization options
+   * @returns Batch response with results for each code, in input order
    *
    * @example
    * ```ts
@@ -59,16 +103,70 @@ export class NdcEndpoint {
    * }
    * ```
    */
+  lookupMany<O extends NdcBatchLookupOptions = NdcBatchLookupOptions>(
+    codes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<NdcShapes, O>>>;
   async lookupMany(
     codes: string[],
-    options?: BatchLookupOptions
+    options?: NdcBatchLookupOptions
   ): Promise<BatchResponse<NdcData>> {
+    const { normalize, prevalidate, ...batchOptions } = options ?? {};
     if (codes.length === 0) throw new ValidationError("codes array must not be empty");
+    // Normalization already returns unparseable inputs as invalid
+    if (normalize) {
+      return lookupNormalized(codes, (unique) => this.lookupMany(unique, batchOptions));
+    }
     if (codes.length > 500) throw new ValidationError(`NDC batch lookup supports max 500 codes, got ${codes.length}`);
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateNdc, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<NdcData>>(
       "/v1/ndc/_batch",
       { codes },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of NDC codes, splitting them into batches of at most 500.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param codes - Array of NDC codes (any length)
+   * @param options - Response shape, include, normalization, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   *
+   * @example
+   * ```ts
+   * const results = await client.ndc.lookupAll(formularyNdcs, {
+   *   shape: "full",
+   *   concurrency: 8,
+   * });
+   * console.log(`${results.count} NDCs resolved`);
+   * ```
+   */
+  lookupAll<O extends NdcLookupAllOptions = NdcLookupAllOptions>(
+    codes: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<NdcShapes, O>>>;
+  async lookupAll(
+    codes: string[],
+    options?: NdcLookupAllOptions
+  ): Promise<BatchResponse<NdcData>> {
+    const { concurrency, chunkSize, normalize, prevalidate, ...batchOptions } = options ?? {};
+    if (normalize) {
+      if (codes.length === 0) throw new ValidationError("codes array must not be empty");
+      return lookupNormalized(codes, (unique) => this.lookupAll(unique, { concurrency, chunkSize, ...batchOptions }));
+    }
+    if (prevalidate) {
+      return lookupValidated(codes, "codes", validateNdc, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(codes, 500, "codes", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -97,14 +195,70 @@ export class NdcEndpoint {
    * }
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: NdcSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<NdcShapes, O>>>;
   async search(
     params: NdcSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<NdcData>> {
-    return this.http.search<SearchResponse<NdcData>>("/v1/ndc/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
-    });
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<NdcData>>(
+      "/v1/ndc/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for NDC products.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: NdcSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<NdcShapes, O>>>;
+  searchPages(
+    params: NdcSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<NdcData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for NDC products across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   *
+   * @example
+   * ```ts
+   * for await (const product of client.ndc.searchAll({ ingredient: "ibuprofen" })) {
+   *   console.log(product.ndc);
+   * }
+   * ```
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: NdcSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<NdcShapes, O>>;
+  searchAll(
+    params: NdcSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<NdcData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
   }
 }
@@ -1,16 +1,22 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { validateNpi } from "../validators.js";
+import { paginateItems, paginatePages } from "../pagination.js";
 import type {
   ApiResponse,
   BatchResponse,
   LookupOptions,
   BatchLookupOptions,
+  LookupAllOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
-import type { NpiData, NpiSearchParams } from "../types/npi.js";
+import type { NpiData, NpiSearchParams, NpiShapes } from "../types/npi.js";
 
 /**
  * NPI (National Provider Identifier) API endpoint.
@@ -31,6 +37,10 @@ export class NpiEndpoint {
    * console.log(npi.data.name);
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    npi: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<NpiShapes, O>>>;
   async lookup(npi: string, options?: LookupOptions): Promise<ApiResponse<NpiData>> {
     return this.http.get<ApiResponse<NpiData>>(`/v1/npi/${encodeURIComponent(npi)}`, options);
   }
@@ -50,16 +60,53 @@ export class NpiEndpoint {
    * ]);
    * ```
    */
+  lookupMany<O extends BatchLookupOptions = BatchLookupOptions>(
+    npis: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<NpiShapes, O>>>;
   async lookupMany(
     npis: string[],
     options?: BatchLookupOptions
   ): Promise<BatchResponse<NpiData>> {
+    const { prevalidate, ...batchOptions } = options ?? {};
     if (npis.length === 0) throw new ValidationError("npis array must not be empty");
     if (npis.length > 100) throw new ValidationError(`NPI batch lookup supports max 100 codes, got ${npis.length}`);
+    if (prevalidate) {
+      return lookupValidated(npis, "npis", validateNpi, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<NpiData>>(
       "/v1/npi/_batch",
       { codes: npis },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of NPIs, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param npis - Array of NPIs (any length)
+   * @param options - Response shape, include, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   */
+  lookupAll<O extends LookupAllOptions = LookupAllOptions>(
+    npis: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<NpiShapes, O>>>;
+  async lookupAll(
+    npis: string[],
+    options?: LookupAllOptions
+  ): Promise<BatchResponse<NpiData>> {
+    const { concurrency, chunkSize, prevalidate, ...batchOptions } = options ?? {};
+    if (prevalidate) {
+      return lookupValidated(npis, "npis", validateNpi, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(npis, 100, "npis", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -85,14 +132,63 @@ export class NpiEndpoint {
    * console.log(`Found ${results.total} providers`);
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: NpiSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<NpiShapes, O>>>;
   async search(
     params: NpiSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<NpiData>> {
-    return this.http.search<SearchResponse<NpiData>>("/v1/npi/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
-    });
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<NpiData>>(
+      "/v1/npi/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for providers.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: NpiSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<NpiShapes, O>>>;
+  searchPages(
+    params: NpiSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<NpiData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for providers across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: NpiSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<NpiShapes, O>>;
+  searchAll(
+    params: NpiSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<NpiData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
   }
 }
@@ -0,0 +1,84 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "../errors.js";
+import { rankConnectivity, settleSection } from "../provider-profile.js";
+import { validateNpi } from "../validators.js";
+import type { RequestOptions } from "../types/common.js";
+import type { ProviderProfile, ProviderProfileSection } from "../types/providers.js";
+import type { SmaStateDetailResponse } from "../types/sma.js";
+import type { NpiEndpoint } from "./npi.js";
+import type { ConnectivityEndpoint } from "./connectivity.js";
+import type { SmaEndpoint } from "./sma.js";
+
+/**
+ * Endpoints the provider directory reads from.
+ */
+export interface ProviderSources {
+  npi: NpiEndpoint;
+  connectivity: ConnectivityEndpoint;
+  sma: SmaEndpoint;
+}
+
+/**
+ * Provider directory combining NPI, connectivity, and SMA data.
+ *
+ * @example
+ * ```ts
+ * const profile = await client.providers.profile("1234567893");
+ * const best = profile.connectivity.data?.endpoints[0];
+ * ```
+ */
+export class ProvidersEndpoint {
+  constructor(private readonly sources: ProviderSources) {}
+
+  /**
+   * Build a provider profile from NPPES demographics, ranked connectivity
+   * endpoints, and the state Medicaid agency endpoints for the provider's
+   * practice state.
+   *
+   * The NPI and connectivity lookups run in parallel; the SMA lookup follows
+   * once the practice state is known. Each section succeeds or fails on its
+   * own, so one failed lookup does not fail the call.
+   *
+   * @param npi - 10-digit NPI
+   * @param options - Request options
+   * @returns Provider profile with a status for each section
+   * @throws ValidationError if the NPI is malformed
+   * @throws AbortError if the call is cancelled
+   *
+   * @example
+   * ```ts
+   * const profile = await client.providers.profile("1234567893");
+   *
+   * if (profile.demographics.status === "ok") {
+   *   console.log(profile.demographics.data?.taxonomies);
+   * }
+   * for (const endpoint of profile.connectivity.data?.endpoints ?? []) {
+   *   console.log(`${endpoint.type} ${endpoint.url} (${endpoint.target_name})`);
+   * }
+   * console.log(profile.medicaid.data?.provider_directory.endpoints.production);
+   * ```
+   */
+  async profile(npi: string, options?: RequestOptions): Promise<ProviderProfile> {
+    const check = validateNpi(npi);
+    if (!check.valid) throw new ValidationError(`Invalid NPI "${npi}": ${check.reason}`, "npi");
+
+    const [demographics, connectivity] = await Promise.all([
+      settleSection(async () => (await this.sources.npi.lookup(npi, { ...options, shape: "full" })).data),
+      settleSection(async () => rankConnectivity(await this.sources.connectivity.lookup(npi, options))),
+    ]);
+
+    const state = demographics.data?.practice_address?.state;
+    const medicaid: ProviderProfileSection<SmaStateDetailResponse> = state
+      ? await settleSection(() => this.sources.sma.getState(state, options))
+      : { status: "skipped", error: demographics.data ? "No practice state" : "Demographics unavailable" };
+
+    return {
+      npi,
+      complete: [demographics, connectivity, medicaid].every((section) => section.status !== "error"),
+      demographics,
+      connectivity,
+      medicaid,
+    };
+  }
+}
@@ -1,16 +1,22 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
+import { invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { validateRxcui } from "../validators.js";
+import { paginateItems, paginatePages } from "../pagination.js";
 import type {
   ApiResponse,
   BatchResponse,
   LookupOptions,
   BatchLookupOptions,
+  LookupAllOptions,
+  SearchAllOptions,
   SearchOptions,
   SearchResponse,
+  Shaped,
 } from "../types/common.js";
-import type { RxNormData, RxNormSearchParams } from "../types/rxnorm.js";
+import type { RxNormData, RxNormSearchParams, RxNormShapes } from "../types/rxnorm.js";
 
 /**
  * RxNorm API endpoint.
@@ -31,6 +37,10 @@ export class RxNormEndpoint {
    * console.log(rx.data.name); // "atorvastatin 10 MG Oral Tablet"
    * ```
    */
+  lookup<O extends LookupOptions = LookupOptions>(
+    rxcui: string,
+    options?: O
+  ): Promise<ApiResponse<Shaped<RxNormShapes, O>>>;
   async lookup(rxcui: string, options?: LookupOptions): Promise<ApiResponse<RxNormData>> {
     return this.http.get<ApiResponse<RxNormData>>(`/v1/rxnorm/${encodeURIComponent(rxcui)}`, options);
   }
@@ -42,16 +52,53 @@ export class RxNormEndpoint {
    * @param options - Response shape, include, and batch options
    * @returns Batch response with results for each RxCUI
    */
+  lookupMany<O extends BatchLookupOptions = BatchLookupOptions>(
+    rxcuis: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<RxNormShapes, O>>>;
   async lookupMany(
     rxcuis: string[],
     options?: BatchLookupOptions
   ): Promise<BatchResponse<RxNormData>> {
+    const { prevalidate, ...batchOptions } = options ?? {};
     if (rxcuis.length === 0) throw new ValidationError("rxcuis array must not be empty");
     if (rxcuis.length > 100) throw new ValidationError(`RxNorm batch lookup supports max 100 codes, got ${rxcuis.length}`);
+    if (prevalidate) {
+      return lookupValidated(rxcuis, "rxcuis", validateRxcui, invalidResult, (valid) => this.lookupMany(valid, batchOptions));
+    }
     return this.http.post<BatchResponse<RxNormData>>(
       "/v1/rxnorm/_batch",
       { codes: rxcuis },
-      options
+      batchOptions
+    );
+  }
+
+  /**
+   * Look up any number of RxCUIs, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param rxcuis - Array of RxCUIs (any length)
+   * @param options - Response shape, include, chunk size, and concurrency options
+   * @returns Merged batch response with results for each input
+   */
+  lookupAll<O extends LookupAllOptions = LookupAllOptions>(
+    rxcuis: string[],
+    options?: O
+  ): Promise<BatchResponse<Shaped<RxNormShapes, O>>>;
+  async lookupAll(
+    rxcuis: string[],
+    options?: LookupAllOptions
+  ): Promise<BatchResponse<RxNormData>> {
+    const { concurrency, chunkSize, prevalidate, ...batchOptions } = options ?? {};
+    if (prevalidate) {
+      return lookupValidated(rxcuis, "rxcuis", validateRxcui, invalidResult, (valid) =>
+        this.lookupAll(valid, { concurrency, chunkSize, ...batchOptions })
+      );
+    }
+    return lookupInChunks(rxcuis, 100, "rxcuis", { concurrency, chunkSize }, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(batchOptions, i))
     );
   }
 
@@ -74,14 +121,63 @@ export class RxNormEndpoint {
    * });
    * ```
    */
+  search<O extends SearchOptions = SearchOptions>(
+    params: RxNormSearchParams,
+    options?: O
+  ): Promise<SearchResponse<Shaped<RxNormShapes, O>>>;
   async search(
     params: RxNormSearchParams,
     options?: SearchOptions
   ): Promise<SearchResponse<RxNormData>> {
-    return this.http.search<SearchResponse<RxNormData>>("/v1/rxnorm/search", {
-      ...params,
-      ...options,
-      include: options?.include?.join(","),
-    });
+    const [request, { include, ...query }] = splitRequestOptions(options);
+    return this.http.search<SearchResponse<RxNormData>>(
+      "/v1/rxnorm/search",
+      { ...params, ...query, include: include?.join(",") },
+      request
+    );
+  }
+
+  /**
+   * Iterate over every page of search results for RxNorm drugs.
+   *
+   * Fetches pages on demand, starting at `options.page` (default 1), until the
+   * server reports no more results or the 100-page ceiling is reached.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page limits
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages<O extends SearchAllOptions = SearchAllOptions>(
+    params: RxNormSearchParams,
+    options?: O
+  ): AsyncIterable<SearchResponse<Shaped<RxNormShapes, O>>>;
+  searchPages(
+    params: RxNormSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<SearchResponse<RxNormData>> {
+    const [request, { shape, include, limit, page, maxPages }] = splitRequestOptions(options);
+    return paginatePages(
+      (next) => this.search(params, { ...request, shape, include, limit, page: next }),
+      page,
+      { maxPages }
+    );
+  }
+
+  /**
+   * Iterate over every search result for RxNorm drugs across all pages.
+   *
+   * @param params - Search parameters
+   * @param options - Page size, response shape, and page/item limits
+   * @returns Async iterable of search result items
+   */
+  searchAll<O extends SearchAllOptions = SearchAllOptions>(
+    params: RxNormSearchParams,
+    options?: O
+  ): AsyncIterable<Shaped<RxNormShapes, O>>;
+  searchAll(
+    params: RxNormSearchParams,
+    options?: SearchAllOptions
+  ): AsyncIterable<RxNormData> {
+    return paginateItems(this.searchPages(params, options), (page) => page.items, options);
   }
 }
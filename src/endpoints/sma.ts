@@ -1,6 +1,7 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
 import type { HttpClient } from "../http.js";
+import type { RequestOptions } from "../types/common.js";
 import type {
   SmaListOptions,
   SmaStatesListResponse,
@@ -39,7 +40,7 @@ export class SmaEndpoint {
   /**
    * List all states with SMA endpoint implementation status.
    *
-   * @param options - Optional filters (implemented, vendor, status, fhir_version)
+   * @param options - Optional filters (implemented, vendor, status, fhir_version) and request options
    * @returns List of state summaries with implementation status
    *
    * @example
@@ -69,7 +70,7 @@ export class SmaEndpoint {
       params.fhir_version = options.fhir_version;
     }
     const queryString = this.http.buildSearchQueryString(params);
-    return this.http.get<SmaStatesListResponse>(`/v1/sma/states${queryString}`);
+    return this.http.get<SmaStatesListResponse>(`/v1/sma/states${queryString}`, options);
   }
 
   /**
@@ -79,6 +80,7 @@ export class SmaEndpoint {
    * display name (California).
    *
    * @param state - State identifier (abbreviation, ID, or display name)
+   * @param options - Request options
    * @returns Full state detail with endpoints, contacts, and metadata
    *
    * @example
@@ -91,9 +93,10 @@ export class SmaEndpoint {
    * }
    * ```
    */
-  async getState(state: string): Promise<SmaStateDetailResponse> {
+  async getState(state: string, options?: RequestOptions): Promise<SmaStateDetailResponse> {
     return this.http.get<SmaStateDetailResponse>(
-      `/v1/sma/states/${encodeURIComponent(state)}`
+      `/v1/sma/states/${encodeURIComponent(state)}`,
+      options
     );
   }
 
@@ -103,6 +106,7 @@ export class SmaEndpoint {
    * Returns implementation counts, breakdowns by vendor/status/FHIR version,
    * and provider directory statistics.
    *
+   * @param options - Request options
    * @returns Aggregate statistics across all states
    *
    * @example
@@ -112,7 +116,7 @@ export class SmaEndpoint {
    * console.log(`Total production URLs: ${stats.summary.total_production_urls}`);
    * ```
    */
-  async stats(): Promise<SmaStatsResponse> {
-    return this.http.get<SmaStatsResponse>("/v1/sma/stats");
+  async stats(options?: RequestOptions): Promise<SmaStatsResponse> {
+    return this.http.get<SmaStatsResponse>("/v1/sma/stats", options);
   }
 }
@@ -1,8 +1,17 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { HttpClient } from "../http.js";
+import { splitRequestOptions, subrequestOptions, type HttpClient } from "../http.js";
 import { ValidationError } from "../errors.js";
-import type { ApiResponse } from "../types/common.js";
+import { invalidResult, lookupInChunks, lookupValidated } from "../batch.js";
+import { validateSnomed } from "../validators.js";
+import { paginateItems, paginateOffset } from "../pagination.js";
+import type {
+  ApiResponse,
+  ChunkingOptions,
+  PaginationOptions,
+  PrevalidateOptions,
+  RequestOptions,
+} from "../types/common.js";
 import type {
   SnomedConcept,
   SnomedReverseMappingData,
@@ -43,6 +52,13 @@ export interface SnomedBatchResponse {
   };
 }
 
+/**
+ * Batch item for a malformed concept ID.
+ */
+function snomedInvalid(input: string, error: string): SnomedBatchResultItem {
+  return { ...invalidResult(input, error), concept_id: input };
+}
+
 /**
  * SNOMED CT API endpoint.
  *
@@ -58,6 +74,7 @@ export class SnomedEndpoint {
    * Look up a single SNOMED CT concept by concept ID.
    *
    * @param conceptId - SNOMED concept ID (numeric string, e.g., "73211009")
+   * @param options - Request options
    * @returns SNOMED concept data with licensing metadata
    *
    * @example
@@ -67,9 +84,10 @@ export class SnomedEndpoint {
    * console.log(result.data.ips_category);   // "condition"
    * ```
    */
-  async lookup(conceptId: string): Promise<ApiResponse<SnomedConcept>> {
+  async lookup(conceptId: string, options?: RequestOptions): Promise<ApiResponse<SnomedConcept>> {
     return this.http.get<ApiResponse<SnomedConcept>>(
-      `/v1/snomed/${encodeURIComponent(conceptId)}`
+      `/v1/snomed/${encodeURIComponent(conceptId)}`,
+      options
     );
   }
 
@@ -77,6 +95,7 @@ export class SnomedEndpoint {
    * Look up multiple SNOMED CT concepts in a single request.
    *
    * @param conceptIds - Array of SNOMED concept IDs (max 100)
+   * @param options - Offline format check and request options
    * @returns Batch response with results for each concept ID
    *
    * @example
@@ -89,12 +108,53 @@ export class SnomedEndpoint {
    * }
    * ```
    */
-  async lookupMany(conceptIds: string[]): Promise<SnomedBatchResponse> {
+  async lookupMany(
+    conceptIds: string[],
+    options?: PrevalidateOptions & RequestOptions
+  ): Promise<SnomedBatchResponse> {
+    const { prevalidate, ...request } = options ?? {};
     if (conceptIds.length === 0) throw new ValidationError("conceptIds array must not be empty");
     if (conceptIds.length > 100) throw new ValidationError(`SNOMED batch lookup supports max 100 codes, got ${conceptIds.length}`);
+    if (prevalidate) {
+      return lookupValidated(conceptIds, "conceptIds", validateSnomed, snomedInvalid, (valid) =>
+        this.lookupMany(valid, request)
+      );
+    }
     return this.http.post<SnomedBatchResponse>(
       "/v1/snomed/_batch",
-      { codes: conceptIds }
+      { codes: conceptIds },
+      request
+    );
+  }
+
+  /**
+   * Look up any number of SNOMED CT concepts, splitting them into batches of at most 100.
+   *
+   * Batches run with bounded parallelism and are merged into a single response
+   * with results in input order.
+   *
+   * @param conceptIds - Array of SNOMED concept IDs (any length)
+   * @param options - Chunk size, concurrency, offline format check, and request options
+   * @returns Merged batch response with results for each concept ID
+   *
+   * @example
+   * ```ts
+   * const result = await client.snomed.lookupAll(problemListConceptIds, { prevalidate: true });
+   * const unknown = result.results.filter((item) => item.status !== "ok");
+   * ```
+   */
+  async lookupAll(
+    conceptIds: string[],
+    options?: ChunkingOptions & PrevalidateOptions & RequestOptions
+  ): Promise<SnomedBatchResponse> {
+    const [request, { prevalidate, ...chunking }] = splitRequestOptions(options);
+    if (prevalidate) {
+      return lookupValidated(conceptIds, "conceptIds", validateSnomed, snomedInvalid, (valid) =>
+        this.lookupAll(valid, { ...chunking, ...request })
+      );
+    }
+    return lookupInChunks(conceptIds, 100, "conceptIds", chunking, (chunk, i) =>
+      this.lookupMany(chunk, subrequestOptions(request, i))
     );
   }
 
@@ -102,6 +162,7 @@ export class SnomedEndpoint {
    * Search SNOMED CT IPS concepts.
    *
    * @param params - Search parameters (q, ips_category, semantic_tag, active, limit, skip)
+   * @param options - Request options
    * @returns Search results with matching concepts
    *
    * @example
@@ -116,15 +177,62 @@ export class SnomedEndpoint {
    * });
    * ```
    */
-  async search(params: SnomedSearchParams): Promise<SnomedSearchResponse> {
+  async search(params: SnomedSearchParams, options?: RequestOptions): Promise<SnomedSearchResponse> {
     return this.http.search<SnomedSearchResponse>("/v1/snomed/search", {
       ...params,
-    });
+    }, options);
+  }
+
+  /**
+   * Iterate over every page of a SNOMED CT IPS search.
+   *
+   * SNOMED search is offset-based, so pages are requested by advancing `skip`
+   * by `limit` (default 100) until a page returns fewer results than requested.
+   *
+   * @param params - Search parameters; `limit` sets the page size and `skip` the starting offset
+   * @param options - Page limits and request options
+   * @returns Async iterable of search responses, one per page
+   */
+  searchPages(
+    params: SnomedSearchParams,
+    options?: PaginationOptions & RequestOptions
+  ): AsyncIterable<SnomedSearchResponse> {
+    const { limit = 100, skip = 0, ...rest } = params;
+    const [request, pagination] = splitRequestOptions(options);
+    return paginateOffset(
+      (nextSkip, pageSize) => this.search({ ...rest, limit: pageSize, skip: nextSkip }, request),
+      (page) => page.results,
+      limit,
+      skip,
+      pagination
+    );
+  }
+
+  /**
+   * Iterate over every concept matching a SNOMED CT IPS search across all pages.
+   *
+   * @param params - Search parameters; `limit` sets the page size and `skip` the starting offset
+   * @param options - Page and item limits, and request options
+   * @returns Async iterable of matching concepts
+   *
+   * @example
+   * ```ts
+   * for await (const concept of client.snomed.searchAll({ ips_category: "condition" })) {
+   *   console.log(concept.preferred_term);
+   * }
+   * ```
+   */
+  searchAll(
+    params: SnomedSearchParams,
+    options?: PaginationOptions & RequestOptions
+  ): AsyncIterable<SnomedConcept> {
+    return paginateItems(this.searchPages(params, options), (page) => page.results, options);
   }
 
   /**
    * List all available IPS categories.
    *
+   * @param options - Request options
    * @returns Categories with descriptions
    *
    * @example
@@ -133,8 +241,8 @@ export class SnomedEndpoint {
    * console.log(result.categories); // ["substance", "product", "condition", ...]
    * ```
    */
-  async categories(): Promise<SnomedCategoriesResponse> {
-    return this.http.get<SnomedCategoriesResponse>("/v1/snomed/categories");
+  async categories(options?: RequestOptions): Promise<SnomedCategoriesResponse> {
+    return this.http.get<SnomedCategoriesResponse>("/v1/snomed/categories", options);
   }
 
   /**
@@ -143,6 +251,7 @@ export class SnomedEndpoint {
    * Returns what terminology codes (ICD-10, RxNorm, NDC) map to this SNOMED concept.
    *
    * @param conceptId - SNOMED concept ID (numeric string)
+   * @param options - Request options
    * @returns Reverse mapping data showing source codes that map to this concept
    *
    * @example
@@ -154,9 +263,10 @@ export class SnomedEndpoint {
    * }
    * ```
    */
-  async mappings(conceptId: string): Promise<ApiResponse<SnomedReverseMappingData>> {
+  async mappings(conceptId: string, options?: RequestOptions): Promise<ApiResponse<SnomedReverseMappingData>> {
     return this.http.get<ApiResponse<SnomedReverseMappingData>>(
-      `/v1/snomed/${encodeURIComponent(conceptId)}/mappings`
+      `/v1/snomed/${encodeURIComponent(conceptId)}/mappings`,
+      options
     );
   }
 }
@@ -1,5 +1,7 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
+import { formatIssues, type SchemaIssue } from "./schema.js";
+
 /**
  * Base error class for all FHIRfly SDK errors.
  */
@@ -162,3 +164,38 @@ export class TimeoutError extends FhirflyError {
     Object.setPrototypeOf(this, TimeoutError.prototype);
   }
 }
+
+/**
+ * Error thrown when a request is cancelled through its `AbortSignal`.
+ */
+export class AbortError extends FhirflyError {
+  /** The signal's abort reason */
+  readonly reason?: unknown;
+
+  constructor(reason?: unknown) {
+    super("Request was aborted");
+    this.name = "AbortError";
+    this.reason = reason;
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+/**
+ * Error thrown in strict `validateResponses` mode when a response does not
+ * match the SDK's types.
+ */
+export class ResponseValidationError extends FhirflyError {
+  readonly method: "GET" | "POST";
+  /** Path and query string of the request */
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(method: "GET" | "POST", endpoint: string, issues: SchemaIssue[]) {
+    super(`Response from ${method} ${endpoint} does not match the SDK types: ${formatIssues(issues)}`);
+    this.name = "ResponseValidationError";
+    this.method = method;
+    this.endpoint = endpoint;
+    this.issues = issues;
+    Object.setPrototypeOf(this, ResponseValidationError.prototype);
+  }
+}
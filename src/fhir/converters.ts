@@ -0,0 +1,547 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "../errors.js";
+import type { NdcData } from "../types/ndc.js";
+import type { RxNormData } from "../types/rxnorm.js";
+import type { NpiAddress, NpiData } from "../types/npi.js";
+import type { CvxData } from "../types/cvx.js";
+import type { MvxData } from "../types/mvx.js";
+import type { LocalLabTest, LoincData } from "../types/loinc.js";
+import type { Icd10Data } from "../types/icd10.js";
+import type { SnomedConcept, SnomedEnrichmentStandard, SnomedEnrichmentFull } from "../types/snomed.js";
+import { FhirSystem } from "./systems.js";
+import type {
+  FhirAddress,
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirConceptMap,
+  FhirConceptMapEquivalence,
+  FhirContactPoint,
+  FhirHumanName,
+  FhirIdentifier,
+  FhirImmunizationVaccine,
+  FhirMedication,
+  FhirOrganization,
+  FhirPractitioner,
+  FhirPractitionerRole,
+  FhirRatio,
+  FhirReference,
+} from "./types.js";
+
+/**
+ * Options for converters that can append SNOMED CT translations.
+ */
+export interface SnomedCodingOptions {
+  /**
+   * Append SNOMED CT codings from the `snomed` enrichment.
+   * Only `equivalent` mappings are added, since every coding in a
+   * CodeableConcept must represent the same concept.
+   * @default true
+   */
+  includeSnomed?: boolean;
+}
+
+/**
+ * Options for {@link npiToPractitionerRole}.
+ */
+export interface PractitionerRoleOptions {
+  /** Practitioner reference. Default: `Practitioner/{npi}` for individual providers */
+  practitioner?: FhirReference;
+  /** Organization reference. Default: `Organization/{npi}` for organization providers */
+  organization?: FhirReference;
+}
+
+/**
+ * A local lab test accepted as mapping to a LOINC code.
+ */
+export interface LoincMapping {
+  test: Pick<LocalLabTest, "code" | "name">;
+  loinc: Pick<LoincData, "code" | "display_name">;
+  /** Default: "equivalent" */
+  equivalence?: FhirConceptMapEquivalence;
+  /** Required for "narrower" and "inexact" mappings */
+  comment?: string;
+}
+
+/**
+ * Options for {@link loincMappingsToConceptMap}.
+ */
+export interface LoincConceptMapOptions {
+  /** Code system URI of the local test codes (the `group.source`) */
+  sourceSystem: string;
+  /** Status of the ConceptMap. Default: "draft" */
+  status?: FhirConceptMap["status"];
+  id?: string;
+  url?: string;
+  version?: string;
+  name?: string;
+  title?: string;
+  publisher?: string;
+  description?: string;
+  /** Date of the ConceptMap (YYYY-MM-DD or a full dateTime). Default: today (UTC) */
+  date?: string;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function coding(system: string, code: string, display?: string | null): FhirCoding {
+  return display ? { system, code, display } : { system, code };
+}
+
+function snomedCodings(
+  enrichment: Array<SnomedEnrichmentStandard | SnomedEnrichmentFull> | undefined,
+  options?: SnomedCodingOptions
+): FhirCoding[] {
+  if (options?.includeSnomed === false || !enrichment) return [];
+  return enrichment
+    .filter((mapping) => mapping.map_type === "equivalent")
+    .map(snomedEnrichmentToCoding);
+}
+
+function npiIdentifier(npi: string): FhirIdentifier {
+  return { use: "official", system: FhirSystem.NPI, value: npi };
+}
+
+function toAddress(address: NpiAddress | null | undefined, type?: FhirAddress["type"]): FhirAddress | undefined {
+  if (!address) return undefined;
+  const line = [address.line1, address.line2].filter((l): l is string => !!l);
+  const result: FhirAddress = { use: "work" };
+  if (type) result.type = type;
+  if (line.length) result.line = line;
+  if (address.city) result.city = address.city;
+  if (address.state) result.state = address.state;
+  if (address.postal) result.postalCode = address.postal;
+  if (address.country) result.country = address.country;
+  return result;
+}
+
+function toTelecom(address: NpiAddress | null | undefined): FhirContactPoint[] {
+  const telecom: FhirContactPoint[] = [];
+  if (address?.phone) telecom.push({ system: "phone", value: address.phone, use: "work" });
+  if (address?.fax) telecom.push({ system: "fax", value: address.fax, use: "work" });
+  return telecom;
+}
+
+/**
+ * Parse an ingredient strength ("10", "mg/5mL") into a FHIR Ratio.
+ */
+function toStrength(strength: string | null, unit: string | null): FhirRatio | undefined {
+  const value = strength === null ? NaN : Number.parseFloat(strength);
+  if (!Number.isFinite(value)) return undefined;
+
+  const [numeratorUnit, denominator] = (unit ?? "").split("/", 2);
+  const ratio: FhirRatio = { numerator: { value, unit: numeratorUnit || undefined } };
+
+  if (denominator !== undefined) {
+    const match = denominator.trim().match(/^(\d*\.?\d*)\s*(.*)$/);
+    const denominatorValue = match?.[1] ? Number.parseFloat(match[1]) : 1;
+    ratio.denominator = { value: denominatorValue, unit: match?.[2] || undefined };
+  }
+  return ratio;
+}
+
+function withoutEmpty<T extends object>(resource: T): T {
+  for (const [key, value] of Object.entries(resource)) {
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      delete (resource as Record<string, unknown>)[key];
+    }
+  }
+  return resource;
+}
+
+// ============================================================================
+// Codings and CodeableConcepts
+// ============================================================================
+
+/**
+ * Convert a SNOMED CT enrichment mapping (from NDC, RxNorm, or ICD-10 responses) to a Coding.
+ */
+export function snomedEnrichmentToCoding(
+  mapping: SnomedEnrichmentStandard | SnomedEnrichmentFull
+): FhirCoding {
+  if ("fhir_coding" in mapping && mapping.fhir_coding) {
+    return { ...mapping.fhir_coding };
+  }
+  return coding(FhirSystem.SNOMED, mapping.concept_id, mapping.display);
+}
+
+/**
+ * Convert a SNOMED CT concept to a CodeableConcept.
+ *
+ * @example
+ * ```ts
+ * const concept = await client.snomed.lookup("73211009");
+ * const cc = snomedToCodeableConcept(concept.data);
+ * // { coding: [{ system: "http://snomed.info/sct", code: "73211009", display: "Diabetes mellitus" }], ... }
+ * ```
+ */
+export function snomedToCodeableConcept(concept: SnomedConcept): FhirCodeableConcept {
+  const display = concept.preferred_term ?? concept.fsn;
+  return withoutEmpty({
+    coding: [coding(FhirSystem.SNOMED, concept.concept_id, display)],
+    text: display ?? undefined,
+  });
+}
+
+/**
+ * Convert an ICD-10-CM or ICD-10-PCS code to a CodeableConcept.
+ *
+ * The coding system is chosen from the code type (`cm` or `pcs`).
+ */
+export function icd10ToCodeableConcept(
+  icd10: Icd10Data,
+  options?: SnomedCodingOptions
+): FhirCodeableConcept {
+  const system = icd10.type === "pcs" ? FhirSystem.ICD10_PCS : FhirSystem.ICD10_CM;
+  return withoutEmpty({
+    coding: [
+      coding(system, icd10.code, icd10.display),
+      ...snomedCodings("snomed" in icd10 ? icd10.snomed : undefined, options),
+    ],
+    text: icd10.display,
+  });
+}
+
+/**
+ * Convert a LOINC code to a CodeableConcept.
+ */
+export function loincToCodeableConcept(loinc: LoincData): FhirCodeableConcept {
+  const base =
+    "fhir_coding" in loinc
+      ? { ...loinc.fhir_coding }
+      : coding(FhirSystem.LOINC, loinc.code, loinc.display_name);
+  return { coding: [base], text: loinc.display_name };
+}
+
+/**
+ * Convert a CVX vaccine code to a CodeableConcept (for `Immunization.vaccineCode`).
+ */
+export function cvxToCodeableConcept(cvx: CvxData): FhirCodeableConcept {
+  const text = "full_vaccine_name" in cvx && cvx.full_vaccine_name ? cvx.full_vaccine_name : cvx.display;
+  return { coding: [coding(FhirSystem.CVX, cvx.code, cvx.display)], text };
+}
+
+/**
+ * Convert an MVX manufacturer code to a Coding.
+ */
+export function mvxToCoding(mvx: MvxData): FhirCoding {
+  if ("fhir_coding" in mvx) {
+    return { ...mvx.fhir_coding };
+  }
+  return coding(FhirSystem.MVX, mvx.code, mvx.display);
+}
+
+/**
+ * Convert an MVX manufacturer code to a logical Reference (for `Immunization.manufacturer`).
+ */
+export function mvxToReference(mvx: MvxData): FhirReference {
+  const display = "manufacturer_name" in mvx ? mvx.manufacturer_name : mvx.display;
+  return {
+    identifier: { system: FhirSystem.MVX, value: mvx.code },
+    display,
+  };
+}
+
+/**
+ * Build the vaccine-identifying elements of an Immunization resource.
+ *
+ * @param cvx - CVX vaccine code data
+ * @param mvx - Optional MVX manufacturer data
+ * @returns `vaccineCode` and (when MVX is provided) `manufacturer`
+ *
+ * @example
+ * ```ts
+ * const [cvx, mvx] = await Promise.all([client.cvx.lookup("208"), client.mvx.lookup("PFR")]);
+ * const immunization = {
+ *   resourceType: "Immunization",
+ *   status: "completed",
+ *   ...toImmunizationVaccine(cvx.data, mvx.data),
+ * };
+ * ```
+ */
+export function toImmunizationVaccine(cvx: CvxData, mvx?: MvxData): FhirImmunizationVaccine {
+  const result: FhirImmunizationVaccine = { vaccineCode: cvxToCodeableConcept(cvx) };
+  if (mvx) result.manufacturer = mvxToReference(mvx);
+  return result;
+}
+
+// ============================================================================
+// Medication
+// ============================================================================
+
+/**
+ * Convert an NDC product or package to a Medication resource.
+ *
+ * The NDC is the primary coding; linked RxCUIs and equivalent SNOMED CT
+ * concepts are added as additional codings. Ingredients are populated from
+ * full-shape `active_ingredients`.
+ *
+ * @example
+ * ```ts
+ * const ndc = await client.ndc.lookup("0069-0151-01", { shape: "full" });
+ * const medication = ndcToMedication(ndc.data);
+ * ```
+ */
+export function ndcToMedication(ndc: NdcData, options?: SnomedCodingOptions): FhirMedication {
+  if (!("brand_name" in ndc)) {
+    return withoutEmpty<FhirMedication>({
+      resourceType: "Medication",
+      code: { coding: [coding(FhirSystem.NDC, ndc.ndc, ndc.name)], text: ndc.name },
+      status: ndc.active ? "active" : "inactive",
+      manufacturer: ndc.labeler ? { display: ndc.labeler } : undefined,
+    });
+  }
+
+  const display = ndc.brand_name ?? ndc.generic_name;
+  return withoutEmpty<FhirMedication>({
+    resourceType: "Medication",
+    code: withoutEmpty({
+      coding: [
+        coding(FhirSystem.NDC, ndc.ndc, display),
+        ...ndc.rxcui.map((rxcui) => coding(FhirSystem.RXNORM, rxcui)),
+        ...snomedCodings(ndc.snomed, options),
+      ],
+      text: display ?? undefined,
+    }),
+    status: ndc.is_active ? "active" : "inactive",
+    manufacturer: ndc.labeler_name ? { display: ndc.labeler_name } : undefined,
+    form: ndc.dosage_form ? { text: ndc.dosage_form } : undefined,
+    ingredient:
+      "active_ingredients" in ndc
+        ? ndc.active_ingredients.map((ingredient) =>
+            withoutEmpty({
+              itemCodeableConcept: { text: ingredient.name },
+              isActive: true,
+              strength: toStrength(ingredient.strength, ingredient.unit),
+            })
+          )
+        : undefined,
+  });
+}
+
+/**
+ * Convert an RxNorm concept to a Medication resource.
+ *
+ * Ingredients and dose form are coded in RxNorm when the response includes them.
+ */
+export function rxnormToMedication(rxnorm: RxNormData, options?: SnomedCodingOptions): FhirMedication {
+  const snomed = "snomed" in rxnorm ? rxnorm.snomed : undefined;
+  return withoutEmpty<FhirMedication>({
+    resourceType: "Medication",
+    code: {
+      coding: [coding(FhirSystem.RXNORM, rxnorm.rxcui, rxnorm.name), ...snomedCodings(snomed, options)],
+      text: rxnorm.name,
+    },
+    form:
+      "dose_form" in rxnorm && rxnorm.dose_form
+        ? {
+            coding: [coding(FhirSystem.RXNORM, rxnorm.dose_form.rxcui, rxnorm.dose_form.name)],
+            text: rxnorm.dose_form.name,
+          }
+        : undefined,
+    ingredient:
+      "ingredients" in rxnorm && rxnorm.ingredients
+        ? rxnorm.ingredients.map((ingredient) => ({
+            itemCodeableConcept: {
+              coding: [coding(FhirSystem.RXNORM, ingredient.rxcui, ingredient.name)],
+              text: ingredient.name,
+            },
+          }))
+        : undefined,
+  });
+}
+
+// ============================================================================
+// Practitioner / Organization / PractitionerRole
+// ============================================================================
+
+function isIndividual(npi: NpiData): boolean {
+  return ("entity_type" in npi ? npi.entity_type : npi.type) === "individual";
+}
+
+function taxonomyConcepts(npi: NpiData): FhirCodeableConcept[] {
+  if (!("taxonomies" in npi)) {
+    return npi.specialty ? [{ text: npi.specialty }] : [];
+  }
+  return [...npi.taxonomies]
+    .sort((a, b) => Number(b.primary) - Number(a.primary))
+    .map((taxonomy) => ({
+      coding: [coding(FhirSystem.NUCC_TAXONOMY, taxonomy.code, taxonomy.display_name)],
+      text: taxonomy.display_name,
+    }));
+}
+
+/**
+ * Convert an individual provider's NPI record to a Practitioner resource.
+ *
+ * @throws {ValidationError} If the NPI belongs to an organization
+ *
+ * @example
+ * ```ts
+ * const npi = await client.npi.lookup("1234567890", { shape: "full" });
+ * const practitioner = npiToPractitioner(npi.data);
+ * ```
+ */
+export function npiToPractitioner(npi: NpiData): FhirPractitioner {
+  if (!isIndividual(npi)) {
+    throw new ValidationError(`NPI ${npi.npi} is an organization; use npiToOrganization()`);
+  }
+
+  if (!("entity_type" in npi)) {
+    return withoutEmpty<FhirPractitioner>({
+      resourceType: "Practitioner",
+      id: npi.npi,
+      identifier: [npiIdentifier(npi.npi)],
+      active: npi.active,
+      name: [{ text: npi.name }],
+    });
+  }
+
+  const name: FhirHumanName | undefined = npi.name
+    ? withoutEmpty<FhirHumanName>({
+        use: "official",
+        family: npi.name.last,
+        given: [npi.name.first, npi.name.middle].filter((n): n is string => !!n),
+        prefix: npi.name.prefix ? [npi.name.prefix] : undefined,
+        suffix: [npi.name.suffix, npi.name.credential_text].filter((n): n is string => !!n),
+      })
+    : undefined;
+
+  const sex = npi.name?.sex?.toUpperCase();
+  const gender = sex === "M" ? "male" : sex === "F" ? "female" : undefined;
+
+  return withoutEmpty<FhirPractitioner>({
+    resourceType: "Practitioner",
+    id: npi.npi,
+    identifier: [npiIdentifier(npi.npi)],
+    active: npi.is_active,
+    name: name ? [name] : undefined,
+    telecom: toTelecom(npi.practice_address),
+    address: [
+      toAddress(npi.practice_address, "physical"),
+      "mailing_address" in npi ? toAddress(npi.mailing_address, "postal") : undefined,
+    ].filter((a): a is FhirAddress => !!a),
+    gender,
+    qualification: npi.taxonomies.map((taxonomy) =>
+      withoutEmpty({
+        identifier: taxonomy.license_number ? [{ value: taxonomy.license_number }] : undefined,
+        code: {
+          coding: [coding(FhirSystem.NUCC_TAXONOMY, taxonomy.code, taxonomy.display_name)],
+          text: taxonomy.display_name,
+        },
+      })
+    ),
+  });
+}
+
+/**
+ * Convert an organization's NPI record to an Organization resource.
+ *
+ * @throws {ValidationError} If the NPI belongs to an individual
+ */
+export function npiToOrganization(npi: NpiData): FhirOrganization {
+  if (isIndividual(npi)) {
+    throw new ValidationError(`NPI ${npi.npi} is an individual; use npiToPractitioner()`);
+  }
+
+  if (!("entity_type" in npi)) {
+    return {
+      resourceType: "Organization",
+      id: npi.npi,
+      identifier: [npiIdentifier(npi.npi)],
+      active: npi.active,
+      name: npi.name,
+    };
+  }
+
+  return withoutEmpty<FhirOrganization>({
+    resourceType: "Organization",
+    id: npi.npi,
+    identifier: [npiIdentifier(npi.npi)],
+    active: npi.is_active,
+    name: npi.organization_name ?? undefined,
+    telecom: toTelecom(npi.practice_address),
+    address: [
+      toAddress(npi.practice_address, "physical"),
+      "mailing_address" in npi ? toAddress(npi.mailing_address, "postal") : undefined,
+    ].filter((a): a is FhirAddress => !!a),
+  });
+}
+
+/**
+ * Convert an NPI record to a PractitionerRole carrying the provider's NUCC
+ * taxonomies as specialties (primary taxonomy first).
+ *
+ * @param npi - NPI record (individual or organization)
+ * @param options - Practitioner and organization references to link
+ */
+export function npiToPractitionerRole(
+  npi: NpiData,
+  options?: PractitionerRoleOptions
+): FhirPractitionerRole {
+  const individual = isIndividual(npi);
+  const active = "is_active" in npi ? npi.is_active : npi.active;
+  return withoutEmpty<FhirPractitionerRole>({
+    resourceType: "PractitionerRole",
+    identifier: [npiIdentifier(npi.npi)],
+    active,
+    practitioner:
+      options?.practitioner ?? (individual ? { reference: `Practitioner/${npi.npi}` } : undefined),
+    organization:
+      options?.organization ?? (individual ? undefined : { reference: `Organization/${npi.npi}` }),
+    specialty: taxonomyConcepts(npi),
+    telecom: "practice_address" in npi ? toTelecom(npi.practice_address) : undefined,
+  });
+}
+
+// ============================================================================
+// ConceptMap
+// ============================================================================
+
+type ConceptMapElement = NonNullable<FhirConceptMap["group"]>[number]["element"][number];
+
+/**
+ * Export accepted local-test-to-LOINC mappings as a ConceptMap from the local
+ * code system to LOINC, with one element per local test code.
+ *
+ * @param mappings - Accepted mappings; several mappings of one local code become several targets
+ * @param options - Local code system URI and ConceptMap metadata
+ * @throws {ValidationError} If a "narrower" or "inexact" mapping has no comment (FHIR invariant cmd-1)
+ *
+ * @example
+ * ```ts
+ * const conceptMap = loincMappingsToConceptMap(
+ *   [{ test: { code: "GLU", name: "Glucose, serum" }, loinc: best.loinc }],
+ *   { sourceSystem: "https://lab.example.org/tests", name: "LocalLabToLoinc" }
+ * );
+ * ```
+ */
+export function loincMappingsToConceptMap(
+  mappings: LoincMapping[],
+  options: LoincConceptMapOptions
+): FhirConceptMap {
+  const { sourceSystem, status = "draft", date, ...metadata } = options;
+  const elements = new Map<string, ConceptMapElement>();
+
+  for (const { test, loinc, equivalence = "equivalent", comment } of mappings) {
+    if ((equivalence === "narrower" || equivalence === "inexact") && !comment) {
+      throw new ValidationError(`Mapping of ${test.code} to ${loinc.code} is ${equivalence} and needs a comment`);
+    }
+    let element = elements.get(test.code);
+    if (!element) {
+      element = { code: test.code, display: test.name, target: [] };
+      elements.set(test.code, element);
+    }
+    element.target!.push(withoutEmpty({ code: loinc.code, display: loinc.display_name, equivalence, comment }));
+  }
+
+  return withoutEmpty<FhirConceptMap>({
+    resourceType: "ConceptMap",
+    ...metadata,
+    status,
+    date: date ?? new Date().toISOString().slice(0, 10),
+    group: elements.size > 0 ? [{ source: sourceSystem, target: FhirSystem.LOINC, element: [...elements.values()] }] : [],
+  });
+}
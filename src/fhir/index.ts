@@ -0,0 +1,45 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+export { FhirSystem, type FhirSystemUri } from "./systems.js";
+export {
+  snomedEnrichmentToCoding,
+  snomedToCodeableConcept,
+  icd10ToCodeableConcept,
+  loincToCodeableConcept,
+  cvxToCodeableConcept,
+  mvxToCoding,
+  mvxToReference,
+  toImmunizationVaccine,
+  ndcToMedication,
+  rxnormToMedication,
+  npiToPractitioner,
+  npiToOrganization,
+  npiToPractitionerRole,
+  loincMappingsToConceptMap,
+  type SnomedCodingOptions,
+  type PractitionerRoleOptions,
+  type LoincMapping,
+  type LoincConceptMapOptions,
+} from "./converters.js";
+export { FhirTerminologyFacade, toOperationOutcome } from "./terminology.js";
+export type {
+  FhirCoding,
+  FhirCodeableConcept,
+  FhirIdentifier,
+  FhirReference,
+  FhirHumanName,
+  FhirAddress,
+  FhirContactPoint,
+  FhirQuantity,
+  FhirRatio,
+  FhirMedication,
+  FhirPractitioner,
+  FhirOrganization,
+  FhirPractitionerRole,
+  FhirImmunizationVaccine,
+  FhirParameter,
+  FhirParameters,
+  FhirOperationOutcome,
+  FhirConceptMap,
+  FhirConceptMapEquivalence,
+} from "./types.js";
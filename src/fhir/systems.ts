@@ -0,0 +1,23 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+/**
+ * Canonical FHIR code system and identifier system URIs for the terminologies
+ * served by FHIRfly.
+ */
+export const FhirSystem = {
+  NDC: "http://hl7.org/fhir/sid/ndc",
+  RXNORM: "http://www.nlm.nih.gov/research/umls/rxnorm",
+  LOINC: "http://loinc.org",
+  ICD10_CM: "http://hl7.org/fhir/sid/icd-10-cm",
+  ICD10_PCS: "http://www.cms.gov/Medicare/Coding/ICD10",
+  CVX: "http://hl7.org/fhir/sid/cvx",
+  MVX: "http://hl7.org/fhir/sid/mvx",
+  SNOMED: "http://snomed.info/sct",
+  NPI: "http://hl7.org/fhir/sid/us-npi",
+  NUCC_TAXONOMY: "http://nucc.org/provider-taxonomy",
+} as const;
+
+/**
+ * One of the canonical system URIs in {@link FhirSystem}.
+ */
+export type FhirSystemUri = (typeof FhirSystem)[keyof typeof FhirSystem];
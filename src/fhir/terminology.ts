@@ -0,0 +1,472 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { Fhirfly } from "../client.js";
+import { ApiError, NotFoundError, ValidationError } from "../errors.js";
+import type { SnomedEnrichmentStandard, SnomedMappingType } from "../types/snomed.js";
+import { FhirSystem } from "./systems.js";
+import type {
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirOperationOutcome,
+  FhirParameter,
+  FhirParameters,
+} from "./types.js";
+
+/**
+ * Concept details gathered from an endpoint for `$lookup` / `$validate-code`.
+ */
+interface ConceptDetails {
+  display?: string;
+  version?: string;
+  inactive?: boolean;
+  designations?: Array<{ use?: FhirCoding; value: string }>;
+  properties?: Array<{ code: string; value: string | boolean }>;
+}
+
+/**
+ * Resolves a code in one code system using the SDK endpoints.
+ */
+interface CodeSystemResolver {
+  name: string;
+  resolve(client: Fhirfly, code: string): Promise<ConceptDetails>;
+}
+
+/**
+ * SNOMED CT designation use for fully specified names.
+ */
+const FSN_USE: FhirCoding = {
+  system: FhirSystem.SNOMED,
+  code: "900000000000003001",
+  display: "Fully specified name",
+};
+
+/**
+ * SNOMED CT designation use for synonyms.
+ */
+const SYNONYM_USE: FhirCoding = {
+  system: FhirSystem.SNOMED,
+  code: "900000000000013009",
+  display: "Synonym",
+};
+
+function icd10Resolver(name: string, type: "cm" | "pcs"): CodeSystemResolver {
+  return {
+    name,
+    async resolve(client, code) {
+      const { data, meta } = await client.icd10.lookup(code);
+      if (data.type !== type) throw new NotFoundError(name, code);
+      const properties: ConceptDetails["properties"] = [];
+      if ("billable" in data && data.billable !== undefined) {
+        properties.push({ code: "billable", value: data.billable });
+      }
+      return { display: data.display, version: meta.source?.version, properties };
+    },
+  };
+}
+
+const CODE_SYSTEMS: Record<string, CodeSystemResolver> = {
+  [FhirSystem.NDC]: {
+    name: "NDC",
+    async resolve(client, code) {
+      const { data, meta } = await client.ndc.lookup(code);
+      const display = "brand_name" in data ? data.brand_name ?? data.generic_name : data.name;
+      const active = "is_active" in data ? data.is_active : data.active;
+      return { display: display ?? undefined, version: meta.source?.version, inactive: !active };
+    },
+  },
+  [FhirSystem.RXNORM]: {
+    name: "RxNorm",
+    async resolve(client, code) {
+      const { data, meta } = await client.rxnorm.lookup(code);
+      return {
+        display: data.name,
+        version: meta.source?.version,
+        properties: [{ code: "TTY", value: data.tty }],
+      };
+    },
+  },
+  [FhirSystem.LOINC]: {
+    name: "LOINC",
+    async resolve(client, code) {
+      const { data, meta } = await client.loinc.lookup(code);
+      const details: ConceptDetails = { display: data.display_name, version: meta.source?.version };
+      if ("parts" in data) {
+        details.inactive = data.status !== "ACTIVE";
+        details.properties = [
+          { code: "COMPONENT", value: data.parts.component },
+          { code: "PROPERTY", value: data.parts.property },
+          { code: "TIME_ASPCT", value: data.parts.time_aspct },
+          { code: "SYSTEM", value: data.parts.system },
+          { code: "SCALE_TYP", value: data.parts.scale_typ },
+          { code: "METHOD_TYP", value: data.parts.method_typ },
+          { code: "CLASS", value: data.class },
+          { code: "STATUS", value: data.status },
+        ].filter((p): p is { code: string; value: string } => p.value !== null);
+      }
+      return details;
+    },
+  },
+  [FhirSystem.ICD10_CM]: icd10Resolver("ICD-10-CM", "cm"),
+  [FhirSystem.ICD10_PCS]: icd10Resolver("ICD-10-PCS", "pcs"),
+  [FhirSystem.CVX]: {
+    name: "CVX",
+    async resolve(client, code) {
+      const { data, meta } = await client.cvx.lookup(code);
+      return {
+        display: data.display,
+        version: meta.source?.version,
+        inactive: data.status.toLowerCase() !== "active",
+      };
+    },
+  },
+  [FhirSystem.MVX]: {
+    name: "MVX",
+    async resolve(client, code) {
+      const { data, meta } = await client.mvx.lookup(code);
+      return {
+        display: "manufacturer_name" in data ? data.manufacturer_name : data.display,
+        version: meta.source?.version,
+        inactive: data.status.toLowerCase() !== "active",
+      };
+    },
+  },
+  [FhirSystem.SNOMED]: {
+    name: "SNOMED CT",
+    async resolve(client, code) {
+      const { data, meta } = await client.snomed.lookup(code);
+      const designations: ConceptDetails["designations"] = [];
+      if (data.fsn) designations.push({ use: FSN_USE, value: data.fsn });
+      for (const synonym of data.synonyms ?? []) {
+        designations.push({ use: SYNONYM_USE, value: synonym });
+      }
+      return {
+        display: data.preferred_term ?? data.fsn ?? undefined,
+        version: meta.source?.version,
+        inactive: !data.active,
+        designations,
+      };
+    },
+  },
+};
+
+/**
+ * SNOMED reverse-mapping source systems and their FHIR system URIs.
+ */
+const MAPPING_SYSTEMS: Record<string, string> = {
+  rxnorm: FhirSystem.RXNORM,
+  icd10_cm: FhirSystem.ICD10_CM,
+  icd10_pcs: FhirSystem.ICD10_PCS,
+  ndc: FhirSystem.NDC,
+};
+
+/**
+ * Map a SNOMED mapping type to a ConceptMap equivalence.
+ * `forward` is true when translating from the mapped code to SNOMED CT.
+ */
+function equivalence(mapType: SnomedMappingType, forward: boolean): string {
+  switch (mapType) {
+    case "equivalent":
+      return "equivalent";
+    case "broader":
+      return forward ? "wider" : "narrower";
+    case "narrower":
+      return forward ? "narrower" : "wider";
+    default:
+      return "relatedto";
+  }
+}
+
+// ============================================================================
+// Parameters helpers
+// ============================================================================
+
+function findParam(params: FhirParameters, name: string): FhirParameter | undefined {
+  return params.parameter?.find((p) => p.name === name);
+}
+
+function stringParam(params: FhirParameters, name: string): string | undefined {
+  const param = findParam(params, name);
+  return param?.valueUri ?? param?.valueCode ?? param?.valueString;
+}
+
+/**
+ * Read the input coding from `system`+`code`, `coding`, or `codeableConcept`.
+ */
+function inputCoding(params: FhirParameters, systemParam: string): FhirCoding | undefined {
+  const code = stringParam(params, "code");
+  if (code) {
+    return { system: stringParam(params, systemParam), code, display: stringParam(params, "display") };
+  }
+  const coding = findParam(params, "coding")?.valueCoding;
+  if (coding?.code) return coding;
+  const concept: FhirCodeableConcept | undefined = findParam(params, "codeableConcept")?.valueCodeableConcept;
+  return concept?.coding?.find((c) => c.code && c.system && CODE_SYSTEMS[c.system]) ?? concept?.coding?.[0];
+}
+
+function parameters(parameter: FhirParameter[]): FhirParameters {
+  return { resourceType: "Parameters", parameter };
+}
+
+/**
+ * Convert an error thrown by {@link FhirTerminologyFacade} into an OperationOutcome
+ * suitable for returning from an HTTP handler.
+ *
+ * @param error - Error thrown by a facade method
+ * @returns OperationOutcome and the HTTP status to respond with
+ */
+export function toOperationOutcome(error: unknown): { status: number; outcome: FhirOperationOutcome } {
+  const message = error instanceof Error ? error.message : String(error);
+  let status = 500;
+  let code = "exception";
+
+  if (error instanceof NotFoundError) {
+    status = 404;
+    code = "not-found";
+  } else if (error instanceof ValidationError) {
+    status = 400;
+    code = "invalid";
+  } else if (error instanceof ApiError) {
+    status = error.statusCode;
+  }
+
+  return {
+    status,
+    outcome: {
+      resourceType: "OperationOutcome",
+      issue: [{ severity: "error", code, diagnostics: message }],
+    },
+  };
+}
+
+/**
+ * FHIR terminology operations backed by FHIRfly endpoints.
+ *
+ * Implements `CodeSystem/$lookup` and `CodeSystem/$validate-code` for the
+ * NDC, RxNorm, LOINC, ICD-10-CM, ICD-10-PCS, CVX, MVX, and SNOMED CT system
+ * URIs, and `ConceptMap/$translate` between SNOMED CT and NDC, RxNorm, and
+ * ICD-10. Inputs and outputs are FHIR R4 `Parameters` resources.
+ *
+ * @example
+ * ```ts
+ * const terminology = new FhirTerminologyFacade(client);
+ *
+ * app.post("/fhir/CodeSystem/$lookup", async (req, res) => {
+ *   try {
+ *     res.json(await terminology.lookup(req.body));
+ *   } catch (error) {
+ *     const { status, outcome } = toOperationOutcome(error);
+ *     res.status(status).json(outcome);
+ *   }
+ * });
+ * ```
+ */
+export class FhirTerminologyFacade {
+  constructor(private readonly client: Fhirfly) {}
+
+  /**
+   * Code system URIs supported by `$lookup` and `$validate-code`.
+   */
+  static readonly supportedSystems: readonly string[] = Object.keys(CODE_SYSTEMS);
+
+  /**
+   * `CodeSystem/$lookup`: return details for a code.
+   *
+   * Accepts `system` + `code` or `coding`. Returns `name`, `display`,
+   * `version` (when known), `designation`, and `property` parameters.
+   *
+   * @param input - Operation input Parameters
+   * @returns Operation output Parameters
+   * @throws {ValidationError} If the code or system is missing or unsupported
+   * @throws {NotFoundError} If the code does not exist in the system
+   */
+  async lookup(input: FhirParameters): Promise<FhirParameters> {
+    const coding = inputCoding(input, "system");
+    const resolver = this.resolverFor(coding);
+    const details = await resolver.resolve(this.client, coding!.code!);
+
+    const out: FhirParameter[] = [{ name: "name", valueString: resolver.name }];
+    if (details.version) out.push({ name: "version", valueString: details.version });
+    if (details.display) out.push({ name: "display", valueString: details.display });
+    for (const designation of details.designations ?? []) {
+      out.push({
+        name: "designation",
+        part: [
+          ...(designation.use ? [{ name: "use", valueCoding: designation.use }] : []),
+          { name: "value", valueString: designation.value },
+        ],
+      });
+    }
+    if (details.inactive !== undefined) {
+      out.push({
+        name: "property",
+        part: [
+          { name: "code", valueCode: "inactive" },
+          { name: "value", valueBoolean: details.inactive },
+        ],
+      });
+    }
+    for (const property of details.properties ?? []) {
+      out.push({
+        name: "property",
+        part: [
+          { name: "code", valueCode: property.code },
+          typeof property.value === "boolean"
+            ? { name: "value", valueBoolean: property.value }
+            : { name: "value", valueString: property.value },
+        ],
+      });
+    }
+    return parameters(out);
+  }
+
+  /**
+   * `CodeSystem/$validate-code`: check whether a code exists (and, if a
+   * display is supplied, whether it matches).
+   *
+   * Accepts `url` (or `system`) + `code`, `coding`, or `codeableConcept`.
+   * Unknown codes produce `result: false` rather than an error.
+   *
+   * @param input - Operation input Parameters
+   * @returns Parameters with `result`, `message`, and `display`
+   * @throws {ValidationError} If the code or system is missing or unsupported
+   */
+  async validateCode(input: FhirParameters): Promise<FhirParameters> {
+    const coding = inputCoding(input, findParam(input, "url") ? "url" : "system");
+    const resolver = this.resolverFor(coding);
+
+    let details: ConceptDetails;
+    try {
+      details = await resolver.resolve(this.client, coding!.code!);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return parameters([
+          { name: "result", valueBoolean: false },
+          { name: "message", valueString: `Unknown code '${coding!.code}' in ${resolver.name}` },
+        ]);
+      }
+      throw error;
+    }
+
+    const out: FhirParameter[] = [];
+    const displayMismatch =
+      coding!.display !== undefined &&
+      details.display !== undefined &&
+      coding!.display.trim().toLowerCase() !== details.display.trim().toLowerCase() &&
+      !details.designations?.some((d) => d.value.trim().toLowerCase() === coding!.display!.trim().toLowerCase());
+
+    out.push({ name: "result", valueBoolean: !displayMismatch });
+    if (displayMismatch) {
+      out.push({
+        name: "message",
+        valueString: `Display '${coding!.display}' does not match '${details.display}' for ${resolver.name} code '${coding!.code}'`,
+      });
+    } else if (details.inactive) {
+      out.push({ name: "message", valueString: `${resolver.name} code '${coding!.code}' is inactive` });
+    }
+    if (details.display) out.push({ name: "display", valueString: details.display });
+    return parameters(out);
+  }
+
+  /**
+   * `ConceptMap/$translate`: translate a code between SNOMED CT and NDC,
+   * RxNorm, or ICD-10.
+   *
+   * SNOMED CT sources are translated using `snomed.mappings()`. NDC, RxNorm,
+   * and ICD-10 sources are translated to SNOMED CT using the `snomed`
+   * enrichment on their lookup responses. Use `targetsystem` to restrict results.
+   *
+   * @param input - Operation input Parameters (`system` + `code`, `coding`, or `codeableConcept`; optional `targetsystem`)
+   * @returns Parameters with `result` and one `match` per translation
+   * @throws {ValidationError} If the code or system is missing
+   */
+  async translate(input: FhirParameters): Promise<FhirParameters> {
+    const coding = inputCoding(input, "system");
+    if (!coding?.code || !coding.system) {
+      throw new ValidationError("$translate requires system and code, coding, or codeableConcept");
+    }
+    const targetSystem = stringParam(input, "targetsystem") ?? stringParam(input, "target");
+
+    let matches: Array<{ equivalence: string; concept: FhirCoding }>;
+    try {
+      matches = await this.findTranslations(coding.system, coding.code);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        matches = [];
+      } else {
+        throw error;
+      }
+    }
+
+    if (targetSystem) {
+      matches = matches.filter((m) => m.concept.system === targetSystem);
+    }
+
+    const out: FhirParameter[] = [{ name: "result", valueBoolean: matches.length > 0 }];
+    if (matches.length === 0) {
+      out.push({
+        name: "message",
+        valueString: `No translations found for '${coding.code}' in ${coding.system}${targetSystem ? ` to ${targetSystem}` : ""}`,
+      });
+    }
+    for (const match of matches) {
+      out.push({
+        name: "match",
+        part: [
+          { name: "equivalence", valueCode: match.equivalence },
+          { name: "concept", valueCoding: match.concept },
+        ],
+      });
+    }
+    return parameters(out);
+  }
+
+  private resolverFor(coding: FhirCoding | undefined): CodeSystemResolver {
+    if (!coding?.code) {
+      throw new ValidationError("A code is required (code, coding, or codeableConcept)", "code");
+    }
+    if (!coding.system) {
+      throw new ValidationError("A code system URI is required", "system");
+    }
+    const resolver = CODE_SYSTEMS[coding.system];
+    if (!resolver) {
+      throw new ValidationError(`Unsupported code system: ${coding.system}`, "system");
+    }
+    return resolver;
+  }
+
+  private async findTranslations(
+    system: string,
+    code: string
+  ): Promise<Array<{ equivalence: string; concept: FhirCoding }>> {
+    if (system === FhirSystem.SNOMED) {
+      const { data } = await this.client.snomed.mappings(code);
+      return data.mappings
+        .filter((mapping) => MAPPING_SYSTEMS[mapping.source_system])
+        .map((mapping) => ({
+          equivalence: equivalence(mapping.map_type, false),
+          concept: { system: MAPPING_SYSTEMS[mapping.source_system], code: mapping.source_code },
+        }));
+    }
+
+    let enrichment: SnomedEnrichmentStandard[] | undefined;
+    if (system === FhirSystem.NDC) {
+      const { data } = await this.client.ndc.lookup(code);
+      enrichment = "snomed" in data ? data.snomed : undefined;
+    } else if (system === FhirSystem.RXNORM) {
+      const { data } = await this.client.rxnorm.lookup(code);
+      enrichment = "snomed" in data ? data.snomed : undefined;
+    } else if (system === FhirSystem.ICD10_CM || system === FhirSystem.ICD10_PCS) {
+      const { data } = await this.client.icd10.lookup(code);
+      enrichment = "snomed" in data ? data.snomed : undefined;
+    } else {
+      throw new ValidationError(`Translation from ${system} is not supported`, "system");
+    }
+
+    return (enrichment ?? []).map((mapping) => ({
+      equivalence: equivalence(mapping.map_type, true),
+      concept: mapping.display
+        ? { system: FhirSystem.SNOMED, code: mapping.concept_id, display: mapping.display }
+        : { system: FhirSystem.SNOMED, code: mapping.concept_id },
+    }));
+  }
+}
@@ -0,0 +1,252 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+/**
+ * Minimal FHIR R4 datatypes and resources produced by the converters.
+ *
+ * Only the elements the SDK populates are declared; the shapes are
+ * structurally compatible with the full R4 definitions (e.g., `@types/fhir`).
+ */
+
+/**
+ * FHIR Coding.
+ */
+export interface FhirCoding {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+}
+
+/**
+ * FHIR CodeableConcept.
+ */
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+/**
+ * FHIR Identifier.
+ */
+export interface FhirIdentifier {
+  use?: "usual" | "official" | "temp" | "secondary" | "old";
+  type?: FhirCodeableConcept;
+  system?: string;
+  value?: string;
+}
+
+/**
+ * FHIR Reference.
+ */
+export interface FhirReference {
+  reference?: string;
+  identifier?: FhirIdentifier;
+  display?: string;
+}
+
+/**
+ * FHIR HumanName.
+ */
+export interface FhirHumanName {
+  use?: "usual" | "official" | "temp" | "nickname" | "anonymous" | "old" | "maiden";
+  text?: string;
+  family?: string;
+  given?: string[];
+  prefix?: string[];
+  suffix?: string[];
+}
+
+/**
+ * FHIR Address.
+ */
+export interface FhirAddress {
+  use?: "home" | "work" | "temp" | "old" | "billing";
+  type?: "postal" | "physical" | "both";
+  text?: string;
+  line?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/**
+ * FHIR ContactPoint.
+ */
+export interface FhirContactPoint {
+  system?: "phone" | "fax" | "email" | "pager" | "url" | "sms" | "other";
+  value?: string;
+  use?: "home" | "work" | "temp" | "old" | "mobile";
+}
+
+/**
+ * FHIR Quantity.
+ */
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+/**
+ * FHIR Ratio.
+ */
+export interface FhirRatio {
+  numerator?: FhirQuantity;
+  denominator?: FhirQuantity;
+}
+
+/**
+ * FHIR R4 Medication resource.
+ */
+export interface FhirMedication {
+  resourceType: "Medication";
+  id?: string;
+  identifier?: FhirIdentifier[];
+  code?: FhirCodeableConcept;
+  status?: "active" | "inactive" | "entered-in-error";
+  manufacturer?: FhirReference;
+  form?: FhirCodeableConcept;
+  ingredient?: Array<{
+    itemCodeableConcept?: FhirCodeableConcept;
+    isActive?: boolean;
+    strength?: FhirRatio;
+  }>;
+}
+
+/**
+ * FHIR R4 Practitioner resource.
+ */
+export interface FhirPractitioner {
+  resourceType: "Practitioner";
+  id?: string;
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  address?: FhirAddress[];
+  gender?: "male" | "female" | "other" | "unknown";
+  qualification?: Array<{
+    identifier?: FhirIdentifier[];
+    code: FhirCodeableConcept;
+    issuer?: FhirReference;
+  }>;
+}
+
+/**
+ * FHIR R4 Organization resource.
+ */
+export interface FhirOrganization {
+  resourceType: "Organization";
+  id?: string;
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: string;
+  telecom?: FhirContactPoint[];
+  address?: FhirAddress[];
+}
+
+/**
+ * FHIR R4 PractitionerRole resource.
+ */
+export interface FhirPractitionerRole {
+  resourceType: "PractitionerRole";
+  id?: string;
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  practitioner?: FhirReference;
+  organization?: FhirReference;
+  code?: FhirCodeableConcept[];
+  specialty?: FhirCodeableConcept[];
+  telecom?: FhirContactPoint[];
+}
+
+/**
+ * The vaccine-identifying elements of a FHIR R4 Immunization resource.
+ */
+export interface FhirImmunizationVaccine {
+  vaccineCode: FhirCodeableConcept;
+  manufacturer?: FhirReference;
+}
+
+/**
+ * A single parameter in a FHIR Parameters resource.
+ */
+export interface FhirParameter {
+  name: string;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueCode?: string;
+  valueUri?: string;
+  valueInteger?: number;
+  valueDecimal?: number;
+  valueCoding?: FhirCoding;
+  valueCodeableConcept?: FhirCodeableConcept;
+  part?: FhirParameter[];
+}
+
+/**
+ * FHIR R4 Parameters resource (operation input and output).
+ */
+export interface FhirParameters {
+  resourceType: "Parameters";
+  parameter?: FhirParameter[];
+}
+
+/**
+ * FHIR R4 ConceptMap equivalence (`ConceptMap.group.element.target.equivalence`).
+ */
+export type FhirConceptMapEquivalence =
+  | "relatedto"
+  | "equivalent"
+  | "equal"
+  | "wider"
+  | "subsumes"
+  | "narrower"
+  | "specializes"
+  | "inexact"
+  | "unmatched"
+  | "disjoint";
+
+/**
+ * FHIR R4 ConceptMap resource.
+ */
+export interface FhirConceptMap {
+  resourceType: "ConceptMap";
+  id?: string;
+  url?: string;
+  version?: string;
+  name?: string;
+  title?: string;
+  status: "draft" | "active" | "retired" | "unknown";
+  date?: string;
+  publisher?: string;
+  description?: string;
+  group?: Array<{
+    source?: string;
+    target?: string;
+    element: Array<{
+      code?: string;
+      display?: string;
+      target?: Array<{
+        code?: string;
+        display?: string;
+        equivalence: FhirConceptMapEquivalence;
+        comment?: string;
+      }>;
+    }>;
+  }>;
+}
+
+/**
+ * FHIR R4 OperationOutcome resource.
+ */
+export interface FhirOperationOutcome {
+  resourceType: "OperationOutcome";
+  issue: Array<{
+    severity: "fatal" | "error" | "warning" | "information";
+    code: string;
+    diagnostics?: string;
+  }>;
+}
@@ -1,6 +1,7 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
 import {
+  AbortError,
   ApiError,
   AuthenticationError,
   NetworkError,
@@ -11,7 +12,10 @@ import {
   TimeoutError,
   ValidationError,
 } from "./errors.js";
-import type { LookupOptions } from "./types/common.js";
+import type { LookupOptions, RequestOptions } from "./types/common.js";
+import type { ResponseCache } from "./cache.js";
+import type { ResponseValidator } from "./response-validation.js";
+import { composeMiddleware, type Middleware, type MiddlewareRequest, type MiddlewareResponse } from "./middleware.js";
 
 /**
  * OAuth2 token response from the token endpoint.
@@ -31,6 +35,8 @@ export interface OAuthCredentials {
   clientSecret: string;
   tokenUrl: string;
   scopes?: string[];
+  /** Custom fetch implementation. Default: global `fetch` */
+  fetch?: typeof fetch;
 }
 
 /**
@@ -83,7 +89,8 @@ export class TokenManager {
       body.set("scope", this.credentials.scopes.join(" "));
     }
 
-    const response = await fetch(this.credentials.tokenUrl, {
+    const fetchImpl = this.credentials.fetch ?? fetch;
+    const response = await fetchImpl(this.credentials.tokenUrl, {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body: body.toString(),
@@ -121,6 +128,52 @@ export interface HttpClientConfig {
   maxRetries?: number;
   retryDelay?: number;
   userAgent?: string;
+  cache?: ResponseCache;
+  fetch?: typeof fetch;
+  middleware?: Middleware[];
+  validator?: ResponseValidator;
+}
+
+/**
+ * Split per-call request options from the rest of a method's options, so the
+ * remainder can be turned into query parameters.
+ */
+export function splitRequestOptions<T extends RequestOptions>(
+  options: T | undefined
+): [RequestOptions, Omit<T, keyof RequestOptions>] {
+  const { signal, timeout, maxRetries, idempotencyKey, ...rest } = options ?? ({} as T);
+  return [{ signal, timeout, maxRetries, idempotencyKey }, rest];
+}
+
+/**
+ * Request options for one of several requests a single method call sends
+ * (e.g., each chunk of a `lookupAll`). Each gets its own idempotency key,
+ * derived by suffixing the caller's key, since the request bodies differ.
+ */
+export function subrequestOptions<T extends RequestOptions>(options: T, suffix: string | number): T {
+  return options.idempotencyKey ? { ...options, idempotencyKey: `${options.idempotencyKey}:${suffix}` } : options;
+}
+
+/**
+ * Sleep for a given number of milliseconds, rejecting with `AbortError` if
+ * the signal aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError(signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AbortError(signal?.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
@@ -136,9 +189,17 @@ interface HttpResponse<T> {
  * Internal HTTP client for making API requests.
  */
 export class HttpClient {
-  private readonly config: Required<Omit<HttpClientConfig, "auth">> & { auth: AuthMode };
+  private readonly config: Required<Omit<HttpClientConfig, "auth" | "cache" | "fetch" | "middleware" | "validator">> & { auth: AuthMode };
+  private readonly cache?: ResponseCache;
+  private readonly fetchImpl?: typeof fetch;
+  private readonly middleware: Middleware[];
+  private readonly validator?: ResponseValidator;
 
   constructor(config: HttpClientConfig) {
+    this.cache = config.cache;
+    this.validator = config.validator;
+    this.fetchImpl = config.fetch;
+    this.middleware = config.middleware ?? [];
     this.config = {
       baseUrl: config.baseUrl,
       auth: config.auth,
@@ -256,13 +317,6 @@ export class HttpClient {
     }
   }
 
-  /**
-   * Sleep for a given number of milliseconds.
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * Get auth headers for the current request.
    */
@@ -275,93 +329,134 @@ export class HttpClient {
   }
 
   /**
-   * Make an HTTP request with retries.
+   * Send a single request. This is the innermost handler of the middleware chain.
+   */
+  private async send(
+    request: MiddlewareRequest,
+    authHeaders: Record<string, string>,
+    options: RequestOptions
+  ): Promise<MiddlewareResponse> {
+    const { signal } = options;
+    if (signal?.aborted) throw new AbortError(signal.reason);
+
+    const timeout = options.timeout ?? this.config.timeout;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const started = Date.now();
+
+    try {
+      const fetchImpl = this.fetchImpl ?? fetch;
+      const response = await fetchImpl(`${this.config.baseUrl}${request.endpoint}`, {
+        method: request.method,
+        headers: {
+          ...authHeaders,
+          ...request.headers,
+        },
+        body: request.body ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        await this.parseErrorResponse(response, request.endpoint);
+      }
+
+      const data: unknown = await response.json();
+      return { status: response.status, headers: response.headers, data, durationMs: Date.now() - started };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AbortError(signal.reason);
+      }
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new TimeoutError(timeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Make an HTTP request through the middleware chain, with retries.
    */
   private async request<T>(
     method: "GET" | "POST",
     endpoint: string,
     body?: unknown,
+    options: RequestOptions = {},
     isRetryAfter401 = false
   ): Promise<HttpResponse<T>> {
-    const url = `${this.config.baseUrl}${endpoint}`;
+    const { signal, idempotencyKey } = options;
+    const maxRetries = options.maxRetries ?? this.config.maxRetries;
     let lastError: Error | undefined;
 
-    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      let authHeaders: Record<string, string> | undefined;
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(
-          () => controller.abort(),
-          this.config.timeout
-        );
+        if (signal?.aborted) throw new AbortError(signal.reason);
+        authHeaders = await this.getAuthHeaders();
+        const headers = authHeaders;
+        const dispatch = composeMiddleware(this.middleware, (request) => this.send(request, headers, options));
 
-        const authHeaders = await this.getAuthHeaders();
-
-        const response = await fetch(url, {
+        const response = await dispatch({
           method,
+          endpoint,
+          body,
           headers: {
-            ...authHeaders,
             "Content-Type": "application/json",
             "User-Agent": this.config.userAgent,
             "Accept": "application/json",
+            ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
           },
-          body: body ? JSON.stringify(body) : undefined,
-          signal: controller.signal,
+          attempt,
+          signal,
         });
+        return { data: response.data as T, status: response.status, headers: response.headers };
+      } catch (error) {
+        // Never retry a cancelled call
+        if (error instanceof AbortError) {
+          throw error;
+        }
 
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          // On 401 with OAuth, invalidate token and retry once
-          if (
-            response.status === 401 &&
-            this.config.auth.type === "oauth" &&
-            !isRetryAfter401
-          ) {
-            this.config.auth.tokenManager.invalidate();
-            return this.request<T>(method, endpoint, body, true);
-          }
-
-          // Don't retry client errors (except rate limits)
-          if (response.status < 500 && response.status !== 429) {
-            await this.parseErrorResponse(response, endpoint);
-          }
-
-          // For rate limits, check retry-after header
-          if (response.status === 429) {
-            const retryAfter = response.headers.get("retry-after");
-            if (retryAfter && attempt < this.config.maxRetries) {
-              await this.sleep(Math.min(parseInt(retryAfter, 10) * 1000, 120_000));
-              continue;
-            }
-            await this.parseErrorResponse(response, endpoint);
-          }
+        // On 401 with OAuth, invalidate token and retry once
+        if (
+          error instanceof AuthenticationError &&
+          authHeaders &&
+          this.config.auth.type === "oauth" &&
+          !isRetryAfter401
+        ) {
+          this.config.auth.tokenManager.invalidate();
+          return this.request<T>(method, endpoint, body, options, true);
+        }
 
-          // Retry server errors
-          if (attempt < this.config.maxRetries) {
-            await this.sleep(this.config.retryDelay * Math.pow(2, attempt));
+        // For rate limits, honor the retry-after header
+        if (error instanceof RateLimitError) {
+          if (error.retryAfter !== undefined && attempt < maxRetries) {
+            await sleep(Math.min(error.retryAfter * 1000, 120_000), signal);
             continue;
           }
+          throw error;
+        }
 
-          await this.parseErrorResponse(response, endpoint);
+        // Retry server errors
+        if (error instanceof ServerError && attempt < maxRetries) {
+          await sleep(this.config.retryDelay * Math.pow(2, attempt), signal);
+          continue;
         }
 
-        const data = await response.json() as T;
-        return { data, status: response.status, headers: response.headers };
-      } catch (error) {
-        if (error instanceof ApiError) {
+        // Don't retry other API errors or timeouts
+        if (error instanceof ApiError || error instanceof TimeoutError) {
           throw error;
         }
 
         if (error instanceof Error) {
-          if (error.name === "AbortError") {
-            throw new TimeoutError(this.config.timeout);
-          }
-
           lastError = error;
 
           // Retry on network errors
-          if (attempt < this.config.maxRetries) {
-            await this.sleep(this.config.retryDelay * Math.pow(2, attempt));
+          if (attempt < maxRetries) {
+            await sleep(this.config.retryDelay * Math.pow(2, attempt), signal);
             continue;
           }
         }
@@ -379,13 +474,26 @@ export class HttpClient {
     );
   }
 
+  /**
+   * Make a GET request, serving from the response cache when enabled.
+   */
+  private async cachedGet<T>(path: string, options?: RequestOptions): Promise<T> {
+    if (this.cache) {
+      const cached = await this.cache.get<T>("GET", path);
+      if (cached !== undefined) return cached;
+    }
+    const response = await this.request<T>("GET", path, undefined, options);
+    this.validator?.check("GET", path, response.data);
+    await this.cache?.set("GET", path, response.data);
+    return response.data;
+  }
+
   /**
    * Make a GET request.
    */
   async get<T>(endpoint: string, options?: LookupOptions): Promise<T> {
     const queryString = this.buildQueryString(options);
-    const response = await this.request<T>("GET", `${endpoint}${queryString}`);
-    return response.data;
+    return this.cachedGet<T>(`${endpoint}${queryString}`, options);
   }
 
   /**
@@ -393,16 +501,18 @@ export class HttpClient {
    */
   async post<T>(endpoint: string, body: unknown, options?: LookupOptions): Promise<T> {
     const queryString = this.buildQueryString(options);
-    const response = await this.request<T>("POST", `${endpoint}${queryString}`, body);
+    const path = `${endpoint}${queryString}`;
+    const response = await this.request<T>("POST", path, body, options);
+    this.validator?.check("POST", path, response.data);
+    this.cache?.observe(endpoint, response.data);
     return response.data;
   }
 
   /**
    * Make a GET request with search parameters.
    */
-  async search<T>(endpoint: string, params: Record<string, unknown>): Promise<T> {
+  async search<T>(endpoint: string, params: Record<string, unknown>, options?: RequestOptions): Promise<T> {
     const queryString = this.buildSearchQueryString(params);
-    const response = await this.request<T>("GET", `${endpoint}${queryString}`);
-    return response.data;
+    return this.cachedGet<T>(`${endpoint}${queryString}`, options);
   }
 }
@@ -0,0 +1,240 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "./errors.js";
+import { ancestorCandidates, isIcd10Descendant, normalizeIcd10Cm } from "./icd10-hierarchy.js";
+import { validateIcd10Cm } from "./validators.js";
+import type {
+  Icd10CodeSetResult,
+  Icd10Finding,
+  Icd10FindingSeverity,
+  Icd10Full,
+  Icd10GuidelineRule,
+} from "./types/icd10.js";
+
+const GUIDELINES = "ICD-10-CM Official Guidelines";
+
+const REFERENCES: Record<Icd10GuidelineRule, string> = {
+  invalid_code: "HIPAA code sets, 45 CFR 162.1002",
+  excludes1: `${GUIDELINES} I.A.12.a`,
+  code_first: `${GUIDELINES} I.A.13`,
+  code_first_sequence: `${GUIDELINES} I.A.13`,
+  use_additional: `${GUIDELINES} I.A.13`,
+  non_billable: `${GUIDELINES} I.B.2`,
+  not_effective: "HIPAA code sets, 45 CFR 162.1002",
+};
+
+const CODE = "[A-Z]\\d[0-9A-Z](?:\\.[0-9A-Z]{1,4})?";
+
+/** A code ("E11.6"), wildcard ("E10.-", "O24.4-"), or range ("E08-E13") in note text. */
+const CODE_REFERENCE = new RegExp(`\\b(${CODE})(?:\\s*-\\s*(${CODE})\\b|\\.?-)?`, "g");
+
+/**
+ * A code or code range referenced by a tabular note, without dots.
+ */
+interface CodeReference {
+  from: string;
+  to?: string;
+}
+
+/**
+ * A tabular note in effect for a code: its own, or one of its ancestors'.
+ */
+interface Note {
+  text: string;
+  references: CodeReference[];
+}
+
+/**
+ * A distinct code of the input with the positions it was entered at.
+ */
+interface Entry {
+  code: string;
+  positions: number[];
+  record?: Icd10Full;
+}
+
+/**
+ * Extract the codes and code ranges referenced by a tabular note
+ * ("type 1 diabetes mellitus (E10.-)" → E10; "(E08-E13)" → E08 through E13).
+ */
+export function noteReferences(text: string): CodeReference[] {
+  return [...text.matchAll(CODE_REFERENCE)].map(([, from, to]) => ({
+    from: from!.replace(".", ""),
+    ...(to ? { to: to.replace(".", "") } : {}),
+  }));
+}
+
+function matchesReference(code: string, reference: CodeReference): boolean {
+  const value = code.replace(".", "");
+  if (!reference.to) return value.startsWith(reference.from);
+  return value.slice(0, reference.from.length) >= reference.from && value.slice(0, reference.to.length) <= reference.to;
+}
+
+function referencedBy(code: string, note: Note): boolean {
+  return note.references.some((reference) => matchesReference(code, reference));
+}
+
+/**
+ * Resolve the date of service for effective-date checks as "YYYY-MM-DD".
+ * A Date gives its local calendar date.
+ *
+ * @throws ValidationError if a string date is not "YYYY-MM-DD"
+ */
+export function serviceDate(date: string | Date = new Date()): string {
+  if (date instanceof Date) {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new ValidationError(`Invalid date "${date}": expected YYYY-MM-DD`, "date");
+  return date;
+}
+
+/**
+ * Codes to look up for a code set check: every valid input code and its
+ * ancestor candidates, whose tabular notes also apply to it.
+ */
+export function codeSetLookups(codes: string[]): string[] {
+  const lookups = new Set<string>();
+  for (const code of codes) {
+    if (!validateIcd10Cm(code).valid) continue;
+    const normalized = normalizeIcd10Cm(code);
+    lookups.add(normalized);
+    for (const candidate of ancestorCandidates(normalized)) lookups.add(candidate);
+  }
+  return [...lookups];
+}
+
+/**
+ * Check a set of ICD-10-CM codes reported together against the tabular
+ * conventions and the code set's effective dates.
+ *
+ * Pure function: all reference data is passed in, so it can be reused with
+ * cached or pre-fetched records.
+ *
+ * @param codes - Codes as entered, in sequence order
+ * @param records - Full records by normalized code, including ancestors
+ * @param date - Date of service ("YYYY-MM-DD")
+ * @returns Findings (per-code checks, then tabular notes, then Excludes1
+ *   pairs) and the records of the codes that were found
+ */
+export function checkIcd10Codes(
+  codes: string[],
+  records: Map<string, Icd10Full>,
+  date: string
+): Icd10CodeSetResult {
+  const findings: Icd10Finding[] = [];
+  const add = (
+    rule: Icd10GuidelineRule,
+    severity: Icd10FindingSeverity,
+    entries: Entry[],
+    message: string,
+    note?: string
+  ) =>
+    findings.push({
+      rule,
+      severity,
+      positions: entries.flatMap((entry) => entry.positions).sort((a, b) => a - b),
+      codes: entries.map((entry) => entry.code),
+      message,
+      reference: REFERENCES[rule],
+      ...(note !== undefined ? { note } : {}),
+    });
+
+  const entries = new Map<string, Entry>();
+  codes.forEach((input, position) => {
+    const code = validateIcd10Cm(input).valid ? normalizeIcd10Cm(input) : input.trim();
+    const entry = entries.get(code);
+    if (entry) entry.positions.push(position);
+    else entries.set(code, { code, positions: [position], record: records.get(code) });
+  });
+
+  const found: Array<Entry & { record: Icd10Full }> = [];
+  const notes = (entry: Entry, field: NoteField) => notesFor(entry.code, field, records);
+  for (const entry of entries.values()) {
+    const { code, record } = entry;
+    if (!record) {
+      const reason = validateIcd10Cm(code).valid ? "is not in the ICD-10-CM code set" : "is not a valid ICD-10-CM code";
+      add("invalid_code", "error", [entry], `${code} ${reason}`);
+      continue;
+    }
+    if (record.billable === false || record.is_header) {
+      add("non_billable", "warning", [entry], `${code} is a header code; report a more specific code below it`);
+    }
+    const expired = outsideEffectiveDates(record, date);
+    if (expired) add("not_effective", "warning", [entry], `${code} ${expired}`);
+    found.push({ ...entry, record });
+  }
+
+  for (const entry of found) {
+    const others = found.filter((other) => other !== entry);
+
+    for (const note of notes(entry, "code_first")) {
+      if (note.references.length === 0) {
+        add("code_first", "info", [entry], `${entry.code} calls for the underlying condition to be coded first: ${note.text}`, note.text);
+        continue;
+      }
+      const etiology = others.filter((other) => referencedBy(other.code, note));
+      const first = etiology.find((other) => other.positions[0]! < entry.positions[0]!);
+      if (etiology.length === 0) {
+        add("code_first", "error", [entry], `${entry.code} requires the underlying condition to be coded first`, note.text);
+      } else if (!first) {
+        add(
+          "code_first_sequence",
+          "warning",
+          [etiology[0]!, entry],
+          `${etiology[0]!.code} should be sequenced before ${entry.code}`,
+          note.text
+        );
+      }
+    }
+
+    for (const note of notes(entry, "use_additional")) {
+      if (others.some((other) => referencedBy(other.code, note))) continue;
+      add("use_additional", "info", [entry], `${entry.code} calls for an additional code: ${note.text}`, note.text);
+    }
+  }
+
+  found.forEach((a, i) => {
+    for (const b of found.slice(i + 1)) {
+      if (isIcd10Descendant(a.code, b.code) || isIcd10Descendant(b.code, a.code)) continue;
+      const note = notes(a, "excludes1").find((candidate) => referencedBy(b.code, candidate));
+      const reverse = note ? undefined : notes(b, "excludes1").find((candidate) => referencedBy(a.code, candidate));
+      const [owner, other] = note ? [a, b] : [b, a];
+      const conflict = note ?? reverse;
+      if (!conflict) continue;
+      add("excludes1", "error", [a, b], `${other.code} cannot be reported with ${owner.code} (Excludes1)`, conflict.text);
+    }
+  });
+
+  return {
+    clean: findings.every((finding) => finding.severity !== "error"),
+    findings,
+    codes: found.map((entry) => entry.record),
+  };
+}
+
+type NoteField = "excludes1" | "code_first" | "use_additional";
+
+/**
+ * Notes of one kind in effect for a code: its own, then its ancestors',
+ * nearest first, without repeats.
+ */
+function notesFor(code: string, field: NoteField, records: Map<string, Icd10Full>): Note[] {
+  const texts = new Set<string>();
+  for (const source of [code, ...ancestorCandidates(code)]) {
+    for (const text of records.get(source)?.[field] ?? []) texts.add(text);
+  }
+  return [...texts].map((text) => ({ text, references: noteReferences(text) }));
+}
+
+/**
+ * Describe why a code is not effective on a date, or null if it is.
+ */
+function outsideEffectiveDates(record: Icd10Full, date: string): string | null {
+  const effective = record.effective_date?.slice(0, 10);
+  const end = record.end_date?.slice(0, 10);
+  if (effective && date < effective) return `is not effective until ${effective} (date of service ${date})`;
+  if (end && date > end) return `was retired after ${end} (date of service ${date})`;
+  return null;
+}
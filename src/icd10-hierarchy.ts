@@ -0,0 +1,67 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "./errors.js";
+import { validateIcd10Cm } from "./validators.js";
+
+/**
+ * Normalize an ICD-10-CM code to its dotted, upper-case form ("e1165" → "E11.65").
+ *
+ * @throws ValidationError if the code is not ICD-10-CM
+ */
+export function normalizeIcd10Cm(code: string): string {
+  const check = validateIcd10Cm(code);
+  if (!check.valid) throw new ValidationError(`Invalid ICD-10-CM code "${code}": ${check.reason}`, "code");
+  const value = code.trim().toUpperCase().replace(".", "");
+  return value.length > 3 ? `${value.slice(0, 3)}.${value.slice(3)}` : value;
+}
+
+/**
+ * Parse a code selection such as "E11", "E11.-", or "E11.6-" into its code.
+ *
+ * @throws ValidationError if the code is not ICD-10-CM
+ */
+export function parseIcd10Selection(selection: string): string {
+  return normalizeIcd10Cm(selection.trim().replace(/\.?-$/, ""));
+}
+
+/**
+ * Codes that could be ancestors of a code, nearest first: every prefix down
+ * to the 3-character category ("E11.65" → ["E11.6", "E11"]).
+ *
+ * Prefixes ending in a placeholder "X" (e.g., "T36.0X") are included; they
+ * are not codes and will not be found.
+ */
+export function ancestorCandidates(code: string): string[] {
+  const value = code.replace(".", "");
+  const candidates: string[] = [];
+  for (let length = value.length - 1; length >= 3; length--) {
+    const prefix = value.slice(0, length);
+    candidates.push(length > 3 ? `${prefix.slice(0, 3)}.${prefix.slice(3)}` : prefix);
+  }
+  return candidates;
+}
+
+/**
+ * Whether `code` is below `ancestor` in the code tree.
+ */
+export function isIcd10Descendant(code: string, ancestor: string): boolean {
+  const value = code.toUpperCase().replace(".", "");
+  const prefix = ancestor.toUpperCase().replace(".", "");
+  return value.length > prefix.length && value.startsWith(prefix);
+}
+
+/**
+ * Pick the direct children of `code` from its descendants: those whose
+ * nearest existing ancestor is `code` itself. Children may skip a level
+ * when the intermediate prefix is a placeholder rather than a code.
+ */
+export function directChildren<T extends { code: string }>(code: string, descendants: T[]): T[] {
+  const known = new Set(descendants.map((item) => item.code.toUpperCase()));
+  const parent = code.toUpperCase();
+  return descendants.filter((item) => {
+    const nearest = ancestorCandidates(item.code.toUpperCase()).find(
+      (candidate) => candidate === parent || known.has(candidate)
+    );
+    return nearest === parent;
+  });
+}
@@ -0,0 +1,148 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "./errors.js";
+import type { Icd10PcsAxis, Icd10Standard } from "./types/icd10.js";
+
+/**
+ * An ICD-10-PCS section: its name and the names of characters 2-7.
+ */
+interface PcsSection {
+  name: string;
+  axes: [string, string, string, string, string, string];
+}
+
+const SURGICAL_AXES: PcsSection["axes"] = ["Body System", "Root Operation", "Body Part", "Approach", "Device", "Qualifier"];
+const MANIPULATION_AXES: PcsSection["axes"] = ["Body System", "Root Operation", "Body Region", "Approach", "Method", "Qualifier"];
+
+/**
+ * ICD-10-PCS sections by their first character, per the ICD-10-PCS Reference Manual.
+ */
+const PCS_SECTIONS: Record<string, PcsSection> = {
+  "0": { name: "Medical and Surgical", axes: SURGICAL_AXES },
+  "1": { name: "Obstetrics", axes: SURGICAL_AXES },
+  "2": { name: "Placement", axes: ["Body System", "Root Operation", "Body Region", "Approach", "Device", "Qualifier"] },
+  "3": {
+    name: "Administration",
+    axes: ["Body System", "Root Operation", "Body System/Region", "Approach", "Substance", "Qualifier"],
+  },
+  "4": {
+    name: "Measurement and Monitoring",
+    axes: ["Body System", "Root Operation", "Body System", "Approach", "Function/Device", "Qualifier"],
+  },
+  "5": {
+    name: "Extracorporeal or Systemic Assistance and Performance",
+    axes: ["Body System", "Root Operation", "Body System", "Duration", "Function", "Qualifier"],
+  },
+  "6": {
+    name: "Extracorporeal or Systemic Therapies",
+    axes: ["Body System", "Root Operation", "Body System", "Duration", "Qualifier", "Qualifier"],
+  },
+  "7": { name: "Osteopathic", axes: MANIPULATION_AXES },
+  "8": { name: "Other Procedures", axes: MANIPULATION_AXES },
+  "9": { name: "Chiropractic", axes: MANIPULATION_AXES },
+  B: { name: "Imaging", axes: ["Body System", "Type", "Body Part", "Contrast", "Qualifier", "Qualifier"] },
+  C: { name: "Nuclear Medicine", axes: ["Body System", "Type", "Body Part", "Radionuclide", "Qualifier", "Qualifier"] },
+  D: {
+    name: "Radiation Therapy",
+    axes: ["Body System", "Modality", "Treatment Site", "Modality Qualifier", "Isotope", "Qualifier"],
+  },
+  F: {
+    name: "Physical Rehabilitation and Diagnostic Audiology",
+    axes: ["Section Qualifier", "Type", "Body System/Region", "Type Qualifier", "Equipment", "Qualifier"],
+  },
+  G: { name: "Mental Health", axes: ["Body System", "Type", "Qualifier", "Qualifier", "Qualifier", "Qualifier"] },
+  H: {
+    name: "Substance Abuse Treatment",
+    axes: ["Body System", "Type", "Qualifier", "Qualifier", "Qualifier", "Qualifier"],
+  },
+  X: {
+    name: "New Technology",
+    axes: ["Body System", "Operation", "Body Part", "Approach", "Device/Substance/Technology", "Qualifier"],
+  },
+};
+
+/**
+ * Record fields that label characters of a PCS code, by position.
+ */
+const LABEL_FIELDS: Partial<Record<number, "body_system" | "root_operation" | "approach" | "device" | "qualifier">> = {
+  2: "body_system",
+  3: "root_operation",
+  5: "approach",
+  6: "device",
+  7: "qualifier",
+};
+
+/**
+ * Normalize an ICD-10-PCS code or partial code (1-7 characters) to upper case.
+ *
+ * @throws ValidationError if it has other characters or more than seven, or an unknown section
+ */
+export function normalizeIcd10PcsPrefix(prefix: string): string {
+  const value = prefix.trim().toUpperCase();
+  if (!/^[0-9A-HJ-NP-Z]{0,7}$/.test(value)) {
+    throw new ValidationError(
+      `Invalid ICD-10-PCS code "${prefix}": up to 7 digits and letters other than I and O`,
+      "code"
+    );
+  }
+  if (value && !PCS_SECTIONS[value[0]!]) {
+    throw new ValidationError(`Invalid ICD-10-PCS code "${prefix}": unknown section "${value[0]}"`, "code");
+  }
+  return value;
+}
+
+/**
+ * Name of the axis at a position (1-7) of a code in a section.
+ */
+export function pcsAxisName(section: string, position: number): string {
+  if (position === 1) return "Section";
+  return PCS_SECTIONS[section]?.axes[position - 2] ?? `Character ${position}`;
+}
+
+/**
+ * The ICD-10-PCS sections as options for the first character, in character order.
+ */
+export function pcsSectionOptions(): Array<{ value: string; label: string }> {
+  return Object.entries(PCS_SECTIONS)
+    .map(([value, section]) => ({ value, label: section.name }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+}
+
+/**
+ * Label of a character of a PCS code from the code's record: the section
+ * name for character 1, and the record's `body_system`, `root_operation`,
+ * `approach`, `device`, and `qualifier` for characters 2, 3, 5, 6, and 7.
+ */
+export function pcsAxisLabel(
+  record: Pick<Icd10Standard, "body_system" | "root_operation" | "approach" | "device" | "qualifier">,
+  section: string,
+  position: number
+): string | undefined {
+  if (position === 1) return PCS_SECTIONS[section]?.name;
+  const field = LABEL_FIELDS[position];
+  return field ? record[field] || undefined : undefined;
+}
+
+/**
+ * Split an ICD-10-PCS code (or partial code) into its axes, named for the
+ * code's section. Works offline; only the section (character 1) is labeled.
+ *
+ * @param code - ICD-10-PCS code or prefix (e.g., "0DTJ4ZZ", "0DT")
+ * @returns One axis per character, in position order
+ * @throws ValidationError if the code is not ICD-10-PCS
+ *
+ * @example
+ * ```ts
+ * decodeIcd10PcsAxes("0DTJ4ZZ").map((axis) => `${axis.name}: ${axis.value}`);
+ * // ["Section: 0", "Body System: D", "Root Operation: T", "Body Part: J", "Approach: 4", "Device: Z", "Qualifier: Z"]
+ * ```
+ */
+export function decodeIcd10PcsAxes(code: string): Icd10PcsAxis[] {
+  const value = normalizeIcd10PcsPrefix(code);
+  const section = value.slice(0, 1);
+  return [...value].map((character, i) => {
+    const axis: Icd10PcsAxis = { position: i + 1, name: pcsAxisName(section, i + 1), value: character };
+    if (i === 0) axis.label = PCS_SECTIONS[section]!.name;
+    return axis;
+  });
+}
@@ -14,6 +14,133 @@ export { Fhirfly, type FhirflyConfig, type FhirflyApiKeyConfig, type FhirflyOAut
 // Auth utilities
 export { TokenManager } from "./http.js";
 
+// Response cache
+export { MemoryCache, type CacheAdapter, type CacheEntry, type CacheOptions } from "./cache.js";
+
+// Request/response middleware
+export type { Middleware, MiddlewareNext, MiddlewareRequest, MiddlewareResponse } from "./middleware.js";
+
+// OpenTelemetry instrumentation
+export type { TelemetryOptions } from "./telemetry.js";
+
+// Client-side rate limiting
+export {
+  MemoryRateLimitStore,
+  type RateLimitOptions,
+  type RateLimitState,
+  type RateLimitStore,
+  type RateLimitUsage,
+} from "./rate-limit.js";
+
+// Response schema validation
+export type { ResponseValidationMode, SchemaDrift, SchemaDriftHandler } from "./response-validation.js";
+export type { SchemaIssue } from "./schema.js";
+
+// NDC format utilities
+export {
+  parseNdc,
+  isValidNdc,
+  normalizeNdc,
+  toNdc11,
+  toNdc11Hyph,
+  type NdcConfiguration,
+  type NdcParseResult,
+  type ParsedNdc,
+  type UnparsedNdc,
+} from "./ndc.js";
+
+// Response shape type guards
+export {
+  isNdcCompact,
+  isNdcStandard,
+  isNdcFull,
+  isNpiCompact,
+  isNpiStandard,
+  isNpiFull,
+  isLoincCompact,
+  isLoincStandard,
+  isLoincFull,
+  isCvxCompact,
+  isCvxStandard,
+  isCvxFull,
+  isMvxCompact,
+  isMvxStandard,
+  isMvxFull,
+  isFdaLabelSearchCompact,
+  isFdaLabelSearchStandard,
+  isFdaLabelSearchFull,
+} from "./shapes.js";
+
+// Offline code-format validators
+export {
+  validateNpi,
+  validateIcd10,
+  validateIcd10Cm,
+  validateIcd10Pcs,
+  validateLoinc,
+  validateSnomed,
+  validateCvx,
+  validateMvx,
+  validateRxcui,
+  validateHcpcs,
+  validateNdc,
+  type CodeValidation,
+} from "./validators.js";
+
+// Connectivity endpoint selection
+export { selectEndpoints } from "./endpoint-selection.js";
+
+// Drug identifier detection
+export { detectDrugIdentifier } from "./drug-profile.js";
+
+// ICD-10-PCS axis decoding
+export { decodeIcd10PcsAxes } from "./icd10-pcs.js";
+
+// FHIR R4 converters and terminology operations
+export {
+  FhirSystem,
+  type FhirSystemUri,
+  snomedEnrichmentToCoding,
+  snomedToCodeableConcept,
+  icd10ToCodeableConcept,
+  loincToCodeableConcept,
+  cvxToCodeableConcept,
+  mvxToCoding,
+  mvxToReference,
+  toImmunizationVaccine,
+  ndcToMedication,
+  rxnormToMedication,
+  npiToPractitioner,
+  npiToOrganization,
+  npiToPractitionerRole,
+  loincMappingsToConceptMap,
+  FhirTerminologyFacade,
+  toOperationOutcome,
+  type SnomedCodingOptions,
+  type PractitionerRoleOptions,
+  type LoincMapping,
+  type LoincConceptMapOptions,
+  type FhirCoding,
+  type FhirCodeableConcept,
+  type FhirIdentifier,
+  type FhirReference,
+  type FhirHumanName,
+  type FhirAddress,
+  type FhirContactPoint,
+  type FhirQuantity,
+  type FhirRatio,
+  type FhirMedication,
+  type FhirPractitioner,
+  type FhirOrganization,
+  type FhirPractitionerRole,
+  type FhirImmunizationVaccine,
+  type FhirParameter,
+  type FhirParameters,
+  type FhirOperationOutcome,
+  type FhirConceptMap,
+  type FhirConceptMapEquivalence,
+} from "./fhir/index.js";
+
 // Errors
 export {
   FhirflyError,
@@ -26,16 +153,25 @@ export {
   ServerError,
   NetworkError,
   TimeoutError,
+  AbortError,
+  ResponseValidationError,
 } from "./errors.js";
 
 // Types
 export type {
   // Common
   ResponseShape,
+  ShapeMap,
+  Shaped,
   IncludeOption,
+  RequestOptions,
   LookupOptions,
   BatchLookupOptions,
+  PrevalidateOptions,
+  ChunkingOptions,
+  LookupAllOptions,
   LegalInfo,
+  SourceInfo,
   ResponseMeta,
   ApiResponse,
   BatchResultItem,
@@ -43,6 +179,8 @@ export type {
   DisplayField,
   // Search types
   SearchOptions,
+  PaginationOptions,
+  SearchAllOptions,
   SearchFacets,
   SearchLegalInfo,
   SearchResponse,
@@ -53,7 +191,10 @@ export type {
   NdcStandard,
   NdcFull,
   NdcData,
+  NdcShapes,
   NdcSearchParams,
+  NdcBatchLookupOptions,
+  NdcLookupAllOptions,
   // NPI
   PersonName,
   NpiAddress,
@@ -66,6 +207,7 @@ export type {
   NpiStandard,
   NpiFull,
   NpiData,
+  NpiShapes,
   NpiSearchParams,
   // RxNorm
   RxTermType,
@@ -73,6 +215,7 @@ export type {
   RxNormStandard,
   RxNormFull,
   RxNormData,
+  RxNormShapes,
   RxNormSearchParams,
   // LOINC
   LoincParts,
@@ -84,19 +227,46 @@ export type {
   LoincStandard,
   LoincFull,
   LoincData,
+  LoincShapes,
   LoincSearchParams,
+  LoincAxis,
+  LoincVariantOptions,
+  LoincVariants,
+  LoincPartFacet,
+  LoincFacetOptions,
+  LoincPartFacets,
+  LocalLabTest,
+  LoincMappingOptions,
+  LoincMatchAxis,
+  LoincMatchOutcome,
+  LoincMatchExplanation,
+  LoincMappingCandidate,
+  LoincMappingSuggestion,
   // ICD-10
   Icd10Type,
   Icd10Compact,
   Icd10Standard,
   Icd10Full,
   Icd10Data,
+  Icd10Shapes,
   Icd10SearchParams,
+  Icd10DescendantsOptions,
+  Icd10CheckOptions,
+  Icd10FindingSeverity,
+  Icd10GuidelineRule,
+  Icd10Finding,
+  Icd10CodeSetResult,
+  Icd10PcsAxis,
+  Icd10PcsDecoded,
+  Icd10PcsOption,
+  Icd10PcsStep,
+  Icd10PcsStepOptions,
   // CVX
   CvxCompact,
   CvxStandard,
   CvxFull,
   CvxData,
+  CvxShapes,
   CvxSearchParams,
   // MVX
   MvxFhirCoding,
@@ -105,6 +275,7 @@ export type {
   MvxStandard,
   MvxFull,
   MvxData,
+  MvxShapes,
   MvxSearchParams,
   // FDA Labels
   FdaLabelMetadata,
@@ -115,6 +286,7 @@ export type {
   FdaLabelSearchStandard,
   FdaLabelSearchFull,
   FdaLabelSearchData,
+  FdaLabelSearchShapes,
   FdaLabelSearchParams,
   // SNOMED
   IpsCategory,
@@ -139,6 +311,10 @@ export type {
   ConnectivityTargetData,
   ConnectivityMeta,
   NpiConnectivityData,
+  EndpointSelectionPolicy,
+  EndpointSelectionRule,
+  EndpointSelectionCheck,
+  EndpointSelection,
   // Claims
   NcciClaimType,
   NcciEditItem,
@@ -163,6 +339,13 @@ export type {
   CoverageCheckResponse,
   ClaimsLegalInfo,
   ClaimsMeta,
+  ClaimLine,
+  ScrubClaimRequest,
+  ClaimEditSeverity,
+  ClaimEditRule,
+  ClaimEdit,
+  ScrubbedClaimLine,
+  ScrubClaimResult,
   // SMA
   SmaListOptions,
   SmaStateSummary,
@@ -170,4 +353,21 @@ export type {
   SmaStatesListResponse,
   SmaStateDetailResponse,
   SmaStatsResponse,
+  // Drug crosswalk
+  DrugIdentifierType,
+  DrugResolveOptions,
+  DrugNodeSystem,
+  DrugNode,
+  DrugRelation,
+  DrugEdge,
+  DrugProfile,
+  DrugEquivalentsOptions,
+  DrugConceptRef,
+  DrugEquivalentGroup,
+  DrugEquivalents,
+  // Provider directory
+  ProviderProfileSection,
+  ProviderEndpoint,
+  ProviderConnectivity,
+  ProviderProfile,
 } from "./types/index.js";
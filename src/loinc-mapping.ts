@@ -0,0 +1,208 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type {
+  LocalLabTest,
+  LoincFull,
+  LoincMappingCandidate,
+  LoincMatchAxis,
+  LoincMatchExplanation,
+  LoincMatchOutcome,
+  LoincSearchParams,
+} from "./types/loinc.js";
+
+/**
+ * Share of the total score carried by each axis.
+ */
+const WEIGHTS: Record<LoincMatchAxis, number> = {
+  component: 0.35,
+  system: 0.25,
+  units: 0.2,
+  method: 0.1,
+  rank: 0.1,
+};
+
+/**
+ * LOINC system for common local specimen names.
+ */
+const SPECIMEN_SYSTEMS: Record<string, string> = {
+  serum: "Ser",
+  plasma: "Plas",
+  "serum or plasma": "Ser/Plas",
+  "serum/plasma": "Ser/Plas",
+  blood: "Bld",
+  "whole blood": "Bld",
+  "arterial blood": "BldA",
+  "venous blood": "BldV",
+  "capillary blood": "BldC",
+  urine: "Urine",
+  "24 hour urine": "Urine",
+  csf: "CSF",
+  "cerebrospinal fluid": "CSF",
+  stool: "Stool",
+  feces: "Stool",
+  saliva: "Saliva",
+};
+
+/**
+ * Kind of quantity measured by each UCUM base unit (lower case).
+ */
+const UNIT_KINDS: Record<string, string> = {
+  g: "mass",
+  mol: "substance",
+  eq: "substance",
+  u: "enzyme",
+  iu: "enzyme",
+  "[iu]": "enzyme",
+  kat: "enzyme",
+  l: "volume",
+  s: "time",
+  min: "time",
+  h: "time",
+  d: "time",
+  wk: "time",
+  mo: "time",
+  a: "time",
+  "%": "fraction",
+};
+
+const UNIT_PREFIXES = new Set(["k", "h", "d", "c", "m", "u", "n", "p", "f"]);
+
+/** Common test ranks run from 1 to about 20,000. */
+const RANK_SCALE = Math.log10(20_000);
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Build the search for a local test: its name without the specimen and
+ * method words, restricted to quantitative codes when the test has units.
+ * Specimen and method are left to scoring, since local names rarely match
+ * LOINC systems exactly (a serum test usually maps to "Ser/Plas").
+ */
+export function mappingQuery(test: LocalLabTest): LoincSearchParams {
+  const context = new Set(tokens(`${test.specimen ?? ""} ${test.method ?? ""}`));
+  const words = tokens(test.name).filter((word) => !context.has(word));
+  const query: LoincSearchParams = { q: words.length > 0 ? words.join(" ") : test.name.trim() };
+  if (test.units?.trim()) query.scale = "Qn";
+  return query;
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.replace(/\{[^}]*\}/g, "").replace(/\s+/g, "").toLowerCase().replace(/\/+$/, "");
+}
+
+function termKind(term: string): string | null {
+  const value = term.replace(/^\(|\)$/g, "").replace(/^[\d.*^]+\.?/, "");
+  if (value === "") return "count";
+  if (UNIT_KINDS[value]) return UNIT_KINDS[value];
+  const base = UNIT_KINDS[value.slice(1)];
+  return base && UNIT_PREFIXES.has(value[0]!) ? base : null;
+}
+
+/**
+ * Kind of quantity a UCUM unit measures, such as "mass/volume" for "mg/dL"
+ * and "g/L"; null if the unit is not understood. Units of the same kind
+ * convert to each other by a constant factor.
+ */
+export function unitKind(unit: string): string | null {
+  const kinds = normalizeUnit(unit).split("/").map(termKind);
+  return kinds.every((kind) => kind !== null) ? kinds.join("/") : null;
+}
+
+function explain(
+  axis: LoincMatchAxis,
+  outcome: LoincMatchOutcome,
+  score: number,
+  message: string
+): LoincMatchExplanation {
+  return { axis, outcome, score, weight: WEIGHTS[axis], message };
+}
+
+function scoreComponent(test: LocalLabTest, loinc: LoincFull): LoincMatchExplanation {
+  const component = loinc.parts.component;
+  if (!component) return explain("component", "unknown", 0.5, "Code has no component");
+  const words = new Set(tokens(test.name));
+  const required = tokens(component);
+  const share = required.filter((word) => words.has(word)).length / Math.max(required.length, 1);
+  const score = Math.round(share * 100) / 100;
+  if (score === 1) return explain("component", "match", 1, `Name contains component "${component}"`);
+  if (score > 0) return explain("component", "partial", score, `Name contains part of component "${component}"`);
+  return explain("component", "mismatch", 0, `Name does not mention component "${component}"`);
+}
+
+function scoreSystem(test: LocalLabTest, loinc: LoincFull): LoincMatchExplanation {
+  const system = loinc.parts.system;
+  if (!test.specimen?.trim()) return explain("system", "unknown", 0.5, "No local specimen");
+  if (!system) return explain("system", "unknown", 0.5, "Code has no system");
+  const local = SPECIMEN_SYSTEMS[test.specimen.trim().toLowerCase()] ?? test.specimen.trim();
+  if (local.toLowerCase() === system.toLowerCase()) {
+    return explain("system", "match", 1, `Specimen ${test.specimen} is system ${system}`);
+  }
+  const overlaps = (a: string, b: string) => a.split("/").some((part) => part.toLowerCase() === b.toLowerCase());
+  if (overlaps(system, local) || overlaps(local, system)) {
+    return explain("system", "partial", 0.8, `System ${system} covers specimen ${test.specimen}`);
+  }
+  return explain("system", "mismatch", 0, `System ${system} does not match specimen ${test.specimen}`);
+}
+
+function scoreUnits(test: LocalLabTest, loinc: LoincFull): LoincMatchExplanation {
+  const local = test.units?.trim();
+  const examples = (loinc.units.example_ucum_units ?? "")
+    .split(";")
+    .map((unit) => unit.trim())
+    .filter(Boolean);
+  if (!local) return explain("units", "unknown", 0.5, "No local units");
+  if (examples.length === 0) return explain("units", "unknown", 0.5, "Code has no example UCUM units");
+
+  const exact = examples.find((unit) => normalizeUnit(unit) === normalizeUnit(local));
+  if (exact) return explain("units", "match", 1, `${local} matches example units ${exact}`);
+  const kind = unitKind(local);
+  const convertible = kind ? examples.find((unit) => unitKind(unit) === kind) : undefined;
+  if (convertible) return explain("units", "partial", 0.8, `${local} converts to example units ${convertible}`);
+  return explain("units", "mismatch", 0, `${local} is not compatible with example units ${examples.join(", ")}`);
+}
+
+function scoreMethod(test: LocalLabTest, loinc: LoincFull): LoincMatchExplanation {
+  const method = loinc.parts.method_typ;
+  const local = test.method?.trim();
+  if (!local) {
+    return method
+      ? explain("method", "partial", 0.5, `Code specifies method ${method}; no local method`)
+      : explain("method", "match", 1, "No method on either");
+  }
+  if (!method) return explain("method", "partial", 0.5, `Code is method-less; local method ${local}`);
+  const words = new Set(tokens(method));
+  if (tokens(local).some((word) => words.has(word))) {
+    return explain("method", "match", 1, `Method ${method} matches ${local}`);
+  }
+  return explain("method", "mismatch", 0, `Method ${method} does not match ${local}`);
+}
+
+function scoreRank(loinc: LoincFull): LoincMatchExplanation {
+  const rank = loinc.ranks.common_test_rank;
+  if (!rank) return explain("rank", "unknown", 0, "Not ranked among common tests");
+  const score = Math.round(Math.min(1, Math.max(0, 1 - Math.log10(rank) / RANK_SCALE)) * 100) / 100;
+  return explain("rank", rank <= 2000 ? "match" : "partial", score, `Common test rank ${rank}`);
+}
+
+/**
+ * Score a LOINC code as a mapping for a local test.
+ *
+ * Axes and weights: component agreement with the test name (0.35), specimen
+ * vs system (0.25), local units vs `example_ucum_units` (0.2: exact 1,
+ * convertible 0.8), method (0.1), and `common_test_rank` (0.1, on a log
+ * scale). Missing local attributes score 0.5 so they neither help nor sink
+ * a candidate.
+ */
+export function scoreLoincCandidate(test: LocalLabTest, loinc: LoincFull): LoincMappingCandidate {
+  const explanations = [
+    scoreComponent(test, loinc),
+    scoreSystem(test, loinc),
+    scoreUnits(test, loinc),
+    scoreMethod(test, loinc),
+    scoreRank(loinc),
+  ];
+  const total = explanations.reduce((sum, item) => sum + item.score * item.weight, 0);
+  return { loinc, score: Math.round(total * 1000) / 1000, explanations };
+}
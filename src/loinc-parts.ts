@@ -0,0 +1,109 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "./errors.js";
+import type { LoincAxis, LoincPartFacet, LoincParts, LoincSearchParams } from "./types/loinc.js";
+
+/**
+ * The six LOINC axes, in fully specified name order.
+ */
+export const LOINC_AXES: readonly LoincAxis[] = ["component", "property", "time", "system", "scale", "method"];
+
+const PART_FIELDS: Record<LoincAxis, keyof LoincParts> = {
+  component: "component",
+  property: "property",
+  time: "time_aspct",
+  system: "system",
+  scale: "scale_typ",
+  method: "method_typ",
+};
+
+/**
+ * Search parameter that filters on each axis; time has none.
+ */
+const SEARCH_PARAMS: Partial<Record<LoincAxis, "component" | "property" | "system" | "scale" | "method">> = {
+  component: "component",
+  property: "property",
+  system: "system",
+  scale: "scale",
+  method: "method",
+};
+
+/**
+ * Value of an axis in a code's parts.
+ */
+export function loincPart(parts: LoincParts, axis: LoincAxis): string | null {
+  return parts[PART_FIELDS[axis]] ?? null;
+}
+
+/**
+ * Check a list of axes to vary.
+ *
+ * @throws ValidationError if the list is empty or names an unknown axis
+ */
+export function checkVaryAxes(vary: LoincAxis[]): LoincAxis[] {
+  if (vary.length === 0) throw new ValidationError("vary must name at least one axis", "vary");
+  const unknown = vary.find((axis) => !LOINC_AXES.includes(axis));
+  if (unknown) {
+    throw new ValidationError(`Unknown LOINC axis "${unknown}": expected one of ${LOINC_AXES.join(", ")}`, "vary");
+  }
+  return LOINC_AXES.filter((axis) => vary.includes(axis));
+}
+
+/**
+ * Search parameters that narrow a search to codes sharing the fixed axes.
+ * Axes without a value or without a search filter (time) are left out and
+ * must be checked with {@link sharesParts}.
+ */
+export function variantSearchParams(parts: LoincParts, fixed: LoincAxis[]): LoincSearchParams {
+  const params: LoincSearchParams = {};
+  for (const axis of fixed) {
+    const param = SEARCH_PARAMS[axis];
+    const value = loincPart(parts, axis);
+    if (param && value) params[param] = value;
+  }
+  return params;
+}
+
+/**
+ * Whether two codes have the same value on every fixed axis.
+ */
+export function sharesParts(parts: LoincParts, other: LoincParts, fixed: LoincAxis[]): boolean {
+  return fixed.every((axis) => loincPart(parts, axis) === loincPart(other, axis));
+}
+
+/**
+ * Order codes by their values on the given axes, then by code.
+ */
+export function compareByAxes(axes: LoincAxis[]) {
+  return (a: { code: string; parts: LoincParts }, b: { code: string; parts: LoincParts }): number => {
+    for (const axis of axes) {
+      const diff = (loincPart(a.parts, axis) ?? "").localeCompare(loincPart(b.parts, axis) ?? "");
+      if (diff !== 0) return diff;
+    }
+    return a.code.localeCompare(b.code);
+  };
+}
+
+/**
+ * Count the distinct values of each axis across codes, most common first
+ * (ties by value, with null last).
+ */
+export function facetLoincParts(items: Array<{ parts: LoincParts }>): Record<LoincAxis, LoincPartFacet[]> {
+  const facets = {} as Record<LoincAxis, LoincPartFacet[]>;
+  for (const axis of LOINC_AXES) {
+    const counts = new Map<string | null, number>();
+    for (const { parts } of items) {
+      const value = loincPart(parts, axis);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    facets[axis] = [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort(
+        (a, b) =>
+          b.count - a.count ||
+          Number(a.value === null) - Number(b.value === null) ||
+          (a.value ?? "").localeCompare(b.value ?? "")
+      );
+  }
+  return facets;
+}
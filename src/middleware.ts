@@ -0,0 +1,78 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+
+/**
+ * An outgoing API request as seen by middleware.
+ *
+ * Middleware may mutate `endpoint`, `body`, and `headers` before calling `next`.
+ * Credentials are added after the chain runs and are never visible here.
+ */
+export interface MiddlewareRequest {
+  method: "GET" | "POST";
+  /** Path and query string relative to the base URL (e.g., "/v1/npi/1234567893?shape=full") */
+  endpoint: string;
+  /** JSON request body (POST only) */
+  body?: unknown;
+  /** Request headers, excluding credentials */
+  headers: Record<string, string>;
+  /** Zero-based attempt number; greater than 0 for retries */
+  attempt: number;
+  /** The call's `RequestOptions.signal`; middleware that waits should stop when it aborts */
+  signal?: AbortSignal;
+}
+
+/**
+ * A successful API response as seen by middleware.
+ */
+export interface MiddlewareResponse {
+  status: number;
+  headers: Headers;
+  /** Parsed JSON body */
+  data: unknown;
+  /** Time from sending the request to parsing the body, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Passes a request to the next middleware, or sends it when called from the last one.
+ *
+ * Rejects with an `ApiError` subclass for error responses, `TimeoutError` when the
+ * request times out, or the underlying error for network failures.
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<MiddlewareResponse>;
+
+/**
+ * Request/response middleware.
+ *
+ * Runs once per attempt, so retries pass through the chain again with a higher
+ * `attempt`. Return a response without calling `next` to short-circuit the
+ * request (e.g., to serve a mock); throw to fail it. Retries, timeouts, and
+ * error mapping apply to whatever the chain returns or throws.
+ *
+ * @example
+ * ```ts
+ * const audit: Middleware = async (request, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     const response = await next(request);
+ *     log({ endpoint: request.endpoint, status: response.status, ms: response.durationMs });
+ *     return response;
+ *   } catch (error) {
+ *     log({ endpoint: request.endpoint, error, ms: Date.now() - started });
+ *     throw error;
+ *   }
+ * };
+ * ```
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<MiddlewareResponse>;
+
+/**
+ * Compose middleware into a single handler that ends in `send`.
+ * The first middleware in the list is the outermost.
+ */
+export function composeMiddleware(middleware: Middleware[], send: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, handler) => (request) => handler(request, next),
+    send
+  );
+}
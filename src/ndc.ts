@@ -0,0 +1,180 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { NdcType } from "./types/ndc.js";
+
+/**
+ * Segment layout of an NDC.
+ *
+ * FDA 10-digit NDCs use `4-4-2`, `5-3-2`, or `5-4-1` (labeler-product-package).
+ * The 11-digit HIPAA form is always `5-4-2`. Product NDCs omit the package
+ * segment (`4-4`, `5-3`, `5-4`).
+ */
+export type NdcConfiguration = "4-4-2" | "5-3-2" | "5-4-1" | "5-4-2" | "4-4" | "5-3" | "5-4";
+
+/**
+ * An NDC whose segments could be determined.
+ */
+export interface ParsedNdc {
+  status: "valid";
+  /** The original input */
+  input: string;
+  /** "package" when a package segment is present, otherwise "product" */
+  type: NdcType;
+  configuration: NdcConfiguration;
+  /** Labeler segment, zero-padded to 5 digits */
+  labeler: string;
+  /** Product segment, zero-padded to 4 digits */
+  product: string;
+  /** Package segment, zero-padded to 2 digits; null for product NDCs */
+  package: string | null;
+}
+
+/**
+ * An NDC that could not be parsed.
+ *
+ * - `ambiguous` — plausible digits, but the segment boundaries cannot be
+ *   determined without hyphens (10-digit package or 8-digit product NDCs)
+ * - `invalid` — cannot be an NDC
+ */
+export interface UnparsedNdc {
+  status: "ambiguous" | "invalid";
+  input: string;
+  reason: string;
+}
+
+/**
+ * Result of {@link parseNdc}.
+ */
+export type NdcParseResult = ParsedNdc | UnparsedNdc;
+
+/**
+ * Configurations recognized in hyphenated input, as `"labeler-product[-package]"` segment lengths.
+ */
+const CONFIGURATIONS = new Set<string>(["4-4-2", "5-3-2", "5-4-1", "5-4-2", "4-4", "5-3", "5-4"]);
+
+/**
+ * Parse an NDC in any common format into labeler, product, and package segments.
+ *
+ * Accepts hyphenated 10-digit (`0069-0151-01`), hyphenated 11-digit
+ * (`00069-0151-01`), unhyphenated 11-digit (`00069015101`), and product
+ * NDCs (`0069-0151`, `00069-0151`). Unhyphenated 10-digit input is reported
+ * as `ambiguous` because its configuration cannot be inferred.
+ *
+ * @example
+ * ```ts
+ * const ndc = parseNdc("0069-0151-01");
+ * if (ndc.status === "valid") {
+ *   ndc.configuration; // "4-4-2"
+ *   toNdc11(ndc);      // "00069015101"
+ * }
+ * ```
+ */
+export function parseNdc(input: string): NdcParseResult {
+  const value = input.trim();
+
+  if (value === "") {
+    return { status: "invalid", input, reason: "NDC is empty" };
+  }
+  if (!/^[0-9-]+$/.test(value)) {
+    return { status: "invalid", input, reason: "NDC may contain only digits and hyphens" };
+  }
+
+  if (value.includes("-")) {
+    const segments = value.split("-");
+    const configuration = segments.map((s) => s.length).join("-");
+    if (!CONFIGURATIONS.has(configuration)) {
+      return { status: "invalid", input, reason: `Unrecognized segment lengths ${configuration}` };
+    }
+    const [labeler, product, pkg] = segments as [string, string, string?];
+    return {
+      status: "valid",
+      input,
+      type: pkg === undefined ? "product" : "package",
+      configuration: configuration as NdcConfiguration,
+      labeler: labeler.padStart(5, "0"),
+      product: product.padStart(4, "0"),
+      package: pkg === undefined ? null : pkg.padStart(2, "0"),
+    };
+  }
+
+  switch (value.length) {
+    case 11:
+      return {
+        status: "valid",
+        input,
+        type: "package",
+        configuration: "5-4-2",
+        labeler: value.slice(0, 5),
+        product: value.slice(5, 9),
+        package: value.slice(9),
+      };
+    case 9:
+      return {
+        status: "valid",
+        input,
+        type: "product",
+        configuration: "5-4",
+        labeler: value.slice(0, 5),
+        product: value.slice(5),
+        package: null,
+      };
+    case 10:
+    case 8:
+      return {
+        status: "ambiguous",
+        input,
+        reason: `${value.length}-digit NDC without hyphens has no unique configuration`,
+      };
+    default:
+      return { status: "invalid", input, reason: `NDC has ${value.length} digits` };
+  }
+}
+
+function parsed(ndc: string | ParsedNdc): ParsedNdc | null {
+  const result = typeof ndc === "string" ? parseNdc(ndc) : ndc;
+  return result.status === "valid" ? result : null;
+}
+
+/**
+ * Whether the input parses to an unambiguous package or product NDC.
+ */
+export function isValidNdc(input: string): boolean {
+  return parseNdc(input).status === "valid";
+}
+
+/**
+ * Convert a package NDC to the 11-digit unhyphenated form (e.g., "00069015101").
+ *
+ * @returns The NDC11, or null for product NDCs and unparseable input
+ */
+export function toNdc11(ndc: string | ParsedNdc): string | null {
+  const result = parsed(ndc);
+  if (!result?.package) return null;
+  return `${result.labeler}${result.product}${result.package}`;
+}
+
+/**
+ * Convert a package NDC to the hyphenated 5-4-2 form returned by the API as
+ * `ndc11_hyph` (e.g., "00069-0151-01").
+ *
+ * @returns The hyphenated NDC11, or null for product NDCs and unparseable input
+ */
+export function toNdc11Hyph(ndc: string | ParsedNdc): string | null {
+  const result = parsed(ndc);
+  if (!result?.package) return null;
+  return `${result.labeler}-${result.product}-${result.package}`;
+}
+
+/**
+ * Normalize an NDC to a canonical hyphenated form: 5-4-2 for packages and
+ * 5-4 for products.
+ *
+ * @returns The normalized NDC, or null if the input is ambiguous or invalid
+ */
+export function normalizeNdc(ndc: string | ParsedNdc): string | null {
+  const result = parsed(ndc);
+  if (!result) return null;
+  return result.package === null
+    ? `${result.labeler}-${result.product}`
+    : `${result.labeler}-${result.product}-${result.package}`;
+}
@@ -0,0 +1,95 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ValidationError } from "./errors.js";
+import type { PaginationOptions, SearchResponse } from "./types/common.js";
+
+/**
+ * Highest page number the search API will serve.
+ */
+export const MAX_SEARCH_PAGE = 100;
+
+/**
+ * Walk a page-numbered search, yielding one `SearchResponse` per page.
+ *
+ * Stops when the server reports no more results, when a page comes back empty,
+ * at the server's 100-page ceiling (which is where capped totals end), or when
+ * `maxPages` is reached.
+ *
+ * @param fetchPage - Fetches a given 1-based page
+ * @param startPage - First page to fetch
+ * @param options - Page limits
+ */
+export async function* paginatePages<T>(
+  fetchPage: (page: number) => Promise<SearchResponse<T>>,
+  startPage = 1,
+  options?: PaginationOptions
+): AsyncGenerator<SearchResponse<T>, void, undefined> {
+  if (startPage < 1 || startPage > MAX_SEARCH_PAGE) {
+    throw new ValidationError(`page must be between 1 and ${MAX_SEARCH_PAGE}, got ${startPage}`, "page");
+  }
+
+  const maxPages = options?.maxPages ?? Infinity;
+  let fetched = 0;
+
+  for (let page = startPage; page <= MAX_SEARCH_PAGE && fetched < maxPages; page++) {
+    const response = await fetchPage(page);
+    fetched++;
+    yield response;
+
+    if (!response.has_more || response.items.length === 0) return;
+  }
+}
+
+/**
+ * Walk an offset-based search (`limit`/`skip`), yielding one response per page.
+ *
+ * Stops when a page returns fewer results than requested or when `maxPages` is reached.
+ *
+ * @param fetchPage - Fetches `limit` results starting at `skip`
+ * @param select - Extracts the result array from a response
+ * @param limit - Page size
+ * @param startSkip - Initial offset
+ * @param options - Page limits
+ */
+export async function* paginateOffset<P, T>(
+  fetchPage: (skip: number, limit: number) => Promise<P>,
+  select: (page: P) => T[],
+  limit: number,
+  startSkip = 0,
+  options?: PaginationOptions
+): AsyncGenerator<P, void, undefined> {
+  const maxPages = options?.maxPages ?? Infinity;
+  let fetched = 0;
+
+  for (let skip = startSkip; fetched < maxPages; skip += limit) {
+    const response = await fetchPage(skip, limit);
+    fetched++;
+    yield response;
+
+    if (select(response).length < limit) return;
+  }
+}
+
+/**
+ * Flatten a sequence of pages into their items, stopping after `maxItems`.
+ *
+ * @param pages - Page iterator (from `paginatePages` or `paginateOffset`)
+ * @param select - Extracts the item array from a page
+ * @param options - Item limit
+ */
+export async function* paginateItems<P, T>(
+  pages: AsyncIterable<P>,
+  select: (page: P) => T[],
+  options?: PaginationOptions
+): AsyncGenerator<T, void, undefined> {
+  const maxItems = options?.maxItems ?? Infinity;
+  if (maxItems <= 0) return;
+
+  let yielded = 0;
+  for await (const page of pages) {
+    for (const item of select(page)) {
+      yield item;
+      if (++yielded >= maxItems) return;
+    }
+  }
+}
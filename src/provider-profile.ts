@@ -0,0 +1,56 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { AbortError, NotFoundError } from "./errors.js";
+import { compareRanks, endpointRank } from "./endpoint-selection.js";
+import type { NpiConnectivityData } from "./types/connectivity.js";
+import type { ProviderConnectivity, ProviderEndpoint, ProviderProfileSection } from "./types/providers.js";
+
+/**
+ * Rank a provider's connectivity endpoints and targets, best first.
+ */
+export function rankConnectivity(data: NpiConnectivityData): ProviderConnectivity {
+  const targets = data.connectivity_targets.map((target) => {
+    const ranked = target.endpoints
+      .map((endpoint) => ({ endpoint, rank: endpointRank(endpoint, target.link_confidence) }))
+      .sort((a, b) => compareRanks(a.rank, b.rank));
+    return { target: { ...target, endpoints: ranked.map(({ endpoint }) => endpoint) }, best: ranked[0]?.rank };
+  });
+  targets.sort((a, b) => {
+    if (!a.best || !b.best) return Number(!a.best) - Number(!b.best);
+    return compareRanks(a.best, b.best);
+  });
+
+  const endpoints = data.connectivity_targets
+    .flatMap((target) =>
+      target.endpoints.map((endpoint) => ({
+        endpoint: {
+          ...endpoint,
+          target_id: target.target_id,
+          target_name: target.name,
+          link_confidence: target.link_confidence,
+        } satisfies ProviderEndpoint,
+        rank: endpointRank(endpoint, target.link_confidence),
+      }))
+    )
+    .sort((a, b) => compareRanks(a.rank, b.rank));
+
+  return {
+    endpoints: endpoints.map(({ endpoint }) => endpoint),
+    targets: targets.map(({ target }) => target),
+    meta: data.meta,
+  };
+}
+
+/**
+ * Run one part of a profile, turning failures into a section status.
+ * Aborts are rethrown: a cancelled call fails as a whole.
+ */
+export async function settleSection<T>(load: () => Promise<T>): Promise<ProviderProfileSection<T>> {
+  try {
+    return { status: "ok", data: await load() };
+  } catch (error) {
+    if (error instanceof AbortError) throw error;
+    if (error instanceof NotFoundError) return { status: "not_found" };
+    return { status: "error", error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,276 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { RateLimitError } from "./errors.js";
+import { sleep } from "./http.js";
+import type { Middleware } from "./middleware.js";
+
+/**
+ * Rate-limit state shared by every request of a client (or, with a shared
+ * store, every client using the store).
+ */
+export interface RateLimitState {
+  /** Requests allowed per window (`x-ratelimit-limit`) */
+  limit?: number;
+  /** Requests left in the window (`x-ratelimit-remaining`), decremented locally per request */
+  remaining?: number;
+  /** Epoch milliseconds when the window resets (`x-ratelimit-reset`) */
+  resetAt?: number;
+  /** Epoch milliseconds when rate-limit headers were last received */
+  observedAt?: number;
+  /** Tokens currently in the bucket */
+  tokens: number;
+  /** Epoch milliseconds of the last refill */
+  updatedAt: number;
+}
+
+/**
+ * Storage for rate-limit state.
+ *
+ * The default keeps state in memory for one client. Back it with a shared
+ * store (e.g., Redis) so several processes pace against the same budget.
+ * Updates are read-modify-write, so coordination across processes is
+ * best-effort; the server's 429 responses remain the hard limit.
+ *
+ * @example
+ * ```ts
+ * const redisStore: RateLimitStore = {
+ *   async get() {
+ *     const raw = await redis.get("fhirfly:ratelimit");
+ *     return raw ? JSON.parse(raw) : undefined;
+ *   },
+ *   async set(state) {
+ *     await redis.set("fhirfly:ratelimit", JSON.stringify(state));
+ *   },
+ * };
+ * ```
+ */
+export interface RateLimitStore {
+  get(): Promise<RateLimitState | undefined> | RateLimitState | undefined;
+  set(state: RateLimitState): Promise<void> | void;
+}
+
+/**
+ * In-memory rate-limit store (the default).
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private state?: RateLimitState;
+
+  get(): RateLimitState | undefined {
+    return this.state && { ...this.state };
+  }
+
+  set(state: RateLimitState): void {
+    this.state = { ...state };
+  }
+}
+
+/**
+ * Client-side rate limiter configuration.
+ */
+export interface RateLimitOptions {
+  /**
+   * State storage; share one store between processes to coordinate them.
+   * @default new MemoryRateLimitStore()
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Bucket capacity: requests that may be sent back-to-back before pacing applies.
+   * @default 10
+   */
+  burst?: number;
+
+  /**
+   * Maximum sustained request rate. When omitted, requests are paced only by
+   * the remaining budget the server reports.
+   */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Latest rate-limit information reported by the API.
+ */
+export interface RateLimitUsage {
+  /** Requests allowed per window */
+  limit?: number;
+  /** Requests left in the current window, including locally sent requests */
+  remaining?: number;
+  /** When the current window resets */
+  reset?: Date;
+  /** When the API last reported these values */
+  updatedAt: Date;
+}
+
+const DEFAULT_BURST = 10;
+
+function headerNumber(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Token-bucket rate limiter driven by `x-ratelimit-*` response headers.
+ *
+ * The bucket refills at the rate that spreads the remaining budget evenly
+ * until the window resets, capped by `requestsPerSecond`. When the budget is
+ * exhausted, requests wait for the reset. Without `pace`, the limiter only
+ * records headers for {@link RateLimiter.usage}.
+ */
+export class RateLimiter {
+  private readonly store: RateLimitStore;
+  private readonly burst: number;
+  private readonly maxRate: number;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    options: RateLimitOptions = {},
+    private readonly pace = true
+  ) {
+    this.store = options.store ?? new MemoryRateLimitStore();
+    this.burst = Math.max(1, options.burst ?? DEFAULT_BURST);
+    this.maxRate = options.requestsPerSecond ? options.requestsPerSecond / 1000 : Infinity;
+  }
+
+  /**
+   * Middleware that waits for a token before each attempt and records the
+   * rate-limit headers of each response. The wait ends with `AbortError` if
+   * the call's signal aborts.
+   */
+  readonly middleware: Middleware = async (request, next) => {
+    if (this.pace) {
+      for (;;) {
+        const wait = await this.acquire(Date.now());
+        if (wait <= 0) break;
+        await sleep(wait, request.signal);
+      }
+    }
+
+    try {
+      const response = await next(request);
+      await this.observe(response.headers, Date.now());
+      return response;
+    } catch (error) {
+      if (error instanceof RateLimitError) await this.exhausted(error, Date.now());
+      throw error;
+    }
+  };
+
+  /**
+   * Latest limits and remaining budget, or null before any response has
+   * reported them.
+   */
+  async usage(): Promise<RateLimitUsage | null> {
+    const state = await this.store.get();
+    if (state?.observedAt === undefined) return null;
+    return {
+      limit: state.limit,
+      remaining: state.remaining,
+      reset: state.resetAt === undefined ? undefined : new Date(state.resetAt),
+      updatedAt: new Date(state.observedAt),
+    };
+  }
+
+  /**
+   * Take a token if one is available.
+   *
+   * @returns 0 when the request may proceed, otherwise milliseconds to wait before trying again
+   */
+  private acquire(now: number): Promise<number> {
+    return this.exclusive(async () => {
+      const state = await this.load(now);
+
+      if (state.resetAt !== undefined && now >= state.resetAt) {
+        state.remaining = state.limit;
+        state.resetAt = undefined;
+        state.tokens = this.burst;
+      }
+
+      const rate = this.refillRate(state, now);
+      state.tokens = rate === Infinity
+        ? this.burst
+        : Math.min(this.burst, state.tokens + (now - state.updatedAt) * rate);
+      state.updatedAt = now;
+
+      let wait = 0;
+      if (state.remaining !== undefined && state.remaining <= 0 && state.resetAt !== undefined) {
+        wait = state.resetAt - now;
+      } else if (state.tokens < 1) {
+        wait = Math.ceil((1 - state.tokens) / rate);
+      }
+
+      if (wait <= 0) {
+        state.tokens -= 1;
+        if (state.remaining !== undefined) state.remaining -= 1;
+      }
+      await this.store.set(state);
+      return wait;
+    });
+  }
+
+  /**
+   * Record `x-ratelimit-*` headers from a response.
+   */
+  private observe(headers: Headers, now: number): Promise<void> {
+    const limit = headerNumber(headers, "x-ratelimit-limit");
+    const remaining = headerNumber(headers, "x-ratelimit-remaining");
+    const reset = headerNumber(headers, "x-ratelimit-reset");
+    if (limit === undefined && remaining === undefined && reset === undefined) return Promise.resolve();
+
+    return this.exclusive(async () => {
+      const state = await this.load(now);
+      const resetAt = reset === undefined ? state.resetAt : reset * 1000;
+      const newWindow = resetAt !== state.resetAt;
+
+      state.limit = limit ?? state.limit;
+      if (remaining !== undefined) {
+        // Requests still in flight were already counted locally
+        state.remaining = newWindow || state.remaining === undefined
+          ? remaining
+          : Math.min(state.remaining, remaining);
+      }
+      state.resetAt = resetAt;
+      state.observedAt = now;
+      await this.store.set(state);
+    });
+  }
+
+  /**
+   * Record a 429: no budget is left until the reset (or `retry-after`).
+   */
+  private exhausted(error: RateLimitError, now: number): Promise<void> {
+    return this.exclusive(async () => {
+      const state = await this.load(now);
+      state.limit = error.limit ?? state.limit;
+      state.remaining = 0;
+      state.resetAt = error.reset?.getTime()
+        ?? (error.retryAfter !== undefined ? now + error.retryAfter * 1000 : state.resetAt);
+      state.observedAt = now;
+      await this.store.set(state);
+    });
+  }
+
+  /**
+   * Tokens per millisecond.
+   */
+  private refillRate(state: RateLimitState, now: number): number {
+    if (state.remaining !== undefined && state.resetAt !== undefined && state.resetAt > now) {
+      return Math.min(this.maxRate, Math.max(state.remaining, 0) / (state.resetAt - now));
+    }
+    return this.maxRate;
+  }
+
+  private async load(now: number): Promise<RateLimitState> {
+    return (await this.store.get()) ?? { tokens: this.burst, updatedAt: now };
+  }
+
+  /**
+   * Serialize state updates within this process.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(task);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,65 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ResponseValidationError } from "./errors.js";
+import { formatIssues, validate, type SchemaIssue } from "./schema.js";
+import { responseSchema } from "./schemas/index.js";
+
+/**
+ * How responses are checked against the SDK's types.
+ *
+ * - `"off"`: no checks (the default)
+ * - `"warn"`: report drift to `onSchemaDrift`, or `console.warn` when no callback is set
+ * - `"strict"`: report drift to `onSchemaDrift`, then throw `ResponseValidationError`
+ */
+export type ResponseValidationMode = "off" | "warn" | "strict";
+
+/**
+ * A response that does not match the SDK's types.
+ */
+export interface SchemaDrift {
+  method: "GET" | "POST";
+  /** Path and query string of the request (e.g., "/v1/npi/1234567893?shape=full") */
+  endpoint: string;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Callback for responses that do not match the SDK's types.
+ */
+export type SchemaDriftHandler = (drift: SchemaDrift) => void;
+
+/**
+ * Checks response payloads against runtime schemas that mirror `src/types`.
+ *
+ * Requests without a known schema (e.g., paths rewritten by middleware to
+ * endpoints the SDK does not wrap) are not checked.
+ */
+export class ResponseValidator {
+  constructor(
+    private readonly mode: Exclude<ResponseValidationMode, "off">,
+    private readonly onSchemaDrift?: SchemaDriftHandler
+  ) {}
+
+  /**
+   * Validate a response body.
+   *
+   * @throws ResponseValidationError in strict mode when the body does not match
+   */
+  check(method: "GET" | "POST", endpoint: string, data: unknown): void {
+    const schema = responseSchema(method, endpoint);
+    if (!schema) return;
+
+    const issues = validate(schema, data);
+    if (issues.length === 0) return;
+
+    if (this.onSchemaDrift) {
+      this.onSchemaDrift({ method, endpoint, issues });
+    } else if (this.mode === "warn") {
+      console.warn(`[fhirfly] Response from ${method} ${endpoint} does not match the SDK types: ${formatIssues(issues)}`);
+    }
+
+    if (this.mode === "strict") {
+      throw new ResponseValidationError(method, endpoint, issues);
+    }
+  }
+}
@@ -0,0 +1,218 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+
+/**
+ * A difference between a response payload and its expected schema.
+ */
+export interface SchemaIssue {
+  /** JSON path of the offending value (e.g., "$.data.taxonomies[0].code") */
+  path: string;
+  /** A required field is absent, a field is not in the schema, or a value has the wrong type */
+  kind: "missing" | "extra" | "type";
+  /** Expected type (e.g., "string | null"); absent for extra fields */
+  expected?: string;
+  /** Type of the received value; absent for missing fields */
+  received?: string;
+}
+
+/**
+ * Runtime schema for values of type `T`.
+ *
+ * Schemas are built with the combinators in this module. The type parameter
+ * lets {@link object} check at compile time that a schema covers exactly the
+ * fields of the interface it describes.
+ */
+export interface Schema<T> {
+  /** Description of accepted values, used in issues */
+  readonly expected: string;
+  readonly optional?: false;
+  /** Append issues for `value` at `path` */
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Type marker; never set */
+  readonly __type?: (value: T) => T;
+}
+
+/**
+ * A schema of any type, for code that only validates values.
+ */
+export type AnySchema = Pick<Schema<unknown>, "expected" | "check">;
+
+/**
+ * Schema for an optional object field. Created with {@link optional}.
+ */
+export interface OptionalSchema<T> extends Omit<Schema<T>, "optional"> {
+  readonly optional: true;
+}
+
+/**
+ * Field schemas for an object type: optional fields take an
+ * {@link OptionalSchema}, required fields a {@link Schema}.
+ */
+export type ObjectShape<T> = {
+  [K in keyof T]-?: object extends Pick<T, K> ? OptionalSchema<Exclude<T[K], undefined>> : Schema<T[K]>;
+};
+
+/**
+ * Describe a received value for an issue.
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Append an object key to a JSON path.
+ */
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) issues.push({ path, kind: "type", expected, received: describe(value) });
+    },
+  };
+}
+
+export function string(): Schema<string> {
+  return primitive("string", (value) => typeof value === "string");
+}
+
+export function number(): Schema<number> {
+  return primitive("number", (value) => typeof value === "number");
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive("boolean", (value) => typeof value === "boolean");
+}
+
+/**
+ * One of a fixed set of strings.
+ */
+export function literal<const T extends string>(...values: T[]): Schema<T> {
+  const allowed = new Set<unknown>(values);
+  return primitive(values.map((value) => JSON.stringify(value)).join(" | "), (value) => allowed.has(value));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    check(value, path, issues) {
+      if (value === null) return;
+      const inner: SchemaIssue[] = [];
+      schema.check(value, path, inner);
+      // Report a top-level mismatch against the nullable type
+      for (const issue of inner) {
+        issues.push(issue.path === path && issue.kind === "type" ? { ...issue, expected: this.expected } : issue);
+      }
+    },
+  };
+}
+
+/**
+ * Mark an object field as optional: it may be absent or `undefined`.
+ */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    expected: schema.expected,
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) schema.check(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(items: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${items.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, kind: "type", expected: this.expected, received: describe(value) });
+        return;
+      }
+      value.forEach((item, index) => items.check(item, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+/**
+ * An object with arbitrary keys and values matching `values`.
+ */
+export function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${values.expected}>`,
+    check(value, path, issues) {
+      if (!isRecord(value)) {
+        issues.push({ path, kind: "type", expected: "object", received: describe(value) });
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) values.check(item, childPath(path, key), issues);
+    },
+  };
+}
+
+/**
+ * An object with exactly the given fields. Missing required fields and
+ * fields not in the schema are reported.
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  const fields = Object.entries(shape) as [string, Schema<unknown> | OptionalSchema<unknown>][];
+  return {
+    expected: "object",
+    check(value, path, issues) {
+      if (!isRecord(value)) {
+        issues.push({ path, kind: "type", expected: "object", received: describe(value) });
+        return;
+      }
+      for (const [key, field] of fields) {
+        const fieldPath = childPath(path, key);
+        if (!(key in value)) {
+          if (!field.optional) issues.push({ path: fieldPath, kind: "missing", expected: field.expected });
+          continue;
+        }
+        field.check(value[key], fieldPath, issues);
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in shape)) {
+          issues.push({ path: childPath(path, key), kind: "extra", received: describe(value[key]) });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Summarize issues for a log line or error message.
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map((issue) => {
+      switch (issue.kind) {
+        case "missing":
+          return `${issue.path}: missing (expected ${issue.expected})`;
+        case "extra":
+          return `${issue.path}: unexpected field`;
+        case "type":
+          return `${issue.path}: expected ${issue.expected}, received ${issue.received}`;
+      }
+    })
+    .join("; ");
+}
+
+/**
+ * Check a value against a schema.
+ *
+ * @returns Every issue found, or an empty array when the value matches
+ */
+export function validate(schema: AnySchema, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, "$", issues);
+  return issues;
+}
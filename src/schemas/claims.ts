@@ -0,0 +1,140 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  ClaimsLegalInfo,
+  ClaimsMeta,
+  CoverageCheckItem,
+  CoverageCheckResponse,
+  MueBatchResponse,
+  MueBatchResultItem,
+  MueLimitItem,
+  MueLookupData,
+  MueLookupResponse,
+  NcciEditItem,
+  NcciValidateResponse,
+  PfsBatchResponse,
+  PfsBatchResultItem,
+  PfsLookupData,
+  PfsLookupResponse,
+} from "../types/claims.js";
+import { batchStatus } from "./common.js";
+
+const claimsLegal = s.object<ClaimsLegalInfo>({
+  license: s.string(),
+  attribution_required: s.boolean(),
+  source_name: s.string(),
+  citation: s.string(),
+});
+
+const claimsMeta = s.object<ClaimsMeta>({
+  source: s.object<ClaimsMeta["source"]>({
+    name: s.string(),
+    quarter: s.optional(s.string()),
+    url: s.optional(s.string()),
+  }),
+  legal: claimsLegal,
+});
+
+const batchMeta = s.object<{ legal: ClaimsLegalInfo }>({ legal: claimsLegal });
+
+export const ncciValidateResponse = s.object<NcciValidateResponse>({
+  data: s.object<NcciValidateResponse["data"]>({
+    code1: s.string(),
+    code2: s.string(),
+    can_bill_together: s.boolean(),
+    edits: s.array(s.object<NcciEditItem>({
+      claim_type: s.literal("practitioner", "hospital"),
+      modifier_indicator: s.string(),
+      modifier_allowed: s.boolean(),
+      effective_date: s.nullable(s.string()),
+      is_active: s.boolean(),
+      rationale: s.string(),
+    })),
+    summary: s.string(),
+  }),
+  meta: claimsMeta,
+});
+
+const mueLookupData = s.object<MueLookupData>({
+  hcpcs_code: s.string(),
+  limits: s.array(s.object<MueLimitItem>({
+    hcpcs_code: s.string(),
+    service_type: s.string(),
+    mue_value: s.number(),
+    adjudication_indicator: s.number(),
+    adjudication_indicator_display: s.string(),
+    rationale: s.string(),
+  })),
+});
+
+export const mueLookupResponse = s.object<MueLookupResponse>({ data: mueLookupData, meta: claimsMeta });
+
+export const mueBatchResponse = s.object<MueBatchResponse>({
+  count: s.number(),
+  results: s.array(s.object<MueBatchResultItem>({
+    input: s.string(),
+    hcpcs_code: s.string(),
+    status: batchStatus,
+    data: s.optional(mueLookupData),
+    error: s.optional(s.string()),
+  })),
+  meta: batchMeta,
+});
+
+const pfsLookupData = s.object<PfsLookupData>({
+  hcpcs_code: s.string(),
+  description: s.string(),
+  status_code: s.string(),
+  rvu: s.object<PfsLookupData["rvu"]>({
+    work: s.number(),
+    pe_non_facility: s.number(),
+    pe_facility: s.number(),
+    mp: s.number(),
+    total_non_facility: s.number(),
+    total_facility: s.number(),
+  }),
+  conversion_factor: s.number(),
+  calculated_payment: s.object<PfsLookupData["calculated_payment"]>({
+    non_facility: s.number(),
+    facility: s.number(),
+  }),
+  indicators: s.object<PfsLookupData["indicators"]>({
+    global_days: s.nullable(s.string()),
+    multiple_surgery: s.nullable(s.string()),
+    bilateral_surgery: s.nullable(s.string()),
+  }),
+});
+
+export const pfsLookupResponse = s.object<PfsLookupResponse>({ data: pfsLookupData, meta: claimsMeta });
+
+export const pfsBatchResponse = s.object<PfsBatchResponse>({
+  count: s.number(),
+  results: s.array(s.object<PfsBatchResultItem>({
+    input: s.string(),
+    hcpcs_code: s.string(),
+    status: batchStatus,
+    data: s.optional(pfsLookupData),
+    error: s.optional(s.string()),
+  })),
+  meta: batchMeta,
+});
+
+export const coverageCheckResponse = s.object<CoverageCheckResponse>({
+  data: s.object<CoverageCheckResponse["data"]>({
+    hcpcs_code: s.string(),
+    policies_found: s.number(),
+    policies: s.array(s.object<CoverageCheckItem>({
+      policy_type: s.literal("lcd", "ncd"),
+      policy_id: s.string(),
+      display_id: s.string(),
+      policy_title: s.string(),
+      hcpcs_description: s.string(),
+      status: s.string(),
+      is_active: s.boolean(),
+      effective_date: s.nullable(s.string()),
+    })),
+    summary: s.string(),
+  }),
+  meta: claimsMeta,
+});
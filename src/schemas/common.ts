@@ -0,0 +1,98 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  ApiResponse,
+  BatchResponse,
+  BatchResultItem,
+  LegalInfo,
+  ResponseMeta,
+  ResponseShape,
+  SearchLegalInfo,
+  SearchResponse,
+  ShapeMap,
+  SourceInfo,
+} from "../types/common.js";
+
+/**
+ * Data schemas for each response shape of a code system.
+ */
+export type ShapeSchemas<M extends ShapeMap> = { [S in ResponseShape]: s.Schema<M[S]> };
+
+export const legalInfo = s.object<LegalInfo>({
+  license: s.string(),
+  attribution: s.optional(s.string()),
+  source_url: s.optional(s.string()),
+});
+
+export const sourceInfo = s.object<SourceInfo>({
+  name: s.string(),
+  url: s.optional(s.string()),
+  version: s.optional(s.string()),
+  fhirfly_updated_at: s.optional(s.string()),
+  fhirfly_etl_version: s.optional(s.string()),
+  components: s.optional(s.array(s.object<{ name: string; version: string; url?: string }>({
+    name: s.string(),
+    version: s.string(),
+    url: s.optional(s.string()),
+  }))),
+});
+
+export const responseMeta = s.object<ResponseMeta>({
+  legal: legalInfo,
+  shape: s.literal("compact", "standard", "full"),
+  api_version: s.string(),
+  source: s.optional(sourceInfo),
+});
+
+export const searchLegalInfo = s.object<SearchLegalInfo>({
+  license: s.string(),
+  source_name: s.string(),
+  citation: s.string(),
+  attribution_required: s.boolean(),
+});
+
+export const batchStatus = s.literal("ok", "not_found", "invalid");
+
+/**
+ * `ApiResponse<T>` for a single-code lookup.
+ */
+export function apiResponse(data: s.AnySchema): s.AnySchema {
+  return s.object<ApiResponse<unknown>>({ data: data as s.Schema<unknown>, meta: responseMeta });
+}
+
+/**
+ * `BatchResponse<T>` for a `_batch` lookup.
+ */
+export function batchResponse(data: s.AnySchema): s.AnySchema {
+  const item = s.object<BatchResultItem<unknown>>({
+    input: s.string(),
+    status: batchStatus,
+    data: s.optional(data as s.Schema<unknown>),
+    error: s.optional(s.string()),
+  });
+  return s.object<BatchResponse<unknown>>({
+    count: s.number(),
+    results: s.array(item),
+    meta: s.object<BatchResponse<unknown>["meta"]>({
+      legal: legalInfo,
+      source: s.optional(sourceInfo),
+    }),
+  });
+}
+
+/**
+ * `SearchResponse<T>` for a search page.
+ */
+export function searchResponse(item: s.AnySchema): s.AnySchema {
+  return s.object<SearchResponse<unknown>>({
+    items: s.array(item as s.Schema<unknown>),
+    total: s.number(),
+    total_capped: s.boolean(),
+    has_more: s.boolean(),
+    page: s.number(),
+    limit: s.number(),
+    facets: s.record(s.record(s.number())),
+    meta: s.object<SearchResponse<unknown>["meta"]>({ legal: searchLegalInfo }),
+  });
+}
@@ -0,0 +1,79 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  ConnectivityEndpointData,
+  ConnectivityTargetData,
+  EndpointAuthRequirements,
+  EndpointAvailability,
+  EvidenceSummary,
+  FhirMetadata,
+  NpiConnectivityData,
+  ProviderSummary,
+} from "../types/connectivity.js";
+
+const fhirMetadata = s.object<FhirMetadata>({
+  version: s.optional(s.string()),
+  supported_formats: s.optional(s.array(s.string())),
+  smart_config_url: s.optional(s.string()),
+  capabilities: s.optional(s.array(s.string())),
+  supported_resources: s.optional(s.array(s.string())),
+  security: s.optional(s.object<NonNullable<FhirMetadata["security"]>>({
+    oauth_authorize_url: s.optional(s.string()),
+    oauth_token_url: s.optional(s.string()),
+    requires_udap: s.optional(s.boolean()),
+  })),
+});
+
+const connectivityEndpoint = s.object<ConnectivityEndpointData>({
+  endpoint_id: s.string(),
+  type: s.literal("fhir_r4", "fhir_stu3", "fhir_dstu2", "direct", "hl7v2_adt", "x12", "other"),
+  url: s.string(),
+  scope: s.literal("production", "sandbox", "unknown"),
+  status: s.literal("active", "inactive", "unverified", "unreachable"),
+  last_verified_at: s.optional(s.string()),
+  fhir_metadata: s.optional(fhirMetadata),
+  auth_requirements: s.optional(s.object<EndpointAuthRequirements>({
+    registration_required: s.optional(s.boolean()),
+    registration_url: s.optional(s.string()),
+    allowlist_required: s.optional(s.boolean()),
+    notes: s.optional(s.string()),
+  })),
+  availability: s.optional(s.object<EndpointAvailability>({
+    percentage: s.number(),
+    probe_count: s.number(),
+    last_checked: s.string(),
+    last_successful: s.nullable(s.string()),
+    consecutive_failures: s.number(),
+  })),
+  evidence_summary: s.object<EvidenceSummary>({
+    latest_verification: s.string(),
+    verification_count: s.number(),
+    first_seen: s.string(),
+    sources: s.array(s.string()),
+  }),
+});
+
+export const npiConnectivityData = s.object<NpiConnectivityData>({
+  npi: s.string(),
+  provider_summary: s.object<ProviderSummary>({
+    name: s.string(),
+    entity_type: s.literal("individual", "organization", "unknown"),
+    primary_taxonomy: s.optional(s.string()),
+    primary_taxonomy_desc: s.optional(s.string()),
+  }),
+  connectivity_targets: s.array(s.object<ConnectivityTargetData>({
+    target_id: s.string(),
+    name: s.string(),
+    type: s.literal("health_system", "facility", "practice", "hie", "qhin", "payer"),
+    link_type: s.literal("organization_npi", "employed_by", "affiliated", "practice_location"),
+    link_confidence: s.literal("high", "medium", "low", "inferred"),
+    ehr_vendor: s.optional(s.string()),
+    network_participation: s.optional(s.array(s.string())),
+    endpoints: s.array(connectivityEndpoint),
+  })),
+  meta: s.object<NpiConnectivityData["meta"]>({
+    data_as_of: s.string(),
+    disclaimer: s.string(),
+  }),
+});
@@ -0,0 +1,27 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type { CvxCompact, CvxFull, CvxShapes, CvxStandard } from "../types/cvx.js";
+import type { ShapeSchemas } from "./common.js";
+
+const compactFields: s.ObjectShape<CvxCompact> = {
+  code: s.string(),
+  display: s.string(),
+  status: s.string(),
+};
+
+const standardFields: s.ObjectShape<CvxStandard> = {
+  ...compactFields,
+  code_system: s.string(),
+  full_vaccine_name: s.nullable(s.string()),
+  notes: s.optional(s.nullable(s.string())),
+  is_covid_vaccine: s.boolean(),
+  vaccine_type: s.nullable(s.string()),
+  last_updated_by_cdc: s.optional(s.nullable(s.string())),
+};
+
+export const cvxShapes: ShapeSchemas<CvxShapes> = {
+  compact: s.object<CvxCompact>(compactFields),
+  standard: s.object<CvxStandard>(standardFields),
+  full: s.object<CvxFull>({ ...standardFields, short_description: s.string() }),
+};
@@ -0,0 +1,67 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  FdaLabelData,
+  FdaLabelMetadata,
+  FdaLabelSearchCompact,
+  FdaLabelSearchFull,
+  FdaLabelSearchShapes,
+  FdaLabelSearchStandard,
+} from "../types/fda-labels.js";
+import type { ShapeSchemas } from "./common.js";
+
+export const fdaLabelData = s.object<FdaLabelData>({
+  metadata: s.object<FdaLabelMetadata>({
+    id: s.string(),
+    set_id: s.string(),
+    version: s.string(),
+    effective_time: s.string(),
+    brand_name: s.array(s.string()),
+    generic_name: s.array(s.string()),
+    manufacturer_name: s.array(s.string()),
+    product_ndc: s.array(s.string()),
+    package_ndc: s.array(s.string()),
+    rxcui: s.array(s.string()),
+    product_type: s.array(s.string()),
+    route: s.array(s.string()),
+    pharm_class_epc: s.array(s.string()),
+    available_sections: s.array(s.string()),
+  }),
+  sections: s.optional(s.record(s.array(s.string()))),
+});
+
+const compactFields: s.ObjectShape<FdaLabelSearchCompact> = {
+  spl_id: s.string(),
+  set_id: s.string(),
+  brand_name: s.nullable(s.string()),
+  generic_name: s.nullable(s.string()),
+  manufacturer: s.nullable(s.string()),
+  product_type: s.nullable(s.string()),
+  route: s.array(s.string()),
+};
+
+const standardFields: s.ObjectShape<FdaLabelSearchStandard> = {
+  ...compactFields,
+  substance_name: s.array(s.string()),
+  pharm_class_epc: s.array(s.string()),
+  rxcui: s.array(s.string()),
+  product_ndc: s.array(s.string()),
+  application_number: s.array(s.string()),
+  effective_time: s.string(),
+  version: s.string(),
+};
+
+export const fdaLabelSearchShapes: ShapeSchemas<FdaLabelSearchShapes> = {
+  compact: s.object<FdaLabelSearchCompact>(compactFields),
+  standard: s.object<FdaLabelSearchStandard>(standardFields),
+  full: s.object<FdaLabelSearchFull>({
+    ...standardFields,
+    pharm_class_moa: s.array(s.string()),
+    pharm_class_pe: s.array(s.string()),
+    pharm_class_cs: s.array(s.string()),
+    package_ndc: s.array(s.string()),
+    unii: s.array(s.string()),
+    nui: s.array(s.string()),
+  }),
+};
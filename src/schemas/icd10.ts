@@ -0,0 +1,46 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type { Icd10Compact, Icd10Full, Icd10Shapes, Icd10Standard } from "../types/icd10.js";
+import type { ShapeSchemas } from "./common.js";
+import { snomedEnrichmentFull, snomedEnrichmentStandard } from "./snomed.js";
+
+const compactFields: s.ObjectShape<Icd10Compact> = {
+  code: s.string(),
+  type: s.literal("cm", "pcs"),
+  display: s.string(),
+};
+
+const standardFields: s.ObjectShape<Omit<Icd10Standard, "snomed">> = {
+  ...compactFields,
+  long_description: s.optional(s.string()),
+  chapter: s.optional(s.string()),
+  chapter_description: s.optional(s.string()),
+  section: s.optional(s.string()),
+  section_description: s.optional(s.string()),
+  billable: s.optional(s.boolean()),
+  is_header: s.optional(s.boolean()),
+  body_system: s.optional(s.string()),
+  root_operation: s.optional(s.string()),
+  approach: s.optional(s.string()),
+  device: s.optional(s.string()),
+  qualifier: s.optional(s.string()),
+};
+
+const icd10Full = s.object<Icd10Full>({
+  ...standardFields,
+  includes: s.optional(s.array(s.string())),
+  excludes1: s.optional(s.array(s.string())),
+  excludes2: s.optional(s.array(s.string())),
+  code_first: s.optional(s.array(s.string())),
+  use_additional: s.optional(s.array(s.string())),
+  effective_date: s.optional(s.string()),
+  end_date: s.optional(s.string()),
+  snomed: s.optional(s.array(snomedEnrichmentFull)),
+});
+
+export const icd10Shapes: ShapeSchemas<Icd10Shapes> = {
+  compact: s.object<Icd10Compact>(compactFields),
+  standard: s.object<Icd10Standard>({ ...standardFields, snomed: s.optional(s.array(snomedEnrichmentStandard)) }),
+  full: icd10Full,
+};
@@ -0,0 +1,117 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { AnySchema } from "../schema.js";
+import type { ResponseShape } from "../types/common.js";
+import { apiResponse, batchResponse, searchResponse } from "./common.js";
+import { ndcShapes } from "./ndc.js";
+import { npiShapes } from "./npi.js";
+import { rxnormShapes } from "./rxnorm.js";
+import { loincShapes } from "./loinc.js";
+import { icd10Shapes } from "./icd10.js";
+import { cvxShapes } from "./cvx.js";
+import { mvxShapes } from "./mvx.js";
+import { fdaLabelData, fdaLabelSearchShapes } from "./fda-labels.js";
+import {
+  snomedBatchResponse,
+  snomedCategoriesResponse,
+  snomedLookupResponse,
+  snomedMappingsResponse,
+  snomedSearchResponse,
+} from "./snomed.js";
+import {
+  coverageCheckResponse,
+  mueBatchResponse,
+  mueLookupResponse,
+  ncciValidateResponse,
+  pfsBatchResponse,
+  pfsLookupResponse,
+} from "./claims.js";
+import { npiConnectivityData } from "./connectivity.js";
+import { smaStateDetailResponse, smaStatesListResponse, smaStatsResponse } from "./sma.js";
+
+/**
+ * Shaped code systems, keyed by the path segment after `/v1/`.
+ */
+const SHAPED: Record<string, Record<ResponseShape, AnySchema>> = {
+  ndc: ndcShapes,
+  npi: npiShapes,
+  rxnorm: rxnormShapes,
+  loinc: loincShapes,
+  icd10: icd10Shapes,
+  cvx: cvxShapes,
+  mvx: mvxShapes,
+};
+
+/**
+ * Responses that do not depend on the requested shape, keyed by
+ * `"<method> <path template>"` where `*` matches one path segment.
+ */
+const FIXED: Record<string, AnySchema> = {
+  "GET /v1/fda-label/*": apiResponse(fdaLabelData),
+  "POST /v1/fda-label/_batch": batchResponse(fdaLabelData),
+  "GET /v1/snomed/search": snomedSearchResponse,
+  "GET /v1/snomed/categories": snomedCategoriesResponse,
+  "GET /v1/snomed/*/mappings": snomedMappingsResponse,
+  "POST /v1/snomed/_batch": snomedBatchResponse,
+  "GET /v1/snomed/*": snomedLookupResponse,
+  "GET /v1/npi/*/connectivity": npiConnectivityData,
+  "GET /v1/ncci/validate": ncciValidateResponse,
+  "POST /v1/mue/_batch": mueBatchResponse,
+  "GET /v1/mue/*": mueLookupResponse,
+  "POST /v1/pfs/_batch": pfsBatchResponse,
+  "GET /v1/pfs/*": pfsLookupResponse,
+  "GET /v1/coverage/check": coverageCheckResponse,
+  "GET /v1/sma/states": smaStatesListResponse,
+  "GET /v1/sma/states/*": smaStateDetailResponse,
+  "GET /v1/sma/stats": smaStatsResponse,
+};
+
+function parseShape(value: string | null): ResponseShape | undefined {
+  return value === "compact" || value === "standard" || value === "full" ? value : undefined;
+}
+
+/**
+ * Find the fixed-shape schema for a path, trying exact segments before wildcards.
+ */
+function fixedSchema(method: string, segments: string[]): AnySchema | undefined {
+  const candidates = Object.entries(FIXED).filter(([key]) => {
+    const [keyMethod, template] = key.split(" ") as [string, string];
+    const parts = template.split("/").filter(Boolean);
+    return keyMethod === method
+      && parts.length === segments.length
+      && parts.every((part, i) => part === "*" || part === segments[i]);
+  });
+  candidates.sort(([a], [b]) => a.split("*").length - b.split("*").length);
+  return candidates[0]?.[1];
+}
+
+/**
+ * Expected response schema for a request, or undefined for requests the SDK
+ * has no schema for.
+ *
+ * @param method - HTTP method
+ * @param endpoint - Path and query string (e.g., "/v1/npi/_batch?shape=full")
+ */
+export function responseSchema(method: string, endpoint: string): AnySchema | undefined {
+  const queryStart = endpoint.indexOf("?");
+  const path = queryStart === -1 ? endpoint : endpoint.slice(0, queryStart);
+  const query = queryStart === -1 ? "" : endpoint.slice(queryStart + 1);
+  const segments = path.split("/").filter(Boolean).map(decodeURIComponent);
+  const [version, resource, id] = segments;
+  if (version !== "v1" || !resource) return undefined;
+
+  const shape = parseShape(new URLSearchParams(query).get("shape"));
+
+  if (resource === "fda-label" && id === "search" && method === "GET") {
+    return searchResponse(fdaLabelSearchShapes[shape ?? "compact"]);
+  }
+
+  const shapes = SHAPED[resource];
+  if (shapes && segments.length === 3) {
+    if (id === "search" && method === "GET") return searchResponse(shapes[shape ?? "compact"]);
+    if (id === "_batch" && method === "POST") return batchResponse(shapes[shape ?? "standard"]);
+    if (method === "GET") return apiResponse(shapes[shape ?? "standard"]);
+  }
+
+  return fixedSchema(method, segments);
+}
@@ -0,0 +1,83 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  LoincCompact,
+  LoincFhirCoding,
+  LoincFull,
+  LoincParts,
+  LoincRanks,
+  LoincShapes,
+  LoincSourceOrg,
+  LoincStandard,
+  LoincUnits,
+} from "../types/loinc.js";
+import type { ShapeSchemas } from "./common.js";
+
+const loincParts = s.object<LoincParts>({
+  component: s.nullable(s.string()),
+  property: s.nullable(s.string()),
+  time_aspct: s.nullable(s.string()),
+  system: s.nullable(s.string()),
+  scale_typ: s.nullable(s.string()),
+  method_typ: s.nullable(s.string()),
+});
+
+const loincUnits = s.object<LoincUnits>({
+  example_units: s.nullable(s.string()),
+  example_ucum_units: s.nullable(s.string()),
+});
+
+const loincFhirCoding = s.object<LoincFhirCoding>({
+  system: s.string(),
+  code: s.string(),
+  display: s.string(),
+});
+
+const standardFields: s.ObjectShape<LoincStandard> = {
+  display: s.optional(s.string()),
+  code: s.string(),
+  display_name: s.string(),
+  shortname: s.nullable(s.string()),
+  long_name: s.nullable(s.string()),
+  class: s.nullable(s.string()),
+  status: s.string(),
+  order_obs: s.nullable(s.string()),
+  parts: loincParts,
+  units: loincUnits,
+  map_to: s.array(s.string()),
+  fhir_coding: loincFhirCoding,
+};
+
+export const loincShapes: ShapeSchemas<LoincShapes> = {
+  compact: s.object<LoincCompact>({
+    display: s.optional(s.string()),
+    code: s.string(),
+    display_name: s.string(),
+    shortname: s.nullable(s.string()),
+    class: s.nullable(s.string()),
+    component: s.nullable(s.string()),
+  }),
+  standard: s.object<LoincStandard>(standardFields),
+  full: s.object<LoincFull>({
+    ...standardFields,
+    consumer_name: s.nullable(s.string()),
+    classtype: s.nullable(s.number()),
+    status_reason: s.nullable(s.string()),
+    map_to_comment: s.nullable(s.string()),
+    version: s.string(),
+    version_first_released: s.nullable(s.string()),
+    version_last_changed: s.nullable(s.string()),
+    ranks: s.object<LoincRanks>({
+      common_test_rank: s.nullable(s.number()),
+      common_order_rank: s.nullable(s.number()),
+    }),
+    source_org: s.object<LoincSourceOrg>({
+      external_copyright_notice: s.nullable(s.string()),
+      external_copyright_link: s.nullable(s.string()),
+      org_name: s.nullable(s.string()),
+      org_terms_of_use: s.nullable(s.string()),
+      org_url: s.nullable(s.string()),
+    }),
+  }),
+};
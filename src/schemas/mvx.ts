@@ -0,0 +1,44 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type { MvxCompact, MvxFhirCoding, MvxFull, MvxIngest, MvxShapes, MvxStandard } from "../types/mvx.js";
+import type { ShapeSchemas } from "./common.js";
+
+const standardFields: s.ObjectShape<MvxStandard> = {
+  display: s.string(),
+  code: s.string(),
+  code_system: s.string(),
+  status: s.string(),
+  manufacturer_name: s.string(),
+  notes: s.nullable(s.string()),
+  last_updated_by_cdc: s.nullable(s.string()),
+  fhir_coding: s.object<MvxFhirCoding>({
+    system: s.string(),
+    code: s.string(),
+    display: s.string(),
+  }),
+};
+
+export const mvxShapes: ShapeSchemas<MvxShapes> = {
+  compact: s.object<MvxCompact>({
+    display: s.string(),
+    code: s.string(),
+    status: s.string(),
+  }),
+  standard: s.object<MvxStandard>(standardFields),
+  full: s.object<MvxFull>({
+    ...standardFields,
+    ingest: s.object<MvxIngest>({
+      source: s.string(),
+      file_tag: s.string(),
+      etl_version: s.string(),
+      run_id: s.string(),
+      first_seen: s.string(),
+      last_seen: s.string(),
+      is_current: s.boolean(),
+      was_removed: s.boolean(),
+      removed_at: s.nullable(s.string()),
+      removed_file_tag: s.nullable(s.string()),
+    }),
+  }),
+};
@@ -0,0 +1,69 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type { ActiveIngredient, NdcCompact, NdcFull, NdcShapes, NdcStandard } from "../types/ndc.js";
+import type { ShapeSchemas } from "./common.js";
+import { snomedEnrichmentFull, snomedEnrichmentStandard } from "./snomed.js";
+
+const ndcType = s.literal("package", "product");
+
+const ndcCompact = s.object<NdcCompact>({
+  display: s.optional(s.string()),
+  ndc: s.string(),
+  type: ndcType,
+  name: s.string(),
+  generic: s.nullable(s.string()),
+  labeler: s.nullable(s.string()),
+  active: s.boolean(),
+});
+
+const ndcStandard = s.object<NdcStandard>({
+  display: s.optional(s.string()),
+  ndc: s.string(),
+  type: ndcType,
+  ndc11_hyph: s.optional(s.string()),
+  product_ndc: s.optional(s.string()),
+  package_description: s.optional(s.string()),
+  brand_name: s.nullable(s.string()),
+  generic_name: s.nullable(s.string()),
+  labeler_name: s.nullable(s.string()),
+  dosage_form: s.nullable(s.string()),
+  route: s.nullable(s.array(s.string())),
+  strength: s.nullable(s.string()),
+  rxcui: s.array(s.string()),
+  is_active: s.boolean(),
+  snomed: s.optional(s.array(snomedEnrichmentStandard)),
+});
+
+const ndcFull = s.object<NdcFull>({
+  display: s.optional(s.string()),
+  ndc: s.string(),
+  type: ndcType,
+  ndc11_hyph: s.optional(s.string()),
+  product_ndc: s.optional(s.string()),
+  package_description: s.optional(s.string()),
+  brand_name: s.nullable(s.string()),
+  generic_name: s.nullable(s.string()),
+  labeler_name: s.nullable(s.string()),
+  dosage_form: s.nullable(s.string()),
+  route: s.nullable(s.array(s.string())),
+  strength: s.nullable(s.string()),
+  rxcui: s.array(s.string()),
+  is_active: s.boolean(),
+  marketing_category: s.nullable(s.string()),
+  application_number: s.nullable(s.string()),
+  product_type: s.nullable(s.string()),
+  listing_expiration_date: s.nullable(s.string()),
+  is_generic: s.boolean(),
+  generic_basis: s.array(s.string()),
+  active_ingredients: s.array(s.object<ActiveIngredient>({
+    name: s.string(),
+    strength: s.nullable(s.string()),
+    unit: s.nullable(s.string()),
+  })),
+  pharm_class: s.array(s.string()),
+  dea_schedule: s.nullable(s.string()),
+  snomed: s.optional(s.array(snomedEnrichmentFull)),
+});
+
+export const ndcShapes: ShapeSchemas<NdcShapes> = { compact: ndcCompact, standard: ndcStandard, full: ndcFull };
@@ -0,0 +1,137 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  AuthorizedOfficial,
+  Deactivation,
+  EnrichedTaxonomy,
+  NpiAddress,
+  NpiCompact,
+  NpiFull,
+  NpiShapes,
+  NpiStandard,
+  OtherIdentifier,
+  PersonName,
+  SecondaryLocation,
+} from "../types/npi.js";
+import type { ShapeSchemas } from "./common.js";
+
+const entityType = s.literal("individual", "organization");
+
+const personName = s.object<PersonName>({
+  first: s.string(),
+  last: s.string(),
+  middle: s.optional(s.string()),
+  prefix: s.optional(s.string()),
+  suffix: s.optional(s.string()),
+  credential_text: s.optional(s.string()),
+  sex: s.optional(s.string()),
+});
+
+const npiAddress = s.object<NpiAddress>({
+  line1: s.optional(s.string()),
+  line2: s.optional(s.string()),
+  city: s.optional(s.string()),
+  state: s.optional(s.string()),
+  postal: s.optional(s.string()),
+  country: s.optional(s.string()),
+  phone: s.optional(s.string()),
+  phone_digits: s.optional(s.string()),
+  fax: s.optional(s.string()),
+});
+
+const standardTaxonomy = s.object<Omit<EnrichedTaxonomy, "definition">>({
+  code: s.string(),
+  primary: s.boolean(),
+  license_number: s.optional(s.string()),
+  license_state: s.optional(s.string()),
+  classification: s.string(),
+  specialization: s.nullable(s.string()),
+  display_name: s.string(),
+  grouping: s.optional(s.string()),
+});
+
+const enrichedTaxonomy = s.object<EnrichedTaxonomy>({
+  code: s.string(),
+  primary: s.boolean(),
+  license_number: s.optional(s.string()),
+  license_state: s.optional(s.string()),
+  classification: s.string(),
+  specialization: s.nullable(s.string()),
+  display_name: s.string(),
+  grouping: s.optional(s.string()),
+  definition: s.optional(s.string()),
+});
+
+const secondaryLocation = s.object<SecondaryLocation>({
+  line1: s.string(),
+  line2: s.optional(s.string()),
+  city: s.string(),
+  state: s.string(),
+  postal: s.string(),
+  country: s.optional(s.string()),
+  phone: s.optional(s.string()),
+  phone_digits: s.optional(s.string()),
+  phone_ext: s.optional(s.string()),
+  fax: s.optional(s.string()),
+});
+
+const npiCompact = s.object<NpiCompact>({
+  display: s.optional(s.string()),
+  npi: s.string(),
+  name: s.string(),
+  type: entityType,
+  specialty: s.nullable(s.string()),
+  location: s.nullable(s.string()),
+  active: s.boolean(),
+});
+
+const npiStandard = s.object<NpiStandard>({
+  display: s.optional(s.string()),
+  npi: s.string(),
+  entity_type: entityType,
+  name: s.nullable(personName),
+  organization_name: s.nullable(s.string()),
+  taxonomies: s.array(standardTaxonomy),
+  practice_address: s.nullable(npiAddress),
+  enumeration_date: s.string(),
+  last_update_date: s.string(),
+  is_active: s.boolean(),
+});
+
+const npiFull = s.object<NpiFull>({
+  display: s.optional(s.string()),
+  npi: s.string(),
+  entity_type: entityType,
+  name: s.nullable(personName),
+  organization_name: s.nullable(s.string()),
+  taxonomies: s.array(enrichedTaxonomy),
+  practice_address: s.nullable(npiAddress),
+  secondary_locations: s.array(secondaryLocation),
+  mailing_address: s.nullable(npiAddress),
+  enumeration_date: s.string(),
+  last_update_date: s.string(),
+  is_active: s.boolean(),
+  is_sole_proprietor: s.nullable(s.boolean()),
+  deactivation: s.nullable(s.object<Deactivation>({
+    code: s.optional(s.string()),
+    date: s.optional(s.string()),
+    reactivation_date: s.optional(s.string()),
+  })),
+  authorized_official: s.nullable(s.object<AuthorizedOfficial>({
+    first_name: s.optional(s.string()),
+    last_name: s.optional(s.string()),
+    middle_name: s.optional(s.string()),
+    title: s.optional(s.string()),
+    phone: s.optional(s.string()),
+    credential: s.optional(s.string()),
+  })),
+  other_identifiers: s.array(s.object<OtherIdentifier>({
+    identifier: s.string(),
+    type_code: s.string(),
+    state: s.optional(s.string()),
+    issuer: s.optional(s.string()),
+  })),
+});
+
+export const npiShapes: ShapeSchemas<NpiShapes> = { compact: npiCompact, standard: npiStandard, full: npiFull };
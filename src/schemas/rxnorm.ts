@@ -0,0 +1,50 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type { RxNormCompact, RxNormFull, RxNormShapes, RxNormStandard, RxTermType } from "../types/rxnorm.js";
+import type { ShapeSchemas } from "./common.js";
+import { snomedEnrichmentFull, snomedEnrichmentStandard } from "./snomed.js";
+
+const termType = s.literal<RxTermType>(
+  "IN", "PIN", "MIN", "SCDC", "SCDF", "SCDG", "SCD", "GPCK", "BN", "SBDC",
+  "SBDF", "SBDG", "SBD", "BPCK", "PSN", "SY", "TMSY", "DF", "ET", "DFG"
+);
+
+const concept = s.object<{ rxcui: string; name: string }>({
+  rxcui: s.string(),
+  name: s.string(),
+});
+
+const compactFields: s.ObjectShape<RxNormCompact> = {
+  display: s.optional(s.string()),
+  rxcui: s.string(),
+  name: s.string(),
+  tty: termType,
+};
+
+const standardFields: s.ObjectShape<Omit<RxNormStandard, "snomed">> = {
+  ...compactFields,
+  synonym: s.optional(s.string()),
+  suppress: s.optional(s.string()),
+  language: s.optional(s.string()),
+  prescribable: s.optional(s.boolean()),
+  ingredients: s.optional(s.array(concept)),
+};
+
+export const rxnormShapes: ShapeSchemas<RxNormShapes> = {
+  compact: s.object<RxNormCompact>(compactFields),
+  standard: s.object<RxNormStandard>({ ...standardFields, snomed: s.optional(s.array(snomedEnrichmentStandard)) }),
+  full: s.object<RxNormFull>({
+    ...standardFields,
+    dose_form: s.optional(concept),
+    brands: s.optional(s.array(concept)),
+    related: s.optional(s.array(s.object<NonNullable<RxNormFull["related"]>[number]>({
+      rxcui: s.string(),
+      name: s.string(),
+      tty: termType,
+      relation: s.string(),
+    }))),
+    ndcs: s.optional(s.array(s.string())),
+    snomed: s.optional(s.array(snomedEnrichmentFull)),
+  }),
+};
@@ -0,0 +1,104 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  SmaMetaResponse,
+  SmaStateDetailResponse,
+  SmaStateSummary,
+  SmaStatesListResponse,
+  SmaStatsResponse,
+} from "../types/sma.js";
+
+type StateDetail = SmaStateDetailResponse;
+
+const metaFields: s.ObjectShape<SmaMetaResponse> = {
+  data_as_of: s.string(),
+  source: s.string(),
+  source_url: s.string(),
+};
+
+const smaMeta = s.object<SmaMetaResponse>(metaFields);
+
+const nullableString = s.nullable(s.string());
+
+const counts = s.record(s.number());
+
+export const smaStatesListResponse = s.object<SmaStatesListResponse>({
+  states: s.array(s.object<SmaStateSummary>({
+    id: s.string(),
+    state: s.string(),
+    abbreviation: nullableString,
+    is_implemented: s.boolean(),
+    api_vendor: nullableString,
+    patient_access_status: nullableString,
+    provider_directory_status: nullableString,
+    production_url_count: s.number(),
+    fhir_version: nullableString,
+  })),
+  total: s.number(),
+  meta: smaMeta,
+});
+
+export const smaStateDetailResponse = s.object<StateDetail>({
+  id: s.string(),
+  state: s.string(),
+  abbreviation: nullableString,
+  api_vendor: nullableString,
+  survey_date: nullableString,
+  is_implemented: s.boolean(),
+  patient_access: s.object<StateDetail["patient_access"]>({
+    status: nullableString,
+    implementation_date: nullableString,
+    fhir_version: nullableString,
+    auth_protocol: nullableString,
+    refresh_frequency: nullableString,
+    endpoints: s.object<StateDetail["patient_access"]["endpoints"]>({
+      claims: s.array(s.string()),
+      pdex: s.array(s.string()),
+      formulary: s.array(s.string()),
+      chip: s.array(s.string()),
+      capability_statement: s.array(s.string()),
+      sandbox: s.array(s.string()),
+    }),
+  }),
+  provider_directory: s.object<StateDetail["provider_directory"]>({
+    status: nullableString,
+    implementation_date: nullableString,
+    fhir_version: nullableString,
+    is_public: s.nullable(s.boolean()),
+    refresh_frequency: nullableString,
+    endpoints: s.object<StateDetail["provider_directory"]["endpoints"]>({
+      production: s.array(s.string()),
+      capability_statement: s.array(s.string()),
+      sandbox: s.array(s.string()),
+    }),
+  }),
+  contacts: s.object<StateDetail["contacts"]>({
+    member_phone: nullableString,
+    member_email: nullableString,
+    developer_contact: nullableString,
+    pd_developer_contact: nullableString,
+    registration_info: nullableString,
+    pd_registration_info: nullableString,
+  }),
+  all_production_urls: s.array(s.string()),
+  meta: s.object<StateDetail["meta"]>({ ...metaFields, ingested_at: s.string() }),
+});
+
+export const smaStatsResponse = s.object<SmaStatsResponse>({
+  summary: s.object<SmaStatsResponse["summary"]>({
+    total_states: s.number(),
+    implemented: s.number(),
+    not_implemented: s.number(),
+    total_production_urls: s.number(),
+  }),
+  by_vendor: counts,
+  by_patient_access_status: counts,
+  by_fhir_version: counts,
+  by_auth_protocol: counts,
+  provider_directory: s.object<SmaStatsResponse["provider_directory"]>({
+    total_with_pd: s.number(),
+    by_status: counts,
+  }),
+  meta: smaMeta,
+});
@@ -0,0 +1,97 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import * as s from "../schema.js";
+import type {
+  SnomedBatchResultItem,
+  SnomedCategoriesResponse,
+  SnomedConcept,
+  SnomedEnrichmentFull,
+  SnomedEnrichmentStandard,
+  SnomedReverseMapping,
+  SnomedReverseMappingData,
+} from "../types/snomed.js";
+import type { SnomedBatchResponse, SnomedSearchResponse } from "../endpoints/snomed.js";
+import { apiResponse, batchStatus } from "./common.js";
+
+const ipsCategory = s.literal(
+  "substance", "product", "condition", "finding", "procedure", "body_structure", "organism",
+  "qualifier", "device", "observable", "specimen", "situation", "event", "environment", "social"
+);
+
+const mappingType = s.literal("equivalent", "broader", "narrower", "related");
+
+const snomedLegal = s.object<SnomedSearchResponse["meta"]["legal"]>({
+  license: s.string(),
+  attribution_required: s.boolean(),
+  source_name: s.string(),
+  citation: s.string(),
+});
+
+export const snomedConcept = s.object<SnomedConcept>({
+  concept_id: s.string(),
+  active: s.boolean(),
+  fsn: s.nullable(s.string()),
+  preferred_term: s.nullable(s.string()),
+  synonyms: s.nullable(s.array(s.string())),
+  ips_category: s.nullable(ipsCategory),
+  semantic_tag: s.nullable(s.string()),
+});
+
+export const snomedEnrichmentStandard = s.object<SnomedEnrichmentStandard>({
+  concept_id: s.string(),
+  display: s.optional(s.string()),
+  map_type: mappingType,
+  map_source: s.string(),
+});
+
+export const snomedEnrichmentFull = s.object<SnomedEnrichmentFull>({
+  concept_id: s.string(),
+  display: s.optional(s.string()),
+  map_type: mappingType,
+  map_source: s.string(),
+  fsn: s.optional(s.string()),
+  semantic_tag: s.optional(s.string()),
+  ips_category: s.optional(s.string()),
+  source_rxcuis: s.optional(s.array(s.string())),
+  fhir_coding: s.optional(s.object<NonNullable<SnomedEnrichmentFull["fhir_coding"]>>({
+    system: s.literal("http://snomed.info/sct"),
+    code: s.string(),
+    display: s.optional(s.string()),
+  })),
+});
+
+export const snomedLookupResponse = apiResponse(snomedConcept);
+
+export const snomedBatchResponse = s.object<SnomedBatchResponse>({
+  count: s.number(),
+  results: s.array(s.object<SnomedBatchResultItem>({
+    input: s.string(),
+    concept_id: s.string(),
+    status: batchStatus,
+    data: s.optional(snomedConcept),
+    error: s.optional(s.string()),
+  })),
+  meta: s.object<SnomedBatchResponse["meta"]>({ legal: snomedLegal }),
+});
+
+export const snomedSearchResponse = s.object<SnomedSearchResponse>({
+  count: s.number(),
+  results: s.array(snomedConcept),
+  meta: s.object<SnomedSearchResponse["meta"]>({ legal: snomedLegal }),
+});
+
+export const snomedCategoriesResponse = s.object<SnomedCategoriesResponse>({
+  categories: s.array(ipsCategory),
+  description: s.record(s.string()),
+});
+
+export const snomedMappingsResponse = apiResponse(s.object<SnomedReverseMappingData>({
+  snomed_code: s.string(),
+  snomed_display: s.optional(s.string()),
+  mappings: s.array(s.object<SnomedReverseMapping>({
+    source_system: s.literal("rxnorm", "icd10_cm", "icd10_pcs", "ndc"),
+    source_code: s.string(),
+    map_type: mappingType,
+    mapping_source: s.literal("umls-rxnrel", "snomed-extended-map", "derived-rxnorm"),
+  })),
+}));
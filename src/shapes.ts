@@ -0,0 +1,110 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { NdcCompact, NdcData, NdcFull, NdcStandard } from "./types/ndc.js";
+import type { NpiCompact, NpiData, NpiFull, NpiStandard } from "./types/npi.js";
+import type { LoincCompact, LoincData, LoincFull, LoincStandard } from "./types/loinc.js";
+import type { CvxCompact, CvxData, CvxFull, CvxStandard } from "./types/cvx.js";
+import type { MvxCompact, MvxData, MvxFull, MvxStandard } from "./types/mvx.js";
+import type {
+  FdaLabelSearchCompact,
+  FdaLabelSearchData,
+  FdaLabelSearchFull,
+  FdaLabelSearchStandard,
+} from "./types/fda-labels.js";
+
+/*
+ * Runtime checks for the shape of response data, keyed on a field that only
+ * the standard and full shapes (or only the full shape) require. RxNorm and
+ * ICD-10 have no guards: their standard and full fields are all optional, so
+ * the shapes cannot be told apart from the data alone.
+ */
+
+/** Check whether NDC data has the compact shape. */
+export function isNdcCompact(data: NdcData): data is NdcCompact {
+  return !("brand_name" in data);
+}
+
+/** Check whether NDC data has the standard shape. */
+export function isNdcStandard(data: NdcData): data is NdcStandard {
+  return "brand_name" in data && !("active_ingredients" in data);
+}
+
+/** Check whether NDC data has the full shape. */
+export function isNdcFull(data: NdcData): data is NdcFull {
+  return "active_ingredients" in data;
+}
+
+/** Check whether NPI data has the compact shape. */
+export function isNpiCompact(data: NpiData): data is NpiCompact {
+  return !("entity_type" in data);
+}
+
+/** Check whether NPI data has the standard shape. */
+export function isNpiStandard(data: NpiData): data is NpiStandard {
+  return "entity_type" in data && !("secondary_locations" in data);
+}
+
+/** Check whether NPI data has the full shape. */
+export function isNpiFull(data: NpiData): data is NpiFull {
+  return "secondary_locations" in data;
+}
+
+/** Check whether LOINC data has the compact shape. */
+export function isLoincCompact(data: LoincData): data is LoincCompact {
+  return !("parts" in data);
+}
+
+/** Check whether LOINC data has the standard shape. */
+export function isLoincStandard(data: LoincData): data is LoincStandard {
+  return "parts" in data && !("ranks" in data);
+}
+
+/** Check whether LOINC data has the full shape. */
+export function isLoincFull(data: LoincData): data is LoincFull {
+  return "ranks" in data;
+}
+
+/** Check whether CVX data has the compact shape. */
+export function isCvxCompact(data: CvxData): data is CvxCompact {
+  return !("code_system" in data);
+}
+
+/** Check whether CVX data has the standard shape. */
+export function isCvxStandard(data: CvxData): data is CvxStandard {
+  return "code_system" in data && !("short_description" in data);
+}
+
+/** Check whether CVX data has the full shape. */
+export function isCvxFull(data: CvxData): data is CvxFull {
+  return "short_description" in data;
+}
+
+/** Check whether MVX data has the compact shape. */
+export function isMvxCompact(data: MvxData): data is MvxCompact {
+  return !("manufacturer_name" in data);
+}
+
+/** Check whether MVX data has the standard shape. */
+export function isMvxStandard(data: MvxData): data is MvxStandard {
+  return "manufacturer_name" in data && !("ingest" in data);
+}
+
+/** Check whether MVX data has the full shape. */
+export function isMvxFull(data: MvxData): data is MvxFull {
+  return "ingest" in data;
+}
+
+/** Check whether an FDA label search result has the compact shape. */
+export function isFdaLabelSearchCompact(data: FdaLabelSearchData): data is FdaLabelSearchCompact {
+  return !("substance_name" in data);
+}
+
+/** Check whether an FDA label search result has the standard shape. */
+export function isFdaLabelSearchStandard(data: FdaLabelSearchData): data is FdaLabelSearchStandard {
+  return "substance_name" in data && !("pharm_class_moa" in data);
+}
+
+/** Check whether an FDA label search result has the full shape. */
+export function isFdaLabelSearchFull(data: FdaLabelSearchData): data is FdaLabelSearchFull {
+  return "pharm_class_moa" in data;
+}
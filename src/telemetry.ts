@@ -0,0 +1,262 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { ApiError, QuotaExceededError, RateLimitError, TimeoutError } from "./errors.js";
+import type { Middleware } from "./middleware.js";
+
+/**
+ * OpenTelemetry instrumentation options.
+ */
+export interface TelemetryOptions {
+  /**
+   * The `@opentelemetry/api` module. By default it is loaded with a dynamic
+   * import; pass it explicitly when the SDK cannot resolve it (e.g., bundled apps).
+   */
+  api?: object;
+}
+
+type Attributes = Record<string, string | number>;
+
+/**
+ * The subset of `@opentelemetry/api` used for instrumentation.
+ */
+interface OtelSpan {
+  setAttribute(key: string, value: string | number): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+interface OtelApi {
+  trace: {
+    getTracer(name: string): {
+      startSpan(name: string, options: { kind: number; attributes: Attributes }): OtelSpan;
+    };
+    getActiveSpan(): OtelSpan | undefined;
+    setSpan(context: unknown, span: OtelSpan): unknown;
+  };
+  context: {
+    active(): unknown;
+    with<T>(context: unknown, fn: () => T): T;
+  };
+  metrics: {
+    getMeter(name: string): {
+      createCounter(name: string, options: { description: string }): { add(value: number, attributes: Attributes): void };
+      createHistogram(name: string, options: { description: string; unit: string }): {
+        record(value: number, attributes: Attributes): void;
+      };
+    };
+  };
+}
+
+interface Instruments {
+  api: OtelApi;
+  tracer: ReturnType<OtelApi["trace"]["getTracer"]>;
+  duration: { record(value: number, attributes: Attributes): void };
+  retries: { add(value: number, attributes: Attributes): void };
+  timeouts: { add(value: number, attributes: Attributes): void };
+  quotaExceeded: { add(value: number, attributes: Attributes): void };
+}
+
+/** `SpanKind.CLIENT` */
+const SPAN_KIND_CLIENT = 2;
+
+/** `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+const INSTRUMENTATION_NAME = "@fhirfly-io/terminology";
+
+/**
+ * Module specifier held in a variable so bundlers and the type checker don't
+ * require the optional peer dependency.
+ */
+const OTEL_MODULE = "@opentelemetry/api";
+
+/**
+ * Code system recorded on spans, keyed by client property.
+ */
+const CODE_SYSTEMS: Record<string, string> = {
+  ndc: "NDC",
+  npi: "NPI",
+  rxnorm: "RxNorm",
+  loinc: "LOINC",
+  icd10: "ICD-10",
+  cvx: "CVX",
+  mvx: "MVX",
+  fdaLabels: "FDA SPL",
+  snomed: "SNOMED CT",
+  claims: "HCPCS",
+};
+
+/**
+ * Methods that return async iterators rather than promises. They are not
+ * wrapped in a span; each page request they make is.
+ */
+const ITERATOR_METHODS = new Set(["searchPages", "searchAll"]);
+
+/**
+ * Functions on an endpoint that are not part of its public API: the
+ * constructor and private helpers, which TypeScript does not mark at runtime.
+ * They run inside the span of the public method that calls them.
+ */
+const INTERNAL_METHODS = new Set(["constructor", "searchDescendants"]);
+
+let loaded: Promise<OtelApi | null> | undefined;
+
+/**
+ * Load `@opentelemetry/api` once, resolving to null when it is not installed.
+ */
+function loadOpenTelemetry(): Promise<OtelApi | null> {
+  loaded ??= import(OTEL_MODULE).then(
+    (mod: unknown) => mod as OtelApi,
+    () => null
+  );
+  return loaded;
+}
+
+function createInstruments(api: OtelApi): Instruments {
+  const meter = api.metrics.getMeter(INSTRUMENTATION_NAME);
+  return {
+    api,
+    tracer: api.trace.getTracer(INSTRUMENTATION_NAME),
+    duration: meter.createHistogram("fhirfly.client.operation.duration", {
+      description: "Duration of FHIRfly SDK method calls, including retries",
+      unit: "ms",
+    }),
+    retries: meter.createCounter("fhirfly.client.retries", {
+      description: "Request attempts after the first",
+    }),
+    timeouts: meter.createCounter("fhirfly.client.timeouts", {
+      description: "Method calls that failed with TimeoutError",
+    }),
+    quotaExceeded: meter.createCounter("fhirfly.client.quota_exceeded", {
+      description: "Method calls that failed with QuotaExceededError",
+    }),
+  };
+}
+
+/**
+ * Span attributes describing a method call. Codes and query strings are never
+ * recorded, so spans carry no identifiers such as NPIs.
+ */
+function callAttributes(operation: string, endpoint: string, args: unknown[]): Attributes {
+  const attributes: Attributes = { "fhirfly.operation": operation };
+  const codeSystem = CODE_SYSTEMS[endpoint];
+  if (codeSystem) attributes["fhirfly.code_system"] = codeSystem;
+  if (Array.isArray(args[0])) attributes["fhirfly.batch_size"] = args[0].length;
+  const options = args.find(
+    (arg): arg is { shape: string } => typeof arg === "object" && arg !== null && typeof (arg as { shape?: unknown }).shape === "string"
+  );
+  if (options) attributes["fhirfly.shape"] = options.shape;
+  return attributes;
+}
+
+/**
+ * OpenTelemetry tracing and metrics for a client.
+ *
+ * Endpoint method calls become spans named after the method (e.g.,
+ * `ndc.lookup`); {@link Telemetry.middleware} adds HTTP status, retry count,
+ * and rate-limit attributes to the active span. Everything is a no-op when
+ * `@opentelemetry/api` is not installed.
+ */
+export class Telemetry {
+  private readonly ready: Promise<Instruments | null>;
+
+  constructor(options: TelemetryOptions = {}) {
+    const api = options.api ? Promise.resolve(options.api as OtelApi) : loadOpenTelemetry();
+    this.ready = api.then((resolved) => (resolved ? createInstruments(resolved) : null));
+  }
+
+  /**
+   * Wrap an endpoint so each method call runs in a span.
+   *
+   * Methods are invoked with the proxy as `this`, so calls one method makes to
+   * another (e.g., `lookupAll` to `lookupMany`) become child spans.
+   */
+  instrument<T extends object>(endpoint: T, name: string): T {
+    const wrappers = new Map<string, (...args: unknown[]) => Promise<unknown>>();
+    const proxy: T = new Proxy(endpoint, {
+      get: (target, prop, receiver) => {
+        const value: unknown = Reflect.get(target, prop, receiver);
+        if (
+          typeof value !== "function" ||
+          typeof prop !== "string" ||
+          ITERATOR_METHODS.has(prop) ||
+          INTERNAL_METHODS.has(prop)
+        ) {
+          return value;
+        }
+        let wrapper = wrappers.get(prop);
+        if (!wrapper) {
+          const method = value as (...args: unknown[]) => Promise<unknown>;
+          wrapper = (...args) => this.trace(`${name}.${prop}`, name, args, () => method.apply(proxy, args));
+          wrappers.set(prop, wrapper);
+        }
+        return wrapper;
+      },
+    });
+    return proxy;
+  }
+
+  private async trace(
+    operation: string,
+    endpoint: string,
+    args: unknown[],
+    call: () => Promise<unknown>
+  ): Promise<unknown> {
+    const instruments = await this.ready;
+    if (!instruments) return call();
+
+    const { api, tracer } = instruments;
+    const attributes = callAttributes(operation, endpoint, args);
+    const span = tracer.startSpan(operation, { kind: SPAN_KIND_CLIENT, attributes });
+    const metricAttributes: Attributes = { "fhirfly.operation": operation };
+    const started = performance.now();
+
+    try {
+      return await api.context.with(api.trace.setSpan(api.context.active(), span), call);
+    } catch (error) {
+      if (error instanceof Error) {
+        span.recordException(error);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+        span.setAttribute("error.type", error.name);
+        metricAttributes["error.type"] = error.name;
+      }
+      if (error instanceof TimeoutError) instruments.timeouts.add(1, metricAttributes);
+      if (error instanceof QuotaExceededError) instruments.quotaExceeded.add(1, metricAttributes);
+      throw error;
+    } finally {
+      instruments.duration.record(performance.now() - started, metricAttributes);
+      span.end();
+    }
+  }
+
+  /**
+   * Middleware that records per-attempt HTTP details on the active span and
+   * counts retries.
+   */
+  readonly middleware: Middleware = async (request, next) => {
+    const instruments = await this.ready;
+    if (!instruments) return next(request);
+
+    const span = instruments.api.trace.getActiveSpan();
+    span?.setAttribute("http.request.method", request.method);
+    span?.setAttribute("fhirfly.retry_count", request.attempt);
+    if (request.attempt > 0) {
+      instruments.retries.add(1, { "http.request.method": request.method });
+    }
+
+    try {
+      const response = await next(request);
+      span?.setAttribute("http.response.status_code", response.status);
+      const remaining = response.headers.get("x-ratelimit-remaining");
+      if (remaining !== null) span?.setAttribute("fhirfly.ratelimit.remaining", Number(remaining));
+      return response;
+    } catch (error) {
+      if (error instanceof ApiError) span?.setAttribute("http.response.status_code", error.statusCode);
+      if (error instanceof RateLimitError && error.remaining !== undefined) {
+        span?.setAttribute("fhirfly.ratelimit.remaining", error.remaining);
+      }
+      throw error;
+    }
+  };
+}
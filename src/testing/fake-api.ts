@@ -0,0 +1,493 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { readFile } from "node:fs/promises";
+import type { NdcData } from "../types/ndc.js";
+import type { NpiData } from "../types/npi.js";
+import type { RxNormData } from "../types/rxnorm.js";
+import type { LoincData } from "../types/loinc.js";
+import type { Icd10Data } from "../types/icd10.js";
+import type { CvxData } from "../types/cvx.js";
+import type { MvxData } from "../types/mvx.js";
+import type { FdaLabelData } from "../types/fda-labels.js";
+import type { IpsCategory, SnomedConcept, SnomedReverseMappingData } from "../types/snomed.js";
+import type { NpiConnectivityData } from "../types/connectivity.js";
+import type {
+  CoverageCheckData,
+  MueLookupData,
+  NcciValidateData,
+  PfsLookupData,
+} from "../types/claims.js";
+import type { SmaStateDetailResponse, SmaStatsResponse } from "../types/sma.js";
+import type { FakeFault } from "./faults.js";
+
+/**
+ * Fixture data served by {@link FakeFhirflyApi}, keyed by code.
+ *
+ * Values are returned as-is regardless of the requested `shape`, so seed the
+ * shape your code expects.
+ */
+export interface FakeApiFixtures {
+  ndc?: Record<string, NdcData>;
+  npi?: Record<string, NpiData>;
+  rxnorm?: Record<string, RxNormData>;
+  loinc?: Record<string, LoincData>;
+  icd10?: Record<string, Icd10Data>;
+  cvx?: Record<string, CvxData>;
+  mvx?: Record<string, MvxData>;
+  /** FDA labels keyed by Set ID, NDC, or RxCUI */
+  fdaLabels?: Record<string, FdaLabelData>;
+  snomed?: Record<string, SnomedConcept>;
+  /** SNOMED reverse mappings keyed by concept ID */
+  snomedMappings?: Record<string, SnomedReverseMappingData>;
+  /** Connectivity keyed by NPI */
+  connectivity?: Record<string, NpiConnectivityData>;
+  /** NCCI results keyed by `"code1|code2"` (either order) */
+  ncci?: Record<string, NcciValidateData>;
+  mue?: Record<string, MueLookupData>;
+  pfs?: Record<string, PfsLookupData>;
+  coverage?: Record<string, CoverageCheckData>;
+  /** SMA state details keyed by abbreviation (e.g., "CA") */
+  smaStates?: Record<string, SmaStateDetailResponse>;
+  smaStats?: SmaStatsResponse;
+}
+
+/**
+ * A request received by the fake API.
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+/**
+ * Options for {@link FakeFhirflyApi.fail}.
+ */
+export interface FakeFailOptions {
+  /** Only fail requests whose path matches. Default: all requests */
+  path?: string | RegExp;
+  /** Number of matching requests to fail. Default: 1 */
+  times?: number;
+}
+
+/**
+ * Options for {@link FakeFhirflyApi.rateLimit}.
+ */
+export interface FakeRateLimitOptions {
+  /** Window length in milliseconds. Default: 60000 */
+  windowMs?: number;
+}
+
+interface RateLimitWindow {
+  limit: number;
+  windowMs: number;
+  resetAt: number;
+  used: number;
+}
+
+interface PendingFault {
+  fault: FakeFault;
+  path?: string | RegExp;
+  remaining: number;
+}
+
+/**
+ * Routes whose fixtures are served as single-code lookups and `_batch` POSTs.
+ */
+const CODE_ROUTES: Record<string, keyof FakeApiFixtures> = {
+  ndc: "ndc",
+  npi: "npi",
+  rxnorm: "rxnorm",
+  loinc: "loinc",
+  icd10: "icd10",
+  cvx: "cvx",
+  mvx: "mvx",
+  "fda-label": "fdaLabels",
+  snomed: "snomed",
+};
+
+const IPS_CATEGORIES: IpsCategory[] = [
+  "substance", "product", "condition", "finding", "procedure", "body_structure", "organism",
+  "qualifier", "device", "observable", "specimen", "situation", "event", "environment", "social",
+];
+
+const LEGAL = { license: "test", attribution_required: false, source_name: "FHIRfly fake API", citation: "FHIRfly fake API" };
+
+/**
+ * Parameters that control paging or response shape rather than filtering.
+ */
+const NON_FILTER_PARAMS = new Set(["q", "page", "limit", "skip", "shape", "include", "sort"]);
+
+/**
+ * Search filters that match a differently named record field, by fixture.
+ * ICD-10-CM records carry their block (e.g., "E08-E13") in `section`.
+ */
+const FILTER_FIELDS: Record<string, Record<string, string>> = {
+  icd10: { block: "section" },
+};
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function matchesPath(path: string, matcher: string | RegExp | undefined): boolean {
+  if (matcher === undefined) return true;
+  return typeof matcher === "string" ? path.startsWith(matcher) : matcher.test(path);
+}
+
+/**
+ * All primitive values in a fixture, joined for free-text matching.
+ */
+function searchText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "object") return String(value);
+  return Object.values(value).map(searchText).join(" ");
+}
+
+/**
+ * Case-insensitive filter of an item against search query parameters.
+ */
+function matchesSearch(item: unknown, query: URLSearchParams, fields: Record<string, string> = {}): boolean {
+  const q = query.get("q");
+  if (q && !searchText(item).toLowerCase().includes(q.toLowerCase())) return false;
+
+  for (const [key, value] of query) {
+    if (NON_FILTER_PARAMS.has(key)) continue;
+    const field = (item as Record<string, unknown>)[fields[key] ?? key];
+    if (field === undefined) continue;
+    const haystack = Array.isArray(field) ? field.join(",") : String(field);
+    if (!haystack.toLowerCase().includes(value.toLowerCase())) return false;
+  }
+  return true;
+}
+
+/**
+ * In-process fake of the FHIRfly API.
+ *
+ * Implements every `/v1/...` route the SDK endpoints call, serving data from
+ * fixtures. Pass `api.fetch` as the client's `fetch` option (or call
+ * `install()` to replace the global `fetch`). No network access is needed.
+ *
+ * @example
+ * ```ts
+ * import { Fhirfly } from "@fhirfly-io/terminology";
+ * import { FakeFhirflyApi, faults } from "@fhirfly-io/terminology/testing";
+ *
+ * const api = new FakeFhirflyApi({
+ *   ndc: { "0069-0151-01": { ndc: "0069-0151-01", type: "package", name: "Lipitor", ... } },
+ * });
+ * const client = new Fhirfly({ apiKey: "test", fetch: api.fetch });
+ *
+ * await client.ndc.lookup("0069-0151-01");
+ *
+ * api.fail(faults.rateLimit(), { path: "/v1/ndc" });
+ * await client.ndc.lookup("0069-0151-01"); // RateLimitError
+ * ```
+ */
+export class FakeFhirflyApi {
+  /** Every request received, in order */
+  readonly requests: FakeRequest[] = [];
+
+  private fixtures: FakeApiFixtures;
+  private faults: PendingFault[] = [];
+  private window?: RateLimitWindow;
+
+  constructor(fixtures: FakeApiFixtures = {}) {
+    this.fixtures = structuredClone(fixtures);
+  }
+
+  /**
+   * Create a fake API seeded from a fixture JSON file.
+   *
+   * @param path - Path to a JSON file shaped like {@link FakeApiFixtures}
+   */
+  static async fromFile(path: string): Promise<FakeFhirflyApi> {
+    const fixtures = JSON.parse(await readFile(path, "utf8")) as FakeApiFixtures;
+    return new FakeFhirflyApi(fixtures);
+  }
+
+  /**
+   * Merge additional fixtures into the fake.
+   */
+  seed(fixtures: FakeApiFixtures): this {
+    for (const [key, value] of Object.entries(structuredClone(fixtures))) {
+      const name = key as keyof FakeApiFixtures;
+      if (name === "smaStats") {
+        this.fixtures.smaStats = value as SmaStatsResponse;
+      } else {
+        this.fixtures[name] = { ...(this.fixtures[name] as object), ...(value as object) } as never;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Make upcoming requests fail with the given fault (see `faults`).
+   */
+  fail(fault: FakeFault, options?: FakeFailOptions): this {
+    this.faults.push({ fault, path: options?.path, remaining: options?.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Enforce a fixed-window rate limit: every response carries
+   * `x-ratelimit-limit`, `x-ratelimit-remaining`, and `x-ratelimit-reset`
+   * headers, and requests beyond `limit` per window get a 429.
+   */
+  rateLimit(limit: number, options?: FakeRateLimitOptions): this {
+    const windowMs = options?.windowMs ?? 60_000;
+    this.window = { limit, windowMs, resetAt: Date.now() + windowMs, used: 0 };
+    return this;
+  }
+
+  /**
+   * Clear recorded requests, pending faults, and the rate limit.
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.faults = [];
+    this.window = undefined;
+  }
+
+  /**
+   * Replace the global `fetch` with this fake.
+   *
+   * @returns A function that restores the previous global `fetch`
+   */
+  install(): () => void {
+    const previous = globalThis.fetch;
+    globalThis.fetch = this.fetch;
+    return () => {
+      globalThis.fetch = previous;
+    };
+  }
+
+  /**
+   * `fetch`-compatible handler. Bound, so it can be passed directly as an option.
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    const method = (init?.method ?? "GET").toUpperCase();
+    const headers = Object.fromEntries(new Headers(init?.headers).entries());
+    const rawBody = typeof init?.body === "string" ? init.body : undefined;
+
+    let body: unknown;
+    if (rawBody !== undefined) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        body = Object.fromEntries(new URLSearchParams(rawBody));
+      }
+    }
+
+    const request: FakeRequest = { method, path: url.pathname, query: url.searchParams, body, headers };
+    this.requests.push(request);
+
+    const fault = this.faults.find((f) => f.remaining > 0 && matchesPath(request.path, f.path));
+    if (fault) {
+      fault.remaining--;
+      this.faults = this.faults.filter((f) => f.remaining > 0);
+      return json(fault.fault.status, fault.fault.body ?? {}, fault.fault.headers);
+    }
+
+    if (request.path === "/oauth2/token" && method === "POST") {
+      return json(200, { access_token: "fake-access-token", token_type: "Bearer", expires_in: 3600 });
+    }
+
+    if (!headers["x-api-key"] && !headers["authorization"]) {
+      return json(401, { error: "missing credentials" });
+    }
+
+    if (!this.window) return this.route(request);
+
+    const window = this.window;
+    const now = Date.now();
+    if (now >= window.resetAt) {
+      window.resetAt = now + window.windowMs;
+      window.used = 0;
+    }
+    window.used++;
+    const limitHeaders = {
+      "x-ratelimit-limit": String(window.limit),
+      "x-ratelimit-remaining": String(Math.max(window.limit - window.used, 0)),
+      "x-ratelimit-reset": String(Math.ceil(window.resetAt / 1000)),
+    };
+    if (window.used > window.limit) {
+      const retryAfter = String(Math.ceil((window.resetAt - now) / 1000));
+      return json(429, { message: "Rate limit exceeded" }, { ...limitHeaders, "retry-after": retryAfter });
+    }
+
+    const response = this.route(request);
+    for (const [name, value] of Object.entries(limitHeaders)) response.headers.set(name, value);
+    return response;
+  };
+
+  private route(request: FakeRequest): Response {
+    const { method, path, query } = request;
+    const segments = path.split("/").filter(Boolean).map(decodeURIComponent);
+    if (segments[0] !== "v1") return this.notFound(path);
+    const [, resource, id, sub] = segments;
+
+    if (resource === "ncci" && id === "validate") return this.ncci(query);
+    if (resource === "coverage" && id === "check") return this.coverage(query);
+    if (resource === "sma") return this.sma(id, sub, query);
+    if (resource === "mue" || resource === "pfs") return this.claims(resource, method, id, request.body);
+
+    if (resource === "npi" && sub === "connectivity") {
+      const data = this.fixtures.connectivity?.[id!];
+      return data ? json(200, data) : this.notFound(path);
+    }
+
+    if (resource === "snomed") {
+      if (id === "categories") {
+        return json(200, {
+          categories: IPS_CATEGORIES,
+          description: Object.fromEntries(IPS_CATEGORIES.map((c) => [c, c])),
+        });
+      }
+      if (sub === "mappings") {
+        const data = this.fixtures.snomedMappings?.[id!];
+        return data ? json(200, { data, meta: this.meta(query) }) : this.notFound(path);
+      }
+      if (id === "search") return this.snomedSearch(query);
+    }
+
+    const fixtureKey = resource ? CODE_ROUTES[resource] : undefined;
+    if (!fixtureKey || !id) return this.notFound(path);
+    const records = (this.fixtures[fixtureKey] ?? {}) as Record<string, unknown>;
+
+    if (id === "_batch" && method === "POST") {
+      const codes = (request.body as { codes?: string[] } | undefined)?.codes ?? [];
+      const results = codes.map((code) => {
+        const data = records[code];
+        const item: Record<string, unknown> = { input: code, status: data ? "ok" : "not_found" };
+        if (resource === "snomed") item.concept_id = code;
+        if (data) item.data = data;
+        return item;
+      });
+      const legal = resource === "snomed" ? LEGAL : { license: LEGAL.license };
+      return json(200, { count: results.length, results, meta: { legal } });
+    }
+
+    if (id === "search") return this.search(Object.values(records), query, FILTER_FIELDS[fixtureKey]);
+
+    const data = records[id];
+    return data ? json(200, { data, meta: this.meta(query) }) : this.notFound(path);
+  }
+
+  private meta(query: URLSearchParams) {
+    return { legal: { license: LEGAL.license }, shape: query.get("shape") ?? "standard", api_version: "fake" };
+  }
+
+  private notFound(path: string): Response {
+    return json(404, { message: `Not found: ${path}`, code: "NOT_FOUND" });
+  }
+
+  private search(records: unknown[], query: URLSearchParams, fields?: Record<string, string>): Response {
+    const matches = records.filter((item) => matchesSearch(item, query, fields));
+    const limit = Number(query.get("limit") ?? 20);
+    const page = Number(query.get("page") ?? 1);
+    const items = matches.slice((page - 1) * limit, page * limit);
+    return json(200, {
+      items,
+      total: matches.length,
+      total_capped: false,
+      has_more: page * limit < matches.length,
+      page,
+      limit,
+      facets: {},
+      meta: { legal: LEGAL },
+    });
+  }
+
+  private snomedSearch(query: URLSearchParams): Response {
+    const matches = Object.values(this.fixtures.snomed ?? {}).filter((item) => matchesSearch(item, query));
+    const limit = Number(query.get("limit") ?? 100);
+    const skip = Number(query.get("skip") ?? 0);
+    const results = matches.slice(skip, skip + limit);
+    return json(200, { count: results.length, results, meta: { legal: LEGAL } });
+  }
+
+  private ncci(query: URLSearchParams): Response {
+    const code1 = query.get("code1") ?? "";
+    const code2 = query.get("code2") ?? "";
+    const data =
+      this.fixtures.ncci?.[`${code1}|${code2}`] ??
+      this.fixtures.ncci?.[`${code2}|${code1}`] ?? {
+        code1,
+        code2,
+        can_bill_together: true,
+        edits: [],
+        summary: "No NCCI PTP edits found",
+      };
+    return json(200, { data, meta: { source: { name: "CMS NCCI" }, legal: LEGAL } });
+  }
+
+  private coverage(query: URLSearchParams): Response {
+    const hcpcs = query.get("hcpcs") ?? "";
+    const data = this.fixtures.coverage?.[hcpcs] ?? {
+      hcpcs_code: hcpcs,
+      policies_found: 0,
+      policies: [],
+      summary: "No coverage policies found",
+    };
+    return json(200, { data, meta: { source: { name: "CMS MCD" }, legal: LEGAL } });
+  }
+
+  private claims(resource: "mue" | "pfs", method: string, id: string | undefined, body: unknown): Response {
+    const records = (resource === "mue" ? this.fixtures.mue : this.fixtures.pfs) ?? {};
+    if (id === "_batch" && method === "POST") {
+      const codes = (body as { codes?: string[] } | undefined)?.codes ?? [];
+      const results = codes.map((code) => {
+        const data = records[code];
+        return data
+          ? { input: code, hcpcs_code: code, status: "ok", data }
+          : { input: code, hcpcs_code: code, status: "not_found" };
+      });
+      return json(200, { count: results.length, results, meta: { legal: LEGAL } });
+    }
+    const data = id ? records[id] : undefined;
+    return data
+      ? json(200, { data, meta: { source: { name: `CMS ${resource.toUpperCase()}` }, legal: LEGAL } })
+      : this.notFound(`/v1/${resource}/${id ?? ""}`);
+  }
+
+  private sma(id: string | undefined, state: string | undefined, query: URLSearchParams): Response {
+    const meta = { data_as_of: "1970-01-01T00:00:00Z", source: "FHIRfly fake API", source_url: "" };
+    const states = this.fixtures.smaStates ?? {};
+
+    if (id === "stats") {
+      return this.fixtures.smaStats ? json(200, this.fixtures.smaStats) : this.notFound("/v1/sma/stats");
+    }
+    if (id === "states" && state) {
+      const needle = state.toLowerCase();
+      const detail = Object.values(states).find(
+        (s) => s.abbreviation?.toLowerCase() === needle || s.id === needle || s.state.toLowerCase() === needle
+      );
+      return detail ? json(200, detail) : this.notFound(`/v1/sma/states/${state}`);
+    }
+    if (id === "states") {
+      const implemented = query.get("implemented");
+      const summaries = Object.values(states)
+        .filter((s) => implemented === null || String(s.is_implemented) === implemented)
+        .map((s) => ({
+          id: s.id,
+          state: s.state,
+          abbreviation: s.abbreviation,
+          is_implemented: s.is_implemented,
+          api_vendor: s.api_vendor,
+          patient_access_status: s.patient_access.status,
+          provider_directory_status: s.provider_directory.status,
+          production_url_count: s.all_production_urls.length,
+          fhir_version: s.patient_access.fhir_version,
+        }));
+      return json(200, { states: summaries, total: summaries.length, meta });
+    }
+    return this.notFound(`/v1/sma/${id ?? ""}`);
+  }
+}
@@ -0,0 +1,52 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+
+/**
+ * A canned error response returned by {@link FakeFhirflyApi.fail}.
+ */
+export interface FakeFault {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Builders for the error responses the SDK maps to typed errors.
+ *
+ * @example
+ * ```ts
+ * api.fail(faults.rateLimit(30));              // RateLimitError, retryAfter = 30
+ * api.fail(faults.quotaExceeded());            // QuotaExceededError
+ * api.fail(faults.serverError(503), { times: 3 });
+ * ```
+ */
+export const faults = {
+  /** 401 → AuthenticationError */
+  unauthorized(message = "Invalid API key"): FakeFault {
+    return { status: 401, body: { message } };
+  },
+
+  /** 404 → NotFoundError */
+  notFound(message = "Not found"): FakeFault {
+    return { status: 404, body: { message, code: "NOT_FOUND" } };
+  },
+
+  /** 429 → RateLimitError */
+  rateLimit(retryAfter?: number): FakeFault {
+    return {
+      status: 429,
+      body: { message: "Rate limit exceeded" },
+      headers: retryAfter !== undefined ? { "retry-after": String(retryAfter) } : undefined,
+    };
+  },
+
+  /** 429 with `code: "QUOTA_EXCEEDED"` → QuotaExceededError */
+  quotaExceeded(message = "Monthly quota exceeded"): FakeFault {
+    return { status: 429, body: { message, code: "QUOTA_EXCEEDED" } };
+  },
+
+  /** 5xx → ServerError */
+  serverError(status = 500, message = "Internal server error"): FakeFault {
+    return { status, body: { message } };
+  },
+};
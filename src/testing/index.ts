@@ -0,0 +1,21 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+/**
+ * Test utilities for code that uses the FHIRfly SDK.
+ *
+ * Import from `@fhirfly-io/terminology/testing`. Requires Node.js.
+ */
+export {
+  FakeFhirflyApi,
+  type FakeApiFixtures,
+  type FakeRequest,
+  type FakeFailOptions,
+  type FakeRateLimitOptions,
+} from "./fake-api.js";
+export { faults, type FakeFault } from "./faults.js";
+export {
+  createRecordingFetch,
+  type RecordingMode,
+  type RecordingFetchOptions,
+  type Recording,
+} from "./recorder.js";
@@ -0,0 +1,150 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Recording mode.
+ *
+ * - `record` — always call the real API and write each response to disk
+ * - `replay` — serve responses from disk only; a missing recording throws
+ * - `auto` — replay when a recording exists, otherwise record
+ */
+export type RecordingMode = "record" | "replay" | "auto";
+
+/**
+ * Options for {@link createRecordingFetch}.
+ */
+export interface RecordingFetchOptions {
+  /** Recording mode */
+  mode: RecordingMode;
+  /** Directory where recordings are stored */
+  dir: string;
+  /** Underlying fetch used in record mode. Default: global `fetch` */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A recorded request/response pair, stored as one JSON file per request.
+ *
+ * Credentials are never written: only the method, URL, and body are kept,
+ * and OAuth2 token exchanges are stored with the client credentials and
+ * issued tokens redacted.
+ */
+export interface Recording {
+  request: { method: string; url: string; body?: string };
+  response: { status: number; headers: Record<string, string>; body: string };
+}
+
+/**
+ * Stable file name for a request, derived from its method, URL, and body.
+ */
+function recordingKey(method: string, url: string, body?: string): string {
+  const hash = createHash("sha1").update(`${method} ${url}\n${body ?? ""}`).digest("hex").slice(0, 16);
+  const path = new URL(url).pathname.replace(/[^a-zA-Z0-9]+/g, "_").replace(/^_|_$/g, "");
+  return `${method.toLowerCase()}_${path}_${hash}.json`;
+}
+
+const REDACTED = "[redacted]";
+
+/** Form fields of an OAuth2 token request that carry credentials. */
+const SECRET_FORM_FIELDS = ["client_id", "client_secret", "refresh_token"];
+
+/** Fields of an OAuth2 token response that carry tokens. */
+const SECRET_TOKEN_FIELDS = ["access_token", "refresh_token", "id_token"];
+
+/**
+ * Whether a request body is an OAuth2 token request (a form with a
+ * `grant_type`), wherever the token endpoint lives.
+ */
+function isTokenRequest(body: string | undefined): body is string {
+  return body !== undefined && new URLSearchParams(body).has("grant_type");
+}
+
+function redactTokenRequest(body: string): string {
+  const form = new URLSearchParams(body);
+  for (const field of SECRET_FORM_FIELDS) {
+    if (form.has(field)) form.set(field, REDACTED);
+  }
+  return form.toString();
+}
+
+function redactTokenResponse(body: string): string {
+  try {
+    const data = JSON.parse(body) as Record<string, unknown>;
+    for (const field of SECRET_TOKEN_FIELDS) {
+      if (field in data) data[field] = REDACTED;
+    }
+    return JSON.stringify(data);
+  } catch {
+    return REDACTED;
+  }
+}
+
+async function readRecording(file: string): Promise<Recording | undefined> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as Recording;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Create a `fetch` that records real API responses to disk and replays them.
+ *
+ * Record once against the live API, commit the recordings, and run CI in
+ * `replay` mode fully offline.
+ *
+ * @example
+ * ```ts
+ * const fetch = createRecordingFetch({
+ *   mode: process.env.FHIRFLY_RECORD ? "record" : "replay",
+ *   dir: "tests/recordings",
+ * });
+ * const client = new Fhirfly({ apiKey: process.env.FHIRFLY_API_KEY ?? "replay", fetch });
+ * ```
+ */
+export function createRecordingFetch(options: RecordingFetchOptions): typeof fetch {
+  const { mode, dir } = options;
+
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method ?? "GET").toUpperCase();
+    const rawBody = typeof init?.body === "string" ? init.body : undefined;
+    const tokenRequest = isTokenRequest(rawBody);
+    const body = tokenRequest ? redactTokenRequest(rawBody) : rawBody;
+    const file = join(dir, recordingKey(method, url, body));
+
+    if (mode !== "record") {
+      const recording = await readRecording(file);
+      if (recording) {
+        return new Response(recording.response.body, {
+          status: recording.response.status,
+          headers: recording.response.headers,
+        });
+      }
+      if (mode === "replay") {
+        throw new Error(`No recording for ${method} ${url} (expected ${file})`);
+      }
+    }
+
+    const fetchImpl = options.fetch ?? fetch;
+    const response = await fetchImpl(input, init);
+    const text = await response.text();
+    const recording: Recording = {
+      request: { method, url, ...(body !== undefined && { body }) },
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: tokenRequest ? redactTokenResponse(text) : text,
+      },
+    };
+
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, JSON.stringify(recording, null, 2) + "\n");
+
+    return new Response(text, { status: response.status, headers: response.headers });
+  };
+}
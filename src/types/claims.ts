@@ -58,7 +58,9 @@ export interface NcciEditItem {
  * NCCI PTP validation data.
  */
 export interface NcciValidateData {
+  /** Column one code of the edit, whichever order the codes were sent in */
   code1: string;
+  /** Column two code of the edit, the code an NCCI-associated modifier goes on */
   code2: string;
   can_bill_together: boolean;
   edits: NcciEditItem[];
@@ -234,3 +236,105 @@ export interface CoverageCheckResponse {
   data: CoverageCheckData;
   meta: ClaimsMeta;
 }
+
+// ============================================================================
+// Claim Scrubbing
+// ============================================================================
+
+/**
+ * A single service line on a claim.
+ */
+export interface ClaimLine {
+  /** HCPCS/CPT code */
+  hcpcs: string;
+  /** Units of service. Default: 1 */
+  units?: number;
+  /** Modifiers (e.g., ["59", "RT"]) */
+  modifiers?: string[];
+  /** CMS place of service code (e.g., "11" office, "22" outpatient hospital) */
+  pos?: string;
+  /** ICD-10-CM diagnosis codes supporting the line */
+  dx?: string[];
+}
+
+/**
+ * Claim submitted to `claims.scrubClaim()`.
+ */
+export interface ScrubClaimRequest {
+  /** Service lines, referenced by zero-based index in the result */
+  lines: ClaimLine[];
+  /** Claim type for NCCI edits. Default: "practitioner" */
+  claim_type?: NcciClaimType;
+  /**
+   * MUE service type. Default: "practitioner" for practitioner claims,
+   * "outpatient_hospital" for hospital claims
+   */
+  mue_service_type?: MueServiceType;
+}
+
+/**
+ * Severity of a claim edit.
+ *
+ * - `error` — the line is expected to deny as submitted
+ * - `warning` — the line may deny or needs documentation or review
+ * - `info` — informational; no action required
+ */
+export type ClaimEditSeverity = "error" | "warning" | "info";
+
+/**
+ * Rule that produced a claim edit.
+ */
+export type ClaimEditRule =
+  | "ncci_ptp"
+  | "ncci_modifier_required"
+  | "ncci_modifier_bypass"
+  | "mue_exceeded"
+  | "no_coverage_policy"
+  | "pfs_not_found"
+  | "pfs_status"
+  | "missing_diagnosis";
+
+/**
+ * A single finding from `claims.scrubClaim()`.
+ */
+export interface ClaimEdit {
+  rule: ClaimEditRule;
+  severity: ClaimEditSeverity;
+  /** Zero-based indices of the claim lines the edit applies to */
+  lines: number[];
+  /** HCPCS/CPT codes involved */
+  codes: string[];
+  message: string;
+}
+
+/**
+ * Per-line result of `claims.scrubClaim()`.
+ */
+export interface ScrubbedClaimLine {
+  /** Zero-based line index */
+  line: number;
+  hcpcs: string;
+  units: number;
+  /** Fee schedule setting, derived from the place of service */
+  setting: "facility" | "non_facility";
+  /** MUE limit applied to this line, if one exists for the service type */
+  mue?: { limit: number; adjudication_indicator: number };
+  /** Active LCD/NCD policies found for the code */
+  coverage_policies: number;
+  /** PFS payment per unit, if the code is on the fee schedule with a payable status */
+  unit_payment?: number;
+  /** Estimated payment for the line (`unit_payment × units`) */
+  estimated_payment?: number;
+}
+
+/**
+ * Result of `claims.scrubClaim()`.
+ */
+export interface ScrubClaimResult {
+  /** True when no edit has `error` severity */
+  clean: boolean;
+  edits: ClaimEdit[];
+  lines: ScrubbedClaimLine[];
+  /** Sum of line payment estimates, before modifiers and multiple-procedure reductions */
+  estimated_payment: number;
+}
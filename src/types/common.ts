@@ -5,25 +5,85 @@
  */
 export type ResponseShape = "compact" | "standard" | "full";
 
+/**
+ * A code system's data types keyed by response shape.
+ */
+export type ShapeMap = Record<ResponseShape, unknown>;
+
+/**
+ * Data type for the shape selected by options of type `O`: the matching shape
+ * when `shape` is passed as a literal, otherwise the union of every shape.
+ *
+ * @example
+ * ```ts
+ * type Full = Shaped<NdcShapes, { shape: "full" }>; // NdcFull
+ * type Any = Shaped<NdcShapes, LookupOptions>;     // NdcCompact | NdcStandard | NdcFull
+ * ```
+ */
+export type Shaped<M extends ShapeMap, O> = O extends { shape: infer S extends ResponseShape }
+  ? M[S]
+  : M[ResponseShape];
+
 /**
  * Include options for additional data in responses.
  */
 export type IncludeOption = "display";
 
+/**
+ * Per-call request options accepted by every endpoint method.
+ */
+export interface RequestOptions {
+  /** Cancels the call, including retries and waits between them, when aborted */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds. Default: the client's `timeout` */
+  timeout?: number;
+  /** Maximum retry attempts. Default: the client's `maxRetries` */
+  maxRetries?: number;
+  /** Sent as the `Idempotency-Key` header on every attempt, so retried POSTs are not applied twice */
+  idempotencyKey?: string;
+}
+
 /**
  * Common options for all lookup methods.
  */
-export interface LookupOptions {
+export interface LookupOptions extends RequestOptions {
   /** Response detail level. Default: "standard" */
   shape?: ResponseShape;
   /** Include additional fields like pre-formatted display strings */
   include?: IncludeOption[];
 }
 
+/**
+ * Options for checking code formats locally before a batch lookup.
+ */
+export interface PrevalidateOptions {
+  /**
+   * Check each code's format offline before the request. Malformed codes are
+   * returned as `status: "invalid"` items without being sent, so they do not
+   * count against quota. Default: false
+   */
+  prevalidate?: boolean;
+}
+
 /**
  * Common options for batch lookup methods.
  */
-export type BatchLookupOptions = LookupOptions;
+export interface BatchLookupOptions extends LookupOptions, PrevalidateOptions {}
+
+/**
+ * Options controlling how `lookupAll` splits and parallelizes large inputs.
+ */
+export interface ChunkingOptions {
+  /** Maximum number of batch requests in flight at once. Default: 4 */
+  concurrency?: number;
+  /** Codes per batch request. Default and maximum: the endpoint's batch limit */
+  chunkSize?: number;
+}
+
+/**
+ * Options for `lookupAll` methods that also accept shape and include.
+ */
+export type LookupAllOptions = BatchLookupOptions & ChunkingOptions;
 
 /**
  * Legal/licensing information included in responses.
@@ -60,6 +120,8 @@ export interface ResponseMeta {
   legal: LegalInfo;
   shape: ResponseShape;
   api_version: string;
+  /** Provenance information. Included when shape=full. */
+  source?: SourceInfo;
 }
 
 /**
@@ -114,7 +176,7 @@ export interface DisplayField {
 /**
  * Common options for all search methods.
  */
-export interface SearchOptions {
+export interface SearchOptions extends RequestOptions {
   /** Response detail level. Default: "compact" */
   shape?: ResponseShape;
   /** Include additional fields like pre-formatted display strings */
@@ -125,6 +187,21 @@ export interface SearchOptions {
   page?: number;
 }
 
+/**
+ * Limits for the `searchPages` / `searchAll` pagination helpers.
+ */
+export interface PaginationOptions {
+  /** Stop after this many pages have been fetched */
+  maxPages?: number;
+  /** Stop after this many items have been yielded (`searchAll` only) */
+  maxItems?: number;
+}
+
+/**
+ * Options for `searchPages` / `searchAll`. `page` is the first page to fetch.
+ */
+export type SearchAllOptions = SearchOptions & PaginationOptions;
+
 /**
  * Facet counts in search results.
  */
@@ -161,3 +161,68 @@ export interface NpiConnectivityData {
   /** Response metadata */
   meta: ConnectivityMeta;
 }
+
+/**
+ * Policy for `selectEndpoints()`. Unset rules are not checked.
+ */
+export interface EndpointSelectionPolicy {
+  /** Allowed endpoint types. Default: all */
+  types?: ConnectivityEndpointData["type"][];
+  /** Exclude sandbox and unknown-scope endpoints. Default: true */
+  productionOnly?: boolean;
+  /** Allowed verification statuses. Default: ["active", "unverified"] */
+  statuses?: ConnectivityEndpointData["status"][];
+  /** Minimum availability percentage (e.g., 95). Endpoints without availability data are excluded. */
+  minUptime?: number;
+  /** Maximum consecutive failed probes */
+  maxConsecutiveFailures?: number;
+  /** Maximum age of `last_verified_at` in days. Endpoints never verified are excluded. */
+  maxStalenessDays?: number;
+  /** Acceptable link confidence levels. Default: all */
+  linkConfidence?: ConnectivityTargetData["link_confidence"][];
+  /** Allow endpoints that require UDAP. Default: true */
+  allowUdap?: boolean;
+  /** Allow endpoints that require registration or allowlist approval. Default: true */
+  allowRegistration?: boolean;
+  /** Reference time for `maxStalenessDays`. Default: now */
+  now?: Date;
+}
+
+/**
+ * A rule of an {@link EndpointSelectionPolicy}.
+ */
+export type EndpointSelectionRule =
+  | "type"
+  | "scope"
+  | "status"
+  | "uptime"
+  | "failures"
+  | "staleness"
+  | "link_confidence"
+  | "udap"
+  | "registration";
+
+/**
+ * Outcome of one policy rule for one endpoint.
+ */
+export interface EndpointSelectionCheck {
+  rule: EndpointSelectionRule;
+  passed: boolean;
+  /** Human-readable explanation (e.g., "uptime 91.5% is below 95%") */
+  message: string;
+}
+
+/**
+ * An endpoint evaluated by `selectEndpoints()`.
+ */
+export interface EndpointSelection {
+  endpoint: ConnectivityEndpointData;
+  /** The target the endpoint belongs to */
+  target: Omit<ConnectivityTargetData, "endpoints">;
+  /** True when every check passed */
+  included: boolean;
+  /** 1-based rank among included endpoints; null when excluded */
+  rank: number | null;
+  /** Every rule checked, in policy order */
+  checks: EndpointSelectionCheck[];
+}
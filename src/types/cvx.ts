@@ -35,6 +35,15 @@ export interface CvxFull extends CvxStandard {
  */
 export type CvxData = CvxCompact | CvxStandard | CvxFull;
 
+/**
+ * CVX data type for each response shape.
+ */
+export interface CvxShapes {
+  compact: CvxCompact;
+  standard: CvxStandard;
+  full: CvxFull;
+}
+
 /**
  * CVX search parameters.
  */
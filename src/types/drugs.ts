@@ -0,0 +1,148 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { RequestOptions } from "./common.js";
+import type { NdcFull, NdcStandard } from "./ndc.js";
+import type { RxNormFull, RxTermType } from "./rxnorm.js";
+import type { FdaLabelData } from "./fda-labels.js";
+import type { SnomedConcept } from "./snomed.js";
+
+/**
+ * Kind of identifier accepted by `drugs.resolve()`.
+ */
+export type DrugIdentifierType = "ndc" | "rxcui" | "spl_set_id" | "snomed";
+
+/**
+ * Options for `drugs.resolve()`.
+ */
+export interface DrugResolveOptions extends RequestOptions {
+  /**
+   * Identifier type. Default: detected from the format (see `detectDrugIdentifier()`).
+   * Set it for identifiers that are ambiguous, such as a 10-digit NDC without hyphens.
+   */
+  type?: DrugIdentifierType;
+  /** Look up SPL labels for the resolved RxNorm concepts. Default: true */
+  labels?: boolean;
+}
+
+/**
+ * Code system of a node in a drug profile graph.
+ */
+export type DrugNodeSystem = "ndc" | "rxnorm" | "fda_label" | "snomed";
+
+/**
+ * A concept in a drug profile graph.
+ */
+export interface DrugNode {
+  /** Graph-unique ID: `"<system>:<code>"` (e.g., "rxnorm:213169") */
+  id: string;
+  system: DrugNodeSystem;
+  /** NDC, RxCUI, SPL set ID, or SNOMED CT concept ID */
+  code: string;
+  display: string | null;
+  /** RxNorm term type (RxNorm nodes only) */
+  tty?: RxTermType;
+}
+
+/**
+ * Relationship between two nodes of a drug profile graph.
+ *
+ * - `has_rxcui`: NDC → the RxNorm concept it is a package or product of
+ * - `has_ingredient`, `has_brand`, `has_dose_form`: RxNorm → RxNorm
+ * - `related`: any other RxNorm relationship, named in `detail`
+ * - `has_label`: RxNorm → SPL label
+ * - `has_snomed`: RxNorm → SNOMED CT concept, with the map type in `detail`
+ */
+export type DrugRelation =
+  | "has_rxcui"
+  | "has_ingredient"
+  | "has_brand"
+  | "has_dose_form"
+  | "related"
+  | "has_label"
+  | "has_snomed";
+
+/**
+ * A directed edge of a drug profile graph.
+ */
+export interface DrugEdge {
+  /** Source node ID */
+  from: string;
+  /** Target node ID */
+  to: string;
+  relation: DrugRelation;
+  /** RxNorm relationship name for `related` edges; map type for `has_snomed` edges */
+  detail?: string;
+}
+
+/**
+ * A drug resolved across NDC, RxNorm, FDA labels, and SNOMED CT.
+ */
+export interface DrugProfile {
+  /** The identifier passed to `resolve()` */
+  input: string;
+  input_type: DrugIdentifierType;
+  /** Node IDs of the RxNorm concepts the input resolves to */
+  roots: string[];
+  nodes: DrugNode[];
+  edges: DrugEdge[];
+  /** Records behind the graph, for fields the nodes don't carry */
+  records: {
+    /** The NDC record, when the input is an NDC */
+    ndc: NdcStandard[];
+    /** Full RxNorm records for the root concepts */
+    rxnorm: RxNormFull[];
+    /** SPL labels (metadata only, except for an SPL set ID input) */
+    labels: FdaLabelData[];
+    /** The SNOMED CT concept, when the input is a SNOMED CT ID */
+    snomed: SnomedConcept[];
+  };
+}
+
+/**
+ * Options for `drugs.findEquivalents()`.
+ */
+export interface DrugEquivalentsOptions extends RequestOptions {
+  /** Identifier type. Default: detected from the format */
+  type?: "ndc" | "rxcui";
+  /** Only packages with the same route(s) as the input NDC. Default: false */
+  sameRoute?: boolean;
+  /** Only packages with the same SPL dosage form as the input NDC. Default: false */
+  sameDoseForm?: boolean;
+  /** Only active packages. Default: true */
+  activeOnly?: boolean;
+}
+
+/**
+ * An RxNorm concept referenced by `drugs.findEquivalents()`.
+ */
+export type DrugConceptRef = Pick<RxNormFull, "rxcui" | "name" | "tty">;
+
+/**
+ * Equivalent packages from one labeler under one marketing category.
+ */
+export interface DrugEquivalentGroup {
+  labeler_name: string | null;
+  /** Marketing category (e.g., "ANDA", "NDA AUTHORIZED GENERIC") */
+  marketing_category: string | null;
+  /** Full NDC records, including `dea_schedule` */
+  packages: NdcFull[];
+}
+
+/**
+ * NDC packages of the generic clinical drug behind an NDC or RxCUI.
+ */
+export interface DrugEquivalents {
+  /** The identifier passed to `findEquivalents()` */
+  input: string;
+  input_type: "ndc" | "rxcui";
+  /** The input NDC record, when the input is an NDC */
+  ndc: NdcFull | null;
+  /** RxNorm concept of the input */
+  source: DrugConceptRef;
+  /** Generic clinical drug (SCD or GPCK) whose packages are listed */
+  clinical_drug: DrugConceptRef;
+  /** Groups with generic packages first, then by labeler and marketing category */
+  groups: DrugEquivalentGroup[];
+  /** Number of packages across all groups */
+  total: number;
+}
@@ -1,5 +1,6 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
+import type { RequestOptions } from "./common.js";
 /**
  * FDA Label metadata returned in API responses.
  */
@@ -43,7 +44,7 @@ export type FdaLabelBundleName =
 /**
  * Options for FDA Label lookup (replaces standard LookupOptions shape).
  */
-export interface FdaLabelLookupOptions {
+export interface FdaLabelLookupOptions extends RequestOptions {
   /** Specific section keys to fetch (e.g., ["boxed_warning", "dosage_and_administration"]) */
   sections?: string[];
   /** Predefined bundle of sections (e.g., "safety", "dosing") */
@@ -96,6 +97,15 @@ export type FdaLabelSearchData =
   | FdaLabelSearchStandard
   | FdaLabelSearchFull;
 
+/**
+ * FDA Label search result type for each response shape.
+ */
+export interface FdaLabelSearchShapes {
+  compact: FdaLabelSearchCompact;
+  standard: FdaLabelSearchStandard;
+  full: FdaLabelSearchFull;
+}
+
 /**
  * FDA Label search parameters.
  */
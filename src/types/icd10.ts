@@ -1,6 +1,6 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { DisplayField } from "./common.js";
+import type { DisplayField, RequestOptions } from "./common.js";
 import type { SnomedEnrichmentStandard, SnomedEnrichmentFull } from "./snomed.js";
 
 /**
@@ -32,6 +32,9 @@ export interface Icd10Standard extends Icd10Compact {
   /** ICD-10-PCS specific */
   body_system?: string;
   root_operation?: string;
+  approach?: string;
+  device?: string;
+  qualifier?: string;
   /** SNOMED CT mappings (ICD-10-CM only, added by enrichment) */
   snomed?: SnomedEnrichmentStandard[];
 }
@@ -46,10 +49,6 @@ export interface Icd10Full extends Omit<Icd10Standard, "snomed"> {
   excludes2?: string[];
   code_first?: string[];
   use_additional?: string[];
-  /** ICD-10-PCS specific */
-  approach?: string;
-  device?: string;
-  qualifier?: string;
   /** Effective dates */
   effective_date?: string;
   end_date?: string;
@@ -62,6 +61,15 @@ export interface Icd10Full extends Omit<Icd10Standard, "snomed"> {
  */
 export type Icd10Data = Icd10Compact | Icd10Standard | Icd10Full;
 
+/**
+ * ICD-10 data type for each response shape.
+ */
+export interface Icd10Shapes {
+  compact: Icd10Compact;
+  standard: Icd10Standard;
+  full: Icd10Full;
+}
+
 /**
  * ICD-10 search parameters.
  */
@@ -89,3 +97,127 @@ export interface Icd10SearchParams {
   /** Sort order: "relevance", "code", "display" */
   sort?: "relevance" | "code" | "display";
 }
+
+/**
+ * Options for `icd10.descendants()`.
+ */
+export interface Icd10DescendantsOptions extends RequestOptions {
+  /** Only billable codes (leaf codes valid on a claim). Default: false */
+  billableOnly?: boolean;
+}
+
+/**
+ * Options for `icd10.checkCodeSet()`.
+ */
+export interface Icd10CheckOptions extends RequestOptions {
+  /** Date of service, as a Date or "YYYY-MM-DD", for effective-date checks. Default: today (local time) */
+  date?: string | Date;
+}
+
+/**
+ * Severity of an ICD-10-CM code set finding.
+ */
+export type Icd10FindingSeverity = "error" | "warning" | "info";
+
+/**
+ * Rule that produced an ICD-10-CM code set finding.
+ */
+export type Icd10GuidelineRule =
+  | "invalid_code"
+  | "excludes1"
+  | "code_first"
+  | "code_first_sequence"
+  | "use_additional"
+  | "non_billable"
+  | "not_effective";
+
+/**
+ * A single finding from `icd10.checkCodeSet()`.
+ */
+export interface Icd10Finding {
+  rule: Icd10GuidelineRule;
+  severity: Icd10FindingSeverity;
+  /** Zero-based indices of the input codes the finding applies to */
+  positions: number[];
+  /** ICD-10-CM codes involved, as entered */
+  codes: string[];
+  message: string;
+  /** Source of the rule (e.g., "ICD-10-CM Official Guidelines I.A.12.a") */
+  reference: string;
+  /** Tabular note that triggered the finding, if any */
+  note?: string;
+}
+
+/**
+ * Result of `icd10.checkCodeSet()`.
+ */
+export interface Icd10CodeSetResult {
+  /** True when no finding has severity "error" */
+  clean: boolean;
+  findings: Icd10Finding[];
+  /** Full records of the input codes that were found, in input order */
+  codes: Icd10Full[];
+}
+
+/**
+ * One character (axis) of an ICD-10-PCS code.
+ */
+export interface Icd10PcsAxis {
+  /** Character position, 1-7 */
+  position: number;
+  /** Axis name for the code's section (e.g., "Root Operation", "Contrast") */
+  name: string;
+  /** Character value */
+  value: string;
+  /** Meaning of the value (e.g., "Excision"), when known */
+  label?: string;
+}
+
+/**
+ * Result of `icd10.pcs.decode()`.
+ */
+export interface Icd10PcsDecoded {
+  code: string;
+  display: string;
+  /** All seven axes, in position order */
+  axes: Icd10PcsAxis[];
+  /** Full record of the code */
+  data: Icd10Full;
+}
+
+/**
+ * A valid value for the next character of an ICD-10-PCS code.
+ */
+export interface Icd10PcsOption {
+  value: string;
+  /** Meaning of the value, when known */
+  label?: string;
+  /** Number of codes that start with the prefix and this value (not reported for sections) */
+  count?: number;
+  /** The complete code, when the value is the seventh character */
+  code?: string;
+}
+
+/**
+ * Result of `icd10.pcs.nextOptions()`: the choices for the next axis.
+ */
+export interface Icd10PcsStep {
+  /** Characters chosen so far */
+  prefix: string;
+  /** Position being chosen, 1-7 */
+  position: number;
+  /** Axis name for the position */
+  axis: string;
+  /** Valid values, in character order */
+  options: Icd10PcsOption[];
+  /** False if the search stopped at a page limit, so options may be missing */
+  complete: boolean;
+}
+
+/**
+ * Options for `icd10.pcs.nextOptions()`.
+ */
+export interface Icd10PcsStepOptions extends RequestOptions {
+  /** Stop after this many search pages of 100 codes. Default: 5 */
+  maxPages?: number;
+}
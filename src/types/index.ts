@@ -3,10 +3,17 @@
 // Common types
 export type {
   ResponseShape,
+  ShapeMap,
+  Shaped,
   IncludeOption,
+  RequestOptions,
   LookupOptions,
   BatchLookupOptions,
+  PrevalidateOptions,
+  ChunkingOptions,
+  LookupAllOptions,
   LegalInfo,
+  SourceInfo,
   ResponseMeta,
   ApiResponse,
   BatchResultItem,
@@ -14,6 +21,8 @@ export type {
   DisplayField,
   // Search types
   SearchOptions,
+  PaginationOptions,
+  SearchAllOptions,
   SearchFacets,
   SearchLegalInfo,
   SearchResponse,
@@ -27,7 +36,10 @@ export type {
   NdcStandard,
   NdcFull,
   NdcData,
+  NdcShapes,
   NdcSearchParams,
+  NdcBatchLookupOptions,
+  NdcLookupAllOptions,
 } from "./ndc.js";
 
 // NPI types
@@ -43,6 +55,7 @@ export type {
   NpiStandard,
   NpiFull,
   NpiData,
+  NpiShapes,
   NpiSearchParams,
 } from "./npi.js";
 
@@ -53,6 +66,7 @@ export type {
   RxNormStandard,
   RxNormFull,
   RxNormData,
+  RxNormShapes,
   RxNormSearchParams,
 } from "./rxnorm.js";
 
@@ -67,7 +81,21 @@ export type {
   LoincStandard,
   LoincFull,
   LoincData,
+  LoincShapes,
   LoincSearchParams,
+  LoincAxis,
+  LoincVariantOptions,
+  LoincVariants,
+  LoincPartFacet,
+  LoincFacetOptions,
+  LoincPartFacets,
+  LocalLabTest,
+  LoincMappingOptions,
+  LoincMatchAxis,
+  LoincMatchOutcome,
+  LoincMatchExplanation,
+  LoincMappingCandidate,
+  LoincMappingSuggestion,
 } from "./loinc.js";
 
 // ICD-10 types
@@ -77,7 +105,19 @@ export type {
   Icd10Standard,
   Icd10Full,
   Icd10Data,
+  Icd10Shapes,
   Icd10SearchParams,
+  Icd10DescendantsOptions,
+  Icd10CheckOptions,
+  Icd10FindingSeverity,
+  Icd10GuidelineRule,
+  Icd10Finding,
+  Icd10CodeSetResult,
+  Icd10PcsAxis,
+  Icd10PcsDecoded,
+  Icd10PcsOption,
+  Icd10PcsStep,
+  Icd10PcsStepOptions,
 } from "./icd10.js";
 
 // CVX types
@@ -86,6 +126,7 @@ export type {
   CvxStandard,
   CvxFull,
   CvxData,
+  CvxShapes,
   CvxSearchParams,
 } from "./cvx.js";
 
@@ -97,6 +138,7 @@ export type {
   MvxStandard,
   MvxFull,
   MvxData,
+  MvxShapes,
   MvxSearchParams,
 } from "./mvx.js";
 
@@ -110,6 +152,7 @@ export type {
   FdaLabelSearchStandard,
   FdaLabelSearchFull,
   FdaLabelSearchData,
+  FdaLabelSearchShapes,
   FdaLabelSearchParams,
 } from "./fda-labels.js";
 
@@ -140,6 +183,10 @@ export type {
   ConnectivityTargetData,
   ConnectivityMeta,
   NpiConnectivityData,
+  EndpointSelectionPolicy,
+  EndpointSelectionRule,
+  EndpointSelectionCheck,
+  EndpointSelection,
 } from "./connectivity.js";
 
 // Claims types
@@ -167,6 +214,13 @@ export type {
   CoverageCheckResponse,
   ClaimsLegalInfo,
   ClaimsMeta,
+  ClaimLine,
+  ScrubClaimRequest,
+  ClaimEditSeverity,
+  ClaimEditRule,
+  ClaimEdit,
+  ScrubbedClaimLine,
+  ScrubClaimResult,
 } from "./claims.js";
 
 // SMA types
@@ -178,3 +232,26 @@ export type {
   SmaStateDetailResponse,
   SmaStatsResponse,
 } from "./sma.js";
+
+// Drug crosswalk types
+export type {
+  DrugIdentifierType,
+  DrugResolveOptions,
+  DrugNodeSystem,
+  DrugNode,
+  DrugRelation,
+  DrugEdge,
+  DrugProfile,
+  DrugEquivalentsOptions,
+  DrugConceptRef,
+  DrugEquivalentGroup,
+  DrugEquivalents,
+} from "./drugs.js";
+
+// Provider directory types
+export type {
+  ProviderProfileSection,
+  ProviderEndpoint,
+  ProviderConnectivity,
+  ProviderProfile,
+} from "./providers.js";
@@ -1,6 +1,6 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { DisplayField } from "./common.js";
+import type { DisplayField, RequestOptions } from "./common.js";
 
 /**
  * LOINC semantic axis parts.
@@ -112,6 +112,15 @@ export interface LoincFull extends DisplayField {
  */
 export type LoincData = LoincCompact | LoincStandard | LoincFull;
 
+/**
+ * LOINC data type for each response shape.
+ */
+export interface LoincShapes {
+  compact: LoincCompact;
+  standard: LoincStandard;
+  full: LoincFull;
+}
+
 /**
  * LOINC search parameters.
  */
@@ -137,3 +146,143 @@ export interface LoincSearchParams {
   /** Sort order: "relevance", "name", "code" */
   sort?: "relevance" | "name" | "code";
 }
+
+/**
+ * A LOINC axis, as named in `findVariants()` and `facetParts()`.
+ *
+ * Maps to the `LoincParts` fields `component`, `property`, `time_aspct`,
+ * `system`, `scale_typ`, and `method_typ`.
+ */
+export type LoincAxis = "component" | "property" | "time" | "system" | "scale" | "method";
+
+/**
+ * Options for `loinc.findVariants()`.
+ */
+export interface LoincVariantOptions extends RequestOptions {
+  /** Axes that may differ from the code's; all other axes must match exactly */
+  vary: LoincAxis[];
+  /** Include deprecated codes. Default: false */
+  includeDeprecated?: boolean;
+  /** Stop after this many search pages of 100 codes */
+  maxPages?: number;
+}
+
+/**
+ * Result of `loinc.findVariants()`.
+ */
+export interface LoincVariants {
+  /** The code variants were found for */
+  code: string;
+  /** Parts of the code */
+  parts: LoincParts;
+  /** Axes that were allowed to differ */
+  vary: LoincAxis[];
+  /** Codes sharing every other axis, ordered by their varied axes, then code */
+  variants: LoincStandard[];
+  /** False if the search stopped at a page limit, so variants may be missing */
+  complete: boolean;
+}
+
+/**
+ * One distinct value of a LOINC axis and how many codes have it.
+ */
+export interface LoincPartFacet {
+  /** Part value; null when codes have no value for the axis (e.g., no method) */
+  value: string | null;
+  count: number;
+}
+
+/**
+ * Options for `loinc.facetParts()`.
+ */
+export interface LoincFacetOptions extends RequestOptions {
+  /** Stop after this many search pages of 100 codes */
+  maxPages?: number;
+}
+
+/**
+ * Result of `loinc.facetParts()`: distinct part values across a result set.
+ */
+export interface LoincPartFacets {
+  /** Number of codes counted */
+  count: number;
+  /** Distinct values of each axis, most common first */
+  facets: Record<LoincAxis, LoincPartFacet[]>;
+  /** False if the search stopped at a page limit, so counts are partial */
+  complete: boolean;
+}
+
+/**
+ * A test from a local lab catalog, to be mapped to LOINC.
+ */
+export interface LocalLabTest {
+  /** Local test code */
+  code: string;
+  /** Local test name (e.g., "Glucose, serum") */
+  name: string;
+  /** Specimen (e.g., "Serum", "Whole blood", "Urine", or a LOINC system such as "Ser/Plas") */
+  specimen?: string;
+  /** Result units, preferably UCUM (e.g., "mg/dL") */
+  units?: string;
+  /** Method (e.g., "Glucometer") */
+  method?: string;
+}
+
+/**
+ * Options for `loinc.suggestMappings()`.
+ */
+export interface LoincMappingOptions extends RequestOptions {
+  /** Candidates to return per test. Default: 5 */
+  top?: number;
+  /** Search results to score per test (1-100). Default: 50 */
+  candidates?: number;
+  /** Include deprecated codes. Default: false */
+  includeDeprecated?: boolean;
+  /** Maximum number of searches in flight at once. Default: 4 */
+  concurrency?: number;
+}
+
+/**
+ * What a mapping candidate is scored on.
+ */
+export type LoincMatchAxis = "component" | "system" | "units" | "method" | "rank";
+
+/**
+ * How well a candidate agrees with the local test on one axis.
+ */
+export type LoincMatchOutcome = "match" | "partial" | "mismatch" | "unknown";
+
+/**
+ * Explanation of one axis of a candidate's score.
+ */
+export interface LoincMatchExplanation {
+  axis: LoincMatchAxis;
+  outcome: LoincMatchOutcome;
+  /** Agreement on this axis, 0-1 */
+  score: number;
+  /** Share of the total score this axis carries */
+  weight: number;
+  message: string;
+}
+
+/**
+ * A LOINC code suggested for a local test.
+ */
+export interface LoincMappingCandidate {
+  loinc: LoincFull;
+  /** Weighted sum of the axis scores, 0-1 */
+  score: number;
+  /** One explanation per axis, in weight order */
+  explanations: LoincMatchExplanation[];
+}
+
+/**
+ * Suggested LOINC codes for one local test.
+ */
+export interface LoincMappingSuggestion {
+  test: LocalLabTest;
+  /** Search that produced the candidates */
+  query: LoincSearchParams;
+  /** Best candidates first */
+  candidates: LoincMappingCandidate[];
+}
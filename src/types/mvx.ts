@@ -73,6 +73,15 @@ export interface MvxFull extends DisplayField {
  */
 export type MvxData = MvxCompact | MvxStandard | MvxFull;
 
+/**
+ * MVX data type for each response shape.
+ */
+export interface MvxShapes {
+  compact: MvxCompact;
+  standard: MvxStandard;
+  full: MvxFull;
+}
+
 /**
  * MVX search parameters.
  */
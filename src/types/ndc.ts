@@ -1,6 +1,6 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
-import type { DisplayField } from "./common.js";
+import type { BatchLookupOptions, ChunkingOptions, DisplayField } from "./common.js";
 import type { SnomedEnrichmentStandard, SnomedEnrichmentFull } from "./snomed.js";
 
 /**
@@ -94,6 +94,15 @@ export interface NdcFull extends DisplayField {
  */
 export type NdcData = NdcCompact | NdcStandard | NdcFull;
 
+/**
+ * NDC data type for each response shape.
+ */
+export interface NdcShapes {
+  compact: NdcCompact;
+  standard: NdcStandard;
+  full: NdcFull;
+}
+
 /**
  * NDC search parameters.
  */
@@ -133,3 +142,21 @@ export interface NdcSearchParams {
   /** Sort order: "relevance", "name", "labeler" */
   sort?: "relevance" | "name" | "labeler";
 }
+
+/**
+ * Options for NDC batch lookups.
+ */
+export interface NdcBatchLookupOptions extends BatchLookupOptions {
+  /**
+   * Normalize inputs to 5-4-2 before the lookup and send each distinct NDC
+   * once. Results still map one-to-one to the original input strings;
+   * unparseable inputs get `status: "invalid"` without being sent.
+   * Default: false
+   */
+  normalize?: boolean;
+}
+
+/**
+ * Options for `ndc.lookupAll()`.
+ */
+export type NdcLookupAllOptions = NdcBatchLookupOptions & ChunkingOptions;
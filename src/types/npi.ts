@@ -149,6 +149,15 @@ export interface NpiFull extends DisplayField {
  */
 export type NpiData = NpiCompact | NpiStandard | NpiFull;
 
+/**
+ * NPI data type for each response shape.
+ */
+export interface NpiShapes {
+  compact: NpiCompact;
+  standard: NpiStandard;
+  full: NpiFull;
+}
+
 /**
  * NPI search parameters.
  */
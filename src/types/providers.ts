@@ -0,0 +1,58 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { NpiFull } from "./npi.js";
+import type { ConnectivityEndpointData, ConnectivityMeta, ConnectivityTargetData } from "./connectivity.js";
+import type { SmaStateDetailResponse } from "./sma.js";
+
+/**
+ * One part of a provider profile, fetched independently of the others.
+ *
+ * - `ok`: `data` is set
+ * - `not_found`: the API has no record for this part
+ * - `error`: the request failed; `error` has the message
+ * - `skipped`: not requested because an earlier part was missing (e.g., no practice state)
+ */
+export interface ProviderProfileSection<T> {
+  status: "ok" | "not_found" | "error" | "skipped";
+  data?: T;
+  /** Error message if status is "error", or the reason if "skipped" */
+  error?: string;
+}
+
+/**
+ * A connectivity endpoint with the target it belongs to.
+ */
+export interface ProviderEndpoint extends ConnectivityEndpointData {
+  target_id: string;
+  target_name: string;
+  link_confidence: ConnectivityTargetData["link_confidence"];
+}
+
+/**
+ * Ranked connectivity options for a provider.
+ *
+ * Production FHIR R4 endpoints rank first, then Direct addresses, then
+ * everything else. Within each tier, active endpoints of high-confidence
+ * targets with the best availability come first.
+ */
+export interface ProviderConnectivity {
+  /** All endpoints, best first */
+  endpoints: ProviderEndpoint[];
+  /** Targets ordered by their best endpoint, with their endpoints ranked */
+  targets: ConnectivityTargetData[];
+  meta: ConnectivityMeta;
+}
+
+/**
+ * A provider's demographics, connectivity, and state Medicaid agency endpoints.
+ */
+export interface ProviderProfile {
+  npi: string;
+  /** True when no section failed with an error */
+  complete: boolean;
+  /** NPPES record (full shape), including taxonomies and addresses */
+  demographics: ProviderProfileSection<NpiFull>;
+  connectivity: ProviderProfileSection<ProviderConnectivity>;
+  /** State Medicaid agency patient access and provider directory endpoints for the practice state */
+  medicaid: ProviderProfileSection<SmaStateDetailResponse>;
+}
@@ -81,6 +81,15 @@ export interface RxNormFull extends Omit<RxNormStandard, "snomed"> {
  */
 export type RxNormData = RxNormCompact | RxNormStandard | RxNormFull;
 
+/**
+ * RxNorm data type for each response shape.
+ */
+export interface RxNormShapes {
+  compact: RxNormCompact;
+  standard: RxNormStandard;
+  full: RxNormFull;
+}
+
 /**
  * RxNorm search parameters.
  */
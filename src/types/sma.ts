@@ -1,5 +1,7 @@
 // Copyright 2026 FHIRfly.io LLC. All rights reserved.
 // Licensed under the MIT License. See LICENSE file in the project root.
+import type { RequestOptions } from "./common.js";
+
 /**
  * SMA Endpoint Directory API types.
  *
@@ -10,7 +12,7 @@
 /**
  * Options for filtering the SMA states list.
  */
-export interface SmaListOptions {
+export interface SmaListOptions extends RequestOptions {
   /** Filter by implementation status */
   implemented?: boolean;
   /** Filter by API vendor (e.g., "Epic") */
@@ -0,0 +1,191 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { parseNdc } from "./ndc.js";
+
+/**
+ * Result of an offline code-format check.
+ *
+ * A valid result means the code is well formed, not that it exists; only a
+ * lookup can confirm that.
+ */
+export type CodeValidation = { valid: true } | { valid: false; reason: string };
+
+const VALID: CodeValidation = { valid: true };
+
+function invalid(reason: string): CodeValidation {
+  return { valid: false, reason };
+}
+
+/**
+ * Luhn check digit for a string of digits.
+ */
+function luhnCheckDigit(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    // Double every other digit, starting with the rightmost payload digit
+    let digit = Number(payload[payload.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Whether a string of digits (including its trailing check digit) passes the Verhoeff check.
+ */
+function verhoeffValid(digits: string): boolean {
+  let c = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    c = VERHOEFF_D[c]![VERHOEFF_P[i % 8]![digit]!]!;
+  }
+  return c === 0;
+}
+
+/**
+ * Validate an NPI: 10 digits whose last digit is the Luhn check digit computed
+ * over the `80840` health-industry prefix and the first nine digits.
+ */
+export function validateNpi(npi: string): CodeValidation {
+  const value = npi.trim();
+  if (!/^\d{10}$/.test(value)) return invalid("NPI must be 10 digits");
+  if (luhnCheckDigit(`80840${value.slice(0, 9)}`) !== Number(value[9])) {
+    return invalid("NPI check digit does not match");
+  }
+  return VALID;
+}
+
+/**
+ * Validate ICD-10-CM structure: a letter, a digit, an alphanumeric character,
+ * then optionally a period and 1-4 alphanumeric characters (e.g., "E11.9",
+ * "S72.001A", "E119"). Case-insensitive.
+ */
+export function validateIcd10Cm(code: string): CodeValidation {
+  const value = code.trim().toUpperCase();
+  if (!/^[A-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/.test(value)) {
+    return invalid("ICD-10-CM code must be a letter, a digit, and an alphanumeric character, optionally followed by 1-4 characters");
+  }
+  return VALID;
+}
+
+/**
+ * Validate ICD-10-PCS structure: exactly 7 characters from 0-9 and A-Z,
+ * excluding the letters I and O (e.g., "02HA0QZ"). Case-insensitive.
+ */
+export function validateIcd10Pcs(code: string): CodeValidation {
+  const value = code.trim().toUpperCase();
+  if (value.length !== 7) return invalid("ICD-10-PCS code must be 7 characters");
+  if (!/^[0-9A-HJ-NP-Z]{7}$/.test(value)) {
+    return invalid("ICD-10-PCS code may contain only digits and letters other than I and O");
+  }
+  return VALID;
+}
+
+/**
+ * Validate a code that may be either ICD-10-CM or ICD-10-PCS, as accepted by
+ * the ICD-10 endpoint.
+ */
+export function validateIcd10(code: string): CodeValidation {
+  if (validateIcd10Cm(code).valid || validateIcd10Pcs(code).valid) return VALID;
+  return invalid("Not a valid ICD-10-CM or ICD-10-PCS code");
+}
+
+/**
+ * Validate a LOINC code: 1-7 digits, a hyphen, and the mod-10 check digit
+ * (e.g., "2345-7").
+ */
+export function validateLoinc(code: string): CodeValidation {
+  const match = /^(\d{1,7})-(\d)$/.exec(code.trim());
+  if (!match) return invalid("LOINC code must be 1-7 digits, a hyphen, and a check digit");
+  if (luhnCheckDigit(match[1]!) !== Number(match[2])) {
+    return invalid("LOINC check digit does not match");
+  }
+  return VALID;
+}
+
+/**
+ * Validate a SNOMED CT concept ID: 6-18 digits without a leading zero, a
+ * concept partition identifier (`00` or `10`) before the check digit, and a
+ * valid Verhoeff check digit.
+ */
+export function validateSnomed(conceptId: string): CodeValidation {
+  const value = conceptId.trim();
+  if (!/^[1-9]\d{5,17}$/.test(value)) {
+    return invalid("SNOMED CT identifier must be 6-18 digits without a leading zero");
+  }
+  const partition = value.slice(-3, -1);
+  if (partition !== "00" && partition !== "10") {
+    return invalid(`SNOMED CT partition ${partition} is not a concept identifier`);
+  }
+  if (!verhoeffValid(value)) return invalid("SNOMED CT check digit does not match");
+  return VALID;
+}
+
+/**
+ * Validate a CVX code: 1-3 digits (e.g., "208", "03").
+ */
+export function validateCvx(code: string): CodeValidation {
+  if (!/^\d{1,3}$/.test(code.trim())) return invalid("CVX code must be 1-3 digits");
+  return VALID;
+}
+
+/**
+ * Validate an MVX code: 2-3 letters (e.g., "PFR"). Case-insensitive.
+ */
+export function validateMvx(code: string): CodeValidation {
+  if (!/^[A-Z]{2,3}$/i.test(code.trim())) return invalid("MVX code must be 2-3 letters");
+  return VALID;
+}
+
+/**
+ * Validate an RxNorm concept unique identifier (RxCUI): 1-8 digits.
+ */
+export function validateRxcui(rxcui: string): CodeValidation {
+  if (!/^\d{1,8}$/.test(rxcui.trim())) return invalid("RxCUI must be 1-8 digits");
+  return VALID;
+}
+
+/**
+ * Validate a HCPCS/CPT code: 4-5 alphanumeric characters (e.g., "99213", "J3490").
+ * Case-insensitive.
+ */
+export function validateHcpcs(code: string): CodeValidation {
+  if (!/^[A-Z0-9]{4,5}$/i.test(code.trim())) return invalid("HCPCS/CPT code must be 4-5 alphanumeric characters");
+  return VALID;
+}
+
+/**
+ * Validate an NDC in any format accepted by {@link parseNdc}. Unhyphenated
+ * 10-digit NDCs are ambiguous rather than invalid and pass this check.
+ */
+export function validateNdc(ndc: string): CodeValidation {
+  const parsed = parseNdc(ndc);
+  return parsed.status === "invalid" ? invalid(parsed.reason) : VALID;
+}
@@ -0,0 +1,168 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Fhirfly } from "../src/index.js";
+import { ValidationError, ServerError } from "../src/errors.js";
+import { chunk, mapConcurrent } from "../src/batch.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+/**
+ * Echo each posted code back as an "ok" result so ordering can be asserted.
+ */
+function echoBatch(extraMeta: Record<string, unknown> = {}) {
+  return async (_url: string, opts: { body: string }) => {
+    const { codes } = JSON.parse(opts.body) as { codes: string[] };
+    return {
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(),
+      json: () =>
+        Promise.resolve({
+          count: codes.length,
+          results: codes.map((code) => ({ input: code, status: "ok", data: { code } })),
+          meta: { legal: { license: "public_domain" }, ...extraMeta },
+        }),
+    };
+  };
+}
+
+function codes(n: number, prefix = "C"): string[] {
+  return Array.from({ length: n }, (_, i) => `${prefix}${i}`);
+}
+
+describe("lookupAll", () => {
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    client = new Fhirfly({ apiKey: "test-key", maxRetries: 0 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("splits NDC codes into chunks of 500", async () => {
+    mockFetch.mockImplementation(echoBatch());
+
+    const result = await client.ndc.lookupAll(codes(1201));
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    const sizes = mockFetch.mock.calls.map(([, opts]) => JSON.parse(opts.body).codes.length);
+    expect(sizes.sort((a, b) => b - a)).toEqual([500, 500, 201]);
+    expect(result.count).toBe(1201);
+  });
+
+  it("preserves input order across chunks", async () => {
+    mockFetch.mockImplementation(echoBatch());
+
+    const input = codes(250);
+    const result = await client.icd10.lookupAll(input, { concurrency: 3 });
+
+    expect(result.results.map((r) => r.input)).toEqual(input);
+  });
+
+  it("honors a smaller chunkSize and passes shape through", async () => {
+    mockFetch.mockImplementation(echoBatch());
+
+    await client.rxnorm.lookupAll(codes(30), { chunkSize: 10, shape: "full" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    const [url, opts] = mockFetch.mock.calls[0]!;
+    expect(url).toBe("https://api.fhirfly.io/v1/rxnorm/_batch?shape=full");
+    expect(JSON.parse(opts.body)).toEqual({ codes: codes(10) });
+  });
+
+  it("never exceeds the endpoint limit even with a larger chunkSize", async () => {
+    mockFetch.mockImplementation(echoBatch());
+
+    await client.fdaLabels.lookupAll(codes(120), { chunkSize: 500 });
+
+    const sizes = mockFetch.mock.calls.map(([, opts]) => JSON.parse(opts.body).codes.length);
+    expect(Math.max(...sizes)).toBe(50);
+  });
+
+  it("bounds concurrency", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const echo = echoBatch();
+    mockFetch.mockImplementation(async (url: string, opts: { body: string }) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return echo(url, opts);
+    });
+
+    await client.snomed.lookupAll(codes(1000), { concurrency: 2 });
+
+    expect(mockFetch).toHaveBeenCalledTimes(10);
+    expect(peak).toBe(2);
+  });
+
+  it("merges meta into a single object", async () => {
+    mockFetch.mockImplementation(echoBatch({ source: { name: "CMS", version: "2026Q2" } }));
+
+    const result = await client.claims.lookupMueAll(codes(150));
+
+    expect(result.meta).toEqual({
+      legal: { license: "public_domain" },
+      source: { name: "CMS", version: "2026Q2" },
+    });
+  });
+
+  it("supports PFS and the remaining endpoints", async () => {
+    mockFetch.mockImplementation(echoBatch());
+
+    await client.claims.lookupPfsAll(codes(101));
+    await client.npi.lookupAll(codes(101));
+    await client.loinc.lookupAll(codes(101));
+    await client.cvx.lookupAll(codes(101));
+    await client.mvx.lookupAll(codes(101));
+
+    expect(mockFetch).toHaveBeenCalledTimes(10);
+  });
+
+  it("rejects when any chunk fails", async () => {
+    const echo = echoBatch();
+    mockFetch
+      .mockImplementationOnce(echo)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        headers: new Headers(),
+        json: () => Promise.resolve({ message: "down" }),
+      })
+      .mockImplementation(echo);
+
+    await expect(client.ndc.lookupAll(codes(1500), { concurrency: 1 })).rejects.toThrow(ServerError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws ValidationError for empty input", async () => {
+    await expect(client.ndc.lookupAll([])).rejects.toThrow(ValidationError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("throws ValidationError for invalid concurrency", async () => {
+    await expect(client.ndc.lookupAll(["1"], { concurrency: 0 })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe("batch helpers", () => {
+  it("chunk splits arrays", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("mapConcurrent preserves order", async () => {
+    const result = await mapConcurrent([30, 10, 20], 3, async (ms, i) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return i;
+    });
+    expect(result).toEqual([0, 1, 2]);
+  });
+});
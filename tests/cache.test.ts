@@ -0,0 +1,200 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Fhirfly, MemoryCache, type CacheAdapter, type CacheEntry } from "../src/index.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function apiResponse(data: unknown, source?: { version?: string; fhirfly_updated_at?: string }) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers(),
+    json: () =>
+      Promise.resolve({
+        data,
+        meta: {
+          legal: { license: "public_domain" },
+          shape: source ? "full" : "standard",
+          api_version: "1.0",
+          ...(source ? { source: { name: "FDA NDC Directory", ...source } } : {}),
+        },
+      }),
+  };
+}
+
+describe("Response cache", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("does not cache when the option is not set", async () => {
+    mockFetch.mockResolvedValue(apiResponse({ ndc: "123" }));
+    const client = new Fhirfly({ apiKey: "test-key" });
+
+    await client.ndc.lookup("123");
+    await client.ndc.lookup("123");
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves repeat lookups from the cache", async () => {
+    mockFetch.mockResolvedValue(apiResponse({ ndc: "123" }));
+    const client = new Fhirfly({ apiKey: "test-key", cache: true });
+
+    const first = await client.ndc.lookup("123");
+    const second = await client.ndc.lookup("123");
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(second).toEqual(first);
+  });
+
+  it("keys entries by shape and include", async () => {
+    mockFetch.mockResolvedValue(apiResponse({ ndc: "123" }));
+    const client = new Fhirfly({ apiKey: "test-key", cache: true });
+
+    await client.ndc.lookup("123");
+    await client.ndc.lookup("123", { shape: "full" });
+    await client.ndc.lookup("123", { shape: "full", include: ["display"] });
+    await client.ndc.lookup("123", { shape: "full" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not cache batch POST requests", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(),
+      json: () => Promise.resolve({ count: 0, results: [], meta: { legal: { license: "public_domain" } } }),
+    });
+    const client = new Fhirfly({ apiKey: "test-key", cache: true });
+
+    await client.ndc.lookupMany(["123"]);
+    await client.ndc.lookupMany(["123"]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("expires entries after the TTL", async () => {
+    vi.useFakeTimers();
+    mockFetch.mockResolvedValue(apiResponse({ ndc: "123" }));
+    const client = new Fhirfly({ apiKey: "test-key", cache: { ttl: 1000 } });
+
+    await client.ndc.lookup("123");
+    vi.advanceTimersByTime(999);
+    await client.ndc.lookup("123");
+    expect(mockFetch).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(1);
+    await client.ndc.lookup("123");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("applies per-endpoint TTL overrides", async () => {
+    mockFetch.mockResolvedValue(apiResponse({ code: "E11.9" }));
+    const client = new Fhirfly({
+      apiKey: "test-key",
+      cache: { endpointTtl: { icd10: 0 } },
+    });
+
+    await client.icd10.lookup("E11.9");
+    await client.icd10.lookup("E11.9");
+    await client.ndc.lookup("123");
+    await client.ndc.lookup("123");
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("invalidates entries when the source version changes", async () => {
+    mockFetch
+      .mockResolvedValueOnce(apiResponse({ ndc: "123" }, { version: "2026-03" }))
+      .mockResolvedValueOnce(apiResponse({ ndc: "456" }, { version: "2026-04" }))
+      .mockResolvedValueOnce(apiResponse({ ndc: "123" }, { version: "2026-04" }));
+    const client = new Fhirfly({ apiKey: "test-key", cache: true });
+
+    await client.ndc.lookup("123", { shape: "full" });
+    await client.ndc.lookup("456", { shape: "full" });
+    await client.ndc.lookup("123", { shape: "full" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("invalidates entries when fhirfly_updated_at changes on a batch response", async () => {
+    mockFetch
+      .mockResolvedValueOnce(apiResponse({ ndc: "123" }, { fhirfly_updated_at: "2026-03-01T00:00:00Z" }))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        headers: new Headers(),
+        json: () =>
+          Promise.resolve({
+            count: 0,
+            results: [],
+            meta: {
+              legal: { license: "public_domain" },
+              source: { name: "FDA NDC Directory", fhirfly_updated_at: "2026-04-01T00:00:00Z" },
+            },
+          }),
+      })
+      .mockResolvedValueOnce(apiResponse({ ndc: "123" }, { fhirfly_updated_at: "2026-04-01T00:00:00Z" }));
+    const client = new Fhirfly({ apiKey: "test-key", cache: true });
+
+    await client.ndc.lookup("123", { shape: "full" });
+    await client.ndc.lookupMany(["456"], { shape: "full" });
+    await client.ndc.lookup("123", { shape: "full" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("uses a custom adapter", async () => {
+    const store = new Map<string, CacheEntry>();
+    const adapter: CacheAdapter = {
+      get: vi.fn(async (key: string) => store.get(key)),
+      set: vi.fn(async (key: string, entry: CacheEntry) => {
+        store.set(key, entry);
+      }),
+      delete: vi.fn(async (key: string) => {
+        store.delete(key);
+      }),
+    };
+    mockFetch.mockResolvedValue(apiResponse({ rxcui: "213169" }));
+    const client = new Fhirfly({ apiKey: "test-key", cache: { adapter, ttl: 5000 } });
+
+    await client.rxnorm.lookup("213169");
+    await client.rxnorm.lookup("213169");
+
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(adapter.set).toHaveBeenCalledWith(
+      "fhirfly:GET:/v1/rxnorm/213169",
+      expect.objectContaining({ value: expect.anything() }),
+      5000
+    );
+  });
+});
+
+describe("MemoryCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new MemoryCache(2);
+    const entry = (value: string): CacheEntry => ({ value, expiresAt: Infinity });
+
+    cache.set("a", entry("a"));
+    cache.set("b", entry("b"));
+    cache.get("a");
+    cache.set("c", entry("c"));
+
+    expect(cache.size).toBe(2);
+    expect(cache.get("a")).toBeDefined();
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBeDefined();
+  });
+});
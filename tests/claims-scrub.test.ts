@@ -0,0 +1,230 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly } from "../src/index.js";
+import { ValidationError } from "../src/errors.js";
+import { FakeFhirflyApi, type FakeApiFixtures } from "../src/testing/index.js";
+import type { MueLookupData, PfsLookupData, CoverageCheckData, NcciValidateData } from "../src/index.js";
+
+function mue(code: string, value: number, mai: number): MueLookupData {
+  return {
+    hcpcs_code: code,
+    limits: [
+      {
+        hcpcs_code: code,
+        service_type: "practitioner",
+        mue_value: value,
+        adjudication_indicator: mai,
+        adjudication_indicator_display: `MAI ${mai}`,
+        rationale: "Clinical",
+      },
+    ],
+  };
+}
+
+function pfs(code: string, nonFacility: number, facility: number, status = "A"): PfsLookupData {
+  return {
+    hcpcs_code: code,
+    description: code,
+    status_code: status,
+    rvu: { work: 1, pe_non_facility: 1, pe_facility: 0.5, mp: 0.1, total_non_facility: 2.1, total_facility: 1.6 },
+    conversion_factor: 32.74,
+    calculated_payment: { non_facility: nonFacility, facility },
+    indicators: { global_days: null, multiple_surgery: null, bilateral_surgery: null },
+  };
+}
+
+function coverage(code: string, active: boolean): CoverageCheckData {
+  return {
+    hcpcs_code: code,
+    policies_found: 1,
+    policies: [
+      {
+        policy_type: "lcd",
+        policy_id: "L1",
+        display_id: "L00001",
+        policy_title: "Policy",
+        hcpcs_description: code,
+        status: active ? "A" : "R",
+        is_active: active,
+        effective_date: null,
+      },
+    ],
+    summary: "",
+  };
+}
+
+function ncci(code1: string, code2: string, modifierAllowed: boolean): NcciValidateData {
+  return {
+    code1,
+    code2,
+    can_bill_together: false,
+    edits: [
+      {
+        claim_type: "practitioner",
+        modifier_indicator: modifierAllowed ? "1" : "0",
+        modifier_allowed: modifierAllowed,
+        effective_date: null,
+        is_active: true,
+        rationale: "Misuse of column two code with column one code",
+      },
+    ],
+    summary: "",
+  };
+}
+
+const fixtures: FakeApiFixtures = {
+  mue: { "99214": mue("99214", 1, 2), "96372": mue("96372", 4, 3), "20610": mue("20610", 1, 1) },
+  pfs: { "99214": pfs("99214", 128.5, 93.1), "96372": pfs("96372", 14.2, 14.2), "20610": pfs("20610", 66, 40) },
+  coverage: { "99214": coverage("99214", true), "96372": coverage("96372", true), "20610": coverage("20610", false) },
+  ncci: { "20610|99214": ncci("20610", "99214", true), "96372|20610": ncci("96372", "20610", false) },
+};
+
+describe("claims.scrubClaim", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi(fixtures);
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch });
+  });
+
+  it("returns a clean result with payment estimates", async () => {
+    const result = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "99214", pos: "11", dx: ["E11.9"] },
+        { hcpcs: "96372", units: 2, pos: "22", dx: ["E11.9"] },
+      ],
+    });
+
+    expect(result.clean).toBe(true);
+    expect(result.edits).toEqual([]);
+    expect(result.lines).toEqual([
+      { line: 0, hcpcs: "99214", units: 1, setting: "non_facility", mue: { limit: 1, adjudication_indicator: 2 }, coverage_policies: 1, unit_payment: 128.5, estimated_payment: 128.5 },
+      { line: 1, hcpcs: "96372", units: 2, setting: "facility", mue: { limit: 4, adjudication_indicator: 3 }, coverage_policies: 1, unit_payment: 14.2, estimated_payment: 28.4 },
+    ]);
+    expect(result.estimated_payment).toBe(156.9);
+  });
+
+  it("checks every pair of distinct codes once", async () => {
+    await client.claims.scrubClaim({
+      lines: [{ hcpcs: "99214" }, { hcpcs: "96372" }, { hcpcs: "20610" }, { hcpcs: "99214" }],
+    });
+
+    const pairs = api.requests
+      .filter((r) => r.path === "/v1/ncci/validate")
+      .map((r) => `${r.query.get("code1")}|${r.query.get("code2")}`);
+    expect(pairs.sort()).toEqual(["96372|20610", "99214|20610", "99214|96372"]);
+    expect(api.requests.filter((r) => r.path === "/v1/coverage/check")).toHaveLength(3);
+  });
+
+  it("flags NCCI edits by modifier indicator", async () => {
+    const result = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "99214", dx: ["M17.11"] },
+        { hcpcs: "96372", dx: ["M17.11"] },
+        { hcpcs: "20610", dx: ["M17.11"] },
+      ],
+    });
+
+    expect(result.clean).toBe(false);
+    const ptp = result.edits.find((e) => e.rule === "ncci_ptp");
+    expect(ptp).toMatchObject({ severity: "error", lines: [1, 2], codes: ["96372", "20610"] });
+    const required = result.edits.find((e) => e.rule === "ncci_modifier_required");
+    expect(required).toMatchObject({ severity: "warning", lines: [0, 2] });
+  });
+
+  it("treats an NCCI-associated modifier as a bypass", async () => {
+    const result = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "99214", modifiers: ["25"], dx: ["M17.11"] },
+        { hcpcs: "20610", dx: ["M17.11"] },
+      ],
+    });
+
+    expect(result.edits.find((e) => e.rule === "ncci_modifier_bypass")?.severity).toBe("info");
+    expect(result.edits.some((e) => e.rule === "ncci_modifier_required")).toBe(false);
+  });
+
+  it("requires the modifier on the column two code", async () => {
+    const result = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "99214", dx: ["M17.11"] },
+        { hcpcs: "20610", modifiers: ["59"], dx: ["M17.11"] },
+      ],
+    });
+
+    expect(result.edits.some((e) => e.rule === "ncci_modifier_bypass")).toBe(false);
+    expect(result.edits.find((e) => e.rule === "ncci_modifier_required")).toMatchObject({
+      lines: [0, 1],
+      codes: ["20610", "99214"],
+    });
+  });
+
+  it("takes the columns from the edit when the column two code is on an earlier line", async () => {
+    const result = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "99214", modifiers: ["XU"], dx: ["M17.11"] },
+        { hcpcs: "20610", modifiers: ["59"], dx: ["M17.11"] },
+      ],
+    });
+
+    const query = api.requests.find((r) => r.path === "/v1/ncci/validate")?.query;
+    expect([query?.get("code1"), query?.get("code2")]).toEqual(["99214", "20610"]);
+    expect(result.edits.find((e) => e.rule === "ncci_modifier_bypass")).toMatchObject({
+      lines: [0, 1],
+      codes: ["20610", "99214"],
+    });
+
+    const unmodified = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "99214", dx: ["M17.11"] },
+        { hcpcs: "20610", modifiers: ["XU"], dx: ["M17.11"] },
+      ],
+    });
+    expect(unmodified.edits.find((e) => e.rule === "ncci_modifier_required")?.message).toContain("on 99214");
+  });
+
+  it("applies MUE limits per line or per date of service by adjudication indicator", async () => {
+    const result = await client.claims.scrubClaim({
+      lines: [
+        { hcpcs: "20610", units: 2, dx: ["M17.11"] },
+        { hcpcs: "99214", units: 1, dx: ["M17.11"] },
+        { hcpcs: "99214", units: 1, dx: ["M17.11"] },
+        { hcpcs: "96372", units: 3, dx: ["M17.11"] },
+        { hcpcs: "96372", units: 3, dx: ["M17.11"] },
+      ],
+    });
+
+    const mueEdits = result.edits.filter((e) => e.rule === "mue_exceeded");
+    expect(mueEdits.map((e) => [e.codes[0], e.severity, e.lines])).toEqual([
+      ["20610", "error", [0]],
+      ["99214", "error", [1, 2]],
+      ["96372", "warning", [3, 4]],
+    ]);
+  });
+
+  it("flags missing coverage, diagnoses, and fee schedule entries", async () => {
+    api.seed({ pfs: { J3490: pfs("J3490", 12.5, 12.5, "N") } });
+
+    const result = await client.claims.scrubClaim({
+      lines: [{ hcpcs: "20610" }, { hcpcs: "j3490", dx: ["M17.11"] }, { hcpcs: "G9999", dx: ["M17.11"] }],
+    });
+
+    expect(result.edits.map((e) => e.rule)).toEqual(
+      expect.arrayContaining(["missing_diagnosis", "no_coverage_policy", "pfs_status", "pfs_not_found"])
+    );
+    expect(result.edits.find((e) => e.rule === "pfs_status")?.codes).toEqual(["J3490"]);
+    expect(result.edits.at(-1)?.severity).toBe("info");
+    expect(result.lines[1]?.estimated_payment).toBeUndefined();
+    expect(result.lines[2]?.estimated_payment).toBeUndefined();
+    expect(result.estimated_payment).toBe(66);
+  });
+
+  it("validates the claim before making requests", async () => {
+    await expect(client.claims.scrubClaim({ lines: [] })).rejects.toThrow(ValidationError);
+    await expect(client.claims.scrubClaim({ lines: [{ hcpcs: "99214", units: 0 }] })).rejects.toThrow(ValidationError);
+    await expect(client.claims.scrubClaim({ lines: [{ hcpcs: " " }] })).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+});
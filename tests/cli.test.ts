@@ -0,0 +1,358 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { run, type CliIo } from "../src/cli/run.js";
+import { parseArgs } from "../src/cli/commands.js";
+import { flatten } from "../src/cli/output.js";
+import { parseCsvLine } from "../src/cli/input.js";
+import { FakeFhirflyApi, faults } from "../src/testing/index.js";
+import type { CvxData } from "../src/index.js";
+
+const covid = {
+  code: "208",
+  display: "COVID-19, mRNA",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+} satisfies CvxData;
+
+const flu = {
+  code: "141",
+  display: "Influenza, seasonal, injectable",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "Influenza virus vaccine",
+  is_covid_vaccine: false,
+  vaccine_type: "inactivated",
+} satisfies CvxData;
+
+describe("CLI", () => {
+  let api: FakeFhirflyApi;
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+
+  function io(overrides: Partial<CliIo> = {}): CliIo {
+    return {
+      stdout: { write: (s: string) => (stdout += s) },
+      stderr: { write: (s: string) => (stderr += s) },
+      stdin: Readable.from([]),
+      env: { FHIRFLY_API_KEY: "test-key", FHIRFLY_PROFILE_FILE: join(dir, "missing.json") },
+      fetch: api.fetch,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    api = new FakeFhirflyApi({ cvx: { "208": covid, "141": flu } });
+    dir = await mkdtemp(join(tmpdir(), "fhirfly-cli-"));
+    stdout = "";
+    stderr = "";
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("looks up a code and prints the JSON response", async () => {
+    const code = await run(["cvx", "lookup", "208", "--shape", "full"], io());
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).data).toEqual(covid);
+    expect(api.requests[0]?.query.get("shape")).toBe("full");
+  });
+
+  it("accepts kebab-case endpoint and method names", async () => {
+    const code = await run(["cvx", "lookup-many", "208", "141", "--format", "ndjson"], io());
+
+    expect(code).toBe(0);
+    const lines = stdout.trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.input)).toEqual(["208", "141"]);
+  });
+
+  it("passes unknown flags through as search parameters", async () => {
+    const code = await run(["cvx", "search", "--vaccine_type", "mRNA", "--limit", "5", "--format", "csv"], io());
+
+    expect(code).toBe(0);
+    expect(api.requests[0]?.query.get("vaccine_type")).toBe("mRNA");
+    expect(api.requests[0]?.query.get("limit")).toBe("5");
+    expect(stdout.split("\n")[0]).toBe("code,display,status,code_system,full_vaccine_name,is_covid_vaccine,vaccine_type");
+    expect(stdout.split("\n")[1]).toContain("208,");
+  });
+
+  it("streams search-all results as a table", async () => {
+    const code = await run(["cvx", "search-all", "--status", "active", "--limit", "1", "--format", "table"], io());
+
+    expect(code).toBe(0);
+    expect(api.requests).toHaveLength(2);
+    const [header, rule, ...rows] = stdout.trim().split("\n");
+    expect(header).toMatch(/^code\s+display/);
+    expect(rule).toMatch(/^-+\s+-+/);
+    expect(rows).toHaveLength(2);
+  });
+
+  it("streams codes from a CSV file through lookupAll", async () => {
+    const file = join(dir, "codes.csv");
+    await writeFile(file, 'name,cvx\n"Covid, mRNA",208\nFlu,141\nUnknown,999\n');
+
+    const code = await run(["cvx", "lookup-many", "--file", file, "--column", "cvx", "--format", "csv"], io());
+
+    expect(code).toBe(0);
+    const [header, ...rows] = stdout.trim().split("\n");
+    expect(header?.startsWith("input,status,code")).toBe(true);
+    expect(rows.map((r) => r.split(",").slice(0, 2).join(","))).toEqual(["208,ok", "141,ok", "999,not_found"]);
+  });
+
+  it("reads codes from stdin", async () => {
+    const code = await run(
+      ["cvx", "lookup-all", "--file", "-", "--format", "ndjson"],
+      io({ stdin: Readable.from(["208\n141\n"]) })
+    );
+
+    expect(code).toBe(0);
+    expect(stdout.trim().split("\n")).toHaveLength(2);
+  });
+
+  it("reads JSON input for claim scrubbing", async () => {
+    const file = join(dir, "claim.json");
+    await writeFile(file, JSON.stringify({ lines: [{ hcpcs: "99213", dx: ["E11.9"] }] }));
+
+    const code = await run(["claims", "scrub-claim", "--file", file, "--format", "ndjson"], io());
+
+    expect(code).toBe(0);
+    const edits = stdout.trim().split("\n").map((l) => JSON.parse(l));
+    expect(edits.map((e) => e.rule)).toEqual(["no_coverage_policy", "pfs_not_found"]);
+  });
+
+  it("resolves a drug with --type and --no-labels", async () => {
+    api = new FakeFhirflyApi({
+      rxnorm: { "617312": { rxcui: "617312", name: "atorvastatin 10 MG Oral Tablet", tty: "SCD" } },
+    });
+
+    const code = await run(["drugs", "resolve", "617312", "--type", "rxcui", "--no-labels"], io());
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).roots).toEqual(["rxnorm:617312"]);
+    expect(api.requests.map((request) => request.path)).toEqual(["/v1/rxnorm/_batch"]);
+  });
+
+  it("finds drug equivalents with boolean filter flags", async () => {
+    api = new FakeFhirflyApi({
+      rxnorm: { "617312": { rxcui: "617312", name: "atorvastatin 10 MG Oral Tablet", tty: "SCD" } },
+    });
+
+    const code = await run(["drugs", "find-equivalents", "617312", "--type", "rxcui", "--no-active-only"], io());
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).clinical_drug.rxcui).toBe("617312");
+    const search = api.requests.find((request) => request.path === "/v1/ndc/search");
+    expect(search?.query.get("rxcui")).toBe("617312");
+    expect(search?.query.has("is_active")).toBe(false);
+  });
+
+  it("builds a provider profile", async () => {
+    api = new FakeFhirflyApi();
+
+    const code = await run(["providers", "profile", "1234567893"], io());
+
+    expect(code).toBe(0);
+    const profile = JSON.parse(stdout);
+    expect(profile.npi).toBe("1234567893");
+    expect(profile.demographics.status).toBe("not_found");
+    expect(profile.medicaid.status).toBe("skipped");
+  });
+
+  it("walks the ICD-10-CM hierarchy", async () => {
+    const cm = (code: string, billable: boolean) => [
+      code,
+      { code, type: "cm", display: code, chapter: "4", section: "E08-E13", billable, is_header: !billable },
+    ];
+    api = new FakeFhirflyApi({
+      icd10: Object.fromEntries([cm("E11", false), cm("E11.6", false), cm("E11.65", true), cm("E11.9", true)]),
+    });
+
+    expect(await run(["icd10", "parent", "E11.65"], io())).toBe(0);
+    expect(JSON.parse(stdout).code).toBe("E11.6");
+
+    stdout = "";
+    expect(await run(["icd10", "descendants", "E11", "--billable-only", "--format", "ndjson"], io())).toBe(0);
+    expect(stdout.trim().split("\n").map((line) => JSON.parse(line).code)).toEqual(["E11.65", "E11.9"]);
+
+    stdout = "";
+    expect(await run(["icd10", "billable-codes", "E11.-", "--format", "csv"], io())).toBe(0);
+    expect(stdout.trim().split("\n").slice(1).map((row) => row.split(",")[0])).toEqual(["E11.65", "E11.9"]);
+  });
+
+  it("checks an ICD-10-CM code set from arguments or a file", async () => {
+    const cm = (code: string, billable: boolean, notes: Record<string, unknown> = {}) => [
+      code,
+      { code, type: "cm", display: code, billable, is_header: !billable, ...notes },
+    ];
+    api = new FakeFhirflyApi({
+      icd10: Object.fromEntries([
+        cm("E10", false),
+        cm("E10.9", true),
+        cm("E11", false, { excludes1: ["type 1 diabetes mellitus (E10.-)"] }),
+        cm("E11.9", true),
+        cm("Z99", false),
+        cm("Z99.2", true, { end_date: "2023-09-30" }),
+      ]),
+    });
+
+    const code = await run(["icd10", "check-code-set", "E11.9", "E10.9", "--date", "2024-06-30", "--format", "ndjson"], io());
+
+    expect(code).toBe(0);
+    expect(stdout.trim().split("\n").map((line) => JSON.parse(line).rule)).toEqual(["excludes1"]);
+
+    const file = join(dir, "encounter.txt");
+    await writeFile(file, "E11.9\nZ99.2\n");
+    stdout = "";
+
+    expect(await run(["icd10", "check-code-set", "--file", file, "--date", "2024-06-30"], io())).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.findings.map((finding: { rule: string }) => finding.rule)).toEqual(["not_effective"]);
+    expect(result.codes).toHaveLength(2);
+  });
+
+  it("runs nested ICD-10-PCS helper methods", async () => {
+    const pcs = (code: string, approach: string) => [
+      code,
+      { code, type: "pcs", display: code, billable: true, root_operation: "Resection", approach },
+    ];
+    api = new FakeFhirflyApi({ icd10: Object.fromEntries([pcs("0DTJ0ZZ", "Open"), pcs("0DTJ4ZZ", "Percutaneous Endoscopic")]) });
+
+    expect(await run(["icd10", "pcs.decode", "0DTJ4ZZ"], io())).toBe(0);
+    expect(JSON.parse(stdout).axes[2]).toEqual({ position: 3, name: "Root Operation", value: "T", label: "Resection" });
+
+    stdout = "";
+    expect(await run(["icd10", "pcs.next-options", "0DTJ", "--format", "csv"], io())).toBe(0);
+    expect(stdout.trim().split("\n")).toEqual(["value,count,label", "0,1,Open", "4,1,Percutaneous Endoscopic"]);
+  });
+
+  it("finds LOINC variants and part facets", async () => {
+    const loinc = (code: string, system: string, method: string | null) => [
+      code,
+      {
+        code,
+        display_name: code,
+        status: "ACTIVE",
+        parts: { component: "Glucose", property: "MCnc", time_aspct: "Pt", system, scale_typ: "Qn", method_typ: method },
+        units: { example_units: null, example_ucum_units: null },
+      },
+    ];
+    api = new FakeFhirflyApi({
+      loinc: Object.fromEntries([
+        loinc("2345-7", "Ser/Plas", null),
+        loinc("2339-0", "Bld", null),
+        loinc("41653-7", "BldC", "Glucometer"),
+      ]),
+    });
+
+    expect(await run(["loinc", "find-variants", "2345-7", "--vary", "system,method", "--format", "csv"], io())).toBe(0);
+    expect(stdout.trim().split("\n").slice(1).map((row) => row.split(",")[0])).toEqual(["2339-0", "41653-7"]);
+
+    stdout = "";
+    expect(await run(["loinc", "facet-parts", "--component", "Glucose", "--max-pages", "1"], io())).toBe(0);
+    expect(JSON.parse(stdout).facets.system).toHaveLength(3);
+    expect(api.requests.at(-1)?.query.get("component")).toBe("Glucose");
+  });
+
+  it("reads local lab tests from a file for LOINC mapping suggestions", async () => {
+    api = new FakeFhirflyApi({
+      loinc: {
+        "2345-7": {
+          code: "2345-7",
+          display_name: "Glucose [Mass/volume] in Serum or Plasma",
+          status: "ACTIVE",
+          parts: { component: "Glucose", property: "MCnc", time_aspct: "Pt", system: "Ser/Plas", scale_typ: "Qn", method_typ: null },
+          units: { example_units: "mg/dL", example_ucum_units: "mg/dL" },
+          ranks: { common_test_rank: 1, common_order_rank: null },
+        },
+      },
+    });
+    const file = join(dir, "tests.json");
+    await writeFile(file, JSON.stringify([{ code: "GLU", name: "Glucose, serum", specimen: "Serum", units: "mg/dL" }]));
+
+    const code = await run(["loinc", "suggest-mappings", "--file", file, "--top", "1", "--format", "ndjson"], io());
+
+    expect(code).toBe(0);
+    const [suggestion] = stdout.trim().split("\n").map((line) => JSON.parse(line));
+    expect(suggestion.test.code).toBe("GLU");
+    expect(suggestion.candidates.map((candidate: { loinc: { code: string } }) => candidate.loinc.code)).toEqual(["2345-7"]);
+  });
+
+  it("reads credentials from a profile file", async () => {
+    const profileFile = join(dir, "credentials.json");
+    await writeFile(profileFile, JSON.stringify({ work: { apiKey: "profile-key" } }));
+
+    const code = await run(
+      ["cvx", "lookup", "208", "--profile", "work"],
+      io({ env: { FHIRFLY_PROFILE_FILE: profileFile } })
+    );
+
+    expect(code).toBe(0);
+    expect(api.requests[0]?.headers["x-api-key"]).toBe("profile-key");
+  });
+
+  it("exits 1 when credentials are missing", async () => {
+    const code = await run(["cvx", "lookup", "208"], io({ env: { FHIRFLY_PROFILE_FILE: join(dir, "none.json") } }));
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("No credentials found");
+  });
+
+  it("exits 1 with the error type on API errors", async () => {
+    api.fail(faults.quotaExceeded());
+
+    const code = await run(["cvx", "lookup", "208"], io());
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("QuotaExceededError");
+  });
+
+  it("exits 2 on usage errors", async () => {
+    expect(await run(["cvx"], io())).toBe(2);
+    expect(await run(["nope", "lookup", "1"], io())).toBe(2);
+    expect(await run(["cvx", "lookup"], io())).toBe(2);
+    expect(await run(["cvx", "lookup", "208", "--format", "xml"], io())).toBe(2);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("prints help", async () => {
+    const code = await run(["--help"], io());
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("claims validate-ncci <code1> <code2>");
+    expect(stdout).toContain("fda-labels search-all");
+    expect(stdout).toContain("icd10 pcs.next-options <code>");
+  });
+});
+
+describe("CLI helpers", () => {
+  it("parses flags", () => {
+    expect(parseArgs(["npi", "search", "--state", "CA", "--include=display", "--max-pages", "3", "--active"])).toEqual({
+      positionals: ["npi", "search"],
+      flags: { state: "CA", include: ["display"], maxPages: 3, active: true },
+    });
+    expect(parseArgs(["drugs", "resolve", "617312", "--no-labels", "--active-only"]).flags).toEqual({
+      labels: false,
+      activeOnly: true,
+    });
+  });
+
+  it("parses quoted CSV fields", () => {
+    expect(parseCsvLine('"a, b","say ""hi""", c')).toEqual(["a, b", 'say "hi"', "c"]);
+  });
+
+  it("flattens batch items and nested fields", () => {
+    expect(
+      flatten({ input: "1", status: "ok", data: { name: "x", route: ["ORAL", "IV"], address: { city: "Boston" } } })
+    ).toEqual({ input: "1", status: "ok", name: "x", route: "ORAL; IV", "address.city": "Boston" });
+  });
+});
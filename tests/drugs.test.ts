@@ -0,0 +1,367 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, AbortError, ValidationError, NotFoundError, detectDrugIdentifier } from "../src/index.js";
+import { FakeFhirflyApi, faults } from "../src/testing/index.js";
+import type { FdaLabelData, FhirflyConfig, NdcFull, NdcStandard, RxNormFull, SnomedConcept } from "../src/index.js";
+
+const SET_ID = "c6e131fe-e7df-4876-83f7-9156fc4e8228";
+
+const lipitorNdc = {
+  ndc: "0069-0151-01",
+  type: "package",
+  brand_name: "Lipitor",
+  generic_name: "atorvastatin calcium",
+  labeler_name: "Pfizer Laboratories Div Pfizer Inc",
+  dosage_form: "TABLET, FILM COATED",
+  route: ["ORAL"],
+  strength: "10 mg/1",
+  rxcui: ["617318"],
+  is_active: true,
+} satisfies NdcStandard;
+
+const lipitor = {
+  rxcui: "617318",
+  name: "atorvastatin 10 MG Oral Tablet [Lipitor]",
+  tty: "SBD",
+  ingredients: [{ rxcui: "83367", name: "atorvastatin" }],
+  brands: [{ rxcui: "153165", name: "Lipitor" }],
+  dose_form: { rxcui: "317541", name: "Oral Tablet" },
+  related: [{ rxcui: "617312", name: "atorvastatin 10 MG Oral Tablet", tty: "SCD", relation: "tradename_of" }],
+  ndcs: ["0069-0151-01", "0069-0151-02"],
+  snomed: [{ concept_id: "1145423002", display: "Atorvastatin 10 mg oral tablet", map_type: "equivalent", map_source: "derived-rxnorm" }],
+} satisfies RxNormFull;
+
+const generic = {
+  rxcui: "617312",
+  name: "atorvastatin 10 MG Oral Tablet",
+  tty: "SCD",
+  ingredients: [{ rxcui: "83367", name: "atorvastatin" }],
+} satisfies RxNormFull;
+
+const label = {
+  metadata: {
+    id: "label-1",
+    set_id: SET_ID,
+    version: "12",
+    effective_time: "20240101",
+    brand_name: ["Lipitor"],
+    generic_name: ["atorvastatin calcium"],
+    manufacturer_name: ["Pfizer Laboratories Div Pfizer Inc"],
+    product_ndc: ["0069-0151"],
+    package_ndc: ["0069-0151-01"],
+    rxcui: ["617318"],
+    product_type: ["HUMAN PRESCRIPTION DRUG"],
+    route: ["ORAL"],
+    pharm_class_epc: ["HMG-CoA Reductase Inhibitor [EPC]"],
+    available_sections: ["indications_and_usage"],
+  },
+} satisfies FdaLabelData;
+
+const tablet = {
+  concept_id: "1145423002",
+  active: true,
+  fsn: "Product containing precisely atorvastatin 10 milligram/1 each conventional release oral tablet (clinical drug)",
+  preferred_term: "Atorvastatin 10 mg oral tablet",
+  synonyms: null,
+  ips_category: "product",
+  semantic_tag: "clinical drug",
+} satisfies SnomedConcept;
+
+describe("detectDrugIdentifier", () => {
+  it("detects each identifier type from its format", () => {
+    expect(detectDrugIdentifier("0069-0151-01")).toBe("ndc");
+    expect(detectDrugIdentifier("00069015101")).toBe("ndc");
+    expect(detectDrugIdentifier("0069015101")).toBe("ndc");
+    expect(detectDrugIdentifier("617318")).toBe("rxcui");
+    expect(detectDrugIdentifier(SET_ID)).toBe("spl_set_id");
+    expect(detectDrugIdentifier("1145423002")).toBe("snomed");
+    expect(detectDrugIdentifier("373444002")).toBe("snomed");
+  });
+
+  it("returns null for unrecognized formats", () => {
+    expect(detectDrugIdentifier("atorvastatin")).toBeNull();
+    expect(detectDrugIdentifier("373444001")).toBeNull();
+    expect(detectDrugIdentifier("12-34")).toBeNull();
+  });
+});
+
+describe("drugs.resolve", () => {
+  let api: FakeFhirflyApi;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({
+      ndc: { "0069-0151-01": lipitorNdc },
+      rxnorm: { "617318": lipitor, "617312": generic },
+      fdaLabels: { [SET_ID]: label, "617318": label },
+      snomed: { "1145423002": tablet },
+      snomedMappings: {
+        "1145423002": {
+          snomed_code: "1145423002",
+          mappings: [
+            { source_system: "rxnorm", source_code: "617318", map_type: "equivalent", mapping_source: "derived-rxnorm" },
+            { source_system: "rxnorm", source_code: "617312", map_type: "equivalent", mapping_source: "derived-rxnorm" },
+            { source_system: "icd10_cm", source_code: "E78.5", map_type: "related", mapping_source: "snomed-extended-map" },
+          ],
+        },
+      },
+    });
+  });
+
+  function client(config: Partial<FhirflyConfig> = {}): Fhirfly {
+    return new Fhirfly({
+      apiKey: "test-key",
+      fetch: api.fetch,
+      retryDelay: 0,
+      telemetry: false,
+      ...config,
+    } as FhirflyConfig);
+  }
+
+  it("resolves an NDC through its RxNorm concept", async () => {
+    const profile = await client().drugs.resolve("0069-0151-01");
+
+    expect(profile.input_type).toBe("ndc");
+    expect(profile.roots).toEqual(["rxnorm:617318"]);
+    expect(profile.nodes).toContainEqual({
+      id: "rxnorm:617318",
+      system: "rxnorm",
+      code: "617318",
+      display: "atorvastatin 10 MG Oral Tablet [Lipitor]",
+      tty: "SBD",
+    });
+    expect(profile.nodes).toContainEqual({ id: "ndc:0069-0151-01", system: "ndc", code: "0069-0151-01", display: "Lipitor" });
+    expect(profile.edges).toEqual([
+      { from: "ndc:0069-0151-01", to: "rxnorm:617318", relation: "has_rxcui" },
+      { from: "rxnorm:617318", to: "rxnorm:83367", relation: "has_ingredient" },
+      { from: "rxnorm:617318", to: "rxnorm:153165", relation: "has_brand" },
+      { from: "rxnorm:617318", to: "rxnorm:317541", relation: "has_dose_form" },
+      { from: "rxnorm:617318", to: "rxnorm:617312", relation: "related", detail: "tradename_of" },
+      { from: "ndc:0069-0151-02", to: "rxnorm:617318", relation: "has_rxcui" },
+      { from: "rxnorm:617318", to: "snomed:1145423002", relation: "has_snomed", detail: "equivalent" },
+      { from: "rxnorm:617318", to: `fda_label:${SET_ID}`, relation: "has_label" },
+    ]);
+    expect(profile.records.ndc).toEqual([lipitorNdc]);
+    expect(profile.records.labels).toEqual([label]);
+  });
+
+  it("resolves an RxCUI with one batch request per hop", async () => {
+    const profile = await client().drugs.resolve("617318");
+
+    expect(profile.input_type).toBe("rxcui");
+    expect(profile.records.rxnorm).toEqual([lipitor]);
+    expect(api.requests.map((request) => `${request.method} ${request.path}`)).toEqual([
+      "POST /v1/rxnorm/_batch",
+      "POST /v1/fda-label/_batch",
+    ]);
+    expect(api.requests[0]?.query.get("shape")).toBe("full");
+  });
+
+  it("resolves an SPL set ID through the label's RxCUIs", async () => {
+    const profile = await client().drugs.resolve(SET_ID);
+
+    expect(profile.input_type).toBe("spl_set_id");
+    expect(profile.roots).toEqual(["rxnorm:617318"]);
+    expect(profile.nodes).toContainEqual({ id: `fda_label:${SET_ID}`, system: "fda_label", code: SET_ID, display: "Lipitor" });
+    expect(api.requests.map((request) => request.path)).toEqual([`/v1/fda-label/${SET_ID}`, "/v1/rxnorm/_batch"]);
+  });
+
+  it("resolves a SNOMED CT ID through its RxNorm reverse mappings", async () => {
+    const profile = await client().drugs.resolve("1145423002", { labels: false });
+
+    expect(profile.input_type).toBe("snomed");
+    expect(profile.roots).toEqual(["rxnorm:617318", "rxnorm:617312"]);
+    expect(profile.records.snomed).toEqual([tablet]);
+    expect(profile.edges).toContainEqual({
+      from: "rxnorm:617312",
+      to: "snomed:1145423002",
+      relation: "has_snomed",
+      detail: "equivalent",
+    });
+    expect(profile.nodes.filter((node) => node.id === "snomed:1145423002")).toHaveLength(1);
+    const batch = api.requests.find((request) => request.path === "/v1/rxnorm/_batch");
+    expect(batch?.body).toEqual({ codes: ["617318", "617312"] });
+  });
+
+  it("honors an explicit identifier type", async () => {
+    const profile = await client().drugs.resolve("617312", { type: "rxcui", labels: false });
+
+    expect(profile.roots).toEqual(["rxnorm:617312"]);
+  });
+
+  it("memoizes concept lookups when caching is enabled", async () => {
+    const fhirfly = client({ cache: true });
+
+    await fhirfly.drugs.resolve("617318");
+    await fhirfly.drugs.resolve("0069-0151-01");
+    await fhirfly.drugs.resolve("1145423002");
+
+    const batches = api.requests.filter((request) => request.method === "POST");
+    expect(batches.map((request) => [request.path, request.body])).toEqual([
+      ["/v1/rxnorm/_batch", { codes: ["617318"] }],
+      ["/v1/fda-label/_batch", { codes: ["617318"] }],
+      ["/v1/rxnorm/_batch", { codes: ["617312"] }],
+      ["/v1/fda-label/_batch", { codes: ["617312"] }],
+    ]);
+  });
+
+  it("shares only in-flight lookups without a cache", async () => {
+    const fhirfly = client();
+
+    await Promise.all([fhirfly.drugs.resolve("617318"), fhirfly.drugs.resolve("617318")]);
+    await fhirfly.drugs.resolve("617318");
+
+    expect(api.requests.filter((request) => request.path === "/v1/rxnorm/_batch")).toHaveLength(2);
+  });
+
+  it("refetches shared lookups when the call that started them is cancelled", async () => {
+    let calls = 0;
+    const fetch: typeof globalThis.fetch = (input, init) => {
+      if (calls++ > 0) return api.fetch(input, init);
+      return new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(new DOMException("This operation was aborted", "AbortError")));
+      });
+    };
+    const fhirfly = client({ fetch });
+    const controller = new AbortController();
+
+    const first = fhirfly.drugs.resolve("617318", { labels: false, signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const second = fhirfly.drugs.resolve("617318", { labels: false });
+    controller.abort();
+
+    await expect(first).rejects.toThrow(AbortError);
+    expect((await second).roots).toEqual(["rxnorm:617318"]);
+    expect(calls).toBe(2);
+  });
+
+  it("does not memoize failed lookups", async () => {
+    const fhirfly = client({ cache: true, maxRetries: 0 });
+    api.fail(faults.serverError(503), { times: 1 });
+
+    await expect(fhirfly.drugs.resolve("617318")).rejects.toThrow();
+    const profile = await fhirfly.drugs.resolve("617318");
+
+    expect(profile.roots).toEqual(["rxnorm:617318"]);
+  });
+
+  it("rejects identifiers whose type cannot be detected", async () => {
+    await expect(client().drugs.resolve("atorvastatin")).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("throws NotFoundError for an unknown NDC", async () => {
+    await expect(client().drugs.resolve("0000-0000-00")).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe("drugs.findEquivalents", () => {
+  let api: FakeFhirflyApi;
+
+  function pkg(ndc: string, overrides: Partial<NdcFull> = {}): NdcFull {
+    return {
+      ndc,
+      type: "package",
+      brand_name: null,
+      generic_name: "atorvastatin calcium",
+      labeler_name: "Greenstone LLC",
+      dosage_form: "TABLET, FILM COATED",
+      route: ["ORAL"],
+      strength: "10 mg/1",
+      rxcui: ["617312"],
+      is_active: true,
+      marketing_category: "NDA AUTHORIZED GENERIC",
+      application_number: "NDA020702",
+      product_type: "HUMAN PRESCRIPTION DRUG",
+      listing_expiration_date: null,
+      is_generic: true,
+      generic_basis: ["marketing_category"],
+      active_ingredients: [{ name: "ATORVASTATIN CALCIUM TRIHYDRATE", strength: "10", unit: "mg/1" }],
+      pharm_class: ["HMG-CoA Reductase Inhibitor [EPC]"],
+      dea_schedule: null,
+      ...overrides,
+    };
+  }
+
+  const brand = pkg("0069-0151-01", {
+    brand_name: "Lipitor",
+    labeler_name: "Pfizer Laboratories Div Pfizer Inc",
+    rxcui: ["617318"],
+    marketing_category: "NDA",
+    is_generic: false,
+    generic_basis: [],
+  });
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({
+      ndc: {
+        [brand.ndc]: brand,
+        "0069-0151-02": { ...brand, ndc: "0069-0151-02" },
+        "59762-0155-01": pkg("59762-0155-01"),
+        "59762-0155-02": pkg("59762-0155-02"),
+        "0378-3950-77": pkg("0378-3950-77", { labeler_name: "Mylan Pharmaceuticals Inc.", marketing_category: "ANDA", dosage_form: "TABLET" }),
+        "0378-3950-05": pkg("0378-3950-05", { labeler_name: "Mylan Pharmaceuticals Inc.", marketing_category: "ANDA", is_active: false }),
+        "60505-2578-9": pkg("60505-2578-9", { labeler_name: "Apotex Corp.", marketing_category: "ANDA", route: ["SUBLINGUAL"] }),
+        "59762-0155": pkg("59762-0155", { type: "product" }),
+      },
+      rxnorm: { "617318": lipitor, "617312": generic, "83367": { rxcui: "83367", name: "atorvastatin", tty: "IN" } },
+    });
+  });
+
+  function client(): Fhirfly {
+    return new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+  }
+
+  it("lists active generic packages of the branded NDC's clinical drug, grouped by labeler", async () => {
+    const result = await client().drugs.findEquivalents("0069-0151-01");
+
+    expect(result.input_type).toBe("ndc");
+    expect(result.source).toEqual({ rxcui: "617318", name: lipitor.name, tty: "SBD" });
+    expect(result.clinical_drug).toEqual({ rxcui: "617312", name: generic.name, tty: "SCD" });
+    expect(
+      result.groups.map((group) => [group.labeler_name, group.marketing_category, group.packages.map((p) => p.ndc)])
+    ).toEqual([
+      ["Apotex Corp.", "ANDA", ["60505-2578-9"]],
+      ["Greenstone LLC", "NDA AUTHORIZED GENERIC", ["59762-0155-01", "59762-0155-02"]],
+      ["Mylan Pharmaceuticals Inc.", "ANDA", ["0378-3950-77"]],
+    ]);
+    expect(result.total).toBe(4);
+    expect(result.groups[0]?.packages[0]).toHaveProperty("dea_schedule", null);
+
+    const search = api.requests.find((request) => request.path === "/v1/ndc/search");
+    expect(search?.query.get("rxcui")).toBe("617312");
+    expect(search?.query.get("is_active")).toBe("true");
+    expect(search?.query.get("shape")).toBe("full");
+  });
+
+  it("filters by the input NDC's route and dosage form", async () => {
+    const result = await client().drugs.findEquivalents("0069-0151-01", { sameRoute: true, sameDoseForm: true });
+
+    expect(result.groups.flatMap((group) => group.packages.map((p) => p.ndc))).toEqual(["59762-0155-01", "59762-0155-02"]);
+  });
+
+  it("includes inactive packages when activeOnly is false", async () => {
+    const result = await client().drugs.findEquivalents("0069-0151-01", { activeOnly: false });
+
+    expect(result.total).toBe(5);
+    expect(api.requests.find((request) => request.path === "/v1/ndc/search")?.query.has("is_active")).toBe(false);
+  });
+
+  it("starts from an SCD RxCUI without an NDC lookup", async () => {
+    const result = await client().drugs.findEquivalents("617312", { sameRoute: true });
+
+    expect(result.ndc).toBeNull();
+    expect(result.source).toEqual(result.clinical_drug);
+    expect(result.total).toBe(4);
+    expect(api.requests.map((request) => request.path)).toEqual(["/v1/rxnorm/_batch", "/v1/ndc/search"]);
+  });
+
+  it("rejects concepts that are not clinical drugs", async () => {
+    await expect(client().drugs.findEquivalents("83367")).rejects.toThrow(/term type IN/);
+    await expect(client().drugs.findEquivalents(SET_ID)).rejects.toThrow(ValidationError);
+  });
+
+  it("throws NotFoundError for an unknown RxCUI", async () => {
+    await expect(client().drugs.findEquivalents("999999")).rejects.toThrow(NotFoundError);
+  });
+});
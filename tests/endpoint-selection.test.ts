@@ -0,0 +1,144 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect } from "vitest";
+import { selectEndpoints } from "../src/index.js";
+import type { ConnectivityTargetData, NpiConnectivityData } from "../src/index.js";
+import { endpoint, target } from "./fixtures/connectivity.js";
+
+const now = new Date("2024-06-30T00:00:00Z");
+
+function connectivity(...targets: ConnectivityTargetData[]): NpiConnectivityData {
+  return {
+    npi: "1234567893",
+    provider_summary: { name: "Jane Doe", entity_type: "individual" },
+    connectivity_targets: targets,
+    meta: { data_as_of: "2024-06-30", disclaimer: "" },
+  };
+}
+
+function ids(selections: ReturnType<typeof selectEndpoints>): string[] {
+  return selections.map((selection) => selection.endpoint.endpoint_id);
+}
+
+describe("selectEndpoints", () => {
+  it("ranks production FHIR R4 first, then Direct, then by status, confidence, and uptime", () => {
+    const data = connectivity(
+      target("clinic", "medium", [
+        endpoint("direct", { type: "direct", url: "jdoe@direct.example.org" }),
+        endpoint("clinic-fhir", { availability: { ...endpoint("x").availability!, percentage: 99.9 } }),
+      ]),
+      target("system", "high", [
+        endpoint("stu3", { type: "fhir_stu3" }),
+        endpoint("unverified", { status: "unverified" }),
+        endpoint("system-fhir", { availability: { ...endpoint("x").availability!, percentage: 97 } }),
+      ])
+    );
+
+    const result = selectEndpoints(data, { now });
+
+    expect(ids(result)).toEqual(["system-fhir", "clinic-fhir", "unverified", "direct", "stu3"]);
+    expect(result.map((selection) => selection.rank)).toEqual([1, 2, 3, 4, 5]);
+    expect(result[0]?.target).toEqual({
+      target_id: "system",
+      name: "system",
+      type: "health_system",
+      link_type: "employed_by",
+      link_confidence: "high",
+    });
+  });
+
+  it("excludes sandbox and unhealthy endpoints by default, after the included ones", () => {
+    const data = connectivity(
+      target("system", "high", [
+        endpoint("sandbox", { scope: "sandbox" }),
+        endpoint("down", { status: "unreachable" }),
+        endpoint("ok"),
+      ])
+    );
+
+    const result = selectEndpoints(data, { now });
+
+    expect(ids(result)).toEqual(["ok", "down", "sandbox"]);
+    expect(result.map((selection) => [selection.included, selection.rank])).toEqual([
+      [true, 1],
+      [false, null],
+      [false, null],
+    ]);
+    expect(result[1]?.checks).toEqual([
+      { rule: "scope", passed: true, message: "production scope" },
+      { rule: "status", passed: false, message: "status unreachable is not one of active, unverified" },
+    ]);
+    expect(result[2]?.checks[0]).toEqual({ rule: "scope", passed: false, message: "scope is sandbox, not production" });
+  });
+
+  it("explains each configured rule", () => {
+    const data = connectivity(
+      target("system", "low", [
+        endpoint("flaky", {
+          last_verified_at: "2024-04-01T00:00:00Z",
+          availability: { ...endpoint("x").availability!, percentage: 91.5, consecutive_failures: 4 },
+          fhir_metadata: { security: { requires_udap: true } },
+          auth_requirements: { registration_required: true, allowlist_required: true },
+        }),
+      ])
+    );
+
+    const [selection] = selectEndpoints(data, {
+      types: ["fhir_r4", "direct"],
+      minUptime: 95,
+      maxConsecutiveFailures: 3,
+      maxStalenessDays: 30,
+      linkConfidence: ["high", "medium"],
+      allowUdap: false,
+      allowRegistration: false,
+      now,
+    });
+
+    expect(selection?.included).toBe(false);
+    expect(selection?.checks).toEqual([
+      { rule: "type", passed: true, message: "type fhir_r4" },
+      { rule: "scope", passed: true, message: "production scope" },
+      { rule: "status", passed: true, message: "status active" },
+      { rule: "uptime", passed: false, message: "uptime 91.5% is below 95%" },
+      { rule: "failures", passed: false, message: "4 consecutive failures (limit 3)" },
+      { rule: "staleness", passed: false, message: "verified 90 days ago (limit 30)" },
+      { rule: "link_confidence", passed: false, message: "link confidence low is not one of high, medium" },
+      { rule: "udap", passed: false, message: "requires UDAP" },
+      { rule: "registration", passed: false, message: "requires registration and allowlist approval" },
+    ]);
+  });
+
+  it("excludes endpoints without the data a rule needs", () => {
+    const data = connectivity(
+      target("system", "high", [endpoint("unknown", { availability: undefined, last_verified_at: undefined })])
+    );
+
+    const [selection] = selectEndpoints(data, { minUptime: 90, maxStalenessDays: 30, now });
+
+    expect(selection?.checks.filter((check) => !check.passed).map((check) => check.message)).toEqual([
+      "no availability data",
+      "never verified",
+    ]);
+  });
+
+  it("filters by type and honors a wider status and scope policy", () => {
+    const data = connectivity(
+      target("system", "high", [
+        endpoint("fhir"),
+        endpoint("direct", { type: "direct", scope: "unknown", status: "inactive" }),
+      ])
+    );
+
+    const result = selectEndpoints(data, {
+      types: ["direct"],
+      productionOnly: false,
+      statuses: ["active", "inactive"],
+      now,
+    });
+
+    expect(result.filter((selection) => selection.included).map((selection) => selection.endpoint.endpoint_id)).toEqual([
+      "direct",
+    ]);
+    expect(result[1]?.checks[0]).toEqual({ rule: "type", passed: false, message: "type fhir_r4 is not one of direct" });
+  });
+});
@@ -0,0 +1,243 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  Fhirfly,
+  FhirSystem,
+  FhirTerminologyFacade,
+  toOperationOutcome,
+  type FhirParameters,
+} from "../src/index.js";
+import { NotFoundError, ValidationError } from "../src/errors.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function apiResponse<T>(data: T, source?: { name: string; version: string }) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers(),
+    json: () =>
+      Promise.resolve({
+        data,
+        meta: { legal: { license: "public_domain" }, shape: "standard", api_version: "1.0", source },
+      }),
+  };
+}
+
+function notFound() {
+  return {
+    ok: false,
+    status: 404,
+    statusText: "Not Found",
+    headers: new Headers(),
+    json: () => Promise.resolve({ message: "not found" }),
+  };
+}
+
+function params(...parameter: FhirParameters["parameter"] & object): FhirParameters {
+  return { resourceType: "Parameters", parameter };
+}
+
+function get(out: FhirParameters, name: string) {
+  return out.parameter?.filter((p) => p.name === name) ?? [];
+}
+
+describe("FhirTerminologyFacade", () => {
+  let facade: FhirTerminologyFacade;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    facade = new FhirTerminologyFacade(new Fhirfly({ apiKey: "test-key", maxRetries: 0 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("$lookup", () => {
+    it("looks up a LOINC code and returns part properties", async () => {
+      mockFetch.mockResolvedValueOnce(
+        apiResponse(
+          {
+            code: "2345-7",
+            display_name: "Glucose [Mass/volume] in Serum or Plasma",
+            shortname: "Glucose SerPl-mCnc",
+            long_name: null,
+            class: "CHEM",
+            status: "ACTIVE",
+            order_obs: "Both",
+            parts: { component: "Glucose", property: "MCnc", time_aspct: "Pt", system: "Ser/Plas", scale_typ: "Qn", method_typ: null },
+            units: { example_units: "mg/dL", example_ucum_units: "mg/dL" },
+            map_to: [],
+            fhir_coding: { system: "http://loinc.org", code: "2345-7", display: "Glucose" },
+          },
+          { name: "LOINC", version: "2.77" }
+        )
+      );
+
+      const out = await facade.lookup(
+        params({ name: "system", valueUri: FhirSystem.LOINC }, { name: "code", valueCode: "2345-7" })
+      );
+
+      const [url] = mockFetch.mock.calls[0]!;
+      expect(url).toBe("https://api.fhirfly.io/v1/loinc/2345-7");
+      expect(get(out, "name")[0]?.valueString).toBe("LOINC");
+      expect(get(out, "version")[0]?.valueString).toBe("2.77");
+      expect(get(out, "display")[0]?.valueString).toBe("Glucose [Mass/volume] in Serum or Plasma");
+      const properties = get(out, "property").map((p) => p.part?.[0]?.valueCode);
+      expect(properties).toContain("COMPONENT");
+      expect(properties).toContain("inactive");
+      expect(properties).not.toContain("METHOD_TYP");
+    });
+
+    it("returns SNOMED designations", async () => {
+      mockFetch.mockResolvedValueOnce(
+        apiResponse({
+          concept_id: "73211009",
+          active: true,
+          fsn: "Diabetes mellitus (disorder)",
+          preferred_term: "Diabetes mellitus",
+          synonyms: ["DM - Diabetes mellitus"],
+          ips_category: "condition",
+          semantic_tag: "disorder",
+        })
+      );
+
+      const out = await facade.lookup(
+        params({ name: "coding", valueCoding: { system: FhirSystem.SNOMED, code: "73211009" } })
+      );
+
+      expect(get(out, "display")[0]?.valueString).toBe("Diabetes mellitus");
+      expect(get(out, "designation")).toHaveLength(2);
+    });
+
+    it("rejects ICD-10-PCS codes looked up under the CM system", async () => {
+      mockFetch.mockResolvedValueOnce(apiResponse({ code: "02HA0QZ", type: "pcs", display: "Insertion" }));
+
+      await expect(
+        facade.lookup(params({ name: "system", valueUri: FhirSystem.ICD10_CM }, { name: "code", valueCode: "02HA0QZ" }))
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it("throws ValidationError for unsupported systems", async () => {
+      await expect(
+        facade.lookup(params({ name: "system", valueUri: "http://example.org" }, { name: "code", valueCode: "1" }))
+      ).rejects.toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("$validate-code", () => {
+    it("returns true for a known code", async () => {
+      mockFetch.mockResolvedValueOnce(apiResponse({ code: "208", display: "COVID-19 vaccine", status: "Active" }));
+
+      const out = await facade.validateCode(
+        params({ name: "url", valueUri: FhirSystem.CVX }, { name: "code", valueCode: "208" })
+      );
+
+      expect(get(out, "result")[0]?.valueBoolean).toBe(true);
+      expect(get(out, "display")[0]?.valueString).toBe("COVID-19 vaccine");
+    });
+
+    it("returns false for an unknown code", async () => {
+      mockFetch.mockResolvedValueOnce(notFound());
+
+      const out = await facade.validateCode(
+        params({ name: "url", valueUri: FhirSystem.NDC }, { name: "code", valueCode: "0000-0000-00" })
+      );
+
+      expect(get(out, "result")[0]?.valueBoolean).toBe(false);
+      expect(get(out, "message")[0]?.valueString).toContain("Unknown code");
+    });
+
+    it("returns false when the display does not match", async () => {
+      mockFetch.mockResolvedValueOnce(apiResponse({ rxcui: "213169", name: "atorvastatin 10 MG Oral Tablet", tty: "SCD" }));
+
+      const out = await facade.validateCode(
+        params({ name: "coding", valueCoding: { system: FhirSystem.RXNORM, code: "213169", display: "Lipitor" } })
+      );
+
+      expect(get(out, "result")[0]?.valueBoolean).toBe(false);
+    });
+  });
+
+  describe("$translate", () => {
+    it("translates SNOMED CT to ICD-10-CM using reverse mappings", async () => {
+      mockFetch.mockResolvedValueOnce(
+        apiResponse({
+          snomed_code: "44054006",
+          mappings: [
+            { source_system: "icd10_cm", source_code: "E11.9", map_type: "broader", mapping_source: "snomed-extended-map" },
+            { source_system: "rxnorm", source_code: "1", map_type: "related", mapping_source: "umls-rxnrel" },
+          ],
+        })
+      );
+
+      const out = await facade.translate(
+        params(
+          { name: "system", valueUri: FhirSystem.SNOMED },
+          { name: "code", valueCode: "44054006" },
+          { name: "targetsystem", valueUri: FhirSystem.ICD10_CM }
+        )
+      );
+
+      const [url] = mockFetch.mock.calls[0]!;
+      expect(url).toBe("https://api.fhirfly.io/v1/snomed/44054006/mappings");
+      expect(get(out, "result")[0]?.valueBoolean).toBe(true);
+      expect(get(out, "match")).toEqual([
+        {
+          name: "match",
+          part: [
+            { name: "equivalence", valueCode: "narrower" },
+            { name: "concept", valueCoding: { system: FhirSystem.ICD10_CM, code: "E11.9" } },
+          ],
+        },
+      ]);
+    });
+
+    it("translates RxNorm to SNOMED CT using enrichment", async () => {
+      mockFetch.mockResolvedValueOnce(
+        apiResponse({
+          rxcui: "83367",
+          name: "atorvastatin",
+          tty: "IN",
+          snomed: [{ concept_id: "373444002", display: "Atorvastatin", map_type: "equivalent", map_source: "umls-rxnrel" }],
+        })
+      );
+
+      const out = await facade.translate(
+        params({ name: "coding", valueCoding: { system: FhirSystem.RXNORM, code: "83367" } })
+      );
+
+      expect(get(out, "match")[0]?.part?.[1]?.valueCoding).toEqual({
+        system: FhirSystem.SNOMED,
+        code: "373444002",
+        display: "Atorvastatin",
+      });
+    });
+
+    it("returns result false when nothing maps", async () => {
+      mockFetch.mockResolvedValueOnce(apiResponse({ code: "Z00.00", type: "cm", display: "Encounter" }));
+
+      const out = await facade.translate(
+        params({ name: "system", valueUri: FhirSystem.ICD10_CM }, { name: "code", valueCode: "Z00.00" })
+      );
+
+      expect(get(out, "result")[0]?.valueBoolean).toBe(false);
+      expect(get(out, "match")).toEqual([]);
+    });
+  });
+
+  describe("toOperationOutcome", () => {
+    it("maps SDK errors to HTTP status and issue codes", () => {
+      expect(toOperationOutcome(new NotFoundError("NDC", "1")).status).toBe(404);
+      const { status, outcome } = toOperationOutcome(new ValidationError("bad"));
+      expect(status).toBe(400);
+      expect(outcome.issue[0]).toEqual({ severity: "error", code: "invalid", diagnostics: "bad" });
+      expect(toOperationOutcome(new Error("boom")).status).toBe(500);
+    });
+  });
+});
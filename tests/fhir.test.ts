@@ -0,0 +1,270 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect } from "vitest";
+import {
+  FhirSystem,
+  ndcToMedication,
+  rxnormToMedication,
+  npiToPractitioner,
+  npiToOrganization,
+  npiToPractitionerRole,
+  toImmunizationVaccine,
+  icd10ToCodeableConcept,
+  snomedToCodeableConcept,
+  loincToCodeableConcept,
+  mvxToCoding,
+} from "../src/index.js";
+import { ValidationError } from "../src/errors.js";
+import type { NdcFull, NpiFull, NpiCompact, RxNormFull, CvxStandard, MvxStandard, Icd10Standard } from "../src/index.js";
+
+const ndcFull: NdcFull = {
+  ndc: "0069-0151-01",
+  type: "package",
+  brand_name: "Lipitor",
+  generic_name: "Atorvastatin Calcium",
+  labeler_name: "Pfizer Laboratories",
+  dosage_form: "TABLET, FILM COATED",
+  route: ["ORAL"],
+  strength: "10 mg/1",
+  rxcui: ["617312", "617314"],
+  is_active: true,
+  marketing_category: "NDA",
+  application_number: "NDA020702",
+  product_type: "HUMAN PRESCRIPTION DRUG",
+  listing_expiration_date: null,
+  is_generic: false,
+  generic_basis: [],
+  active_ingredients: [{ name: "ATORVASTATIN CALCIUM TRIHYDRATE", strength: "10", unit: "mg/1" }],
+  pharm_class: [],
+  dea_schedule: null,
+  snomed: [
+    { concept_id: "1145423002", display: "Atorvastatin", map_type: "equivalent", map_source: "derived-rxnorm" },
+    { concept_id: "372912004", display: "Statin", map_type: "broader", map_source: "derived-rxnorm" },
+  ],
+};
+
+const npiIndividual: NpiFull = {
+  npi: "1234567893",
+  entity_type: "individual",
+  name: { first: "Jane", middle: "Q", last: "Smith", prefix: "Dr.", credential_text: "MD", sex: "F" },
+  organization_name: null,
+  taxonomies: [
+    { code: "207R00000X", primary: false, classification: "Internal Medicine", specialization: null, display_name: "Internal Medicine" },
+    { code: "207RC0000X", primary: true, license_number: "A12345", license_state: "CA", classification: "Internal Medicine", specialization: "Cardiovascular Disease", display_name: "Cardiovascular Disease" },
+  ],
+  practice_address: { line1: "1 Main St", line2: "Suite 2", city: "San Francisco", state: "CA", postal: "94105", phone: "415-555-0100", fax: "415-555-0101" },
+  secondary_locations: [],
+  mailing_address: { line1: "PO Box 1", city: "San Francisco", state: "CA", postal: "94106" },
+  enumeration_date: "2010-01-01",
+  last_update_date: "2024-01-01",
+  is_active: true,
+  is_sole_proprietor: false,
+  deactivation: null,
+  authorized_official: null,
+  other_identifiers: [],
+};
+
+const npiOrgCompact: NpiCompact = {
+  npi: "1588667638",
+  name: "General Hospital",
+  type: "organization",
+  specialty: "General Acute Care Hospital",
+  location: "Boston, MA",
+  active: true,
+};
+
+describe("FHIR converters", () => {
+  describe("ndcToMedication", () => {
+    it("builds a Medication with NDC, RxNorm, and equivalent SNOMED codings", () => {
+      const medication = ndcToMedication(ndcFull);
+
+      expect(medication.resourceType).toBe("Medication");
+      expect(medication.status).toBe("active");
+      expect(medication.code?.coding).toEqual([
+        { system: FhirSystem.NDC, code: "0069-0151-01", display: "Lipitor" },
+        { system: FhirSystem.RXNORM, code: "617312" },
+        { system: FhirSystem.RXNORM, code: "617314" },
+        { system: FhirSystem.SNOMED, code: "1145423002", display: "Atorvastatin" },
+      ]);
+      expect(medication.manufacturer).toEqual({ display: "Pfizer Laboratories" });
+      expect(medication.form).toEqual({ text: "TABLET, FILM COATED" });
+    });
+
+    it("maps active ingredients with strength ratios", () => {
+      const medication = ndcToMedication(ndcFull);
+
+      expect(medication.ingredient).toEqual([
+        {
+          itemCodeableConcept: { text: "ATORVASTATIN CALCIUM TRIHYDRATE" },
+          isActive: true,
+          strength: { numerator: { value: 10, unit: "mg" }, denominator: { value: 1, unit: undefined } },
+        },
+      ]);
+    });
+
+    it("omits SNOMED codings when disabled", () => {
+      const medication = ndcToMedication(ndcFull, { includeSnomed: false });
+      expect(medication.code?.coding?.some((c) => c.system === FhirSystem.SNOMED)).toBe(false);
+    });
+
+    it("handles the compact shape", () => {
+      const medication = ndcToMedication({
+        ndc: "0069-0151", type: "product", name: "Lipitor", generic: null, labeler: null, active: false,
+      });
+      expect(medication).toEqual({
+        resourceType: "Medication",
+        code: { coding: [{ system: FhirSystem.NDC, code: "0069-0151", display: "Lipitor" }], text: "Lipitor" },
+        status: "inactive",
+      });
+    });
+  });
+
+  describe("rxnormToMedication", () => {
+    it("codes the drug, dose form, and ingredients in RxNorm", () => {
+      const rx: RxNormFull = {
+        rxcui: "617312",
+        name: "atorvastatin 10 MG Oral Tablet",
+        tty: "SCD",
+        ingredients: [{ rxcui: "83367", name: "atorvastatin" }],
+        dose_form: { rxcui: "317541", name: "Oral Tablet" },
+      };
+
+      const medication = rxnormToMedication(rx);
+
+      expect(medication.code?.coding?.[0]).toEqual({
+        system: FhirSystem.RXNORM, code: "617312", display: "atorvastatin 10 MG Oral Tablet",
+      });
+      expect(medication.form?.coding?.[0]?.code).toBe("317541");
+      expect(medication.ingredient?.[0]?.itemCodeableConcept?.coding?.[0]).toEqual({
+        system: FhirSystem.RXNORM, code: "83367", display: "atorvastatin",
+      });
+    });
+  });
+
+  describe("NPI converters", () => {
+    it("builds a Practitioner from an individual", () => {
+      const practitioner = npiToPractitioner(npiIndividual);
+
+      expect(practitioner.id).toBe("1234567893");
+      expect(practitioner.identifier).toEqual([{ use: "official", system: FhirSystem.NPI, value: "1234567893" }]);
+      expect(practitioner.name).toEqual([
+        { use: "official", family: "Smith", given: ["Jane", "Q"], prefix: ["Dr."], suffix: ["MD"] },
+      ]);
+      expect(practitioner.gender).toBe("female");
+      expect(practitioner.telecom).toHaveLength(2);
+      expect(practitioner.address?.map((a) => a.type)).toEqual(["physical", "postal"]);
+      expect(practitioner.qualification?.[1]).toEqual({
+        identifier: [{ value: "A12345" }],
+        code: {
+          coding: [{ system: FhirSystem.NUCC_TAXONOMY, code: "207RC0000X", display: "Cardiovascular Disease" }],
+          text: "Cardiovascular Disease",
+        },
+      });
+    });
+
+    it("refuses to build a Practitioner from an organization", () => {
+      expect(() => npiToPractitioner(npiOrgCompact)).toThrow(ValidationError);
+    });
+
+    it("builds an Organization from a compact organization record", () => {
+      expect(npiToOrganization(npiOrgCompact)).toEqual({
+        resourceType: "Organization",
+        id: "1588667638",
+        identifier: [{ use: "official", system: FhirSystem.NPI, value: "1588667638" }],
+        active: true,
+        name: "General Hospital",
+      });
+    });
+
+    it("refuses to build an Organization from an individual", () => {
+      expect(() => npiToOrganization(npiIndividual)).toThrow(ValidationError);
+    });
+
+    it("builds a PractitionerRole with the primary taxonomy first", () => {
+      const role = npiToPractitionerRole(npiIndividual, {
+        organization: { reference: "Organization/1588667638" },
+      });
+
+      expect(role.practitioner).toEqual({ reference: "Practitioner/1234567893" });
+      expect(role.organization).toEqual({ reference: "Organization/1588667638" });
+      expect(role.specialty?.map((s) => s.coding?.[0]?.code)).toEqual(["207RC0000X", "207R00000X"]);
+    });
+  });
+
+  describe("Immunization", () => {
+    it("builds vaccineCode and manufacturer", () => {
+      const cvx: CvxStandard = {
+        code: "208",
+        display: "COVID-19, mRNA, LNP-S, PF, 30 mcg/0.3 mL dose",
+        status: "active",
+        code_system: "CVX",
+        full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA, 30 mcg/0.3 mL",
+        is_covid_vaccine: true,
+        vaccine_type: "mRNA",
+      };
+      const mvx: MvxStandard = {
+        code: "PFR",
+        code_system: "MVX",
+        display: "Pfizer, Inc",
+        status: "active",
+        manufacturer_name: "Pfizer, Inc",
+        notes: null,
+        last_updated_by_cdc: null,
+        fhir_coding: { system: FhirSystem.MVX, code: "PFR", display: "Pfizer, Inc" },
+      };
+
+      expect(toImmunizationVaccine(cvx, mvx)).toEqual({
+        vaccineCode: {
+          coding: [{ system: FhirSystem.CVX, code: "208", display: "COVID-19, mRNA, LNP-S, PF, 30 mcg/0.3 mL dose" }],
+          text: "SARS-COV-2 (COVID-19) vaccine, mRNA, 30 mcg/0.3 mL",
+        },
+        manufacturer: {
+          identifier: { system: FhirSystem.MVX, value: "PFR" },
+          display: "Pfizer, Inc",
+        },
+      });
+      expect(mvxToCoding(mvx)).toEqual(mvx.fhir_coding);
+    });
+  });
+
+  describe("CodeableConcepts", () => {
+    it("uses the ICD-10-CM system for diagnoses", () => {
+      const icd: Icd10Standard = {
+        code: "E11.9",
+        type: "cm",
+        display: "Type 2 diabetes mellitus without complications",
+        snomed: [{ concept_id: "44054006", display: "Diabetes mellitus type 2", map_type: "equivalent", map_source: "snomed-extended-map" }],
+      };
+      const cc = icd10ToCodeableConcept(icd);
+      expect(cc.coding?.map((c) => c.system)).toEqual([FhirSystem.ICD10_CM, FhirSystem.SNOMED]);
+    });
+
+    it("uses the ICD-10-PCS system for procedures", () => {
+      const cc = icd10ToCodeableConcept({ code: "02HA0QZ", type: "pcs", display: "Insertion of device" });
+      expect(cc.coding?.[0]?.system).toBe(FhirSystem.ICD10_PCS);
+    });
+
+    it("uses the preferred term for SNOMED concepts", () => {
+      const cc = snomedToCodeableConcept({
+        concept_id: "73211009",
+        active: true,
+        fsn: "Diabetes mellitus (disorder)",
+        preferred_term: "Diabetes mellitus",
+        synonyms: null,
+        ips_category: "condition",
+        semantic_tag: "disorder",
+      });
+      expect(cc).toEqual({
+        coding: [{ system: FhirSystem.SNOMED, code: "73211009", display: "Diabetes mellitus" }],
+        text: "Diabetes mellitus",
+      });
+    });
+
+    it("builds a LOINC coding for the compact shape", () => {
+      const cc = loincToCodeableConcept({
+        code: "2345-7", display_name: "Glucose", shortname: null, class: "CHEM", component: "Glucose",
+      });
+      expect(cc.coding?.[0]).toEqual({ system: FhirSystem.LOINC, code: "2345-7", display: "Glucose" });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import type { ConnectivityEndpointData, ConnectivityTargetData } from "../../src/index.js";
+
+/**
+ * An active production FHIR R4 endpoint, verified and fully available.
+ */
+export function endpoint(endpoint_id: string, overrides: Partial<ConnectivityEndpointData> = {}): ConnectivityEndpointData {
+  return {
+    endpoint_id,
+    type: "fhir_r4",
+    url: `https://${endpoint_id}.example.org/fhir`,
+    scope: "production",
+    status: "active",
+    last_verified_at: "2024-06-25T00:00:00Z",
+    availability: {
+      percentage: 99,
+      probe_count: 30,
+      last_checked: "2024-06-29",
+      last_successful: "2024-06-29",
+      consecutive_failures: 0,
+    },
+    evidence_summary: { latest_verification: "probe", verification_count: 3, first_seen: "2024-01-01", sources: ["nppes"] },
+    ...overrides,
+  };
+}
+
+/**
+ * A health system target linked to the provider by employment.
+ */
+export function target(
+  target_id: string,
+  link_confidence: ConnectivityTargetData["link_confidence"],
+  endpoints: ConnectivityEndpointData[]
+): ConnectivityTargetData {
+  return { target_id, name: target_id, type: "health_system", link_type: "employed_by", link_confidence, endpoints };
+}
@@ -0,0 +1,159 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Fhirfly, ValidationError } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { Icd10Full } from "../src/index.js";
+
+function cm(code: string, billable: boolean, notes: Partial<Icd10Full> = {}): Icd10Full {
+  return {
+    code,
+    type: "cm",
+    display: `Display for ${code}`,
+    billable,
+    is_header: !billable,
+    ...notes,
+  };
+}
+
+const fixtures = [
+  cm("E10", false),
+  cm("E10.9", true),
+  cm("E11", false, {
+    excludes1: ["diabetes mellitus due to underlying condition (E08.-)", "type 1 diabetes mellitus (E10.-)"],
+    use_additional: ["code to identify control using: insulin (Z79.4)"],
+  }),
+  cm("E11.4", false),
+  cm("E11.42", true),
+  cm("E11.9", true),
+  cm("G63", true, { code_first: ["underlying disease, such as: diabetes (E08-E13 with .42)"] }),
+  cm("N18", false),
+  cm("N18.6", true, { use_additional: ["code to identify dialysis status (Z99.2)"] }),
+  cm("U07", false),
+  cm("U07.1", true, { effective_date: "2020-04-01" }),
+  cm("Z79", false),
+  cm("Z79.4", true),
+  cm("Z99.2", true, { end_date: "2023-09-30" }),
+];
+
+describe("icd10.checkCodeSet", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ icd10: Object.fromEntries(fixtures.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+  });
+
+  it("passes a clean code set, fetching codes and ancestors in one batch", async () => {
+    const result = await client.icd10.checkCodeSet(["e119", "Z79.4"], { date: "2024-06-30" });
+
+    expect(result).toEqual({ clean: true, findings: [], codes: [fixtures[5], fixtures[12]] });
+    expect(api.requests).toHaveLength(1);
+    expect(api.requests[0]?.body).toEqual({ codes: ["E11.9", "E11", "Z79.4", "Z79"] });
+    expect(api.requests[0]?.query.get("shape")).toBe("full");
+  });
+
+  it("flags Excludes1 conflicts inherited from the category", async () => {
+    const result = await client.icd10.checkCodeSet(["E11.9", "Z79.4", "E10.9"], { date: "2024-06-30" });
+
+    expect(result.clean).toBe(false);
+    expect(result.findings).toEqual([
+      {
+        rule: "excludes1",
+        severity: "error",
+        positions: [0, 2],
+        codes: ["E11.9", "E10.9"],
+        message: "E10.9 cannot be reported with E11.9 (Excludes1)",
+        reference: "ICD-10-CM Official Guidelines I.A.12.a",
+        note: "type 1 diabetes mellitus (E10.-)",
+      },
+    ]);
+  });
+
+  it("reports a missing or mis-sequenced code first etiology", async () => {
+    const missing = await client.icd10.checkCodeSet(["G63"], { date: "2024-06-30" });
+    expect(missing.findings.map((finding) => [finding.rule, finding.severity, finding.message])).toEqual([
+      ["code_first", "error", "G63 requires the underlying condition to be coded first"],
+    ]);
+
+    const sequenced = await client.icd10.checkCodeSet(["E11.42", "G63", "Z79.4"], { date: "2024-06-30" });
+    expect(sequenced.findings).toEqual([]);
+
+    const reversed = await client.icd10.checkCodeSet(["G63", "E11.42", "Z79.4"], { date: "2024-06-30" });
+    expect(reversed.clean).toBe(true);
+    expect(reversed.findings).toEqual([
+      expect.objectContaining({
+        rule: "code_first_sequence",
+        severity: "warning",
+        positions: [0, 1],
+        codes: ["E11.42", "G63"],
+        message: "E11.42 should be sequenced before G63",
+      }),
+    ]);
+  });
+
+  it("suggests use additional codes that are not on the encounter", async () => {
+    const result = await client.icd10.checkCodeSet(["E11.9"], { date: "2024-06-30" });
+
+    expect(result.clean).toBe(true);
+    expect(result.findings).toEqual([
+      {
+        rule: "use_additional",
+        severity: "info",
+        positions: [0],
+        codes: ["E11.9"],
+        message: "E11.9 calls for an additional code: code to identify control using: insulin (Z79.4)",
+        reference: "ICD-10-CM Official Guidelines I.A.13",
+        note: "code to identify control using: insulin (Z79.4)",
+      },
+    ]);
+  });
+
+  it("warns on header codes and codes outside their effective dates", async () => {
+    const result = await client.icd10.checkCodeSet(["E10", "U07.1", "N18.6", "Z99.2"], {
+      date: new Date(2020, 2, 15),
+    });
+
+    expect(result.clean).toBe(true);
+    expect(result.findings.map((finding) => [finding.rule, finding.severity, finding.message])).toEqual([
+      ["non_billable", "warning", "E10 is a header code; report a more specific code below it"],
+      ["not_effective", "warning", "U07.1 is not effective until 2020-04-01 (date of service 2020-03-15)"],
+    ]);
+
+    const later = await client.icd10.checkCodeSet(["N18.6", "Z99.2"], { date: "2024-01-02" });
+    expect(later.findings.map((finding) => finding.message)).toEqual([
+      "Z99.2 was retired after 2023-09-30 (date of service 2024-01-02)",
+    ]);
+  });
+
+  it("checks a Date against its local calendar date", async () => {
+    vi.stubEnv("TZ", "America/New_York");
+    try {
+      const result = await client.icd10.checkCodeSet(["U07.1"], { date: new Date("2020-04-01T02:00:00Z") });
+      expect(result.findings.map((finding) => finding.message)).toEqual([
+        "U07.1 is not effective until 2020-04-01 (date of service 2020-03-31)",
+      ]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("reports malformed and unknown codes without requesting malformed ones", async () => {
+    const result = await client.icd10.checkCodeSet(["11", "E11.99", "E11.99"], { date: "2024-06-30" });
+
+    expect(result.clean).toBe(false);
+    expect(result.codes).toEqual([]);
+    expect(result.findings.map((finding) => [finding.rule, finding.positions, finding.message])).toEqual([
+      ["invalid_code", [0], "11 is not a valid ICD-10-CM code"],
+      ["invalid_code", [1, 2], "E11.99 is not in the ICD-10-CM code set"],
+    ]);
+    expect(api.requests[0]?.body).toEqual({ codes: ["E11.99", "E11.9", "E11"] });
+  });
+
+  it("rejects an empty code set and a malformed date", async () => {
+    await expect(client.icd10.checkCodeSet([])).rejects.toThrow(ValidationError);
+    await expect(client.icd10.checkCodeSet(["E11.9"], { date: "06/30/2024" })).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,141 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, FhirflyError, NotFoundError, ValidationError } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { Icd10Standard } from "../src/index.js";
+
+function cm(code: string, billable: boolean, section = "E08-E13"): Icd10Standard {
+  return {
+    code,
+    type: "cm",
+    display: `Display for ${code}`,
+    chapter: code.startsWith("T") ? "19" : "4",
+    section,
+    billable,
+    is_header: !billable,
+  };
+}
+
+const fixtures = [
+  cm("E10.9", true),
+  cm("E11", false),
+  cm("E11.6", false),
+  cm("E11.64", false),
+  cm("E11.641", true),
+  cm("E11.649", true),
+  cm("E11.65", true),
+  cm("E11.9", true),
+  cm("T36", false, "T36-T50"),
+  cm("T36.0", false, "T36-T50"),
+  cm("T36.0X1", false, "T36-T50"),
+  cm("T36.0X1A", true, "T36-T50"),
+];
+
+function codes(items: Icd10Standard[]): string[] {
+  return items.map((item) => item.code);
+}
+
+describe("ICD-10-CM hierarchy", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ icd10: Object.fromEntries(fixtures.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+  });
+
+  it("lists ancestors category first in one batch request", async () => {
+    expect(codes(await client.icd10.ancestors("e11641"))).toEqual(["E11", "E11.6", "E11.64"]);
+    expect(api.requests).toHaveLength(1);
+    expect(api.requests[0]?.body).toEqual({ codes: ["E11.641", "E11.64", "E11.6", "E11"] });
+  });
+
+  it("skips placeholder prefixes", async () => {
+    expect(codes(await client.icd10.ancestors("T36.0X1A"))).toEqual(["T36", "T36.0", "T36.0X1"]);
+  });
+
+  it("returns the nearest ancestor as the parent", async () => {
+    expect((await client.icd10.parent("E11.65"))?.code).toBe("E11.6");
+    expect(await client.icd10.parent("E11")).toBeNull();
+  });
+
+  it("throws NotFoundError for unknown codes", async () => {
+    await expect(client.icd10.ancestors("E11.99")).rejects.toThrow(NotFoundError);
+  });
+
+  it("rejects codes that are not ICD-10-CM", async () => {
+    await expect(client.icd10.children("11")).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("lists descendants within the code's block", async () => {
+    expect(codes(await client.icd10.descendants("E11"))).toEqual([
+      "E11.6",
+      "E11.64",
+      "E11.641",
+      "E11.649",
+      "E11.65",
+      "E11.9",
+    ]);
+    const search = api.requests.find((request) => request.path === "/v1/icd10/search");
+    expect(search?.query.get("block")).toBe("E08-E13");
+    expect(search?.query.get("code_system")).toBe("CM");
+  });
+
+  it("filters searches by block", async () => {
+    expect((await client.icd10.search({ block: "E08-E13" })).items).toHaveLength(8);
+    expect((await client.icd10.search({ block: "E00-E07" })).items).toEqual([]);
+  });
+
+  it("widens to the chapter when the block filter matches nothing", async () => {
+    const fetch: typeof globalThis.fetch = (input, init) => {
+      const url = new URL(String(input));
+      if (url.searchParams.has("block")) url.searchParams.set("block", `Block ${url.searchParams.get("block")}`);
+      return api.fetch(url.toString(), init);
+    };
+    const fhirfly = new Fhirfly({ apiKey: "test-key", fetch, retryDelay: 0, telemetry: false });
+
+    expect(codes(await fhirfly.icd10.children("E11"))).toEqual(["E11.6", "E11.9"]);
+    const scopes = api.requests
+      .filter((request) => request.path === "/v1/icd10/search")
+      .map((request) => request.query.get("block") ?? `chapter ${request.query.get("chapter")}`);
+    expect(scopes).toEqual(["Block E08-E13", "chapter 4"]);
+  });
+
+  it("throws instead of returning a cut-off list when the search hits the page limit", async () => {
+    const many = Array.from({ length: 100 * 100 + 1 }, (_, i) => cm(`E11.${String(i).padStart(5, "0")}`, true));
+    api.seed({ icd10: Object.fromEntries(many.map((item) => [item.code, item])) });
+
+    await expect(client.icd10.descendants("E11")).rejects.toThrow(FhirflyError);
+    await expect(client.icd10.billableCodes("E11")).rejects.toThrow(/100-page limit/);
+  });
+
+  it("filters descendants to billable codes", async () => {
+    expect(codes(await client.icd10.descendants("E11.6", { billableOnly: true }))).toEqual([
+      "E11.641",
+      "E11.649",
+      "E11.65",
+    ]);
+    const search = api.requests.find((request) => request.path === "/v1/icd10/search");
+    expect(search?.query.get("billable")).toBe("true");
+  });
+
+  it("lists direct children, skipping placeholder levels", async () => {
+    expect(codes(await client.icd10.children("E11"))).toEqual(["E11.6", "E11.9"]);
+    expect(codes(await client.icd10.children("E11.6"))).toEqual(["E11.64", "E11.65"]);
+    expect(codes(await client.icd10.children("T36.0"))).toEqual(["T36.0X1"]);
+    expect(await client.icd10.children("E11.65")).toEqual([]);
+  });
+
+  it("expands header selections into billable codes", async () => {
+    expect(codes(await client.icd10.billableCodes("E11.-"))).toEqual(["E11.641", "E11.649", "E11.65", "E11.9"]);
+    expect(codes(await client.icd10.billableCodes("E11.6-"))).toEqual(["E11.641", "E11.649", "E11.65"]);
+    expect(codes(await client.icd10.billableCodes("E11.64"))).toEqual(["E11.641", "E11.649"]);
+  });
+
+  it("expands a billable code to itself without a search", async () => {
+    expect(codes(await client.icd10.billableCodes("E11.9"))).toEqual(["E11.9"]);
+    expect(api.requests.map((request) => request.path)).toEqual(["/v1/icd10/E11.9"]);
+  });
+});
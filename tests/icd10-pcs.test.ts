@@ -0,0 +1,181 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, NotFoundError, ValidationError, decodeIcd10PcsAxes } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { Icd10Full } from "../src/index.js";
+
+const APPROACHES: Record<string, string> = {
+  "0": "Open",
+  "4": "Percutaneous Endoscopic",
+  "8": "Via Natural or Artificial Opening Endoscopic",
+};
+
+function pcs(code: string, body_part: string, root_operation: string): Icd10Full {
+  return {
+    code,
+    type: "pcs",
+    display: `${root_operation} of ${body_part}`,
+    billable: true,
+    body_system: "Gastrointestinal System",
+    root_operation,
+    approach: APPROACHES[code[4]!],
+    device: "No Device",
+    qualifier: "No Qualifier",
+  };
+}
+
+const fixtures = [
+  pcs("0DTJ0ZZ", "Appendix", "Resection"),
+  pcs("0DTJ4ZZ", "Appendix", "Resection"),
+  pcs("0DTJ8ZZ", "Appendix", "Resection"),
+  pcs("0DT60ZZ", "Stomach", "Resection"),
+  pcs("0DB60ZZ", "Stomach", "Excision"),
+];
+
+function options(step: { options: Array<{ value: string }> }): string[] {
+  return step.options.map((option) => option.value);
+}
+
+describe("decodeIcd10PcsAxes", () => {
+  it("names each axis for the code's section", () => {
+    expect(decodeIcd10PcsAxes("0dtj4zz").map((axis) => [axis.name, axis.value])).toEqual([
+      ["Section", "0"],
+      ["Body System", "D"],
+      ["Root Operation", "T"],
+      ["Body Part", "J"],
+      ["Approach", "4"],
+      ["Device", "Z"],
+      ["Qualifier", "Z"],
+    ]);
+    expect(decodeIcd10PcsAxes("BW40ZZZ").map((axis) => axis.name)).toEqual([
+      "Section",
+      "Body System",
+      "Type",
+      "Body Part",
+      "Contrast",
+      "Qualifier",
+      "Qualifier",
+    ]);
+    expect(decodeIcd10PcsAxes("BW40ZZZ")[0]).toEqual({ position: 1, name: "Section", value: "B", label: "Imaging" });
+  });
+
+  it("rejects codes outside the PCS alphabet or sections", () => {
+    expect(() => decodeIcd10PcsAxes("0DTI4ZZ")).toThrow(ValidationError);
+    expect(() => decodeIcd10PcsAxes("0DTJ4ZZ1")).toThrow(ValidationError);
+    expect(() => decodeIcd10PcsAxes("ADTJ4ZZ")).toThrow(/unknown section "A"/);
+  });
+});
+
+describe("icd10.pcs", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ icd10: Object.fromEntries(fixtures.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+  });
+
+  it("decodes a code into labeled axes from its record", async () => {
+    const decoded = await client.icd10.pcs.decode("0DTJ4ZZ");
+
+    expect(decoded.display).toBe("Resection of Appendix");
+    expect(decoded.axes.map((axis) => [axis.name, axis.value, axis.label])).toEqual([
+      ["Section", "0", "Medical and Surgical"],
+      ["Body System", "D", "Gastrointestinal System"],
+      ["Root Operation", "T", "Resection"],
+      ["Body Part", "J", undefined],
+      ["Approach", "4", "Percutaneous Endoscopic"],
+      ["Device", "Z", "No Device"],
+      ["Qualifier", "Z", "No Qualifier"],
+    ]);
+    expect(api.requests[0]?.query.get("shape")).toBe("full");
+  });
+
+  it("rejects partial codes and reports unknown ones", async () => {
+    await expect(client.icd10.pcs.decode("0DT")).rejects.toThrow(ValidationError);
+    await expect(client.icd10.pcs.decode("0DTJ7ZZ")).rejects.toThrow(NotFoundError);
+  });
+
+  it("lists sections offline for the first character", async () => {
+    const step = await client.icd10.pcs.nextOptions("");
+
+    expect(step).toMatchObject({ prefix: "", position: 1, axis: "Section", complete: true });
+    expect(step.options[0]).toEqual({ value: "0", label: "Medical and Surgical" });
+    expect(options(step)).toHaveLength(17);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("lists the valid next characters under a prefix", async () => {
+    const step = await client.icd10.pcs.nextOptions("0dt");
+
+    expect(step).toMatchObject({ prefix: "0DT", position: 4, axis: "Body Part", complete: true });
+    expect(step.options).toEqual([
+      { value: "6", count: 1 },
+      { value: "J", count: 3 },
+    ]);
+    const search = api.requests[0];
+    expect(search?.path).toBe("/v1/icd10/search");
+    expect(search?.query.get("q")).toBe("0DT");
+    expect(search?.query.get("code_system")).toBe("PCS");
+    expect(search?.query.get("shape")).toBe("standard");
+  });
+
+  it("labels options from the matching codes", async () => {
+    const root = await client.icd10.pcs.nextOptions("0D");
+    expect(root.options).toEqual([
+      { value: "B", label: "Excision", count: 1 },
+      { value: "T", label: "Resection", count: 4 },
+    ]);
+
+    const approach = await client.icd10.pcs.nextOptions("0DTJ");
+    expect(approach.axis).toBe("Approach");
+    expect(approach.options.map((option) => option.label)).toEqual([
+      "Open",
+      "Percutaneous Endoscopic",
+      "Via Natural or Artificial Opening Endoscopic",
+    ]);
+  });
+
+  it("returns the complete code for the seventh character", async () => {
+    const step = await client.icd10.pcs.nextOptions("0DTJ4Z");
+
+    expect(step.options).toEqual([{ value: "Z", label: "No Qualifier", count: 1, code: "0DTJ4ZZ" }]);
+  });
+
+  it("reports incomplete options when stopped at a page limit", async () => {
+    const bodyParts = "0123456789";
+    const many = [...bodyParts].flatMap((part) =>
+      [..."0123456789ABCDE"].map((approach) => pcs(`0DQ${part}${approach}ZZ`, part, "Repair"))
+    );
+    api = new FakeFhirflyApi({ icd10: Object.fromEntries(many.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+
+    const partial = await client.icd10.pcs.nextOptions("0DQ", { maxPages: 1 });
+    expect(partial.complete).toBe(false);
+
+    const full = await client.icd10.pcs.nextOptions("0DQ");
+    expect(full.complete).toBe(true);
+    expect(options(full)).toEqual([...bodyParts]);
+    expect(full.options.every((option) => option.count === 15)).toBe(true);
+  });
+
+  it("stops at five pages by default", async () => {
+    const many = [..."0123456789"].flatMap((part) =>
+      [..."0123456789ABCDEFGHJK"].flatMap((approach) =>
+        [..."0123"].map((device) => pcs(`0DQ${part}${approach}${device}Z`, part, "Repair"))
+      )
+    );
+    api = new FakeFhirflyApi({ icd10: Object.fromEntries(many.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+
+    const step = await client.icd10.pcs.nextOptions("0D");
+
+    expect(step.complete).toBe(false);
+    expect(api.requests).toHaveLength(5);
+  });
+
+  it("rejects a complete code as a prefix", async () => {
+    await expect(client.icd10.pcs.nextOptions("0DTJ4ZZ")).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,228 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, ValidationError, loincMappingsToConceptMap } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import { mappingQuery, unitKind } from "../src/loinc-mapping.js";
+import type { LoincFull } from "../src/index.js";
+
+function loinc(
+  code: string,
+  [system, property, ucum, method]: [string, string, string | null, string | null],
+  rank: number | null,
+  status = "ACTIVE"
+): LoincFull {
+  return {
+    code,
+    display_name: `Glucose [${property}] in ${system}`,
+    shortname: null,
+    long_name: null,
+    consumer_name: null,
+    class: "CHEM",
+    classtype: 1,
+    status,
+    status_reason: null,
+    order_obs: "Both",
+    parts: {
+      component: "Glucose",
+      property,
+      time_aspct: "Pt",
+      system,
+      scale_typ: "Qn",
+      method_typ: method,
+    },
+    units: { example_units: ucum, example_ucum_units: ucum },
+    map_to: [],
+    map_to_comment: null,
+    fhir_coding: { system: "http://loinc.org", code, display: `Glucose ${system}` },
+    version: "2.77",
+    version_first_released: null,
+    version_last_changed: null,
+    ranks: { common_test_rank: rank, common_order_rank: null },
+    source_org: {
+      external_copyright_notice: null,
+      external_copyright_link: null,
+      org_name: null,
+      org_terms_of_use: null,
+      org_url: null,
+    },
+  };
+}
+
+const fixtures = [
+  loinc("2345-7", ["Ser/Plas", "MCnc", "mg/dL", null], 1),
+  loinc("2339-0", ["Bld", "MCnc", "mg/dL", null], 50),
+  loinc("14749-6", ["Ser/Plas", "SCnc", "mmol/L", null], 200),
+  loinc("41653-7", ["BldC", "MCnc", "mg/dL", "Glucometer"], 300),
+  loinc("2341-6", ["Bld", "MCnc", "mg/dL", "Test strip.manual"], null, "DEPRECATED"),
+];
+
+const serumGlucose = { code: "GLU", name: "Glucose, serum", specimen: "Serum", units: "mg/dL" };
+
+function codes(suggestion: { candidates: Array<{ loinc: { code: string } }> } | undefined): string[] {
+  return suggestion?.candidates.map((candidate) => candidate.loinc.code) ?? [];
+}
+
+describe("loinc.suggestMappings", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ loinc: Object.fromEntries(fixtures.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+  });
+
+  it("ranks candidates by part agreement, units, and common test rank", async () => {
+    const [suggestion] = await client.loinc.suggestMappings([serumGlucose]);
+
+    expect(suggestion?.query).toEqual({ q: "glucose", scale: "Qn" });
+    expect(codes(suggestion)).toEqual(["2345-7", "2339-0", "14749-6", "41653-7"]);
+    expect(suggestion?.candidates[0]?.score).toBe(0.95);
+    expect(suggestion?.candidates[0]?.explanations).toEqual([
+      { axis: "component", outcome: "match", score: 1, weight: 0.35, message: 'Name contains component "Glucose"' },
+      { axis: "system", outcome: "partial", score: 0.8, weight: 0.25, message: "System Ser/Plas covers specimen Serum" },
+      { axis: "units", outcome: "match", score: 1, weight: 0.2, message: "mg/dL matches example units mg/dL" },
+      { axis: "method", outcome: "match", score: 1, weight: 0.1, message: "No method on either" },
+      { axis: "rank", outcome: "match", score: 1, weight: 0.1, message: "Common test rank 1" },
+    ]);
+
+    const search = api.requests[0];
+    expect(search?.query.get("q")).toBe("glucose");
+    expect(search?.query.get("scale")).toBe("Qn");
+    expect(search?.query.get("shape")).toBe("full");
+    expect(search?.query.get("limit")).toBe("50");
+  });
+
+  it("explains incompatible units and specimen mismatches", async () => {
+    const [suggestion] = await client.loinc.suggestMappings([serumGlucose]);
+    const molar = suggestion?.candidates.find((candidate) => candidate.loinc.code === "14749-6");
+    const blood = suggestion?.candidates.find((candidate) => candidate.loinc.code === "2339-0");
+
+    expect(molar?.explanations[2]).toMatchObject({
+      outcome: "mismatch",
+      message: "mg/dL is not compatible with example units mmol/L",
+    });
+    expect(blood?.explanations[1]).toMatchObject({
+      outcome: "mismatch",
+      message: "System Bld does not match specimen Serum",
+    });
+  });
+
+  it("scores convertible units below exact ones", async () => {
+    const [suggestion] = await client.loinc.suggestMappings([{ ...serumGlucose, units: "g/L" }]);
+
+    expect(suggestion?.candidates[0]?.explanations[2]).toEqual({
+      axis: "units",
+      outcome: "partial",
+      score: 0.8,
+      weight: 0.2,
+      message: "g/L converts to example units mg/dL",
+    });
+  });
+
+  it("prefers the specimen and method variant of the local test", async () => {
+    const [suggestion] = await client.loinc.suggestMappings(
+      [{ code: "POCGLU", name: "Glucose", specimen: "Capillary blood", units: "mg/dL", method: "Glucometer" }],
+      { top: 2 }
+    );
+
+    expect(codes(suggestion)).toEqual(["41653-7", "2345-7"]);
+    expect(suggestion?.candidates[0]?.score).toBe(0.942);
+  });
+
+  it("maps each test in input order and leaves out deprecated codes unless asked", async () => {
+    const tests = [serumGlucose, { code: "GLUB", name: "Glucose", specimen: "Whole blood" }];
+
+    const suggestions = await client.loinc.suggestMappings(tests, { includeDeprecated: true });
+
+    expect(suggestions.map((suggestion) => suggestion.test.code)).toEqual(["GLU", "GLUB"]);
+    expect(suggestions[1]?.query).toEqual({ q: "glucose" });
+    expect(codes(suggestions[1]).slice(0, 2)).toEqual(["2339-0", "2341-6"]);
+  });
+
+  it("validates tests and options before searching", async () => {
+    await expect(client.loinc.suggestMappings([])).rejects.toThrow(ValidationError);
+    await expect(client.loinc.suggestMappings([{ code: "X", name: " " }])).rejects.toThrow(/X has no name/);
+    await expect(client.loinc.suggestMappings([serumGlucose], { candidates: 101 })).rejects.toThrow(ValidationError);
+    await expect(client.loinc.suggestMappings([serumGlucose], { top: 0 })).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+});
+
+describe("LOINC mapping helpers", () => {
+  it("builds the search from the name without specimen and method words", () => {
+    expect(mappingQuery({ code: "K", name: "Potassium (Plasma)", specimen: "Plasma" })).toEqual({ q: "potassium" });
+    expect(mappingQuery({ code: "S", name: "Serum", specimen: "Serum", units: "mg/dL" })).toEqual({
+      q: "Serum",
+      scale: "Qn",
+    });
+  });
+
+  it("classifies UCUM units by the kind of quantity they measure", () => {
+    expect(unitKind("mg/dL")).toBe("mass/volume");
+    expect(unitKind("g/L")).toBe("mass/volume");
+    expect(unitKind("mmol/L")).toBe("substance/volume");
+    expect(unitKind("10*3/uL")).toBe(unitKind("/uL"));
+    expect(unitKind("mg/(24.h)")).toBe("mass/time");
+    expect(unitKind("mL/min/{1.73_m2}")).toBe("volume/time");
+    expect(unitKind("U/L")).toBe(unitKind("IU/L"));
+    expect(unitKind("%")).toBe("fraction");
+    expect(unitKind("furlongs")).toBeNull();
+  });
+});
+
+describe("loincMappingsToConceptMap", () => {
+  it("exports accepted mappings from the local code system to LOINC", () => {
+    const conceptMap = loincMappingsToConceptMap(
+      [
+        { test: serumGlucose, loinc: fixtures[0]! },
+        { test: { code: "GLU", name: "Glucose, serum" }, loinc: fixtures[2]!, equivalence: "relatedto" },
+        { test: { code: "POCGLU", name: "Glucose POC" }, loinc: fixtures[3]!, equivalence: "narrower", comment: "Meter only" },
+      ],
+      { sourceSystem: "https://lab.example.org/tests", name: "LocalLabToLoinc", date: "2026-01-15" }
+    );
+
+    expect(conceptMap).toEqual({
+      resourceType: "ConceptMap",
+      name: "LocalLabToLoinc",
+      status: "draft",
+      date: "2026-01-15",
+      group: [
+        {
+          source: "https://lab.example.org/tests",
+          target: "http://loinc.org",
+          element: [
+            {
+              code: "GLU",
+              display: "Glucose, serum",
+              target: [
+                { code: "2345-7", display: "Glucose [MCnc] in Ser/Plas", equivalence: "equivalent" },
+                { code: "14749-6", display: "Glucose [SCnc] in Ser/Plas", equivalence: "relatedto" },
+              ],
+            },
+            {
+              code: "POCGLU",
+              display: "Glucose POC",
+              target: [
+                {
+                  code: "41653-7",
+                  display: "Glucose [MCnc] in BldC",
+                  equivalence: "narrower",
+                  comment: "Meter only",
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("requires a comment on narrower and inexact mappings", () => {
+    expect(() =>
+      loincMappingsToConceptMap([{ test: serumGlucose, loinc: fixtures[0]!, equivalence: "inexact" }], {
+        sourceSystem: "https://lab.example.org/tests",
+      })
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,142 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, ValidationError } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { LoincAxis, LoincStandard } from "../src/index.js";
+
+function loinc(
+  code: string,
+  [property, time, system, scale, method]: [string, string, string, string, string | null],
+  status = "ACTIVE"
+): LoincStandard {
+  return {
+    code,
+    display_name: `Glucose ${property} ${system}`,
+    shortname: null,
+    long_name: null,
+    class: "CHEM",
+    status,
+    order_obs: "Both",
+    parts: {
+      component: "Glucose",
+      property,
+      time_aspct: time,
+      system,
+      scale_typ: scale,
+      method_typ: method,
+    },
+    units: { example_units: null, example_ucum_units: null },
+    map_to: [],
+    fhir_coding: { system: "http://loinc.org", code, display: `Glucose ${system}` },
+  };
+}
+
+const fixtures = [
+  loinc("2345-7", ["MCnc", "Pt", "Ser/Plas", "Qn", null]),
+  loinc("2339-0", ["MCnc", "Pt", "Bld", "Qn", null]),
+  loinc("41653-7", ["MCnc", "Pt", "BldC", "Qn", "Glucometer"]),
+  loinc("2350-7", ["MCnc", "Pt", "Urine", "Qn", null]),
+  loinc("14749-6", ["SCnc", "Pt", "Ser/Plas", "Qn", null]),
+  loinc("2349-9", ["PrThr", "Pt", "Urine", "Ord", null]),
+  loinc("21305-8", ["MRat", "24H", "Urine", "Qn", null]),
+  loinc("2341-6", ["MCnc", "Pt", "Bld", "Qn", "Test strip.manual"], "DEPRECATED"),
+];
+
+function codes(items: LoincStandard[]): string[] {
+  return items.map((item) => item.code);
+}
+
+describe("loinc.findVariants", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ loinc: Object.fromEntries(fixtures.map((item) => [item.code, item])) });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+  });
+
+  it("finds codes that differ only on the varied axes", async () => {
+    const result = await client.loinc.findVariants("2345-7", { vary: ["method", "system"] });
+
+    expect(result.code).toBe("2345-7");
+    expect(result.vary).toEqual(["system", "method"]);
+    expect(result.complete).toBe(true);
+    expect(codes(result.variants)).toEqual(["2339-0", "41653-7", "2350-7"]);
+
+    const search = api.requests.find((request) => request.path === "/v1/loinc/search");
+    expect(Object.fromEntries(search!.query)).toMatchObject({ component: "Glucose", property: "MCnc", scale: "Qn" });
+    expect(search?.query.has("system")).toBe(false);
+    expect(search?.query.has("method")).toBe(false);
+  });
+
+  it("includes deprecated codes on request", async () => {
+    const result = await client.loinc.findVariants("2345-7", { vary: ["system", "method"], includeDeprecated: true });
+
+    expect(codes(result.variants)).toEqual(["2339-0", "2341-6", "41653-7", "2350-7"]);
+  });
+
+  it("matches axes without a search filter, and missing parts, exactly", async () => {
+    expect(codes((await client.loinc.findVariants("2350-7", { vary: ["property"] })).variants)).toEqual([]);
+    expect(codes((await client.loinc.findVariants("2345-7", { vary: ["property"] })).variants)).toEqual(["14749-6"]);
+    expect(codes((await client.loinc.findVariants("2339-0", { vary: ["system"] })).variants)).toEqual([
+      "2345-7",
+      "2350-7",
+    ]);
+  });
+
+  it("rejects an empty or unknown vary list before any request", async () => {
+    await expect(client.loinc.findVariants("2345-7", { vary: [] })).rejects.toThrow(ValidationError);
+    await expect(
+      client.loinc.findVariants("2345-7", { vary: ["specimen" as LoincAxis] })
+    ).rejects.toThrow(/Unknown LOINC axis "specimen"/);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("rejects varying every searchable axis", async () => {
+    await expect(
+      client.loinc.findVariants("2345-7", { vary: ["component", "property", "system", "scale", "method"] })
+    ).rejects.toThrow(ValidationError);
+  });
+});
+
+describe("loinc.facetParts", () => {
+  it("counts the distinct values of each axis across the results", async () => {
+    const api = new FakeFhirflyApi({ loinc: Object.fromEntries(fixtures.map((item) => [item.code, item])) });
+    const client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+
+    const { count, facets, complete } = await client.loinc.facetParts({ component: "Glucose" });
+
+    expect(count).toBe(8);
+    expect(complete).toBe(true);
+    expect(facets.component).toEqual([{ value: "Glucose", count: 8 }]);
+    expect(facets.system).toEqual([
+      { value: "Urine", count: 3 },
+      { value: "Bld", count: 2 },
+      { value: "Ser/Plas", count: 2 },
+      { value: "BldC", count: 1 },
+    ]);
+    expect(facets.time).toEqual([
+      { value: "Pt", count: 7 },
+      { value: "24H", count: 1 },
+    ]);
+    expect(facets.method).toEqual([
+      { value: null, count: 6 },
+      { value: "Glucometer", count: 1 },
+      { value: "Test strip.manual", count: 1 },
+    ]);
+    expect(api.requests[0]?.query.get("component")).toBe("Glucose");
+    expect(api.requests[0]?.query.get("limit")).toBe("100");
+  });
+
+  it("reports partial counts when stopped at a page limit", async () => {
+    const many = Array.from({ length: 150 }, (_, i) => loinc(`${10000 + i}-0`, ["MCnc", "Pt", "Bld", "Qn", null]));
+    const api = new FakeFhirflyApi({ loinc: Object.fromEntries(many.map((item) => [item.code, item])) });
+    const client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false });
+
+    const partial = await client.loinc.facetParts({ system: "Bld" }, { maxPages: 1 });
+
+    expect(partial).toMatchObject({ count: 100, complete: false });
+    expect(partial.facets.system).toEqual([{ value: "Bld", count: 100 }]);
+  });
+});
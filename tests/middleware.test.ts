@@ -0,0 +1,129 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, type Middleware, type MiddlewareRequest } from "../src/index.js";
+import { NotFoundError, ServerError } from "../src/errors.js";
+import { FakeFhirflyApi, faults } from "../src/testing/index.js";
+import type { CvxData } from "../src/index.js";
+
+const covid = {
+  code: "208",
+  display: "COVID-19, mRNA",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+} satisfies CvxData;
+
+describe("middleware", () => {
+  let api: FakeFhirflyApi;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ cvx: { "208": covid } });
+  });
+
+  function client(middleware: Middleware[]): Fhirfly {
+    return new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, middleware });
+  }
+
+  it("sees the request and the parsed response", async () => {
+    const seen: unknown[] = [];
+    const log: Middleware = async (request, next) => {
+      seen.push({ ...request, headers: { ...request.headers } });
+      const response = await next(request);
+      seen.push({ status: response.status, data: response.data, timed: response.durationMs >= 0 });
+      return response;
+    };
+
+    await client([log]).cvx.lookupMany(["208"], { shape: "compact" });
+
+    expect(seen).toEqual([
+      {
+        method: "POST",
+        endpoint: "/v1/cvx/_batch?shape=compact",
+        body: { codes: ["208"] },
+        headers: expect.objectContaining({ "Content-Type": "application/json" }),
+        attempt: 0,
+      },
+      { status: 200, data: expect.objectContaining({ count: 1 }), timed: true },
+    ]);
+  });
+
+  it("never exposes credentials", async () => {
+    let headers: Record<string, string> = {};
+    await client([async (request, next) => ((headers = request.headers), next(request))]).cvx.lookup("208");
+
+    expect(Object.keys(headers).map((h) => h.toLowerCase())).not.toContain("x-api-key");
+    expect(api.requests[0]?.headers["x-api-key"]).toBe("test-key");
+  });
+
+  it("runs in order and can mutate requests", async () => {
+    const order: string[] = [];
+    const trace: Middleware = async (request, next) => {
+      order.push("trace");
+      request.headers["traceparent"] = "00-trace-span-01";
+      return next(request);
+    };
+    const rewrite: Middleware = async (request, next) => {
+      order.push("rewrite");
+      return next({ ...request, endpoint: request.endpoint.replace("999", "208") });
+    };
+
+    const response = await client([trace, rewrite]).cvx.lookup("999");
+
+    expect(order).toEqual(["trace", "rewrite"]);
+    expect(response.data.code).toBe("208");
+    expect(api.requests[0]?.headers["traceparent"]).toBe("00-trace-span-01");
+  });
+
+  it("can short-circuit without a network request", async () => {
+    const mock: Middleware = async () => ({
+      status: 200,
+      headers: new Headers(),
+      data: { data: { ...covid, display: "mocked" }, meta: { legal: { license: "test" } } },
+      durationMs: 0,
+    });
+
+    const response = await client([mock]).cvx.lookup("208");
+
+    expect(response.data.display).toBe("mocked");
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("sees thrown API errors", async () => {
+    const errors: unknown[] = [];
+    const audit: Middleware = async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        errors.push(error);
+        throw error;
+      }
+    };
+
+    await expect(client([audit]).cvx.lookup("999")).rejects.toThrow(NotFoundError);
+    expect(errors[0]).toBeInstanceOf(NotFoundError);
+  });
+
+  it("runs again for each retry attempt", async () => {
+    const attempts: MiddlewareRequest["attempt"][] = [];
+    const errors: unknown[] = [];
+    api.fail(faults.serverError(503), { times: 2 });
+
+    const response = await client([
+      async (request, next) => {
+        attempts.push(request.attempt);
+        return next(request).catch((error: unknown) => {
+          errors.push(error);
+          throw error;
+        });
+      },
+    ]).cvx.lookup("208");
+
+    expect(response.data.code).toBe("208");
+    expect(attempts).toEqual([0, 1, 2]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(ServerError);
+  });
+});
@@ -0,0 +1,148 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, parseNdc, isValidNdc, toNdc11, toNdc11Hyph, normalizeNdc } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { NdcCompact } from "../src/index.js";
+
+describe("parseNdc", () => {
+  it.each([
+    ["0069-0151-01", "4-4-2", "00069", "0151", "01"],
+    ["12345-678-90", "5-3-2", "12345", "0678", "90"],
+    ["12345-6789-0", "5-4-1", "12345", "6789", "00"],
+    ["00069-0151-01", "5-4-2", "00069", "0151", "01"],
+    ["00069015101", "5-4-2", "00069", "0151", "01"],
+  ])("parses package NDC %s as %s", (input, configuration, labeler, product, pkg) => {
+    expect(parseNdc(input)).toEqual({
+      status: "valid",
+      input,
+      type: "package",
+      configuration,
+      labeler,
+      product,
+      package: pkg,
+    });
+  });
+
+  it.each([
+    ["0069-0151", "4-4", "00069", "0151"],
+    ["12345-678", "5-3", "12345", "0678"],
+    ["00069-0151", "5-4", "00069", "0151"],
+    ["000690151", "5-4", "00069", "0151"],
+  ])("parses product NDC %s as %s", (input, configuration, labeler, product) => {
+    expect(parseNdc(input)).toMatchObject({ status: "valid", type: "product", configuration, labeler, product, package: null });
+  });
+
+  it("reports unhyphenated 10- and 8-digit NDCs as ambiguous", () => {
+    expect(parseNdc("0069015101").status).toBe("ambiguous");
+    expect(parseNdc("00690151").status).toBe("ambiguous");
+  });
+
+  it("classifies invalid input", () => {
+    expect(parseNdc("")).toMatchObject({ status: "invalid", reason: "NDC is empty" });
+    expect(parseNdc("0069-0151-0A").status).toBe("invalid");
+    expect(parseNdc("069-0151-01")).toMatchObject({ status: "invalid", reason: "Unrecognized segment lengths 3-4-2" });
+    expect(parseNdc("123456")).toMatchObject({ status: "invalid", reason: "NDC has 6 digits" });
+    expect(isValidNdc("0069--0151")).toBe(false);
+  });
+
+  it("trims whitespace but keeps the original input", () => {
+    expect(parseNdc(" 0069-0151-01 ")).toMatchObject({ status: "valid", input: " 0069-0151-01 " });
+  });
+});
+
+describe("NDC conversion", () => {
+  it("converts package NDCs to NDC11 forms", () => {
+    expect(toNdc11("0069-0151-01")).toBe("00069015101");
+    expect(toNdc11Hyph("12345-6789-0")).toBe("12345-6789-00");
+    expect(toNdc11Hyph(toNdc11("12345-678-90")!)).toBe("12345-0678-90");
+  });
+
+  it("accepts an already parsed NDC", () => {
+    const parsed = parseNdc("0069-0151-01");
+    expect(parsed.status === "valid" && toNdc11(parsed)).toBe("00069015101");
+  });
+
+  it("returns null when there is no NDC11", () => {
+    expect(toNdc11("0069-0151")).toBeNull();
+    expect(toNdc11("0069015101")).toBeNull();
+    expect(toNdc11Hyph("abc")).toBeNull();
+  });
+
+  it("normalizes packages to 5-4-2 and products to 5-4", () => {
+    expect(normalizeNdc("0069-0151-01")).toBe("00069-0151-01");
+    expect(normalizeNdc("12345-678")).toBe("12345-0678");
+    expect(normalizeNdc("0069015101")).toBeNull();
+  });
+});
+
+describe("ndc.lookupMany with normalize", () => {
+  const lipitor: NdcCompact = {
+    ndc: "00069-0151-01",
+    type: "package",
+    name: "Lipitor",
+    generic: "atorvastatin calcium",
+    labeler: "Pfizer",
+    active: true,
+  };
+
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ ndc: { "00069-0151-01": lipitor } });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch });
+  });
+
+  it("sends each distinct NDC once and maps results to the original inputs", async () => {
+    const inputs = ["0069-0151-01", "00069015101", "bad", "00069-0151-01", "12345-678-90"];
+
+    const response = await client.ndc.lookupMany(inputs, { normalize: true });
+
+    expect(api.requests).toHaveLength(1);
+    expect(api.requests[0]?.body).toEqual({ codes: ["00069-0151-01", "12345-0678-90"] });
+    expect(response.count).toBe(5);
+    expect(response.results.map((r) => [r.input, r.status])).toEqual([
+      ["0069-0151-01", "ok"],
+      ["00069015101", "ok"],
+      ["bad", "invalid"],
+      ["00069-0151-01", "ok"],
+      ["12345-678-90", "not_found"],
+    ]);
+    expect(response.results[1]?.data).toEqual(lipitor);
+    expect(response.results[2]?.error).toBe("NDC may contain only digits and hyphens");
+  });
+
+  it("sends ambiguous NDCs as-is", async () => {
+    await client.ndc.lookupMany([" 0069015101 "], { normalize: true });
+
+    expect(api.requests[0]?.body).toEqual({ codes: ["0069015101"] });
+  });
+
+  it("returns invalid items without a request when no input is a valid NDC", async () => {
+    const response = await client.ndc.lookupMany(["bad", " 123 "], { normalize: true });
+    const all = await client.ndc.lookupAll(["bad"], { normalize: true });
+
+    expect(response.count).toBe(2);
+    expect(response.results.map((r) => [r.input, r.status])).toEqual([
+      ["bad", "invalid"],
+      [" 123 ", "invalid"],
+    ]);
+    expect(all.results).toEqual([{ input: "bad", status: "invalid", error: "NDC may contain only digits and hyphens" }]);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("dedupes across chunks in lookupAll", async () => {
+    const response = await client.ndc.lookupAll(["0069-0151-01", "00069015101", "12345-678-90"], {
+      normalize: true,
+      chunkSize: 1,
+    });
+
+    expect(api.requests).toHaveLength(2);
+    expect(response.results.map((r) => [r.input, r.status])).toEqual([
+      ["0069-0151-01", "ok"],
+      ["00069015101", "ok"],
+      ["12345-678-90", "not_found"],
+    ]);
+  });
+});
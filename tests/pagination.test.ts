@@ -0,0 +1,190 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Fhirfly } from "../src/index.js";
+import { ValidationError } from "../src/errors.js";
+
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+function pageResponse(
+  page: number,
+  items: unknown[],
+  { hasMore = true, total = 1000, totalCapped = false } = {}
+) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers(),
+    json: () =>
+      Promise.resolve({
+        items,
+        total,
+        total_capped: totalCapped,
+        has_more: hasMore,
+        page,
+        limit: items.length,
+        facets: {},
+        meta: {
+          legal: {
+            license: "public_domain",
+            source_name: "FHIRfly",
+            citation: "FHIRfly API",
+            attribution_required: false,
+          },
+        },
+      }),
+  };
+}
+
+function snomedResponse(results: unknown[]) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: new Headers(),
+    json: () =>
+      Promise.resolve({
+        count: results.length,
+        results,
+        meta: {
+          legal: {
+            license: "CC BY 4.0",
+            attribution_required: true,
+            source_name: "SNOMED CT IPS",
+            citation: "SNOMED International",
+          },
+        },
+      }),
+  };
+}
+
+function pageOf(url: string): number {
+  return Number(new URL(url).searchParams.get("page"));
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+describe("Search pagination", () => {
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    client = new Fhirfly({ apiKey: "test-key" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("searchAll", () => {
+    it("walks pages until has_more is false", async () => {
+      mockFetch
+        .mockResolvedValueOnce(pageResponse(1, [{ ndc: "1" }, { ndc: "2" }]))
+        .mockResolvedValueOnce(pageResponse(2, [{ ndc: "3" }], { hasMore: false }));
+
+      const items = await collect(client.ndc.searchAll({ q: "advil" }, { limit: 2 }));
+
+      expect(items.map((i) => i.ndc)).toEqual(["1", "2", "3"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [firstUrl] = mockFetch.mock.calls[0]!;
+      const [secondUrl] = mockFetch.mock.calls[1]!;
+      expect(firstUrl).toContain("q=advil");
+      expect(firstUrl).toContain("limit=2");
+      expect(pageOf(firstUrl)).toBe(1);
+      expect(pageOf(secondUrl)).toBe(2);
+    });
+
+    it("stops at maxItems without fetching further pages", async () => {
+      mockFetch.mockImplementation(async (url: string) =>
+        pageResponse(pageOf(url), [{ npi: "a" }, { npi: "b" }, { npi: "c" }])
+      );
+
+      const items = await collect(client.npi.searchAll({ state: "CA" }, { maxItems: 4 }));
+
+      expect(items).toHaveLength(4);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not send pagination limits as query parameters", async () => {
+      mockFetch.mockResolvedValueOnce(pageResponse(1, [{ code: "E11.9" }], { hasMore: false }));
+
+      await collect(client.icd10.searchAll({ q: "diabetes" }, { maxItems: 5, maxPages: 2 }));
+
+      const [url] = mockFetch.mock.calls[0]!;
+      expect(url).not.toContain("maxItems");
+      expect(url).not.toContain("maxPages");
+    });
+
+    it("stops cleanly at the 100-page ceiling when the total is capped", async () => {
+      mockFetch.mockImplementation(async (url: string) =>
+        pageResponse(pageOf(url), [{ code: String(pageOf(url)) }], { total: 10000, totalCapped: true })
+      );
+
+      const items = await collect(client.loinc.searchAll({ q: "glucose" }, { page: 98 }));
+
+      expect(items.map((i) => i.code)).toEqual(["98", "99", "100"]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("stops on an empty page", async () => {
+      mockFetch.mockResolvedValueOnce(pageResponse(1, []));
+
+      const items = await collect(client.cvx.searchAll({ q: "flu" }));
+
+      expect(items).toEqual([]);
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it("rejects a starting page outside the server range", async () => {
+      await expect(collect(client.mvx.searchAll({}, { page: 101 }))).rejects.toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("searchPages", () => {
+    it("yields whole pages and honors maxPages", async () => {
+      mockFetch.mockImplementation(async (url: string) => pageResponse(pageOf(url), [{ rxcui: "1" }]));
+
+      const pages = await collect(client.rxnorm.searchPages({ q: "statin" }, { maxPages: 3 }));
+
+      expect(pages.map((p) => p.page)).toEqual([1, 2, 3]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("is lazy until iterated", async () => {
+      client.fdaLabels.searchPages({ q: "advil" });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("SNOMED offset pagination", () => {
+    it("advances skip by limit until a short page", async () => {
+      mockFetch
+        .mockResolvedValueOnce(snomedResponse([{ concept_id: "1" }, { concept_id: "2" }]))
+        .mockResolvedValueOnce(snomedResponse([{ concept_id: "3" }, { concept_id: "4" }]))
+        .mockResolvedValueOnce(snomedResponse([{ concept_id: "5" }]));
+
+      const items = await collect(client.snomed.searchAll({ q: "heart", limit: 2 }));
+
+      expect(items.map((c) => c.concept_id)).toEqual(["1", "2", "3", "4", "5"]);
+      const skips = mockFetch.mock.calls.map(([url]) => new URL(url).searchParams.get("skip"));
+      expect(skips).toEqual(["0", "2", "4"]);
+    });
+
+    it("defaults the page size to 100", async () => {
+      mockFetch.mockResolvedValueOnce(snomedResponse([]));
+
+      await collect(client.snomed.searchPages({ ips_category: "condition" }));
+
+      const [url] = mockFetch.mock.calls[0]!;
+      expect(url).toContain("limit=100");
+      expect(url).toContain("ips_category=condition");
+    });
+  });
+});
@@ -0,0 +1,199 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly, AbortError, ValidationError } from "../src/index.js";
+import { FakeFhirflyApi, faults } from "../src/testing/index.js";
+import type { NpiConnectivityData, NpiFull, SmaStateDetailResponse } from "../src/index.js";
+import { endpoint, target } from "./fixtures/connectivity.js";
+
+const NPI = "1234567893";
+
+const provider = {
+  npi: NPI,
+  entity_type: "individual",
+  name: { first: "Jane", last: "Doe" },
+  organization_name: null,
+  taxonomies: [
+    { code: "207R00000X", primary: true, classification: "Internal Medicine", specialization: null, display_name: "Internal Medicine" },
+  ],
+  practice_address: { city: "Boston", state: "MA" },
+  secondary_locations: [],
+  mailing_address: null,
+  enumeration_date: "2005-05-23",
+  last_update_date: "2024-01-10",
+  is_active: true,
+  is_sole_proprietor: null,
+  deactivation: null,
+  authorized_official: null,
+  other_identifiers: [],
+} satisfies NpiFull;
+
+const connectivity = {
+  npi: NPI,
+  provider_summary: { name: "Jane Doe", entity_type: "individual" },
+  connectivity_targets: [
+    {
+      target_id: "clinic",
+      name: "Back Bay Clinic",
+      type: "practice",
+      link_type: "practice_location",
+      link_confidence: "medium",
+      endpoints: [
+        endpoint("clinic-direct", { type: "direct", url: "jdoe@direct.example.org" }),
+        endpoint("clinic-sandbox", { scope: "sandbox" }),
+      ],
+    },
+    {
+      target_id: "mgb",
+      name: "Mass General Brigham",
+      type: "health_system",
+      link_type: "employed_by",
+      link_confidence: "high",
+      endpoints: [
+        endpoint("mgb-down", { status: "unreachable" }),
+        endpoint("mgb-fhir", { availability: { percentage: 99.2, probe_count: 10, last_checked: "2024-06-01", last_successful: "2024-06-01", consecutive_failures: 0 } }),
+      ],
+    },
+  ],
+  meta: { data_as_of: "2024-06-01", disclaimer: "" },
+} satisfies NpiConnectivityData;
+
+const massachusetts = {
+  id: "massachusetts",
+  state: "Massachusetts",
+  abbreviation: "MA",
+  api_vendor: "Example Vendor",
+  survey_date: null,
+  is_implemented: true,
+  patient_access: {
+    status: "live",
+    implementation_date: null,
+    fhir_version: "4.0.1",
+    auth_protocol: "SMART",
+    refresh_frequency: null,
+    endpoints: { claims: ["https://ma.example.gov/pa"], pdex: [], formulary: [], chip: [], capability_statement: [], sandbox: [] },
+  },
+  provider_directory: {
+    status: "live",
+    implementation_date: null,
+    fhir_version: "4.0.1",
+    is_public: true,
+    refresh_frequency: null,
+    endpoints: { production: ["https://ma.example.gov/pd"], capability_statement: [], sandbox: [] },
+  },
+  contacts: {
+    member_phone: null,
+    member_email: null,
+    developer_contact: null,
+    pd_developer_contact: null,
+    registration_info: null,
+    pd_registration_info: null,
+  },
+  all_production_urls: ["https://ma.example.gov/pa", "https://ma.example.gov/pd"],
+  meta: { data_as_of: "2024-06-01", source: "CMS", source_url: "", ingested_at: "2024-06-01" },
+} satisfies SmaStateDetailResponse;
+
+describe("providers.profile", () => {
+  let api: FakeFhirflyApi;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({
+      npi: { [NPI]: provider },
+      connectivity: { [NPI]: connectivity },
+      smaStates: { MA: massachusetts },
+    });
+  });
+
+  function client(): Fhirfly {
+    return new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, maxRetries: 0, telemetry: false });
+  }
+
+  it("combines demographics, ranked connectivity, and the practice state's SMA endpoints", async () => {
+    const profile = await client().providers.profile(NPI);
+
+    expect(profile.complete).toBe(true);
+    expect(profile.demographics).toEqual({ status: "ok", data: provider });
+    expect(profile.medicaid).toEqual({ status: "ok", data: massachusetts });
+    expect(api.requests.find((request) => request.path === `/v1/npi/${NPI}`)?.query.get("shape")).toBe("full");
+  });
+
+  it("ranks production FHIR R4 endpoints first, then Direct", async () => {
+    const { connectivity: section } = await client().providers.profile(NPI);
+
+    expect(section.data?.endpoints.map((e) => [e.endpoint_id, e.target_name])).toEqual([
+      ["mgb-fhir", "Mass General Brigham"],
+      ["mgb-down", "Mass General Brigham"],
+      ["clinic-direct", "Back Bay Clinic"],
+      ["clinic-sandbox", "Back Bay Clinic"],
+    ]);
+    expect(section.data?.targets.map((t) => [t.target_id, t.endpoints.map((e) => e.endpoint_id)])).toEqual([
+      ["mgb", ["mgb-fhir", "mgb-down"]],
+      ["clinic", ["clinic-direct", "clinic-sandbox"]],
+    ]);
+  });
+
+  it("ranks endpoints with fewer consecutive failures first when otherwise tied", async () => {
+    const availability = endpoint("x").availability!;
+    api.seed({
+      connectivity: {
+        [NPI]: {
+          ...connectivity,
+          connectivity_targets: [
+            target("flaky", "high", [endpoint("flaky-fhir", { availability: { ...availability, consecutive_failures: 3 } })]),
+            target("steady", "high", [endpoint("steady-fhir")]),
+          ],
+        },
+      },
+    });
+
+    const { connectivity: section } = await client().providers.profile(NPI);
+
+    expect(section.data?.endpoints.map((e) => e.endpoint_id)).toEqual(["steady-fhir", "flaky-fhir"]);
+    expect(section.data?.targets.map((t) => t.target_id)).toEqual(["steady", "flaky"]);
+  });
+
+  it("reports a failed section without failing the call", async () => {
+    api.fail(faults.serverError(503), { path: `/v1/npi/${NPI}/connectivity` });
+
+    const profile = await client().providers.profile(NPI);
+
+    expect(profile.complete).toBe(false);
+    expect(profile.connectivity.status).toBe("error");
+    expect(profile.connectivity.error).toBeTruthy();
+    expect(profile.demographics.status).toBe("ok");
+    expect(profile.medicaid.status).toBe("ok");
+  });
+
+  it("reports missing records as not_found and skips SMA without a practice state", async () => {
+    api = new FakeFhirflyApi({ npi: { [NPI]: { ...provider, practice_address: null } } });
+
+    const profile = await client().providers.profile(NPI);
+
+    expect(profile.complete).toBe(true);
+    expect(profile.connectivity).toEqual({ status: "not_found" });
+    expect(profile.medicaid).toEqual({ status: "skipped", error: "No practice state" });
+    expect(api.requests.some((request) => request.path.startsWith("/v1/sma"))).toBe(false);
+  });
+
+  it("skips SMA when demographics fail", async () => {
+    api.fail(faults.serverError(500), { path: /^\/v1\/npi\/\d+$/ });
+
+    const profile = await client().providers.profile(NPI);
+
+    expect(profile.demographics.status).toBe("error");
+    expect(profile.connectivity.status).toBe("ok");
+    expect(profile.medicaid).toEqual({ status: "skipped", error: "Demographics unavailable" });
+  });
+
+  it("rejects a malformed NPI without a request", async () => {
+    await expect(client().providers.profile("1234567890")).rejects.toThrow(ValidationError);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("fails as a whole when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client().providers.profile(NPI, { signal: controller.signal })).rejects.toThrow(AbortError);
+  });
+});
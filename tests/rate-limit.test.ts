@@ -0,0 +1,133 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Fhirfly, MemoryRateLimitStore, type RateLimitOptions } from "../src/index.js";
+import { AbortError, RateLimitError } from "../src/errors.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { CvxData } from "../src/index.js";
+
+const covid = {
+  code: "208",
+  display: "COVID-19, mRNA",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+} satisfies CvxData;
+
+describe("rate limiting", () => {
+  let api: FakeFhirflyApi;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    api = new FakeFhirflyApi({ cvx: { "208": covid } });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function client(rateLimit?: boolean | RateLimitOptions): Fhirfly {
+    return new Fhirfly({ apiKey: "test-key", fetch: api.fetch, maxRetries: 0, rateLimit });
+  }
+
+  it("reports usage from rate-limit headers", async () => {
+    api.rateLimit(100);
+    const fhirfly = client();
+
+    expect(await fhirfly.usage()).toBeNull();
+    await fhirfly.cvx.lookup("208");
+
+    expect(await fhirfly.usage()).toEqual({
+      limit: 100,
+      remaining: 99,
+      reset: new Date("2026-01-01T00:01:00Z"),
+      updatedAt: new Date("2026-01-01T00:00:00Z"),
+    });
+  });
+
+  it("sends every request immediately when pacing is off", async () => {
+    api.rateLimit(2);
+    const fhirfly = client();
+    await fhirfly.cvx.lookup("208");
+
+    const results = await Promise.allSettled([fhirfly.cvx.lookup("208"), fhirfly.cvx.lookup("208")]);
+
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(RateLimitError);
+    expect((await fhirfly.usage())?.remaining).toBe(0);
+  });
+
+  it("waits for the window to reset once the budget is spent", async () => {
+    api.rateLimit(3, { windowMs: 10_000 });
+    const fhirfly = client(true);
+    await fhirfly.cvx.lookup("208");
+
+    const pending = Promise.all([1, 2, 3, 4].map(() => fhirfly.cvx.lookup("208")));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(api.requests).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await pending;
+
+    expect(api.requests).toHaveLength(5);
+    expect((await fhirfly.usage())?.remaining).toBe(1);
+  });
+
+  it("stops waiting for the reset when the call is aborted", async () => {
+    api.rateLimit(1, { windowMs: 60_000 });
+    const fhirfly = client(true);
+    await fhirfly.cvx.lookup("208");
+
+    const controller = new AbortController();
+    const pending = fhirfly.cvx.lookup("208", { signal: controller.signal });
+    const settled = expect(pending).rejects.toThrow(AbortError);
+    await vi.advanceTimersByTimeAsync(1_000);
+    controller.abort();
+    await settled;
+
+    expect(api.requests).toHaveLength(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("spreads the remaining budget until the reset", async () => {
+    api.rateLimit(11, { windowMs: 10_000 });
+    const fhirfly = client({ burst: 1 });
+    await fhirfly.cvx.lookup("208");
+
+    // 10 requests left over 10 seconds, and the one burst token is spent: one per second
+    const pending = Promise.all([1, 2, 3].map(() => fhirfly.cvx.lookup("208")));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(api.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(api.requests).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(2_000);
+    await pending;
+    expect(api.requests).toHaveLength(4);
+  });
+
+  it("caps the rate with requestsPerSecond", async () => {
+    const fhirfly = client({ burst: 1, requestsPerSecond: 2 });
+
+    const pending = Promise.all([1, 2, 3].map(() => fhirfly.cvx.lookup("208")));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(api.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+    expect(api.requests).toHaveLength(3);
+  });
+
+  it("shares state through a store", async () => {
+    api.rateLimit(50);
+    const store = new MemoryRateLimitStore();
+    const first = client({ store });
+    const second = client({ store });
+
+    await first.cvx.lookup("208");
+    await second.cvx.lookup("208");
+
+    expect((await first.usage())?.remaining).toBe(48);
+    expect(await second.usage()).toEqual(await first.usage());
+  });
+});
@@ -0,0 +1,118 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { Fhirfly } from "../src/index.js";
+import { AbortError, ServerError, TimeoutError } from "../src/errors.js";
+import { FakeFhirflyApi, faults } from "../src/testing/index.js";
+import type { CvxData } from "../src/index.js";
+
+const covid = {
+  code: "208",
+  display: "COVID-19, mRNA",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+} satisfies CvxData;
+
+/**
+ * A fetch that never responds, rejecting like the platform fetch when aborted.
+ */
+const hangingFetch: typeof fetch = (_input, init) =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(new DOMException("This operation was aborted", "AbortError")));
+  });
+
+describe("request options", () => {
+  let api: FakeFhirflyApi;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ cvx: { "208": covid, "141": covid } });
+  });
+
+  function client(config: { fetch?: typeof fetch; retryDelay?: number } = {}): Fhirfly {
+    return new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 0, telemetry: false, ...config });
+  }
+
+  describe("signal", () => {
+    it("cancels an in-flight request with AbortError", async () => {
+      const controller = new AbortController();
+      const pending = client({ fetch: hangingFetch }).cvx.search({ q: "covid" }, { signal: controller.signal });
+
+      controller.abort("navigated away");
+
+      const error = await pending.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error).not.toBeInstanceOf(TimeoutError);
+      expect((error as AbortError).reason).toBe("navigated away");
+    });
+
+    it("does not send a request when already aborted", async () => {
+      await expect(
+        client().cvx.lookup("208", { signal: AbortSignal.abort() })
+      ).rejects.toThrow(AbortError);
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it("stops waiting between retries", async () => {
+      const controller = new AbortController();
+      api.fail(faults.serverError(503), { times: 3 });
+      const pending = client({ retryDelay: 60_000 }).cvx.lookup("208", { signal: controller.signal });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortError);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it("cancels the remaining chunks of lookupAll", async () => {
+      const controller = new AbortController();
+      const pending = client({ fetch: hangingFetch }).cvx.lookupAll(["208", "141"], {
+        chunkSize: 1,
+        signal: controller.signal,
+      });
+
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortError);
+    });
+  });
+
+  it("overrides the client timeout per call", async () => {
+    const error = await client({ fetch: hangingFetch }).cvx.lookup("208", { timeout: 10 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeoutMs).toBe(10);
+  });
+
+  it("overrides the client retry count per call", async () => {
+    api.fail(faults.serverError(503), { times: 2 });
+
+    await expect(client().cvx.lookup("208", { maxRetries: 0 })).rejects.toThrow(ServerError);
+    expect(api.requests).toHaveLength(1);
+  });
+
+  describe("idempotencyKey", () => {
+    it("is sent on every attempt", async () => {
+      api.fail(faults.serverError(503), { times: 1 });
+
+      await client().cvx.lookupMany(["208"], { idempotencyKey: "req-1" });
+
+      expect(api.requests.map((r) => r.headers["idempotency-key"])).toEqual(["req-1", "req-1"]);
+    });
+
+    it("is suffixed per chunk when one call sends several requests", async () => {
+      await client().cvx.lookupAll(["208", "141"], { chunkSize: 1, concurrency: 1, idempotencyKey: "req-1" });
+
+      expect(api.requests.map((r) => r.headers["idempotency-key"])).toEqual(["req-1:0", "req-1:1"]);
+    });
+  });
+
+  it("keeps request options out of search query strings", async () => {
+    await client().cvx.search({ q: "covid" }, { limit: 5, timeout: 5000, maxRetries: 1, idempotencyKey: "k" });
+
+    expect([...api.requests[0]!.query.keys()].sort()).toEqual(["limit", "q"]);
+  });
+});
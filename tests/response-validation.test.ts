@@ -0,0 +1,164 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { Fhirfly, ResponseValidationError, type SchemaDrift } from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+import type { CvxData, FhirflyConfig, NpiFull } from "../src/index.js";
+
+const covid = {
+  code: "208",
+  display: "COVID-19, mRNA",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+} satisfies CvxData;
+
+const provider = {
+  npi: "1234567893",
+  entity_type: "individual",
+  name: { first: "Jane", last: "Doe" },
+  organization_name: null,
+  taxonomies: [
+    { code: "207R00000X", primary: true, classification: "Internal Medicine", specialization: null, display_name: "Internal Medicine" },
+  ],
+  practice_address: { city: "Boston", state: "MA" },
+  secondary_locations: [],
+  mailing_address: null,
+  enumeration_date: "2005-05-23",
+  last_update_date: "2024-01-10",
+  is_active: true,
+  is_sole_proprietor: null,
+  deactivation: null,
+  authorized_official: null,
+  other_identifiers: [],
+} satisfies NpiFull;
+
+describe("response validation", () => {
+  let api: FakeFhirflyApi;
+  let drifts: SchemaDrift[];
+
+  beforeEach(() => {
+    drifts = [];
+    api = new FakeFhirflyApi({
+      cvx: { "208": covid },
+      npi: {
+        "1234567893": provider,
+        // Drifted: taxonomy code became a number, is_active went missing, a new field appeared
+        "1245319599": {
+          ...provider,
+          npi: "1245319599",
+          taxonomies: [{ ...provider.taxonomies[0]!, code: 207 }],
+          is_active: undefined,
+          pronouns: "they/them",
+        } as unknown as NpiFull,
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function client(config: Partial<FhirflyConfig> = {}): Fhirfly {
+    return new Fhirfly({
+      apiKey: "test-key",
+      fetch: api.fetch,
+      retryDelay: 0,
+      telemetry: false,
+      onSchemaDrift: (drift) => drifts.push(drift),
+      ...config,
+    } as FhirflyConfig);
+  }
+
+  it("is off by default", async () => {
+    const response = await client().npi.lookup("1245319599", { shape: "full" });
+
+    expect(response.data.npi).toBe("1245319599");
+    expect(drifts).toHaveLength(0);
+  });
+
+  it("accepts responses that match the SDK types", async () => {
+    const fhirfly = client({ validateResponses: "strict" });
+
+    await fhirfly.npi.lookup("1234567893", { shape: "full" });
+    await fhirfly.npi.lookupMany(["1234567893", "0000000000"], { shape: "full" });
+    await fhirfly.cvx.lookup("208");
+    await fhirfly.cvx.search({ q: "covid" }, { shape: "standard" });
+
+    expect(drifts).toHaveLength(0);
+  });
+
+  it("reports missing, extra, and mistyped fields with their JSON paths", async () => {
+    const response = await client({ validateResponses: "warn" }).npi.lookup("1245319599", { shape: "full" });
+
+    expect(response.data.npi).toBe("1245319599");
+    expect(drifts).toEqual([
+      {
+        method: "GET",
+        endpoint: "/v1/npi/1245319599?shape=full",
+        issues: [
+          { path: "$.data.taxonomies[0].code", kind: "type", expected: "string", received: "number" },
+          { path: "$.data.is_active", kind: "missing", expected: "boolean" },
+          { path: "$.data.pronouns", kind: "extra", received: "string" },
+        ],
+      },
+    ]);
+  });
+
+  it("checks against the requested shape", async () => {
+    await client({ validateResponses: "warn" }).cvx.lookup("208", { shape: "compact" });
+
+    expect(drifts[0]?.issues.map((issue) => [issue.path, issue.kind])).toEqual([
+      ["$.data.code_system", "extra"],
+      ["$.data.full_vaccine_name", "extra"],
+      ["$.data.is_covid_vaccine", "extra"],
+      ["$.data.vaccine_type", "extra"],
+    ]);
+  });
+
+  it("validates batch items", async () => {
+    await client({ validateResponses: "warn" }).npi.lookupMany(["1234567893", "1245319599"], { shape: "full" });
+
+    expect(drifts[0]?.endpoint).toBe("/v1/npi/_batch?shape=full");
+    expect(drifts[0]?.issues.map((issue) => issue.path)).toEqual([
+      "$.results[1].data.taxonomies[0].code",
+      "$.results[1].data.is_active",
+      "$.results[1].data.pronouns",
+    ]);
+  });
+
+  it("logs with console.warn when no callback is set", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await client({ validateResponses: "warn", onSchemaDrift: undefined }).npi.lookup("1245319599", { shape: "full" });
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0]?.[0]).toContain("$.data.taxonomies[0].code: expected string, received number");
+  });
+
+  it("throws ResponseValidationError in strict mode without retrying", async () => {
+    const error = await client({ validateResponses: "strict" })
+      .npi.lookup("1245319599", { shape: "full" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error).toMatchObject({
+      method: "GET",
+      endpoint: "/v1/npi/1245319599?shape=full",
+      issues: expect.arrayContaining([expect.objectContaining({ path: "$.data.is_active", kind: "missing" })]),
+    });
+    expect(drifts).toHaveLength(1);
+    expect(api.requests).toHaveLength(1);
+  });
+
+  it("does not cache responses that fail strict validation", async () => {
+    const fhirfly = client({ validateResponses: "strict", cache: true });
+
+    await expect(fhirfly.npi.lookup("1245319599", { shape: "full" })).rejects.toThrow(ResponseValidationError);
+    await expect(fhirfly.npi.lookup("1245319599", { shape: "full" })).rejects.toThrow(ResponseValidationError);
+
+    expect(api.requests).toHaveLength(2);
+  });
+});
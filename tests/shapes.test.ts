@@ -0,0 +1,132 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import {
+  Fhirfly,
+  isNdcCompact,
+  isNdcFull,
+  isNdcStandard,
+  isNpiFull,
+  isLoincStandard,
+  isCvxFull,
+  isMvxCompact,
+  isFdaLabelSearchStandard,
+  type ApiResponse,
+  type BatchResponse,
+  type LookupOptions,
+  type NdcData,
+  type NdcFull,
+  type NdcCompact,
+  type NpiFull,
+  type NpiStandard,
+  type SearchResponse,
+  type CvxData,
+  type CvxFull,
+  type MvxData,
+  type LoincData,
+  type NpiData,
+  type FdaLabelSearchData,
+  type FdaLabelSearchStandard,
+} from "../src/index.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+
+const ndcCompact: NdcCompact = {
+  ndc: "0069-0151-01",
+  type: "package",
+  name: "Lipitor",
+  generic: "atorvastatin",
+  labeler: "Pfizer",
+  active: true,
+};
+
+const ndcFull: NdcFull = {
+  ndc: "0069-0151-01",
+  type: "package",
+  brand_name: "Lipitor",
+  generic_name: "atorvastatin",
+  labeler_name: "Pfizer",
+  dosage_form: "TABLET",
+  route: ["ORAL"],
+  strength: "10 mg",
+  rxcui: ["617312"],
+  is_active: true,
+  marketing_category: "NDA",
+  application_number: "NDA020702",
+  product_type: "HUMAN PRESCRIPTION DRUG",
+  listing_expiration_date: null,
+  is_generic: false,
+  generic_basis: [],
+  active_ingredients: [{ name: "ATORVASTATIN CALCIUM", strength: "10", unit: "mg/1" }],
+  pharm_class: [],
+  dea_schedule: null,
+};
+
+const { active_ingredients: _ingredients, ...ndcStandardFields } = ndcFull;
+
+describe("response shapes", () => {
+  describe("typing", () => {
+    let api: FakeFhirflyApi;
+    let client: Fhirfly;
+
+    beforeEach(() => {
+      api = new FakeFhirflyApi({ ndc: { "0069-0151-01": ndcFull } });
+      client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, telemetry: false });
+    });
+
+    it("narrows lookups to the requested shape", async () => {
+      const response = await client.ndc.lookup("0069-0151-01", { shape: "full" });
+
+      expectTypeOf(response).toEqualTypeOf<ApiResponse<NdcFull>>();
+      expect(response.data.active_ingredients[0]?.name).toBe("ATORVASTATIN CALCIUM");
+    });
+
+    it("narrows batch lookups and search results", async () => {
+      expectTypeOf(client.npi.lookupMany<{ shape: "full" }>).returns.resolves.toEqualTypeOf<BatchResponse<NpiFull>>();
+      expectTypeOf(client.npi.lookupAll<{ shape: "standard"; concurrency: 2 }>).returns.resolves.toEqualTypeOf<
+        BatchResponse<NpiStandard>
+      >();
+      expectTypeOf(client.ndc.search<{ shape: "compact" }>).returns.resolves.toEqualTypeOf<SearchResponse<NdcCompact>>();
+      expectTypeOf(client.cvx.searchAll<{ shape: "full" }>).returns.toEqualTypeOf<AsyncIterable<CvxFull>>();
+      expectTypeOf(client.fdaLabels.search<{ shape: "standard" }>).returns.resolves.toEqualTypeOf<
+        SearchResponse<FdaLabelSearchStandard>
+      >();
+    });
+
+    it("falls back to every shape when the shape is not known statically", () => {
+      const options: LookupOptions = { shape: "full" };
+
+      expectTypeOf(client.ndc.lookup<typeof options>).returns.resolves.toEqualTypeOf<ApiResponse<NdcData>>();
+      expectTypeOf(client.ndc.lookup).returns.resolves.toEqualTypeOf<ApiResponse<NdcData>>();
+    });
+  });
+
+  describe("type guards", () => {
+    it("tell NDC shapes apart", () => {
+      expect([isNdcCompact(ndcCompact), isNdcStandard(ndcCompact), isNdcFull(ndcCompact)]).toEqual([true, false, false]);
+      expect([isNdcCompact(ndcStandardFields), isNdcStandard(ndcStandardFields), isNdcFull(ndcStandardFields)]).toEqual([
+        false,
+        true,
+        false,
+      ]);
+      expect([isNdcCompact(ndcFull), isNdcStandard(ndcFull), isNdcFull(ndcFull)]).toEqual([false, false, true]);
+    });
+
+    it("narrow the data type", () => {
+      const data = ndcFull as NdcData;
+      if (isNdcFull(data)) {
+        expectTypeOf(data).toEqualTypeOf<NdcFull>();
+        expect(data.active_ingredients).toHaveLength(1);
+      } else {
+        expect.unreachable();
+      }
+    });
+
+    it("check the distinguishing field of each code system", () => {
+      expect(isNpiFull({ npi: "1234567893", secondary_locations: [] } as unknown as NpiData)).toBe(true);
+      expect(isLoincStandard({ code: "2345-7", parts: {} } as unknown as LoincData)).toBe(true);
+      expect(isCvxFull({ code: "208", short_description: "COVID-19" } as unknown as CvxData)).toBe(true);
+      expect(isMvxCompact({ code: "PFR", display: "Pfizer", status: "Active" } as MvxData)).toBe(true);
+      expect(isFdaLabelSearchStandard({ spl_id: "x", substance_name: [] } as unknown as FdaLabelSearchData)).toBe(true);
+    });
+  });
+});
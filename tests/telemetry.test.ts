@@ -0,0 +1,208 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Fhirfly, type Middleware } from "../src/index.js";
+import { NotFoundError, QuotaExceededError } from "../src/errors.js";
+import { FakeFhirflyApi, faults } from "../src/testing/index.js";
+import type { CvxData } from "../src/index.js";
+
+const covid = {
+  code: "208",
+  display: "COVID-19, mRNA",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+} satisfies CvxData;
+
+interface RecordedSpan {
+  name: string;
+  parent?: string;
+  attributes: Record<string, string | number>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * Minimal stand-in for `@opentelemetry/api` that records spans and metrics.
+ */
+function fakeOpenTelemetry() {
+  const storage = new AsyncLocalStorage<RecordedSpan | undefined>();
+  const spans: RecordedSpan[] = [];
+  const metrics: { name: string; value: number; attributes: Record<string, string | number> }[] = [];
+
+  const wrap = (span: RecordedSpan) => ({
+    span,
+    setAttribute: (key: string, value: string | number) => void (span.attributes[key] = value),
+    setStatus: (status: { code: number; message?: string }) => void (span.status = status),
+    recordException: () => {},
+    end: () => void (span.ended = true),
+  });
+
+  const api = {
+    trace: {
+      getTracer: () => ({
+        startSpan(name: string, options: { attributes: Record<string, string | number> }) {
+          const span: RecordedSpan = { name, parent: storage.getStore()?.name, attributes: { ...options.attributes }, ended: false };
+          spans.push(span);
+          return wrap(span);
+        },
+      }),
+      getActiveSpan: () => {
+        const span = storage.getStore();
+        return span ? wrap(span) : undefined;
+      },
+      setSpan: (_context: unknown, span: { span: RecordedSpan }) => span.span,
+    },
+    context: {
+      active: () => storage.getStore(),
+      with: <T>(context: RecordedSpan | undefined, fn: () => T) => storage.run(context, fn),
+    },
+    metrics: {
+      getMeter: () => ({
+        createCounter: (name: string) => ({
+          add: (value: number, attributes: Record<string, string | number>) => metrics.push({ name, value, attributes }),
+        }),
+        createHistogram: (name: string) => ({
+          record: (value: number, attributes: Record<string, string | number>) => metrics.push({ name, value, attributes }),
+        }),
+      }),
+    },
+  };
+
+  return { api, spans, metrics };
+}
+
+describe("telemetry", () => {
+  let api: FakeFhirflyApi;
+  let otel: ReturnType<typeof fakeOpenTelemetry>;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ cvx: { "208": covid, "141": covid } });
+    otel = fakeOpenTelemetry();
+  });
+
+  function client(middleware: Middleware[] = []): Fhirfly {
+    return new Fhirfly({
+      apiKey: "test-key",
+      fetch: api.fetch,
+      retryDelay: 0,
+      middleware,
+      telemetry: { api: otel.api },
+    });
+  }
+
+  it("emits a span named after the method with call and HTTP attributes", async () => {
+    const rateLimitHeader: Middleware = async (request, next) => {
+      const response = await next(request);
+      const headers = new Headers(response.headers);
+      headers.set("x-ratelimit-remaining", "42");
+      return { ...response, headers };
+    };
+
+    await client([rateLimitHeader]).cvx.lookupMany(["208", "141"], { shape: "compact" });
+
+    expect(otel.spans).toEqual([
+      {
+        name: "cvx.lookupMany",
+        parent: undefined,
+        attributes: {
+          "fhirfly.operation": "cvx.lookupMany",
+          "fhirfly.code_system": "CVX",
+          "fhirfly.batch_size": 2,
+          "fhirfly.shape": "compact",
+          "http.request.method": "POST",
+          "fhirfly.retry_count": 0,
+          "http.response.status_code": 200,
+          "fhirfly.ratelimit.remaining": 42,
+        },
+        ended: true,
+      },
+    ]);
+    expect(otel.metrics).toEqual([
+      { name: "fhirfly.client.operation.duration", value: expect.any(Number), attributes: { "fhirfly.operation": "cvx.lookupMany" } },
+    ]);
+  });
+
+  it("never records codes", async () => {
+    await client().cvx.lookup("208");
+
+    const values = otel.spans.flatMap((span) => Object.values(span.attributes)).map(String);
+    expect(values.some((value) => value.includes("208"))).toBe(false);
+  });
+
+  it("records retries", async () => {
+    api.fail(faults.serverError(503), { times: 1 });
+
+    await client().cvx.lookup("208");
+
+    expect(otel.spans[0]?.attributes["fhirfly.retry_count"]).toBe(1);
+    expect(otel.metrics.filter((m) => m.name === "fhirfly.client.retries")).toHaveLength(1);
+  });
+
+  it("nests spans for methods that call other methods", async () => {
+    await client().cvx.lookupAll(["208", "141"], { chunkSize: 1 });
+
+    expect(otel.spans.map((span) => [span.name, span.parent])).toEqual([
+      ["cvx.lookupAll", undefined],
+      ["cvx.lookupMany", "cvx.lookupAll"],
+      ["cvx.lookupMany", "cvx.lookupAll"],
+    ]);
+  });
+
+  it("does not trace private helpers or the constructor", async () => {
+    const icd10 = (code: string, billable: boolean) => ({
+      code,
+      type: "cm",
+      display: code,
+      chapter: "4",
+      section: "E08-E13",
+      billable,
+      is_header: !billable,
+    });
+    api.seed({ icd10: { E11: icd10("E11", false), "E11.9": icd10("E11.9", true) } });
+    const fhirfly = client();
+
+    await fhirfly.icd10.descendants("E11");
+
+    expect(otel.spans.map((span) => [span.name, span.parent])).toEqual([
+      ["icd10.descendants", undefined],
+      ["icd10.lookup", "icd10.descendants"],
+      ["icd10.search", "icd10.descendants"],
+    ]);
+    expect(fhirfly.icd10.constructor.name).toBe("Icd10Endpoint");
+  });
+
+  it("traces each page of a search iterator", async () => {
+    const pages = [];
+    for await (const page of client().cvx.searchPages({ status: "active" }, { limit: 1 })) pages.push(page);
+
+    expect(otel.spans.map((span) => span.name)).toEqual(pages.map(() => "cvx.search"));
+  });
+
+  it("marks failed calls and counts quota errors", async () => {
+    await expect(client().cvx.lookup("999")).rejects.toThrow(NotFoundError);
+    expect(otel.spans[0]).toMatchObject({
+      status: { code: 2 },
+      attributes: { "error.type": "NotFoundError", "http.response.status_code": 404 },
+      ended: true,
+    });
+
+    api.fail(faults.quotaExceeded());
+    await expect(client().cvx.lookup("208")).rejects.toThrow(QuotaExceededError);
+    expect(otel.metrics.filter((m) => m.name === "fhirfly.client.quota_exceeded")).toEqual([
+      { name: "fhirfly.client.quota_exceeded", value: 1, attributes: { "fhirfly.operation": "cvx.lookup", "error.type": "QuotaExceededError" } },
+    ]);
+  });
+
+  it("is a no-op when @opentelemetry/api is not installed", async () => {
+    const plain = new Fhirfly({ apiKey: "test-key", fetch: api.fetch });
+
+    const response = await plain.cvx.lookup("208");
+
+    expect(response.data.code).toBe("208");
+    expect(otel.spans).toHaveLength(0);
+  });
+});
@@ -0,0 +1,262 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Fhirfly, type CvxData } from "../src/index.js";
+import { FakeFhirflyApi, faults, createRecordingFetch } from "../src/testing/index.js";
+import {
+  AuthenticationError,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+} from "../src/errors.js";
+
+const covid: CvxData = {
+  code: "208",
+  display: "COVID-19, mRNA, LNP-S, PF, 30 mcg/0.3 mL dose",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "SARS-COV-2 (COVID-19) vaccine, mRNA",
+  is_covid_vaccine: true,
+  vaccine_type: "mRNA",
+};
+
+const flu: CvxData = {
+  code: "141",
+  display: "Influenza, seasonal, injectable",
+  status: "active",
+  code_system: "CVX",
+  full_vaccine_name: "Influenza virus vaccine",
+  is_covid_vaccine: false,
+  vaccine_type: "inactivated",
+};
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+describe("FakeFhirflyApi", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi({ cvx: { "208": covid, "141": flu } });
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, retryDelay: 1 });
+  });
+
+  it("serves single lookups from fixtures", async () => {
+    const result = await client.cvx.lookup("208");
+
+    expect(result.data).toEqual(covid);
+    expect(api.requests[0]?.path).toBe("/v1/cvx/208");
+    expect(api.requests[0]?.headers["x-api-key"]).toBe("test-key");
+  });
+
+  it("returns 404 for unknown codes", async () => {
+    await expect(client.cvx.lookup("999")).rejects.toThrow(NotFoundError);
+  });
+
+  it("serves batch lookups with not_found entries", async () => {
+    const result = await client.cvx.lookupMany(["208", "999"]);
+
+    expect(result.results.map((r) => r.status)).toEqual(["ok", "not_found"]);
+    expect(api.requests[0]?.body).toEqual({ codes: ["208", "999"] });
+  });
+
+  it("filters and pages search results", async () => {
+    const items = await collect(client.cvx.searchAll({ q: "covid" }, { limit: 1 }));
+    expect(items.map((i) => i.code)).toEqual(["208"]);
+
+    const all = await collect(client.cvx.searchAll({ status: "active" }, { limit: 1 }));
+    expect(all).toHaveLength(2);
+    expect(api.requests.at(-1)?.query.get("page")).toBe("2");
+  });
+
+  it("issues tokens for OAuth clients", async () => {
+    const oauth = new Fhirfly({ clientId: "id", clientSecret: "secret", fetch: api.fetch });
+
+    await oauth.cvx.lookup("208");
+
+    expect(api.requests.map((r) => r.path)).toEqual(["/oauth2/token", "/v1/cvx/208"]);
+    expect(api.requests[1]?.headers["authorization"]).toBe("Bearer fake-access-token");
+  });
+
+  it("seeds additional fixtures", async () => {
+    api.seed({ mvx: { PFR: { code: "PFR", display: "Pfizer, Inc", status: "active" } as never } });
+
+    await expect(client.mvx.lookup("PFR")).resolves.toBeDefined();
+    await expect(client.cvx.lookup("208")).resolves.toBeDefined();
+  });
+
+  it("loads fixtures from a JSON file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "fhirfly-fake-"));
+    try {
+      const file = join(dir, "fixtures.json");
+      await writeFile(file, JSON.stringify({ cvx: { "208": covid } }));
+
+      const fromFile = await FakeFhirflyApi.fromFile(file);
+      const fileClient = new Fhirfly({ apiKey: "test-key", fetch: fromFile.fetch });
+
+      expect((await fileClient.cvx.lookup("208")).data.code).toBe("208");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("replaces and restores the global fetch", async () => {
+    const previous = globalThis.fetch;
+    const restore = api.install();
+    try {
+      const globalClient = new Fhirfly({ apiKey: "test-key" });
+      await globalClient.cvx.lookup("141");
+      expect(api.requests).toHaveLength(1);
+    } finally {
+      restore();
+    }
+    expect(globalThis.fetch).toBe(previous);
+  });
+
+  describe("faults", () => {
+    it("raises AuthenticationError", async () => {
+      api.fail(faults.unauthorized());
+      await expect(client.cvx.lookup("208")).rejects.toThrow(AuthenticationError);
+    });
+
+    it("raises RateLimitError with retryAfter", async () => {
+      const noRetry = new Fhirfly({ apiKey: "test-key", fetch: api.fetch, maxRetries: 0 });
+      api.fail(faults.rateLimit(30));
+
+      const error = await noRetry.cvx.lookup("208").catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(30);
+    });
+
+    it("raises QuotaExceededError", async () => {
+      api.fail(faults.quotaExceeded());
+      await expect(client.cvx.lookup("208")).rejects.toThrow(QuotaExceededError);
+    });
+
+    it("raises ServerError once retries are exhausted", async () => {
+      api.fail(faults.serverError(503), { times: 4 });
+      await expect(client.cvx.lookup("208")).rejects.toThrow(ServerError);
+      expect(api.requests).toHaveLength(4);
+    });
+
+    it("recovers when a transient failure clears", async () => {
+      api.fail(faults.serverError(502), { times: 1 });
+      await expect(client.cvx.lookup("208")).resolves.toBeDefined();
+      expect(api.requests).toHaveLength(2);
+    });
+
+    it("only fails matching paths", async () => {
+      api.fail(faults.notFound(), { path: "/v1/ndc" });
+      await expect(client.cvx.lookup("208")).resolves.toBeDefined();
+    });
+
+    it("clears pending faults on reset", async () => {
+      api.fail(faults.unauthorized());
+      api.reset();
+      await expect(client.cvx.lookup("208")).resolves.toBeDefined();
+      expect(api.requests).toHaveLength(1);
+    });
+  });
+});
+
+describe("createRecordingFetch", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "fhirfly-rec-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records responses and replays them offline", async () => {
+    const api = new FakeFhirflyApi({ cvx: { "208": covid } });
+    const recorder = new Fhirfly({
+      apiKey: "secret-key",
+      fetch: createRecordingFetch({ mode: "record", dir, fetch: api.fetch }),
+    });
+    const recorded = await recorder.cvx.lookup("208");
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+
+    const replayer = new Fhirfly({
+      apiKey: "other-key",
+      fetch: createRecordingFetch({ mode: "replay", dir, fetch: api.fetch }),
+    });
+    const replayed = await replayer.cvx.lookup("208");
+
+    expect(replayed).toEqual(recorded);
+    expect(api.requests).toHaveLength(1);
+  });
+
+  it("does not store credentials", async () => {
+    const api = new FakeFhirflyApi({ cvx: { "208": covid } });
+    const recorder = new Fhirfly({
+      apiKey: "secret-key",
+      fetch: createRecordingFetch({ mode: "record", dir, fetch: api.fetch }),
+    });
+    await recorder.cvx.lookup("208");
+
+    const [file] = await readdir(dir);
+    expect(await readFile(join(dir, file!), "utf8")).not.toContain("secret-key");
+  });
+
+  it("redacts OAuth2 client credentials and tokens", async () => {
+    const api = new FakeFhirflyApi({ cvx: { "208": covid } });
+    const recorder = new Fhirfly({
+      clientId: "client-id",
+      clientSecret: "client-secret",
+      fetch: createRecordingFetch({ mode: "record", dir, fetch: api.fetch }),
+    });
+    const recorded = await recorder.cvx.lookup("208");
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(2);
+    for (const file of files) {
+      const text = await readFile(join(dir, file), "utf8");
+      expect(text).not.toContain("client-secret");
+      expect(text).not.toContain("client-id");
+      expect(text).not.toContain("fake-access-token");
+    }
+
+    const replayer = new Fhirfly({
+      clientId: "other-id",
+      clientSecret: "other-secret",
+      fetch: createRecordingFetch({ mode: "replay", dir }),
+    });
+    expect(await replayer.cvx.lookup("208")).toEqual(recorded);
+  });
+
+  it("throws in replay mode when no recording exists", async () => {
+    const replayer = new Fhirfly({
+      apiKey: "test-key",
+      maxRetries: 0,
+      fetch: createRecordingFetch({ mode: "replay", dir }),
+    });
+
+    await expect(replayer.cvx.lookup("208")).rejects.toThrow(/No recording/);
+  });
+
+  it("records missing responses in auto mode", async () => {
+    const api = new FakeFhirflyApi({ cvx: { "208": covid } });
+    const auto = new Fhirfly({
+      apiKey: "test-key",
+      fetch: createRecordingFetch({ mode: "auto", dir, fetch: api.fetch }),
+    });
+
+    await auto.cvx.lookup("208");
+    await auto.cvx.lookup("208");
+
+    expect(api.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,162 @@
+// Copyright 2026 FHIRfly.io LLC. All rights reserved.
+// Licensed under the MIT License. See LICENSE file in the project root.
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  Fhirfly,
+  validateNpi,
+  validateIcd10,
+  validateIcd10Cm,
+  validateIcd10Pcs,
+  validateLoinc,
+  validateSnomed,
+  validateCvx,
+  validateMvx,
+  validateRxcui,
+  validateHcpcs,
+  validateNdc,
+} from "../src/index.js";
+import { ValidationError } from "../src/errors.js";
+import { FakeFhirflyApi } from "../src/testing/index.js";
+
+describe("validators", () => {
+  it("checks the NPI Luhn digit with the 80840 prefix", () => {
+    expect(validateNpi("1234567893")).toEqual({ valid: true });
+    expect(validateNpi(" 1234567893 ").valid).toBe(true);
+    expect(validateNpi("1234567890")).toEqual({ valid: false, reason: "NPI check digit does not match" });
+    expect(validateNpi("123456789")).toEqual({ valid: false, reason: "NPI must be 10 digits" });
+  });
+
+  it("checks ICD-10-CM structure", () => {
+    for (const code of ["E11.9", "E119", "S72.001A", "Z3A.01", "i10", "A00"]) {
+      expect(validateIcd10Cm(code).valid, code).toBe(true);
+    }
+    for (const code of ["E1", "11.9", "E11.", "E11.12345", "E11-9"]) {
+      expect(validateIcd10Cm(code).valid, code).toBe(false);
+    }
+  });
+
+  it("checks ICD-10-PCS structure", () => {
+    expect(validateIcd10Pcs("02HA0QZ").valid).toBe(true);
+    expect(validateIcd10Pcs("02HA0Q")).toEqual({ valid: false, reason: "ICD-10-PCS code must be 7 characters" });
+    expect(validateIcd10Pcs("02HI0QZ").valid).toBe(false);
+    expect(validateIcd10Pcs("02HA0OZ").valid).toBe(false);
+  });
+
+  it("accepts either ICD-10 code system", () => {
+    expect(validateIcd10("E11.9").valid).toBe(true);
+    expect(validateIcd10("02HA0QZ").valid).toBe(true);
+    expect(validateIcd10("XYZ")).toEqual({ valid: false, reason: "Not a valid ICD-10-CM or ICD-10-PCS code" });
+  });
+
+  it("checks the LOINC mod-10 check digit", () => {
+    expect(validateLoinc("2345-7").valid).toBe(true);
+    expect(validateLoinc("718-7").valid).toBe(true);
+    expect(validateLoinc("2345-6")).toEqual({ valid: false, reason: "LOINC check digit does not match" });
+    expect(validateLoinc("23457").valid).toBe(false);
+  });
+
+  it("checks the SNOMED CT partition and Verhoeff check digit", () => {
+    for (const id of ["73211009", "84114007", "22298006", "38341003"]) {
+      expect(validateSnomed(id).valid, id).toBe(true);
+    }
+    expect(validateSnomed("73211008")).toEqual({ valid: false, reason: "SNOMED CT check digit does not match" });
+    expect(validateSnomed("12345017")).toEqual({
+      valid: false,
+      reason: "SNOMED CT partition 01 is not a concept identifier",
+    });
+    expect(validateSnomed("073211009").valid).toBe(false);
+    expect(validateSnomed("12345").valid).toBe(false);
+  });
+
+  it("checks CVX, MVX, RxCUI, and HCPCS forms", () => {
+    expect(validateCvx("208").valid).toBe(true);
+    expect(validateCvx("03").valid).toBe(true);
+    expect(validateCvx("2080").valid).toBe(false);
+    expect(validateMvx("pfr").valid).toBe(true);
+    expect(validateMvx("P1").valid).toBe(false);
+    expect(validateRxcui("213269").valid).toBe(true);
+    expect(validateRxcui("RX123").valid).toBe(false);
+    expect(validateHcpcs("99213").valid).toBe(true);
+    expect(validateHcpcs("j3490").valid).toBe(true);
+    expect(validateHcpcs("992").valid).toBe(false);
+    expect(validateHcpcs("99213-25").valid).toBe(false);
+  });
+
+  it("treats ambiguous NDCs as well formed", () => {
+    expect(validateNdc("0069015101").valid).toBe(true);
+    expect(validateNdc("069-0151-01").valid).toBe(false);
+  });
+});
+
+describe("prevalidate option", () => {
+  let api: FakeFhirflyApi;
+  let client: Fhirfly;
+
+  beforeEach(() => {
+    api = new FakeFhirflyApi();
+    client = new Fhirfly({ apiKey: "test-key", fetch: api.fetch });
+  });
+
+  it("returns malformed codes as invalid without sending them", async () => {
+    const response = await client.npi.lookupMany(["1234567890", "1234567893", "abc"], { prevalidate: true });
+
+    expect(api.requests[0]?.body).toEqual({ codes: ["1234567893"] });
+    expect(response.count).toBe(3);
+    expect(response.results).toEqual([
+      { input: "1234567890", status: "invalid", error: "NPI check digit does not match" },
+      { input: "1234567893", status: "not_found" },
+      { input: "abc", status: "invalid", error: "NPI must be 10 digits" },
+    ]);
+  });
+
+  it("sends every code when the option is off", async () => {
+    await client.npi.lookupMany(["1234567890", "abc"]);
+
+    expect(api.requests[0]?.body).toEqual({ codes: ["1234567890", "abc"] });
+  });
+
+  it("returns invalid items without a request when no code is well formed", async () => {
+    const response = await client.loinc.lookupMany(["2345-6", "abc"], { prevalidate: true });
+
+    expect(response.count).toBe(2);
+    expect(response.results.map((r) => [r.input, r.status])).toEqual([
+      ["2345-6", "invalid"],
+      ["abc", "invalid"],
+    ]);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("returns invalid items without a request from lookupAll when no code is well formed", async () => {
+    const npis = await client.npi.lookupAll(["1234567890", "abc"], { prevalidate: true, chunkSize: 1 });
+    const snomed = await client.snomed.lookupAll(["73211008"], { prevalidate: true });
+
+    expect(npis.results).toEqual([
+      { input: "1234567890", status: "invalid", error: "NPI check digit does not match" },
+      { input: "abc", status: "invalid", error: "NPI must be 10 digits" },
+    ]);
+    expect(snomed.results[0]).toMatchObject({ concept_id: "73211008", status: "invalid" });
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it("still rejects an empty code list", async () => {
+    await expect(client.loinc.lookupMany([], { prevalidate: true })).rejects.toThrow(ValidationError);
+  });
+
+  it("keeps endpoint-specific result fields", async () => {
+    const snomed = await client.snomed.lookupMany(["73211009", "73211008"], { prevalidate: true });
+    expect(snomed.results[1]).toMatchObject({ concept_id: "73211008", status: "invalid" });
+
+    const mue = await client.claims.lookupMueMany(["99213", "99"], { prevalidate: true });
+    expect(mue.results[1]).toMatchObject({ hcpcs_code: "99", status: "invalid" });
+  });
+
+  it("prevalidates before chunking in lookupAll", async () => {
+    const response = await client.icd10.lookupAll(["E11.9", "bad", "I10", "02HA0QZ"], {
+      prevalidate: true,
+      chunkSize: 2,
+    });
+
+    expect(api.requests.map((r) => r.body)).toEqual([{ codes: ["E11.9", "I10"] }, { codes: ["02HA0QZ"] }]);
+    expect(response.results.map((r) => r.status)).toEqual(["not_found", "invalid", "not_found", "not_found"]);
+  });
+});
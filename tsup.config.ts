@@ -3,7 +3,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    testing: "src/testing/index.ts",
+    cli: "src/cli/index.ts",
+  },
   format: ["cjs", "esm"],
   dts: true,
   clean: true,